@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Search, XCircle } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import { readActorCookie, setActorCookie } from "@/lib/auditClient";
+import type { AbandonedSession, ForceCloseResult } from "@/lib/abandonedSessions";
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+function formatIdle(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / (60 * 24))}d`;
+}
+
+export default function AbandonedSessionsPage() {
+  const [adminToken, setAdminToken] = useState("");
+  const [actorName, setActorName] = useState("");
+  const [olderThanMinutes, setOlderThanMinutes] = useState("60");
+  const [sessions, setSessions] = useState<AbandonedSession[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [results, setResults] = useState<ForceCloseResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActorName(readActorCookie() ?? "");
+  }, []);
+
+  const handleActorNameChange = (name: string) => {
+    setActorName(name);
+    setActorCookie(name.trim());
+  };
+
+  const loadSessions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ olderThanMinutes });
+      const res = await fetch(`/api/admin/abandoned-sessions?${params}`, {
+        headers: { "x-admin-reset-token": adminToken },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load abandoned sessions");
+      }
+
+      setSessions(data.sessions);
+      setSelected(new Set());
+    } catch (e) {
+      console.error("Failed to load abandoned sessions:", e);
+      setError(e instanceof Error ? e.message : "Failed to load abandoned sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForceClose = async () => {
+    const sessionIds = selected.size > 0 ? [...selected] : undefined;
+    const count = sessionIds?.length ?? sessions?.length ?? 0;
+    if (!confirm(`Close ${count} session(s) and score them as incomplete?`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/abandoned-sessions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-reset-token": adminToken,
+        },
+        body: JSON.stringify({ olderThanMinutes: Number(olderThanMinutes), sessionIds }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to close sessions");
+      }
+
+      setResults(data.results);
+      await loadSessions();
+    } catch (e) {
+      console.error("Failed to close sessions:", e);
+      setError(e instanceof Error ? e.message : "Failed to close sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (sessionId: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(sessionId)) next.delete(sessionId);
+      else next.add(sessionId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="max-w-[1400px] mx-auto space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold">Abandoned Sessions</h1>
+        <p className="text-white/70 text-sm">
+          Started sessions nobody has touched for a while. Closing one ends it and scores it as
+          incomplete (kept off the leaderboard).{" "}
+          <Link href="/admin" className="underline hover:text-white">
+            Back to tracker
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Admin token</label>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              placeholder="ADMIN_RESET_TOKEN"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Record my changes as (saved in this browser)
+            </label>
+            <input
+              type="text"
+              value={actorName}
+              onChange={(e) => handleActorNameChange(e.target.value)}
+              placeholder="Your name"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Idle for at least (minutes)</label>
+            <input
+              type="number"
+              min={1}
+              value={olderThanMinutes}
+              onChange={(e) => setOlderThanMinutes(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <BrandButton onClick={loadSessions} disabled={!adminToken || loading} variant="cobalt">
+          <Search size={16} /> {loading ? "Loading..." : "Find sessions"}
+        </BrandButton>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {results && (
+        <div className="rounded-md border border-emerald-400/30 bg-emerald-500/10 p-3 text-sm text-emerald-200 space-y-1">
+          <p>Closed {results.filter((r) => r.closed).length} of {results.length} session(s)</p>
+          {results
+            .filter((r) => !r.closed)
+            .map((r) => (
+              <p key={r.sessionId} className="text-red-300 font-mono text-xs">
+                {r.sessionId}: {r.error}
+              </p>
+            ))}
+        </div>
+      )}
+
+      {sessions && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-400">
+              {sessions.length} session(s) idle for {olderThanMinutes}+ minutes
+            </p>
+            {sessions.length > 0 && (
+              <BrandButton onClick={handleForceClose} disabled={loading} variant="red">
+                <XCircle size={16} /> Force close {selected.size > 0 ? `${selected.size} selected` : "all"}
+              </BrandButton>
+            )}
+          </div>
+          {sessions.length > 0 && (
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="py-1 w-6" />
+                  <th className="py-1">Session</th>
+                  <th className="py-1">Trainee</th>
+                  <th className="py-1">Persona</th>
+                  <th className="py-1">State</th>
+                  <th className="py-1">Messages</th>
+                  <th className="py-1">Last activity</th>
+                  <th className="py-1">Idle</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-200">
+                {sessions.map((session) => (
+                  <tr key={session.sessionId} className="border-t border-white/10">
+                    <td className="py-1.5 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(session.sessionId)}
+                        onChange={() => toggleSelected(session.sessionId)}
+                      />
+                    </td>
+                    <td className="py-1.5 pr-3 font-mono">
+                      {session.sessionId.slice(0, 8)}
+                      {session.paused && <span className="ml-2 text-amber-300">paused</span>}
+                    </td>
+                    <td className="py-1.5 pr-3">{session.traineeNameShort ?? "—"}</td>
+                    <td className="py-1.5 pr-3">{session.personaId ?? "—"}</td>
+                    <td className="py-1.5 pr-3">{session.currentState}</td>
+                    <td className="py-1.5 pr-3">{session.traineeMessages}</td>
+                    <td className="py-1.5 pr-3 whitespace-nowrap">
+                      {new Date(session.lastActivityAt).toLocaleString()}
+                    </td>
+                    <td className="py-1.5">{formatIdle(session.idleMinutes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Search, ChevronDown, ChevronRight } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import { AUDIT_ACTIONS, readActorCookie, setActorCookie } from "@/lib/auditClient";
+import type { AuditEntry } from "@/lib/auditLog";
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+const PAGE_SIZE = 50;
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function AuditEntryRow({ entry }: { entry: AuditEntry }) {
+  const [expanded, setExpanded] = useState(false);
+  const diff = Object.entries(entry.diff ?? {});
+
+  return (
+    <>
+      <tr
+        className="border-t border-white/10 cursor-pointer hover:bg-white/5"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <td className="py-1.5 pr-2 text-gray-400">
+          {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </td>
+        <td className="py-1.5 pr-3 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+        <td className="py-1.5 pr-3">
+          {entry.actor.name}
+          <span className="text-gray-500"> · {entry.actor.via}</span>
+        </td>
+        <td className="py-1.5 pr-3 font-mono">{entry.action}</td>
+        <td className="py-1.5 pr-3">
+          {entry.target.type}
+          {entry.target.id && <span className="text-gray-400 font-mono"> {entry.target.id}</span>}
+        </td>
+        <td className="py-1.5 text-gray-400">
+          {diff.length > 0 ? `${diff.length} field(s) changed` : entry.details ? "bulk" : "—"}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-black/20">
+          <td />
+          <td colSpan={5} className="py-2 pr-2 space-y-2">
+            {diff.length > 0 && (
+              <table className="w-full text-left text-xs">
+                <thead className="text-gray-400 uppercase tracking-wider">
+                  <tr>
+                    <th className="py-1 w-40">Field</th>
+                    <th className="py-1">Before</th>
+                    <th className="py-1">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.map(([field, change]) => (
+                    <tr key={field} className="border-t border-white/10 align-top">
+                      <td className="py-1 font-mono">{field}</td>
+                      <td className="py-1 text-red-300">
+                        <pre className="whitespace-pre-wrap max-h-40 overflow-auto">{formatValue(change.before)}</pre>
+                      </td>
+                      <td className="py-1 text-lime-300">
+                        <pre className="whitespace-pre-wrap max-h-40 overflow-auto">{formatValue(change.after)}</pre>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {entry.details && (
+              <pre className="max-h-48 overflow-auto rounded-md bg-black/30 p-3 text-xs text-gray-300">
+                {JSON.stringify(entry.details, null, 2)}
+              </pre>
+            )}
+            {entry.actor.ip && <p className="text-xs text-gray-500">IP {entry.actor.ip}</p>}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export default function AuditLogPage() {
+  const [adminToken, setAdminToken] = useState("");
+  const [actorName, setActorName] = useState("");
+  const [action, setAction] = useState("");
+  const [actor, setActor] = useState("");
+  const [targetType, setTargetType] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [since, setSince] = useState("");
+  const [until, setUntil] = useState("");
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [totalMatched, setTotalMatched] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActorName(readActorCookie() ?? "");
+  }, []);
+
+  const handleActorNameChange = (name: string) => {
+    setActorName(name);
+    setActorCookie(name.trim());
+  };
+
+  const loadEntries = async (cursor: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (action) params.set("action", action);
+      if (actor) params.set("actor", actor);
+      if (targetType) params.set("targetType", targetType);
+      if (targetId) params.set("targetId", targetId);
+      if (since) params.set("since", new Date(since).toISOString());
+      if (until) params.set("until", new Date(until).toISOString());
+      if (cursor) params.set("cursor", cursor);
+
+      const res = await fetch(`/api/admin/audit?${params}`, {
+        headers: { "x-admin-reset-token": adminToken },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load audit log");
+      }
+
+      setEntries((previous) => (cursor ? [...previous, ...data.entries] : data.entries));
+      setTotalMatched(data.totalMatched);
+      setNextCursor(data.nextCursor);
+    } catch (e) {
+      console.error("Failed to load audit log:", e);
+      setError(e instanceof Error ? e.message : "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-[1400px] mx-auto space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold">Audit Log</h1>
+        <p className="text-white/70 text-sm">
+          Who archived, reset, imported or reconfigured what, and when.{" "}
+          <Link href="/admin" className="underline hover:text-white">
+            Back to tracker
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Admin token</label>
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(e) => setAdminToken(e.target.value)}
+            placeholder="ADMIN_RESET_TOKEN"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">
+            Record my changes as (saved in this browser)
+          </label>
+          <input
+            type="text"
+            value={actorName}
+            onChange={(e) => handleActorNameChange(e.target.value)}
+            placeholder="Your name"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Filter Bar */}
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Action</label>
+            <select value={action} onChange={(e) => setAction(e.target.value)} className={inputClass}>
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Actor</label>
+            <input value={actor} onChange={(e) => setActor(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Target type</label>
+            <input
+              value={targetType}
+              onChange={(e) => setTargetType(e.target.value)}
+              placeholder="persona, prompt_bundle..."
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Target ID</label>
+            <input value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Since</label>
+            <input
+              type="datetime-local"
+              value={since}
+              onChange={(e) => setSince(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Until</label>
+            <input
+              type="datetime-local"
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <BrandButton onClick={() => loadEntries(null)} disabled={!adminToken || loading} variant="cobalt">
+          <Search size={16} /> {loading ? "Loading..." : "Search"}
+        </BrandButton>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {totalMatched !== null && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+          <p className="text-sm text-gray-400">
+            Showing {entries.length} of {totalMatched} entries
+          </p>
+          {entries.length > 0 && (
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="py-1 w-6" />
+                  <th className="py-1">When</th>
+                  <th className="py-1">Actor</th>
+                  <th className="py-1">Action</th>
+                  <th className="py-1">Target</th>
+                  <th className="py-1">Change</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-200">
+                {entries.map((entry) => (
+                  <AuditEntryRow key={entry.id} entry={entry} />
+                ))}
+              </tbody>
+            </table>
+          )}
+          {nextCursor && (
+            <BrandButton onClick={() => loadEntries(nextCursor)} disabled={loading} variant="neutral">
+              {loading ? "Loading..." : "Load more"}
+            </BrandButton>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Download, Upload, FlaskConical } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import type {
+  ConflictPolicy,
+  ImportMode,
+  ImportReport,
+  SimulatorArchive,
+} from "@/lib/persistence/archive";
+
+const selectClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+function ImportReportView({ report }: { report: ImportReport }) {
+  const renamed = Object.entries(report.renamedIds);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-gray-300">
+        {report.dryRun ? "Dry run" : "Imported"} · mode {report.mode} · on conflict{" "}
+        {report.onConflict}
+        {report.mode === "replace" && ` · ${report.deletedKeys} existing key(s) ${report.dryRun ? "would be " : ""}deleted`}
+      </p>
+
+      <table className="w-full text-left text-xs">
+        <thead className="text-gray-400 uppercase tracking-wider">
+          <tr>
+            <th className="py-1">Collection</th>
+            <th className="py-1">Created</th>
+            <th className="py-1">Overwritten</th>
+            <th className="py-1">Renamed</th>
+            <th className="py-1">Skipped</th>
+            <th className="py-1">Unchanged</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-200">
+          {Object.entries(report.collections).map(([name, counts]) => (
+            <tr key={name} className="border-t border-white/10">
+              <td className="py-1">{name}</td>
+              <td className="py-1">{counts.created}</td>
+              <td className="py-1">{counts.overwritten}</td>
+              <td className="py-1">{counts.renamed}</td>
+              <td className="py-1">{counts.skipped}</td>
+              <td className="py-1">{counts.unchanged}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {renamed.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Renamed IDs</p>
+          <pre className="max-h-48 overflow-auto rounded-md bg-black/30 p-3 text-xs text-gray-300">
+            {JSON.stringify(report.renamedIds, null, 2)}
+          </pre>
+        </div>
+      )}
+
+      {report.warnings.length > 0 && (
+        <div className="rounded-md border border-amber-400/30 bg-amber-500/10 p-3 text-xs text-amber-200">
+          {report.warnings.map((warning) => (
+            <div key={warning}>{warning}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BackupPage() {
+  const [adminToken, setAdminToken] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [archive, setArchive] = useState<SimulatorArchive | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [onConflict, setOnConflict] = useState<ConflictPolicy>("skip");
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/export", {
+        headers: { "x-admin-reset-token": adminToken },
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || "Export failed");
+      }
+
+      const blob = await res.blob();
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const match = disposition.match(/filename="([^"]+)"/);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = match?.[1] || "hc-simulator-backup.json";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Export failed:", e);
+      setError(e instanceof Error ? e.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setArchive(null);
+    setReport(null);
+    setError(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    try {
+      setArchive(JSON.parse(await file.text()));
+    } catch {
+      setError("Selected file is not valid JSON");
+    }
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    if (!archive) return;
+
+    if (
+      !dryRun &&
+      mode === "replace" &&
+      !confirm("Replace deletes ALL existing simulator data before importing. Continue?")
+    ) {
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ mode, onConflict });
+      if (dryRun) params.set("dryRun", "true");
+
+      const res = await fetch(`/api/admin/import?${params}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-reset-token": adminToken,
+        },
+        body: JSON.stringify(archive),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Import failed");
+      }
+
+      setReport(data.report);
+    } catch (e) {
+      console.error("Import failed:", e);
+      setError(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold">Backup &amp; Restore</h1>
+        <p className="text-white/70 text-sm">
+          Snapshot all simulator data to a JSON archive, or restore one into this deployment.{" "}
+          <Link href="/admin" className="underline hover:text-white">
+            Back to tracker
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm">
+        <label className="block text-xs text-gray-400 mb-1">Admin token</label>
+        <input
+          type="password"
+          value={adminToken}
+          onChange={(e) => setAdminToken(e.target.value)}
+          placeholder="ADMIN_RESET_TOKEN"
+          className="w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30"
+        />
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Export */}
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <h2 className="text-lg font-semibold">Export</h2>
+        <p className="text-sm text-gray-400">
+          Conferences, personas, trainees, prompt bundles, enrichments, invites, sessions (with
+          event logs), scores and the leaderboard.
+        </p>
+        <BrandButton onClick={handleExport} disabled={!adminToken || exporting} variant="lime">
+          <Download size={16} /> {exporting ? "Exporting..." : "Download archive"}
+        </BrandButton>
+      </div>
+
+      {/* Import */}
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <h2 className="text-lg font-semibold">Import</h2>
+
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="block text-sm text-gray-300"
+        />
+        {archive && (
+          <p className="text-xs text-gray-400">
+            {fileName} · exported {archive.exportedAt || "(unknown date)"} from{" "}
+            {archive.source?.backend ?? "unknown"} · archive v{archive.version}
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Mode</label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as ImportMode)}
+              className={selectClass}
+            >
+              <option value="merge">Merge into existing data</option>
+              <option value="replace">Replace all existing data</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">When an ID already exists</label>
+            <select
+              value={onConflict}
+              onChange={(e) => setOnConflict(e.target.value as ConflictPolicy)}
+              disabled={mode === "replace"}
+              className={selectClass}
+            >
+              <option value="skip">Keep existing record</option>
+              <option value="overwrite">Overwrite with archived record</option>
+              <option value="rename">Import under a new ID</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <BrandButton
+            onClick={() => handleImport(true)}
+            disabled={!adminToken || !archive || importing}
+            variant="neutral"
+          >
+            <FlaskConical size={16} /> Dry run
+          </BrandButton>
+          <BrandButton
+            onClick={() => handleImport(false)}
+            disabled={!adminToken || !archive || importing}
+            variant={mode === "replace" ? "red" : "cobalt"}
+          >
+            <Upload size={16} /> {importing ? "Importing..." : "Import"}
+          </BrandButton>
+        </div>
+
+        {report && <ImportReportView report={report} />}
+      </div>
+    </div>
+  );
+}
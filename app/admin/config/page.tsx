@@ -0,0 +1,297 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Download, CheckCircle, Save, RotateCcw } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import { readActorCookie, setActorCookie } from "@/lib/auditClient";
+import type { ConfigValidationError } from "@/lib/simulatorConfig";
+import type { SimulatorConfigVersionSummary } from "@/lib/simulatorConfigStore";
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+type Status = { kind: "ok" | "error"; message: string } | null;
+
+export default function SimulatorConfigPage() {
+  const [adminToken, setAdminToken] = useState("");
+  const [actorName, setActorName] = useState("");
+  const [versions, setVersions] = useState<SimulatorConfigVersionSummary[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [loadedVersion, setLoadedVersion] = useState<number | null>(null);
+  const [text, setText] = useState("");
+  const [note, setNote] = useState("");
+  const [errors, setErrors] = useState<ConfigValidationError[]>([]);
+  const [status, setStatus] = useState<Status>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setActorName(readActorCookie() ?? "");
+  }, []);
+
+  const handleActorNameChange = (name: string) => {
+    setActorName(name);
+    setActorCookie(name.trim());
+  };
+
+  const request = async (method: string, query: string, body?: unknown) => {
+    const res = await fetch(`/api/admin/simulator-config${query}`, {
+      method,
+      headers: { "x-admin-reset-token": adminToken, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    return { ok: res.ok, data };
+  };
+
+  const loadVersion = async (version: number | null) => {
+    setBusy(true);
+    setStatus(null);
+    setErrors([]);
+    try {
+      const { ok, data } = await request("GET", version === null ? "" : `?version=${version}`);
+      if (!ok) throw new Error(data.error || "Failed to load config");
+
+      setText(JSON.stringify(data.version.config, null, 2));
+      setLoadedVersion(data.version.version);
+      setActiveVersion(data.activeVersion);
+      setVersions(data.versions);
+    } catch (e) {
+      console.error("Failed to load simulator config:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Failed to load config" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Returns the parsed config, or null (with status set) if the JSON is malformed
+  const parseText = (): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      setErrors([]);
+      setStatus({ kind: "error", message: `Invalid JSON: ${e instanceof Error ? e.message : e}` });
+      return null;
+    }
+  };
+
+  const handleValidate = async () => {
+    const config = parseText();
+    if (config === null) return;
+
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("POST", "?dryRun=true", { config });
+      if (!ok) throw new Error(data.error || "Validation failed");
+
+      setErrors(data.errors);
+      setStatus(
+        data.valid
+          ? { kind: "ok", message: "Config is valid" }
+          : { kind: "error", message: `${data.errors.length} error(s) found` }
+      );
+    } catch (e) {
+      console.error("Failed to validate simulator config:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Validation failed" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const config = parseText();
+    if (config === null) return;
+    if (!confirm("Save this config as a new version? New sessions start on it right away; running sessions keep their version.")) {
+      return;
+    }
+
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("POST", "", { config, note });
+      if (!ok) {
+        setErrors(data.errors ?? []);
+        throw new Error(data.error || "Failed to save config");
+      }
+
+      setErrors([]);
+      setNote("");
+      await loadVersion(null);
+      setStatus({ kind: "ok", message: `Saved and activated version ${data.version.version}` });
+    } catch (e) {
+      console.error("Failed to save simulator config:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Failed to save config" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = async (version: number) => {
+    if (!confirm(`Start new sessions on version ${version}?`)) return;
+
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("PATCH", "", { version });
+      if (!ok) throw new Error(data.error || "Failed to activate version");
+
+      setActiveVersion(data.activeVersion);
+      setStatus({ kind: "ok", message: `Version ${version} is now active` });
+    } catch (e) {
+      console.error("Failed to activate simulator config:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Failed to activate version" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-[1400px] mx-auto space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold">Simulator Config</h1>
+        <p className="text-white/70 text-sm">
+          States, transitions, cues, turn limits and outcome bands. Saved versions apply to new
+          sessions immediately; running sessions keep the version they started on.{" "}
+          <Link href="/admin" className="underline hover:text-white">
+            Back to tracker
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Admin token</label>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              placeholder="ADMIN_RESET_TOKEN"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Record my changes as (saved in this browser)
+            </label>
+            <input
+              type="text"
+              value={actorName}
+              onChange={(e) => handleActorNameChange(e.target.value)}
+              placeholder="Your name"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <BrandButton onClick={() => loadVersion(null)} disabled={!adminToken || busy} variant="cobalt">
+          <Download size={16} /> Load active config
+        </BrandButton>
+      </div>
+
+      {status && (
+        <div
+          className={`rounded-md border p-3 text-sm ${
+            status.kind === "ok"
+              ? "border-lime-400/30 bg-lime-500/10 text-lime-200"
+              : "border-red-400/30 bg-red-500/10 text-red-300"
+          }`}
+        >
+          {status.message}
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Versions</p>
+          <table className="w-full text-left text-xs">
+            <thead className="text-gray-400 uppercase tracking-wider">
+              <tr>
+                <th className="py-1">Version</th>
+                <th className="py-1">Saved</th>
+                <th className="py-1">By</th>
+                <th className="py-1">Note</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody className="text-gray-200">
+              {[...versions].reverse().map((v) => (
+                <tr key={v.version} className="border-t border-white/10">
+                  <td className="py-1.5 font-mono">
+                    {v.version === 0 ? "0 (bundled)" : v.version}
+                    {v.version === activeVersion && <span className="ml-2 text-lime-300">active</span>}
+                    {v.version === loadedVersion && <span className="ml-2 text-gray-400">editing</span>}
+                  </td>
+                  <td className="py-1.5">{v.version === 0 ? "—" : new Date(v.createdAt).toLocaleString()}</td>
+                  <td className="py-1.5">{v.createdBy}</td>
+                  <td className="py-1.5 text-gray-400">{v.note ?? ""}</td>
+                  <td className="py-1.5 text-right space-x-3 whitespace-nowrap">
+                    <button
+                      onClick={() => loadVersion(v.version)}
+                      disabled={busy}
+                      className="underline hover:text-white disabled:opacity-50"
+                    >
+                      Load
+                    </button>
+                    {v.version !== activeVersion && (
+                      <button
+                        onClick={() => handleActivate(v.version)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 underline hover:text-white disabled:opacity-50"
+                      >
+                        <RotateCcw size={12} /> Activate
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {loadedVersion !== null && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            spellCheck={false}
+            rows={32}
+            className={`${inputClass} font-mono text-xs`}
+          />
+
+          {errors.length > 0 && (
+            <div className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-xs text-red-300 space-y-0.5 max-h-64 overflow-auto">
+              {errors.map((error, i) => (
+                <div key={i}>
+                  <span className="font-mono">{error.path || "(root)"}</span>: {error.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Note (optional)</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What changed and why"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <BrandButton onClick={handleValidate} disabled={busy} variant="neutral">
+              <CheckCircle size={16} /> Validate
+            </BrandButton>
+            <BrandButton onClick={handleSave} disabled={busy} variant="lime">
+              <Save size={16} /> Save as new version
+            </BrandButton>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
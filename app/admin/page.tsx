@@ -13,14 +13,20 @@ function StatusBadge({ status }: { status: AdminInviteRow["status"] }) {
       "bg-white/10 text-white/70 border border-white/10 px-2 py-1 rounded text-xs font-medium",
     IN_PROGRESS:
       "bg-sky-500/15 text-sky-200 border border-sky-400/20 px-2 py-1 rounded text-xs font-medium",
+    PAUSED:
+      "bg-amber-500/15 text-amber-200 border border-amber-400/20 px-2 py-1 rounded text-xs font-medium",
     COMPLETED:
       "bg-emerald-500/15 text-emerald-200 border border-emerald-400/20 px-2 py-1 rounded text-xs font-medium",
+    INCOMPLETE:
+      "bg-red-500/15 text-red-200 border border-red-400/20 px-2 py-1 rounded text-xs font-medium",
   };
 
   const labels = {
     NOT_STARTED: "Not Started",
     IN_PROGRESS: "In Progress",
+    PAUSED: "Paused",
     COMPLETED: "Completed",
+    INCOMPLETE: "Incomplete",
   };
 
   return <span className={styles[status]}>{labels[status]}</span>;
@@ -271,7 +277,30 @@ export default function AdminPage() {
       <div>
         <h1 className="text-2xl font-semibold">Scenario Tracker</h1>
         <p className="text-white/70 text-sm">
-          Track training sessions, filter by conference/persona, and view scores
+          Track training sessions, filter by conference/persona, and view scores ·{" "}
+          <Link href="/admin/backup" className="underline hover:text-white">
+            Backup &amp; restore
+          </Link>
+          {" · "}
+          <Link href="/admin/audit" className="underline hover:text-white">
+            Audit log
+          </Link>
+          {" · "}
+          <Link href="/admin/config" className="underline hover:text-white">
+            Simulator config
+          </Link>
+          {" · "}
+          <Link href="/admin/prompt-bundle" className="underline hover:text-white">
+            Prompt bundles
+          </Link>
+          {" · "}
+          <Link href="/admin/abandoned" className="underline hover:text-white">
+            Abandoned sessions
+          </Link>
+          {" · "}
+          <Link href="/admin/rescore" className="underline hover:text-white">
+            Rescore
+          </Link>
         </p>
       </div>
 
@@ -350,7 +379,9 @@ export default function AdminPage() {
               <option value="">All</option>
               <option value="NOT_STARTED">Not Started</option>
               <option value="IN_PROGRESS">In Progress</option>
+              <option value="PAUSED">Paused</option>
               <option value="COMPLETED">Completed</option>
+              <option value="INCOMPLETE">Incomplete</option>
             </select>
           </div>
 
@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Download, CheckCircle, Save, RotateCcw } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import { readActorCookie, setActorCookie } from "@/lib/auditClient";
+import type { PromptBundle } from "@/lib/llm/promptBundleTypes";
+import { DEFAULT_SCORING_RUBRIC, type RubricValidationError } from "@/lib/scoringRubric";
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+type Status = { kind: "ok" | "error"; message: string } | null;
+
+const TEXT_FIELDS = [
+  { key: "facilitatorSetup", label: "Facilitator setup", rows: 8 },
+  { key: "masterSystemPrompt", label: "Master system prompt", rows: 16 },
+  { key: "postSessionRubric", label: "Post-session rubric", rows: 6 },
+] as const;
+
+export default function PromptBundlePage() {
+  const [adminToken, setAdminToken] = useState("");
+  const [actorName, setActorName] = useState("");
+  const [bundles, setBundles] = useState<PromptBundle[]>([]);
+  const [activeBundleId, setActiveBundleId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PromptBundle | null>(null);
+  const [rubricText, setRubricText] = useState("");
+  const [setActive, setSetActive] = useState(false);
+  const [errors, setErrors] = useState<RubricValidationError[]>([]);
+  const [status, setStatus] = useState<Status>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setActorName(readActorCookie() ?? "");
+  }, []);
+
+  const handleActorNameChange = (name: string) => {
+    setActorName(name);
+    setActorCookie(name.trim());
+  };
+
+  const request = async (method: string, query: string, body?: unknown) => {
+    const res = await fetch(`/api/admin/prompt-bundle${query}`, {
+      method,
+      headers: { "x-admin-reset-token": adminToken, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    return { ok: res.ok, data };
+  };
+
+  const editBundle = (bundle: PromptBundle) => {
+    setDraft(bundle);
+    setRubricText(JSON.stringify(bundle.scoringRubric ?? DEFAULT_SCORING_RUBRIC, null, 2));
+    setSetActive(false);
+    setErrors([]);
+  };
+
+  const loadBundles = async (editId?: string) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("GET", "?list=true");
+      if (!ok) throw new Error(data.error || "Failed to load prompt bundles");
+
+      setBundles(data.bundles);
+      setActiveBundleId(data.activeBundleId);
+      const bundle = data.bundles.find((b: PromptBundle) => b.id === (editId ?? data.activeBundleId));
+      if (bundle) editBundle(bundle);
+    } catch (e) {
+      console.error("Failed to load prompt bundles:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Failed to load prompt bundles" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Returns the bundle with the parsed rubric, or null (with status set) if the JSON is malformed
+  const buildBundle = (): PromptBundle | null => {
+    if (!draft) return null;
+    try {
+      return { ...draft, scoringRubric: JSON.parse(rubricText) };
+    } catch (e) {
+      setErrors([]);
+      setStatus({ kind: "error", message: `Invalid rubric JSON: ${e instanceof Error ? e.message : e}` });
+      return null;
+    }
+  };
+
+  const handleValidate = async () => {
+    const bundle = buildBundle();
+    if (!bundle) return;
+
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("POST", "?dryRun=true", { bundle });
+      if (!ok) throw new Error(data.error || "Validation failed");
+
+      setErrors(data.errors);
+      setStatus(
+        data.valid
+          ? { kind: "ok", message: "Scoring rubric is valid" }
+          : { kind: "error", message: `${data.errors.length} error(s) found` }
+      );
+    } catch (e) {
+      console.error("Failed to validate prompt bundle:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Validation failed" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const bundle = buildBundle();
+    if (!bundle) return;
+    const existing = bundles.some((b) => b.id === bundle.id);
+    if (!confirm(`${existing ? "Overwrite" : "Create"} bundle '${bundle.id}'${setActive ? " and make it active" : ""}?`)) {
+      return;
+    }
+
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("POST", "", { bundle, setActive });
+      if (!ok) {
+        setErrors(data.errors ?? []);
+        throw new Error(data.error || "Failed to save prompt bundle");
+      }
+
+      await loadBundles(bundle.id);
+      setStatus({ kind: "ok", message: `Saved bundle '${bundle.id}' (${bundle.version})` });
+    } catch (e) {
+      console.error("Failed to save prompt bundle:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Failed to save prompt bundle" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = async (bundleId: string) => {
+    if (!confirm(`Use bundle '${bundleId}' for new replies and scores?`)) return;
+
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { ok, data } = await request("PATCH", "", { bundleId });
+      if (!ok) throw new Error(data.error || "Failed to activate bundle");
+
+      setActiveBundleId(data.activeBundleId);
+      setStatus({ kind: "ok", message: `Bundle '${bundleId}' is now active` });
+    } catch (e) {
+      console.error("Failed to activate prompt bundle:", e);
+      setStatus({ kind: "error", message: e instanceof Error ? e.message : "Failed to activate bundle" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-[1400px] mx-auto space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold">Prompt Bundles</h1>
+        <p className="text-white/70 text-sm">
+          Attendee prompts and the scoring rubric. The active bundle frames every attendee reply
+          and scores every finished session.{" "}
+          <Link href="/admin" className="underline hover:text-white">
+            Back to tracker
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Admin token</label>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              placeholder="ADMIN_RESET_TOKEN"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Record my changes as (saved in this browser)
+            </label>
+            <input
+              type="text"
+              value={actorName}
+              onChange={(e) => handleActorNameChange(e.target.value)}
+              placeholder="Your name"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <BrandButton onClick={() => loadBundles()} disabled={!adminToken || busy} variant="cobalt">
+          <Download size={16} /> Load bundles
+        </BrandButton>
+      </div>
+
+      {status && (
+        <div
+          className={`rounded-md border p-3 text-sm ${
+            status.kind === "ok"
+              ? "border-lime-400/30 bg-lime-500/10 text-lime-200"
+              : "border-red-400/30 bg-red-500/10 text-red-300"
+          }`}
+        >
+          {status.message}
+        </div>
+      )}
+
+      {bundles.length > 0 && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Bundles</p>
+          <table className="w-full text-left text-xs">
+            <thead className="text-gray-400 uppercase tracking-wider">
+              <tr>
+                <th className="py-1">ID</th>
+                <th className="py-1">Version</th>
+                <th className="py-1">Rubric</th>
+                <th className="py-1">Updated</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody className="text-gray-200">
+              {bundles.map((b) => (
+                <tr key={b.id} className="border-t border-white/10">
+                  <td className="py-1.5 font-mono">
+                    {b.id}
+                    {b.id === activeBundleId && <span className="ml-2 text-lime-300">active</span>}
+                    {b.id === draft?.id && <span className="ml-2 text-gray-400">editing</span>}
+                  </td>
+                  <td className="py-1.5">{b.version}</td>
+                  <td className="py-1.5 font-mono">
+                    {(b.scoringRubric ?? DEFAULT_SCORING_RUBRIC).version}
+                    {!b.scoringRubric && <span className="ml-2 text-gray-400">(default)</span>}
+                  </td>
+                  <td className="py-1.5">{new Date(b.updatedAt).toLocaleString()}</td>
+                  <td className="py-1.5 text-right space-x-3 whitespace-nowrap">
+                    <button
+                      onClick={() => editBundle(b)}
+                      disabled={busy}
+                      className="underline hover:text-white disabled:opacity-50"
+                    >
+                      Load
+                    </button>
+                    {b.id !== activeBundleId && (
+                      <button
+                        onClick={() => handleActivate(b.id)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 underline hover:text-white disabled:opacity-50"
+                      >
+                        <RotateCcw size={12} /> Activate
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {draft && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">ID (a new ID saves a copy)</label>
+              <input
+                type="text"
+                value={draft.id}
+                onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Version</label>
+              <input
+                type="text"
+                value={draft.version}
+                onChange={(e) => setDraft({ ...draft, version: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Notes</label>
+              <input
+                type="text"
+                value={draft.notes ?? ""}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                placeholder="What changed and why"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {TEXT_FIELDS.map(({ key, label, rows }) => (
+            <div key={key}>
+              <label className="block text-xs text-gray-400 mb-1">{label}</label>
+              <textarea
+                value={draft[key] ?? ""}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                rows={rows}
+                className={`${inputClass} font-mono text-xs`}
+              />
+            </div>
+          ))}
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs text-gray-400">
+                Scoring rubric (JSON; bump its version whenever you change it)
+              </label>
+              <button
+                onClick={() => setRubricText(JSON.stringify(DEFAULT_SCORING_RUBRIC, null, 2))}
+                disabled={busy}
+                className="text-xs underline text-gray-400 hover:text-white disabled:opacity-50"
+              >
+                Reset to default rubric
+              </button>
+            </div>
+            <textarea
+              value={rubricText}
+              onChange={(e) => setRubricText(e.target.value)}
+              spellCheck={false}
+              rows={32}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-xs text-red-300 space-y-0.5 max-h-64 overflow-auto">
+              {errors.map((error, i) => (
+                <div key={i}>
+                  <span className="font-mono">scoringRubric.{error.path || "(root)"}</span>: {error.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={setActive} onChange={(e) => setSetActive(e.target.checked)} />
+            Make this bundle active after saving
+          </label>
+
+          <div className="flex gap-2">
+            <BrandButton onClick={handleValidate} disabled={busy} variant="neutral">
+              <CheckCircle size={16} /> Validate rubric
+            </BrandButton>
+            <BrandButton onClick={handleSave} disabled={busy} variant="lime">
+              <Save size={16} /> Save bundle
+            </BrandButton>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { RefreshCw, Search } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import { readActorCookie, setActorCookie } from "@/lib/auditClient";
+import type { RescoreReport } from "@/lib/rescore";
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+export default function RescorePage() {
+  const [adminToken, setAdminToken] = useState("");
+  const [actorName, setActorName] = useState("");
+  const [fromVersion, setFromVersion] = useState("");
+  const [limit, setLimit] = useState("");
+  const [rejudge, setRejudge] = useState(false);
+  const [report, setReport] = useState<RescoreReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActorName(readActorCookie() ?? "");
+  }, []);
+
+  const handleActorNameChange = (name: string) => {
+    setActorName(name);
+    setActorCookie(name.trim());
+  };
+
+  const runRescore = async (dryRun: boolean) => {
+    if (!dryRun && !confirm("Replace stored scores and update the leaderboard?")) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/rescore", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-reset-token": adminToken,
+        },
+        body: JSON.stringify({
+          dryRun,
+          fromVersion: fromVersion.trim() || undefined,
+          limit: limit ? Number(limit) : undefined,
+          rejudge,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to rescore sessions");
+      }
+
+      setReport(data.report);
+    } catch (e) {
+      console.error("Failed to rescore sessions:", e);
+      setError(e instanceof Error ? e.message : "Failed to rescore sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const skippedBy = (reason: string) => report?.skipped.filter((s) => s.reason === reason).length ?? 0;
+
+  return (
+    <div className="max-w-[1400px] mx-auto space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold">Rescore Sessions</h1>
+        <p className="text-white/70 text-sm">
+          Recompute stored scores under the active prompt bundle&apos;s scoring version. Run a dry
+          run first to see the grade changes.{" "}
+          <Link href="/admin" className="underline hover:text-white">
+            Back to tracker
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Admin token</label>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              placeholder="ADMIN_RESET_TOKEN"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Record my changes as (saved in this browser)
+            </label>
+            <input
+              type="text"
+              value={actorName}
+              onChange={(e) => handleActorNameChange(e.target.value)}
+              placeholder="Your name"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Only scores on version</label>
+            <input
+              type="text"
+              value={fromVersion}
+              onChange={(e) => setFromVersion(e.target.value)}
+              placeholder="Any (e.g. unversioned)"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">At most (scores)</label>
+            <input
+              type="number"
+              min={1}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="All"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={rejudge} onChange={(e) => setRejudge(e.target.checked)} />
+          Judge sessions again (calls the judge model for every session on commit)
+        </label>
+        <div className="flex gap-2">
+          <BrandButton onClick={() => runRescore(true)} disabled={!adminToken || loading} variant="cobalt">
+            <Search size={16} /> {loading ? "Running..." : "Dry run"}
+          </BrandButton>
+          <BrandButton onClick={() => runRescore(false)} disabled={!adminToken || loading} variant="red">
+            <RefreshCw size={16} /> Commit rescore
+          </BrandButton>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm space-y-3">
+          <div className="text-sm text-gray-300 space-y-1">
+            <p>
+              {report.dryRun ? "Dry run" : "Committed"} under{" "}
+              <span className="font-mono text-gray-100">{report.scoringVersion}</span>: scanned{" "}
+              {report.scanned}, rescored {report.rescored}, changed {report.changed}
+              {!report.dryRun && `, ${report.leaderboardUpdated} leaderboard entries updated`}
+            </p>
+            <p className="text-xs text-gray-500">
+              Skipped {skippedBy("already_current")} already on this version,{" "}
+              {skippedBy("session_missing")} with their session purged
+              {skippedBy("score_missing") > 0 && `, ${skippedBy("score_missing")} unknown token(s)`}
+            </p>
+          </div>
+
+          {Object.keys(report.gradeChanges).length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(report.gradeChanges).map(([move, count]) => (
+                <span
+                  key={move}
+                  className="px-2 py-1 rounded text-xs font-mono bg-white/8 text-gray-200 border border-white/15"
+                >
+                  {move}: {count}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {report.changes.length > 0 && (
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="py-1">Score</th>
+                  <th className="py-1">Trainee</th>
+                  <th className="py-1">Before</th>
+                  <th className="py-1">After</th>
+                  <th className="py-1">Delta</th>
+                  <th className="py-1">From version</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-200">
+                {report.changes.map((change) => (
+                  <tr key={change.token} className="border-t border-white/10">
+                    <td className="py-1.5 pr-3 font-mono">
+                      <Link href={`/share/${change.token}`} className="underline hover:text-white">
+                        {change.token.slice(0, 8)}
+                      </Link>
+                    </td>
+                    <td className="py-1.5 pr-3">{change.traineeNameShort ?? "—"}</td>
+                    <td className="py-1.5 pr-3">
+                      {change.before.grade} · {change.before.score}
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      {change.after.grade} · {change.after.score}
+                    </td>
+                    <td
+                      className={`py-1.5 pr-3 ${
+                        change.scoreDelta > 0
+                          ? "text-emerald-300"
+                          : change.scoreDelta < 0
+                          ? "text-red-300"
+                          : "text-gray-400"
+                      }`}
+                    >
+                      {formatDelta(change.scoreDelta)}
+                    </td>
+                    <td className="py-1.5 font-mono text-gray-400">{change.before.scoringVersion}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_ABANDONED_AFTER_MINUTES,
+  forceCloseAbandonedSessions,
+  listAbandonedSessions,
+} from "@/lib/abandonedSessions";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+function parseThreshold(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return DEFAULT_ABANDONED_AFTER_MINUTES;
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+}
+
+/**
+ * GET /api/admin/abandoned-sessions
+ * Started sessions still open with no activity for a while
+ * (see lib/abandonedSessions.ts), longest idle first
+ *
+ * Query params:
+ * - olderThanMinutes: idle threshold (default 60)
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { olderThanMinutes: number, sessions: AbandonedSession[] }
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const olderThanMinutes = parseThreshold(
+      new URL(request.url).searchParams.get("olderThanMinutes")
+    );
+    if (olderThanMinutes === null) {
+      return NextResponse.json(
+        { error: "olderThanMinutes must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    const sessions = await listAbandonedSessions(olderThanMinutes);
+    return NextResponse.json({ olderThanMinutes, sessions });
+  } catch (error) {
+    console.error("[Admin] Failed to list abandoned sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to list abandoned sessions", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/abandoned-sessions
+ * Force-close abandoned sessions. Each is ended, then scored as incomplete
+ * (kept off the leaderboard).
+ *
+ * Request body:
+ * {
+ *   olderThanMinutes?: number,  // Idle threshold (default 60)
+ *   sessionIds?: string[]       // Only these (still subject to the threshold)
+ * }
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { success: true, closed: number, results: ForceCloseResult[] }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const olderThanMinutes = parseThreshold(body.olderThanMinutes);
+    if (olderThanMinutes === null) {
+      return NextResponse.json(
+        { error: "olderThanMinutes must be a positive number" },
+        { status: 400 }
+      );
+    }
+    if (
+      body.sessionIds !== undefined &&
+      (!Array.isArray(body.sessionIds) || !body.sessionIds.every((id: unknown) => typeof id === "string"))
+    ) {
+      return NextResponse.json(
+        { error: "sessionIds must be a list of session IDs" },
+        { status: 400 }
+      );
+    }
+
+    const results = await forceCloseAbandonedSessions(olderThanMinutes, body.sessionIds);
+    const closed = results.filter((result) => result.closed);
+
+    await recordAudit(request, {
+      action: "sessions.force_close",
+      target: { type: "session", id: closed.length === 1 ? closed[0].sessionId : null },
+      details: {
+        olderThanMinutes,
+        closed: closed.map((result) => result.sessionId),
+        failed: results.filter((result) => !result.closed).map(({ sessionId, error }) => ({ sessionId, error })),
+      },
+    });
+    console.log(`[Admin] Force-closed ${closed.length} abandoned session(s)`);
+
+    return NextResponse.json({ success: true, closed: closed.length, results });
+  } catch (error) {
+    console.error("[Admin] Failed to close abandoned sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to close abandoned sessions", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
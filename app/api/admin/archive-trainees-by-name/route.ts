@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { listTrainees, archiveTrainee } from "@/lib/traineeStore";
 import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { withWorkspace } from "@/lib/workspaces";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
 
 /**
  * POST /api/admin/archive-trainees-by-name
@@ -18,7 +20,7 @@ import { invalidateBootstrapCache } from "@/lib/memoryStore";
  *   "notFound": string[]
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -56,7 +58,7 @@ export async function POST(request: NextRequest) {
 
       if (matchedTrainee && !matchedTrainee.isArchived) {
         // Archive the trainee
-        const success = await archiveTrainee(matchedTrainee.id);
+        const success = await archiveTrainee(matchedTrainee.id, resolveActor(request).name);
         if (success) {
           archivedIds.push(matchedTrainee.id);
           console.log(`[Admin] Archived trainee: ${matchedTrainee.firstName} ${matchedTrainee.lastName} (${matchedTrainee.id})`);
@@ -70,6 +72,12 @@ export async function POST(request: NextRequest) {
     // Invalidate bootstrap cache so changes appear immediately
     if (archivedIds.length > 0) {
       invalidateBootstrapCache();
+
+      await recordAudit(request, {
+        action: "trainees.archive_by_name",
+        target: { type: "trainee", id: null },
+        details: { names: body.names, archivedIds, notFound },
+      });
     }
 
     return NextResponse.json({
@@ -84,4 +92,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
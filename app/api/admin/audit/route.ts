@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { queryAuditLog, type AuditFilters } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+function parseTime(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * GET /api/admin/audit
+ * Audit log of the current workspace, newest first
+ *
+ * Query params (all optional):
+ * - action: exact action, e.g. prompt_bundle.activate
+ * - actor: substring of the actor name (case-insensitive)
+ * - targetType / targetId: e.g. targetType=persona&targetId=...
+ * - since / until: ISO timestamps
+ * - limit: page size (default 50, max 200)
+ * - cursor: nextCursor from the previous page
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { entries: AuditEntry[], totalMatched: number, nextCursor: string | null }
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const since = parseTime(searchParams.get("since"));
+    const until = parseTime(searchParams.get("until"));
+    if (since === null || until === null) {
+      return NextResponse.json(
+        { error: "Invalid since/until (expected ISO timestamps)" },
+        { status: 400 }
+      );
+    }
+
+    const filters: AuditFilters = {
+      action: searchParams.get("action") || undefined,
+      actor: searchParams.get("actor") || undefined,
+      targetType: searchParams.get("targetType") || undefined,
+      targetId: searchParams.get("targetId") || undefined,
+      since,
+      until,
+    };
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? Math.min(parseInt(limitParam, 10) || 50, 200) : 50;
+
+    const page = await queryAuditLog(filters, {
+      limit,
+      cursor: searchParams.get("cursor"),
+    });
+
+    return NextResponse.json(
+      {
+        entries: page.items,
+        totalMatched: page.totalMatched,
+        nextCursor: page.nextCursor,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("[Admin] Failed to load audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to load audit log", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -4,9 +4,11 @@ import {
   upsertTrainee,
   archiveTrainee,
   ensureTraineesSeeded,
-  formatTraineeFull,
 } from "@/lib/traineeStore";
+import { formatTraineeFull } from "@/lib/formatUtils";
 import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * POST /api/admin/cleanup-trainees
@@ -32,7 +34,7 @@ import { invalidateBootstrapCache } from "@/lib/memoryStore";
  *   dryRun: boolean
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   try {
     // Validate admin token
     const token = request.headers.get("x-admin-reset-token");
@@ -112,7 +114,7 @@ export async function POST(request: NextRequest) {
     // If not dry run, actually archive
     if (!dryRun) {
       for (const item of toArchive) {
-        const success = await archiveTrainee(item.id);
+        const success = await archiveTrainee(item.id, resolveActor(request).name);
         if (success) {
           archivedCount++;
           console.log(`[Admin] Archived: ${item.name} (${item.id})`);
@@ -142,6 +144,12 @@ export async function POST(request: NextRequest) {
       console.log(
         `[Admin] Cleanup complete: kept ${kept.length}, archived ${archivedCount}, created ${createdCount}`
       );
+
+      await recordAudit(request, {
+        action: "trainees.cleanup",
+        target: { type: "trainee", id: null },
+        details: { archived: toArchive, archivedCount, createdCount, kept },
+      });
     } else {
       console.log(
         `[Admin] Dry run: would keep ${kept.length}, would archive ${toArchive.length}`
@@ -172,4 +180,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runCleanup } from "@/lib/cleanupDuplicates";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * Admin endpoint to clean up duplicate personas and old conferences
@@ -10,7 +12,7 @@ import { runCleanup } from "@/lib/cleanupDuplicates";
  * Security:
  * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
  */
-export async function POST(req: NextRequest) {
+export const POST = withWorkspace(async (req: NextRequest) => {
   // Check for admin token
   const adminToken = req.headers.get("x-admin-reset-token");
   const expectedToken = process.env.ADMIN_RESET_TOKEN;
@@ -30,7 +32,13 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const result = await runCleanup();
+    const result = await runCleanup(resolveActor(req).name);
+
+    await recordAudit(req, {
+      action: "personas.cleanup_duplicates",
+      target: { type: "persona", id: null },
+      details: { personas: result.personas, conferences: result.conferences },
+    });
 
     return NextResponse.json(
       {
@@ -53,4 +61,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
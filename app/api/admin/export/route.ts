@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/persistence";
+import { exportArchive } from "@/lib/persistence/archive";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET /api/admin/export
+ * Download every simulator record (sessions, event logs, invites, scores,
+ * leaderboard, trainees, personas, conferences, enrichments, prompt bundles)
+ * as one versioned JSON archive
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ * - In production, requires ALLOW_ADMIN_RESET=true env var
+ *
+ * Returns the archive as an attachment (hc-simulator-backup-{timestamp}.json)
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    // Production safety check
+    const isProduction = process.env.VERCEL_ENV === "production";
+    const allowReset = process.env.ALLOW_ADMIN_RESET === "true";
+
+    if (isProduction && !allowReset) {
+      return NextResponse.json(
+        {
+          error: "Admin export disabled in production (ALLOW_ADMIN_RESET not true)",
+          hint: "Set ALLOW_ADMIN_RESET=true env var to enable",
+        },
+        { status: 403 }
+      );
+    }
+
+    const archive = await exportArchive(getStorage());
+    const filename = `hc-simulator-backup-${archive.exportedAt.replace(/[:.]/g, "-")}.json`;
+
+    console.log(
+      `[Admin] Exported archive (${archive.data.sessions.length} sessions, ${archive.data.scores.length} scores)`
+    );
+
+    return NextResponse.json(archive, {
+      headers: {
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[Admin] Export failed:", error);
+    return NextResponse.json(
+      { error: "Export failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/persistence";
+import {
+  importArchive,
+  parseArchive,
+  type ConflictPolicy,
+  type ImportMode,
+} from "@/lib/persistence/archive";
+import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+const MODES: ImportMode[] = ["merge", "replace"];
+const CONFLICT_POLICIES: ConflictPolicy[] = ["skip", "overwrite", "rename"];
+
+/**
+ * POST /api/admin/import
+ * Restore a JSON archive produced by /api/admin/export
+ *
+ * Query params:
+ * - mode=merge (default): keep existing data and add the archive's records
+ * - mode=replace: delete all simulator data first
+ * - onConflict=skip (default) | overwrite | rename: what merge does when an ID
+ *   already exists with different content (rename imports under a new ID and
+ *   rewrites references to it)
+ * - dryRun=true: report what would happen without writing
+ *
+ * Body: the archive JSON
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ * - In production, requires ALLOW_ADMIN_RESET=true env var
+ *
+ * Returns:
+ * { success: true, report: ImportReport }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    // Production safety check
+    const isProduction = process.env.VERCEL_ENV === "production";
+    const allowReset = process.env.ALLOW_ADMIN_RESET === "true";
+
+    if (isProduction && !allowReset) {
+      return NextResponse.json(
+        {
+          error: "Admin import disabled in production (ALLOW_ADMIN_RESET not true)",
+          hint: "Set ALLOW_ADMIN_RESET=true env var to enable",
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const mode = (searchParams.get("mode") || "merge") as ImportMode;
+    const onConflict = (searchParams.get("onConflict") || "skip") as ConflictPolicy;
+    const dryRun = searchParams.get("dryRun") === "true";
+
+    if (!MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: "Invalid mode (expected merge or replace)" },
+        { status: 400 }
+      );
+    }
+
+    if (!CONFLICT_POLICIES.includes(onConflict)) {
+      return NextResponse.json(
+        { error: "Invalid onConflict (expected skip, overwrite or rename)" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { archive, error } = parseArchive(body);
+    if (!archive) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(
+      `[Admin] Importing archive from ${archive.exportedAt || "unknown date"} (mode: ${mode}, onConflict: ${onConflict}, dryRun: ${dryRun})`
+    );
+
+    const report = await importArchive(getStorage(), archive, {
+      mode,
+      onConflict,
+      dryRun,
+    });
+
+    if (!dryRun) {
+      invalidateBootstrapCache();
+      await recordAudit(request, {
+        action: "data.import",
+        target: { type: "archive", id: null },
+        details: { exportedAt: archive.exportedAt, mode, onConflict, report },
+      });
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("[Admin] Import failed:", error);
+    return NextResponse.json(
+      { error: "Import failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInvite, revokeInvite } from "@/lib/invites";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * POST /api/admin/invites/[token]/revoke
+ * Revoke an invite: the trainee link and review link stop working
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { success: true, invite: InviteRecord }
+ */
+export const POST = withWorkspace(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  try {
+    // Validate admin token
+    const adminToken = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!adminToken || adminToken !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const { token } = await params;
+    const before = await getInvite(token);
+    if (!before) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    const invite = await revokeInvite(token);
+    await recordAudit(request, {
+      action: "invite.revoke",
+      target: { type: "invite", id: token },
+      before,
+      after: invite,
+    });
+
+    console.log(`[Admin] Revoked invite ${token}`);
+
+    return NextResponse.json({ success: true, invite });
+  } catch (error) {
+    console.error("[Admin] Invite revoke failed:", error);
+    return NextResponse.json(
+      { error: "Invite revoke failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+}, { ownerParam: "token" });
@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
 import { getAdminInvites } from "@/lib/adminInvites";
+import { withWorkspace } from "@/lib/workspaces";
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export const GET = withWorkspace(async () => {
   try {
     const invites = await getAdminInvites(50);
     return NextResponse.json(invites, {
@@ -18,4 +19,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,4 +1,4 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import {
   listConferences,
   upsertConference,
@@ -10,6 +10,10 @@ import {
   upsertPersona,
 } from "@/lib/personaStore";
 import { toSentenceCase, buildPersonaSubtitle } from "@/lib/formatUtils";
+import { getStorage } from "@/lib/persistence";
+import { runMigrations, type MigrationMode } from "@/lib/persistence/migrations";
+import { withWorkspace } from "@/lib/workspaces";
+import { recordAudit } from "@/lib/auditLog";
 
 // Helper to generate persona name
 function generatePersonaName(
@@ -50,29 +54,33 @@ function generatePersonaName(
   return parts[0];
 }
 
-export async function POST() {
-  try {
-    const results = {
-      conferencesUpdated: 0,
-      personasUpdated: 0,
-      sreconRestored: false,
-      errors: [] as string[],
-    };
-
-    // 1. Restore SREcon if needed
-    const conferences = await listConferences(false);
-    const srecon = conferences.find(
-      (c) => c.name.toLowerCase() === "srecon"
-    );
-
-    if (srecon) {
-      // Check if it needs restoration
-      const needsRestore =
-        !srecon.themes.includes("SLOs") ||
-        srecon.seniorityMix !== "Senior IC-heavy" ||
-        srecon.observabilityMaturity !== "High";
+/**
+ * Content migration: restore SREcon, sentence-case themes and rename personas
+ * to the current naming schema. In dry-run mode nothing is written.
+ */
+async function runContentMigration(dryRun: boolean) {
+  const results = {
+    conferencesUpdated: 0,
+    personasUpdated: 0,
+    sreconRestored: false,
+    errors: [] as string[],
+  };
 
-      if (needsRestore) {
+  // 1. Restore SREcon if needed
+  const conferences = await listConferences(false);
+  const srecon = conferences.find(
+    (c) => c.name.toLowerCase() === "srecon"
+  );
+
+  if (srecon) {
+    // Check if it needs restoration
+    const needsRestore =
+      !srecon.themes.includes("SLOs") ||
+      srecon.seniorityMix !== "Senior IC-heavy" ||
+      srecon.observabilityMaturity !== "High";
+
+    if (needsRestore) {
+      if (!dryRun) {
         // Archive the incorrect version
         await archiveConference(srecon.id);
 
@@ -84,49 +92,150 @@ export async function POST() {
           observabilityMaturity: "High",
           createdBy: "system",
         });
-
-        results.sreconRestored = true;
       }
+
+      results.sreconRestored = true;
     }
+  }
 
-    // 2. Apply sentence case to all conferences
-    const allConferences = await listConferences(false);
-    for (const conf of allConferences) {
-      const updated = {
-        ...conf,
-        themes: conf.themes.map(toSentenceCase),
-      };
+  // 2. Apply sentence case to all conferences
+  const allConferences = await listConferences(false);
+  for (const conf of allConferences) {
+    const updated = {
+      ...conf,
+      themes: conf.themes.map(toSentenceCase),
+    };
 
-      await upsertConference(updated);
-      results.conferencesUpdated++;
-    }
+    if (!dryRun) await upsertConference(updated);
+    results.conferencesUpdated++;
+  }
+
+  // 3. Migrate all personas to new naming schema
+  const allPersonas = await listPersonas(false);
+  for (const persona of allPersonas) {
+    const newName = generatePersonaName(
+      persona.personaType,
+      persona.modifiers,
+      persona.toolingBias
+    );
+
+    // Don't pass displaySubtitle - let upsertPersona compute it
+    const { displaySubtitle: _, ...personaWithoutSubtitle } = persona;
+
+    const updated = {
+      ...personaWithoutSubtitle,
+      name: newName,
+      modifiers: persona.modifiers.map(toSentenceCase),
+      emotionalPosture: toSentenceCase(persona.emotionalPosture),
+      toolingBias: toSentenceCase(persona.toolingBias),
+    };
+
+    if (!dryRun) await upsertPersona(updated);
+    results.personasUpdated++;
+  }
+
+  return results;
+}
+
+/**
+ * GET /api/admin/migrate-data
+ * Report storage schema versions and what a migration run would change
+ * (always a dry run - nothing is written)
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    const report = await runMigrations(getStorage(), "dry-run");
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Migration status failed:", error);
+    return NextResponse.json(
+      { error: "Migration status failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/migrate-data
+ * Run data migrations
+ *
+ * Query params:
+ * - scope=schema (default): storage key schema migrations (see docs/KEY_SCHEMA.md)
+ * - scope=content: legacy conference/persona naming cleanup
+ * - mode=dry-run (default) | apply
+ *
+ * Safety:
+ * - mode=apply requires x-admin-reset-token header matching ADMIN_RESET_TOKEN
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url);
+  const scope = searchParams.get("scope") || "schema";
+  const mode = (searchParams.get("mode") || "dry-run") as MigrationMode;
+
+  if (scope !== "schema" && scope !== "content") {
+    return NextResponse.json(
+      { error: "Invalid scope (expected schema or content)" },
+      { status: 400 }
+    );
+  }
+
+  if (mode !== "dry-run" && mode !== "apply") {
+    return NextResponse.json(
+      { error: "Invalid mode (expected dry-run or apply)" },
+      { status: 400 }
+    );
+  }
 
-    // 3. Migrate all personas to new naming schema
-    const allPersonas = await listPersonas(false);
-    for (const persona of allPersonas) {
-      const newName = generatePersonaName(
-        persona.personaType,
-        persona.modifiers,
-        persona.toolingBias
+  if (mode === "apply") {
+    const adminToken = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "ADMIN_RESET_TOKEN not configured" },
+        { status: 500 }
       );
+    }
 
-      // Don't pass displaySubtitle - let upsertPersona compute it
-      const { displaySubtitle: _, ...personaWithoutSubtitle } = persona;
+    if (!adminToken || adminToken !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized: Invalid or missing admin token" },
+        { status: 401 }
+      );
+    }
+  }
 
-      const updated = {
-        ...personaWithoutSubtitle,
-        name: newName,
-        modifiers: persona.modifiers.map(toSentenceCase),
-        emotionalPosture: toSentenceCase(persona.emotionalPosture),
-        toolingBias: toSentenceCase(persona.toolingBias),
-      };
+  try {
+    if (scope === "schema") {
+      const report = await runMigrations(getStorage(), mode);
+      console.log(
+        `[Migrate] Schema migration (${mode}): ${report.steps
+          .map((step) => `${step.id}=${step.changes.length} changes`)
+          .join(", ")}`
+      );
+      if (mode === "apply") {
+        await recordAudit(request, {
+          action: "data.migrate",
+          target: { type: "schema", id: null },
+          details: { scope, report },
+        });
+      }
+      return NextResponse.json({ success: true, scope, mode, report });
+    }
 
-      await upsertPersona(updated);
-      results.personasUpdated++;
+    const results = await runContentMigration(mode === "dry-run");
+    if (mode === "apply") {
+      await recordAudit(request, {
+        action: "data.migrate",
+        target: { type: "content", id: null },
+        details: { scope, results },
+      });
     }
 
     return NextResponse.json({
       success: true,
+      scope,
+      mode,
       results,
     });
   } catch (error) {
@@ -136,4 +245,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
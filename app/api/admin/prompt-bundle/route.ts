@@ -9,6 +9,9 @@ import {
   ensureDefaultBundleSeeded,
 } from "@/lib/llm/promptBundleStore";
 import type { PromptBundle } from "@/lib/llm/promptBundleTypes";
+import { DEFAULT_SCORING_RUBRIC, validateRubricVersion, validateScoringRubric } from "@/lib/scoringRubric";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * GET /api/admin/prompt-bundle
@@ -26,7 +29,7 @@ import type { PromptBundle } from "@/lib/llm/promptBundleTypes";
  * Single bundle: { bundle: PromptBundle, activeBundleId: string }
  * List: { bundles: PromptBundle[], activeBundleId: string }
  */
-export async function GET(request: NextRequest) {
+export const GET = withWorkspace(async (request: NextRequest) => {
   try {
     // Validate admin token
     const token = request.headers.get("x-admin-reset-token");
@@ -90,7 +93,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/admin/prompt-bundle
@@ -102,6 +105,14 @@ export async function GET(request: NextRequest) {
  *   setActive?: boolean  // Set this bundle as active after saving
  * }
  *
+ * Query params:
+ * - dryRun: Set to 'true' to only validate the bundle's scoringRubric
+ *   (returns { valid: boolean, errors: RubricValidationError[] })
+ *
+ * A scoringRubric that fails validation (see lib/scoringRubric.ts) is
+ * rejected with 400 and every error found, as is a changed rubric that
+ * keeps a version already in use (scores are stamped with the version).
+ *
  * Security:
  * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
  *
@@ -112,7 +123,7 @@ export async function GET(request: NextRequest) {
  *   activeBundleId: string
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   try {
     // Validate admin token
     const token = request.headers.get("x-admin-reset-token");
@@ -154,10 +165,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let rubricErrors =
+      bundle.scoringRubric === undefined ? [] : validateScoringRubric(bundle.scoringRubric);
+    if (bundle.scoringRubric && rubricErrors.length === 0) {
+      const storedRubrics = (await listPromptBundles()).flatMap((b) => (b.scoringRubric ? [b.scoringRubric] : []));
+      rubricErrors = validateRubricVersion(bundle.scoringRubric, [DEFAULT_SCORING_RUBRIC, ...storedRubrics]);
+    }
+    if (new URL(request.url).searchParams.get("dryRun") === "true") {
+      return NextResponse.json({ valid: rubricErrors.length === 0, errors: rubricErrors });
+    }
+    if (rubricErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid scoring rubric", errors: rubricErrors },
+        { status: 400 }
+      );
+    }
+
     console.log(`[Admin] Saving prompt bundle '${bundle.id}' (version: ${bundle.version})`);
 
+    const previousBundle = await getPromptBundle(bundle.id);
+    const previousActiveId = await getActiveBundleId();
+
     // Save the bundle
     const savedBundle = await savePromptBundle(bundle);
+    await recordAudit(request, {
+      action: "prompt_bundle.save",
+      target: { type: "prompt_bundle", id: bundle.id },
+      before: previousBundle,
+      after: savedBundle,
+    });
 
     // Set as active if requested
     if (setActive) {
@@ -166,6 +202,14 @@ export async function POST(request: NextRequest) {
     }
 
     const activeBundleId = await getActiveBundleId();
+    if (activeBundleId !== previousActiveId) {
+      await recordAudit(request, {
+        action: "prompt_bundle.activate",
+        target: { type: "prompt_bundle", id: activeBundleId },
+        before: { activeBundleId: previousActiveId },
+        after: { activeBundleId },
+      });
+    }
 
     return NextResponse.json({
       success: true,
@@ -182,7 +226,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/admin/prompt-bundle
@@ -202,7 +246,7 @@ export async function POST(request: NextRequest) {
  *   activeBundleId: string
  * }
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withWorkspace(async (request: NextRequest) => {
   try {
     // Validate admin token
     const token = request.headers.get("x-admin-reset-token");
@@ -233,9 +277,16 @@ export async function PATCH(request: NextRequest) {
 
     console.log(`[Admin] Setting active bundle to '${body.bundleId}'`);
 
+    const previousActiveId = await getActiveBundleId();
     await setActivePromptBundle(body.bundleId);
 
     const activeBundleId = await getActiveBundleId();
+    await recordAudit(request, {
+      action: "prompt_bundle.activate",
+      target: { type: "prompt_bundle", id: activeBundleId },
+      before: { activeBundleId: previousActiveId },
+      after: { activeBundleId },
+    });
 
     return NextResponse.json({
       success: true,
@@ -251,4 +302,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runPurge } from "@/lib/retention";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * POST /api/admin/purge
+ * Apply the retention policy (see /api/admin/retention) and report what was
+ * removed
+ *
+ * Query params:
+ * - dryRun=true: Returns what would be removed without deleting anything
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ * - In production, requires ALLOW_ADMIN_RESET=true env var
+ *
+ * Returns:
+ * { success: true, report: PurgeReport }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    // Production safety check
+    const isProduction = process.env.VERCEL_ENV === "production";
+    const allowReset = process.env.ALLOW_ADMIN_RESET === "true";
+
+    if (isProduction && !allowReset) {
+      return NextResponse.json(
+        {
+          error: "Admin purge disabled in production (ALLOW_ADMIN_RESET not true)",
+          hint: "Set ALLOW_ADMIN_RESET=true env var to enable",
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+
+    const report = await runPurge({ dryRun });
+
+    if (!dryRun) {
+      await recordAudit(request, {
+        action: "data.purge",
+        target: { type: "retention_policy", id: null },
+        details: {
+          invites: report.removed.invites.length,
+          sessions: report.removed.sessions.length,
+          scores: report.removed.scores.length,
+          enrichments: report.removed.enrichments.length,
+          trash: report.removed.trash.length,
+        },
+      });
+    }
+
+    console.log(
+      `[Admin] Purge ${dryRun ? "dry run" : "complete"}: ${report.removed.invites.length} invites, ` +
+        `${report.removed.sessions.length} sessions, ${report.removed.scores.length} scores, ` +
+        `${report.removed.enrichments.length} enrichments, ${report.removed.trash.length} trashed records`
+    );
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("[Admin] Purge failed:", error);
+    return NextResponse.json(
+      { error: "Purge failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/storage";
+import { replaySessionOffline, type ReplayOptions } from "@/lib/offlineReplay";
+import { withWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/admin/replay
+ * Re-run a session offline through the current pipeline and diff it against
+ * the original (see lib/offlineReplay.ts). Nothing is saved.
+ *
+ * Request body (one of sessionId or messages):
+ * {
+ *   sessionId?: string,
+ *   messages?: string[],          // Ad-hoc replay: trainee messages...
+ *   outcomeSeed?: string,         // ...the seed...
+ *   kickoff?: CreateSessionInput, // ...and kickoff, as for /api/session/start
+ *   provider?: "recorded" | "mock", // Default "recorded"
+ *   promptBundleId?: string,      // Default: active bundle
+ *   configVersion?: number        // Default: the session's own version
+ * }
+ *
+ * Security:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * OfflineReplayResult ({ turns, original, replayed, changes, identical, ... })
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || (!body.sessionId && !Array.isArray(body.messages))) {
+      return NextResponse.json(
+        { error: "Provide sessionId, or messages with outcomeSeed and kickoff" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.configVersion !== undefined &&
+      (!Number.isInteger(body.configVersion) || body.configVersion < 0)
+    ) {
+      return NextResponse.json(
+        { error: "configVersion must be a whole number (0 = bundled config)" },
+        { status: 400 }
+      );
+    }
+
+    const options: ReplayOptions = {
+      provider: body.provider,
+      promptBundleId: body.promptBundleId,
+      configVersion: body.configVersion,
+    };
+
+    let replay;
+    if (body.sessionId) {
+      const session = await getSession(body.sessionId);
+      if (!session) {
+        return NextResponse.json(
+          { error: `Session ${body.sessionId} not found` },
+          { status: 404 }
+        );
+      }
+      replay = await replaySessionOffline(session, options);
+    } else {
+      if (
+        !body.messages.every((m: unknown) => typeof m === "string") ||
+        typeof body.outcomeSeed !== "string" ||
+        !body.kickoff ||
+        typeof body.kickoff !== "object"
+      ) {
+        return NextResponse.json(
+          { error: "messages must be strings, with an outcomeSeed string and a kickoff object" },
+          { status: 400 }
+        );
+      }
+      replay = await replaySessionOffline(
+        { messages: body.messages, outcomeSeed: body.outcomeSeed, kickoff: body.kickoff },
+        options
+      );
+    }
+
+    if (!replay.result) {
+      return NextResponse.json({ error: replay.error }, { status: 400 });
+    }
+
+    return NextResponse.json(replay.result);
+  } catch (error) {
+    console.error("[Admin] Failed to replay session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to replay session",
+        details: String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
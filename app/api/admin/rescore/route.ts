@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rescoreSessions } from "@/lib/rescore";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/admin/rescore
+ * Rescore stored sessions under the active prompt bundle's scoring version
+ * (see lib/rescore.ts) and report the score and grade changes
+ *
+ * Request body:
+ * {
+ *   dryRun?: boolean,      // Report only, write nothing (default true)
+ *   fromVersion?: string,  // Only scores on this scoring version ("unversioned" for older scores)
+ *   tokens?: string[],     // Only these scores
+ *   limit?: number,        // Stop after scanning this many scores
+ *   rejudge?: boolean      // Judge again on commit instead of reusing the stored evaluation
+ * }
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ * - Dry run by default; committing replaces scores and updates leaderboard entries
+ *
+ * Returns:
+ * { success: true, report: RescoreReport }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.fromVersion !== undefined && (typeof body.fromVersion !== "string" || !body.fromVersion.trim())) {
+      return NextResponse.json({ error: "fromVersion must be a scoring version" }, { status: 400 });
+    }
+    if (
+      body.tokens !== undefined &&
+      (!Array.isArray(body.tokens) || !body.tokens.every((t: unknown) => typeof t === "string"))
+    ) {
+      return NextResponse.json({ error: "tokens must be a list of score tokens" }, { status: 400 });
+    }
+    if (body.limit !== undefined && !(Number.isInteger(body.limit) && body.limit > 0)) {
+      return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+    }
+
+    const dryRun = body.dryRun !== false;
+    const report = await rescoreSessions({
+      dryRun,
+      fromVersion: body.fromVersion?.trim(),
+      tokens: body.tokens,
+      limit: body.limit,
+      rejudge: body.rejudge === true,
+    });
+
+    if (!dryRun) {
+      await recordAudit(request, {
+        action: "scores.rescore",
+        target: { type: "score", id: report.changes.length === 1 ? report.changes[0].token : null },
+        details: {
+          scoringVersion: report.scoringVersion,
+          fromVersion: body.fromVersion ?? null,
+          rescored: report.rescored,
+          changed: report.changed,
+          gradeChanges: report.gradeChanges,
+        },
+      });
+      console.log(
+        `[Admin] Rescored ${report.rescored} score(s) under ${report.scoringVersion} (${report.changed} changed)`
+      );
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("[Admin] Failed to rescore sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to rescore sessions", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -1,15 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { kv } from "@vercel/kv";
 import { listInvitesFromIndex } from "@/lib/inviteIndex";
 import { getInvite } from "@/lib/invites";
 import { deleteSession } from "@/lib/storage";
-
-/**
- * KV is configured when Vercel/Upstash env vars are present.
- */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
-}
+import { getStorage } from "@/lib/persistence";
+import { keys } from "@/lib/persistence/keys";
+import { recordAudit } from "@/lib/auditLog";
+import { forgetWorkspaceOwner, withWorkspace } from "@/lib/workspaces";
 
 /**
  * Admin endpoint to reset demo state
@@ -19,7 +15,7 @@ function useKv(): boolean {
  * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
  * - Optional: only allows when VERCEL_ENV !== 'production' or ALLOW_ADMIN_RESET=true
  */
-export async function POST(req: NextRequest) {
+export const POST = withWorkspace(async (req: NextRequest) => {
   // Check for admin reset token
   const adminToken = req.headers.get("x-admin-reset-token");
   const expectedToken = process.env.ADMIN_RESET_TOKEN;
@@ -57,57 +53,56 @@ export async function POST(req: NextRequest) {
     let deletedSessions = 0;
     let deletedScores = 0;
 
-    if (useKv()) {
-      // 1. Get all invites from index
-      const inviteTokens = await listInvitesFromIndex(200); // Get more than default limit
-
-      // 2. Delete each invite and its associated session
-      for (const token of inviteTokens) {
-        const invite = await getInvite(token);
-
-        if (invite) {
-          // Delete session
-          if (invite.sessionId) {
-            await deleteSession(invite.sessionId);
-            await kv.del(`session_invite:${invite.sessionId}`);
-            deletedSessions++;
-          }
-
-          // Delete invite
-          await kv.del(`invite:${token}`);
-          deletedInvites++;
+    const storage = getStorage();
+
+    // 1. Get all invites from index
+    const inviteTokens = await listInvitesFromIndex(200); // Get more than default limit
+
+    // 2. Delete each invite and its associated session
+    for (const token of inviteTokens) {
+      const invite = await getInvite(token);
+
+      if (invite) {
+        // Delete session
+        if (invite.sessionId) {
+          await deleteSession(invite.sessionId);
+          await storage.del(keys.sessionInvite(invite.sessionId));
+          deletedSessions++;
         }
+
+        // Delete invite
+        await storage.del(keys.invite(token));
+        await forgetWorkspaceOwner([token]);
+        deletedInvites++;
       }
+    }
 
-      // 3. Clear invites index
-      await kv.del("invites:index");
+    // 3. Clear invites index
+    await storage.del(keys.inviteIndex());
 
-      // 4. Get all scores from index and delete
-      const scoresIndex = (await kv.get<string[]>("scores:index")) ?? [];
-      for (const scoreToken of scoresIndex) {
-        await kv.del(`score:${scoreToken}`);
-        deletedScores++;
-      }
+    // 4. Delete all score records
+    const scorePrefix = keys.score("");
+    for (const scoreKey of await storage.keys(scorePrefix)) {
+      await storage.del(scoreKey);
+      deletedScores++;
+    }
 
-      // 5. Clear scores index (note: same key used for leaderboard!)
-      await kv.del("scores:index");
-    } else {
-      // In-memory fallback - the stores handle this internally
-      return NextResponse.json(
-        {
-          success: true,
-          message:
-            "In-memory mode: Data cleared from memory (will reset on server restart)",
-          deleted: {
-            invites: 0,
-            sessions: 0,
-            scores: 0,
-          },
-        },
-        { status: 200 }
-      );
+    // 5. Clear score and leaderboard indexes (sorted sets, facet sets, entries)
+    const indexKeys = [
+      ...(await storage.keys(keys.scoreIndex())),
+      ...(await storage.keys(keys.leaderboardIndex())),
+      ...(await storage.keys(keys.leaderboardEntry(""))),
+    ];
+    for (const indexKey of indexKeys) {
+      await storage.del(indexKey);
     }
 
+    await recordAudit(req, {
+      action: "demo.reset",
+      target: { type: "demo", id: null },
+      details: { invites: deletedInvites, sessions: deletedSessions, scores: deletedScores },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -130,4 +125,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
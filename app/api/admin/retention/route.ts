@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_RETENTION_POLICY,
+  getRetentionPolicy,
+  mergeRetentionPolicy,
+  saveRetentionPolicy,
+} from "@/lib/retention";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET /api/admin/retention
+ * Current retention policy (days per entity type; null keeps forever)
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    const policy = await getRetentionPolicy();
+    return NextResponse.json({ policy, defaults: DEFAULT_RETENTION_POLICY });
+  } catch (error) {
+    console.error("[Admin] Failed to load retention policy:", error);
+    return NextResponse.json(
+      { error: "Failed to load retention policy", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/admin/retention
+ * Update the retention policy. The body may be partial, e.g.
+ * { "invites": { "notStartedDays": 7 }, "scores": { "maxAgeDays": null } }
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ */
+export const PUT = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const previous = await getRetentionPolicy();
+    const { policy, error } = mergeRetentionPolicy(previous, body);
+    if (!policy) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await saveRetentionPolicy(policy);
+    await recordAudit(request, {
+      action: "retention.update",
+      target: { type: "retention_policy", id: null },
+      before: previous,
+      after: policy,
+    });
+    console.log("[Admin] Retention policy updated:", JSON.stringify(policy));
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    console.error("[Admin] Failed to save retention policy:", error);
+    return NextResponse.json(
+      { error: "Failed to save retention policy", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { seedScenarioPresets } from "@/lib/seedScenarioPresets";
 import { ensureConferencesSeeded } from "@/lib/conferenceStore";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * Admin endpoint to seed scenario preset data (conferences and personas for Scenarios A-F)
@@ -9,7 +11,7 @@ import { ensureConferencesSeeded } from "@/lib/conferenceStore";
  * Security:
  * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
  */
-export async function POST(req: NextRequest) {
+export const POST = withWorkspace(async (req: NextRequest) => {
   // Check for admin token
   const adminToken = req.headers.get("x-admin-reset-token");
   const expectedToken = process.env.ADMIN_RESET_TOKEN;
@@ -35,6 +37,11 @@ export async function POST(req: NextRequest) {
     // Seed scenario personas A-F (idempotent)
     await seedScenarioPresets();
 
+    await recordAudit(req, {
+      action: "presets.seed",
+      target: { type: "persona", id: null },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -52,4 +59,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
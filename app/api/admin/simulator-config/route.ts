@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  activateSimulatorConfigVersion,
+  getActiveSimulatorConfig,
+  getActiveSimulatorConfigVersion,
+  getSimulatorConfigVersion,
+  listSimulatorConfigVersions,
+  saveSimulatorConfig,
+} from "@/lib/simulatorConfigStore";
+import { validateSimulatorConfig } from "@/lib/simulatorConfig";
+import { STATE_GRAPH_SIGNALS } from "@/lib/simulator";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET /api/admin/simulator-config
+ * Retrieve a simulator config version and the version list
+ *
+ * Query params:
+ * - version: Version to retrieve (optional, defaults to the active version; 0 = bundled)
+ *
+ * Security:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { version: SimulatorConfigVersion, activeVersion: number, versions: SimulatorConfigVersionSummary[] }
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const requested = searchParams.get("version");
+
+    let version;
+    if (requested === null) {
+      version = await getActiveSimulatorConfig();
+    } else {
+      const number = Number(requested);
+      if (!Number.isInteger(number) || number < 0) {
+        return NextResponse.json(
+          { error: "version must be a whole number (0 = bundled config)" },
+          { status: 400 }
+        );
+      }
+      version = await getSimulatorConfigVersion(number);
+      if (!version) {
+        return NextResponse.json(
+          { error: `Simulator config version ${number} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      version,
+      activeVersion: await getActiveSimulatorConfigVersion(),
+      versions: await listSimulatorConfigVersions(),
+    });
+  } catch (error) {
+    console.error("[Admin] Failed to retrieve simulator config:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to retrieve simulator config",
+        details: String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/simulator-config
+ * Validate and save a simulator config as a new version
+ *
+ * Request body:
+ * {
+ *   config: SimulatorConfig,
+ *   note?: string,
+ *   activate?: boolean  // Default true: new sessions start on this version
+ * }
+ *
+ * Query params:
+ * - dryRun: Set to 'true' to validate without saving
+ *
+ * Security:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * Dry run: { valid: boolean, errors: ConfigValidationError[] }
+ * Saved: { success: true, version: SimulatorConfigVersion, activeVersion: number }
+ * Invalid (400): { error, errors: ConfigValidationError[] }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || body.config === undefined) {
+      return NextResponse.json(
+        { error: "Missing required field: config" },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get("dryRun") === "true") {
+      const { errors } = validateSimulatorConfig(body.config, { signals: STATE_GRAPH_SIGNALS });
+      return NextResponse.json({ valid: errors.length === 0, errors });
+    }
+
+    const previous = await getActiveSimulatorConfig();
+    const activate = body.activate !== false;
+    const { version, errors } = await saveSimulatorConfig(body.config, {
+      createdBy: resolveActor(request).name,
+      note: typeof body.note === "string" ? body.note : undefined,
+      activate,
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: `Invalid simulator config (${errors.length} error(s))`, errors },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Admin] Saved simulator config version ${version.version}`);
+
+    await recordAudit(request, {
+      action: "simulator_config.save",
+      target: { type: "simulator_config", id: String(version.version) },
+      before: previous.config,
+      after: version.config,
+      details: { note: version.note ?? null, basedOn: previous.version, activated: activate },
+    });
+
+    return NextResponse.json({
+      success: true,
+      version,
+      activeVersion: await getActiveSimulatorConfigVersion(),
+    });
+  } catch (error) {
+    console.error("[Admin] Failed to save simulator config:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save simulator config",
+        details: String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/admin/simulator-config
+ * Set the version new sessions start on (e.g. roll back)
+ *
+ * Request body:
+ * {
+ *   version: number  // 0 = bundled config
+ * }
+ *
+ * Security:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { success: true, activeVersion: number }
+ */
+export const PATCH = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || !Number.isInteger(body.version)) {
+      return NextResponse.json(
+        { error: "Missing required field: version" },
+        { status: 400 }
+      );
+    }
+
+    const previousVersion = await getActiveSimulatorConfigVersion();
+    const { error } = await activateSimulatorConfigVersion(body.version);
+    if (error) {
+      return NextResponse.json({ error }, { status: 404 });
+    }
+
+    console.log(`[Admin] Activated simulator config version ${body.version}`);
+
+    await recordAudit(request, {
+      action: "simulator_config.activate",
+      target: { type: "simulator_config", id: String(body.version) },
+      before: { activeVersion: previousVersion },
+      after: { activeVersion: body.version },
+    });
+
+    return NextResponse.json({
+      success: true,
+      activeVersion: body.version,
+    });
+  } catch (error) {
+    console.error("[Admin] Failed to activate simulator config:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to activate simulator config",
+        details: String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createWorkspace } from "@/lib/workspaces";
+import { recordAudit } from "@/lib/auditLog";
+
+/**
+ * POST /api/admin/workspaces
+ * Create a workspace
+ *
+ * Body: { name: string, id?: string }
+ * - id defaults to a slug of the name (lowercase letters, digits, dashes)
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { success: true, workspace: Workspace }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.name !== "string") {
+      return NextResponse.json(
+        { error: "Missing required field: name" },
+        { status: 400 }
+      );
+    }
+
+    const { workspace, error } = await createWorkspace({
+      name: body.name,
+      id: typeof body.id === "string" ? body.id : undefined,
+      createdBy: "admin",
+    });
+    if (!workspace) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(`[Admin] Created workspace ${workspace.id}`);
+    await recordAudit(request, {
+      action: "workspace.create",
+      target: { type: "workspace", id: workspace.id },
+      after: workspace,
+    });
+
+    return NextResponse.json({ success: true, workspace });
+  } catch (error) {
+    console.error("[Admin] Workspace creation failed:", error);
+    return NextResponse.json(
+      { error: "Workspace creation failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ConflictPolicy } from "@/lib/persistence/archive";
+import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { recordAudit } from "@/lib/auditLog";
+import {
+  currentWorkspaceId,
+  runInWorkspace,
+  shareScenarioContent,
+  withWorkspace,
+} from "@/lib/workspaces";
+
+const CONFLICT_POLICIES: ConflictPolicy[] = ["skip", "overwrite", "rename"];
+
+function idList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * POST /api/admin/workspaces/share
+ * Copy scenario content into another workspace
+ *
+ * Query params:
+ * - dryRun=true: report what would be copied without writing
+ *
+ * Body:
+ * {
+ *   to: string,                 // target workspace ID
+ *   from?: string,              // source workspace (default: current workspace)
+ *   conferenceIds?: string[],
+ *   personaIds?: string[],
+ *   promptBundleIds?: string[],
+ *   onConflict?: "skip" | "overwrite" | "rename"   // default skip
+ * }
+ * Enrichments cached for copied conference/persona pairs come along.
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { success: true, from, to, report: ImportReport }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    // Validate admin token
+    const token = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin reset not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!token || token !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.to !== "string") {
+      return NextResponse.json(
+        { error: "Missing required field: to" },
+        { status: 400 }
+      );
+    }
+
+    const onConflict = (body.onConflict || "skip") as ConflictPolicy;
+    if (!CONFLICT_POLICIES.includes(onConflict)) {
+      return NextResponse.json(
+        { error: "Invalid onConflict (expected skip, overwrite or rename)" },
+        { status: 400 }
+      );
+    }
+
+    const from = typeof body.from === "string" ? body.from : currentWorkspaceId();
+    const to = body.to;
+
+    console.log(`[Admin] Sharing scenario content ${from} → ${to} (onConflict: ${onConflict}, dryRun: ${dryRun})`);
+
+    const { report, error } = await shareScenarioContent({
+      from,
+      to,
+      conferenceIds: idList(body.conferenceIds),
+      personaIds: idList(body.personaIds),
+      promptBundleIds: idList(body.promptBundleIds),
+      onConflict,
+      dryRun,
+    });
+    if (!report) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!dryRun) {
+      runInWorkspace(to, invalidateBootstrapCache);
+      // Logged in the workspace that received the content
+      await runInWorkspace(to, () =>
+        recordAudit(request, {
+          action: "workspace.share",
+          target: { type: "workspace", id: to },
+          details: { from, to, onConflict, report },
+        })
+      );
+    }
+
+    return NextResponse.json({ success: true, from, to, report });
+  } catch (error) {
+    console.error("[Admin] Workspace share failed:", error);
+    return NextResponse.json(
+      { error: "Workspace share failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -5,7 +5,8 @@ import { listTrainees, ensureTraineesSeeded } from "@/lib/traineeStore";
 import type { Conference, Persona } from "@/lib/scenarioTypes";
 import type { Trainee } from "@/lib/traineeStore";
 import { withSpan } from "@/lib/telemetry";
-import { getMemStore } from "@/lib/memoryStore";
+import { getWorkspaceMeta } from "@/lib/memoryStore";
+import { withWorkspace } from "@/lib/workspaces";
 
 // Force dynamic rendering - never cache this endpoint
 export const dynamic = "force-dynamic";
@@ -22,25 +23,25 @@ interface BootstrapData {
   };
 }
 
-// Use shared global cache for development (30 second TTL)
+// Use shared global cache for development (30 second TTL, per workspace)
 const CACHE_TTL_MS = 30_000; // 30 seconds
 
 function getBootstrapCache() {
-  const store = getMemStore();
-  if (!store.meta.bootstrapCache || !store.meta.bootstrapCacheAt) {
+  const meta = getWorkspaceMeta();
+  if (!meta.bootstrapCache || !meta.bootstrapCacheAt) {
     return null;
   }
 
   return {
-    data: store.meta.bootstrapCache as BootstrapData,
-    expiresAt: store.meta.bootstrapCacheAt,
+    data: meta.bootstrapCache as BootstrapData,
+    expiresAt: meta.bootstrapCacheAt,
   };
 }
 
 function setBootstrapCache(data: BootstrapData) {
-  const store = getMemStore();
-  store.meta.bootstrapCache = data;
-  store.meta.bootstrapCacheAt = Date.now() + CACHE_TTL_MS;
+  const meta = getWorkspaceMeta();
+  meta.bootstrapCache = data;
+  meta.bootstrapCacheAt = Date.now() + CACHE_TTL_MS;
 }
 
 /**
@@ -48,7 +49,7 @@ function setBootstrapCache(data: BootstrapData) {
  * Reduces client round trips from 3 to 1
  * In-memory cache prevents repeated KV reads during dev
  */
-export async function GET() {
+export const GET = withWorkspace(async () => {
   return withSpan(
     "hc.event.bootstrap",
     async (span) => {
@@ -185,4 +186,4 @@ export async function GET() {
     },
     { route: "/api/bootstrap", method: "GET", event_type: "bootstrap" }
   );
-}
+});
@@ -5,11 +5,16 @@ import {
   ensureConferencesSeeded,
   findConferenceByName,
   archiveConference,
+  getConference,
 } from "@/lib/conferenceStore";
 import { Conference } from "@/lib/scenarioTypes";
 import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { withWorkspace } from "@/lib/workspaces";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
+import { getActiveSimulatorConfig } from "@/lib/simulatorConfigStore";
+import { validateRuleOverrides } from "@/lib/scenarioRules";
 
-export async function GET() {
+export const GET = withWorkspace(async () => {
   try {
     // Ensure seeded on first access
     await ensureConferencesSeeded();
@@ -23,9 +28,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -37,6 +42,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Rule overrides must make sense against the active simulator config
+    const { config } = await getActiveSimulatorConfig();
+    const { overrides, errors } = validateRuleOverrides(body.ruleOverrides, config);
+    if (overrides === null) {
+      return NextResponse.json(
+        { error: `Invalid rule overrides (${errors.length} error(s))`, errors },
+        { status: 400 }
+      );
+    }
+    body.ruleOverrides = overrides;
+
     // Check for overwrite when creating new conference (no id provided)
     if (!body.id) {
       const existing = await findConferenceByName(body.name);
@@ -55,14 +71,31 @@ export async function POST(request: NextRequest) {
 
     // If archiveExistingId is provided, archive it first before creating new
     if (body.archiveExistingId) {
-      await archiveConference(body.archiveExistingId);
+      const archivedBefore = await getConference(body.archiveExistingId);
+      if (await archiveConference(body.archiveExistingId, resolveActor(request).name)) {
+        await recordAudit(request, {
+          action: "conference.archive",
+          target: { type: "conference", id: body.archiveExistingId },
+          before: archivedBefore,
+          after: await getConference(body.archiveExistingId),
+        });
+      }
     }
 
+    const before = body.id ? await getConference(body.id) : null;
+
     // Upsert conference (creates if missing id, updates if present)
     const conference = await upsertConference(
       body as Partial<Conference> & { name: string }
     );
 
+    await recordAudit(request, {
+      action: "conference.save",
+      target: { type: "conference", id: conference.id },
+      before,
+      after: conference,
+    });
+
     // Invalidate bootstrap cache so changes appear immediately
     invalidateBootstrapCache();
 
@@ -74,4 +107,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -3,11 +3,13 @@ import {
   getEnrichment,
   invalidateEnrichment,
 } from "@/lib/llm/enrichmentStore";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function GET(
+export const GET = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ conferenceId: string; personaId: string }> }
-) {
+) => {
   try {
     const { conferenceId, personaId } = await params;
     const enrichment = await getEnrichment(conferenceId, personaId);
@@ -27,16 +29,25 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ conferenceId: string; personaId: string }> }
-) {
+) => {
   try {
     const { conferenceId, personaId } = await params;
+    const before = await getEnrichment(conferenceId, personaId);
     await invalidateEnrichment(conferenceId, personaId);
 
+    if (before) {
+      await recordAudit(request, {
+        action: "enrichment.delete",
+        target: { type: "enrichment", id: `${conferenceId}:${personaId}` },
+        before,
+      });
+    }
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Failed to invalidate enrichment:", error);
@@ -45,4 +56,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
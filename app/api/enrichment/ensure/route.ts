@@ -3,6 +3,7 @@ import { getEnrichment, saveEnrichment } from "@/lib/llm/enrichmentStore";
 import { getEnrichmentProvider } from "@/lib/llm/provider";
 import type { EnrichmentInput } from "@/lib/llm/enrichmentTypes";
 import { withSpan, withChildSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * POST /api/enrichment/ensure
@@ -17,7 +18,7 @@ import { withSpan, withChildSpan } from "@/lib/telemetry";
  * - conferenceContext: string
  * - attendeeProfile: string
  */
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   return withSpan(
     "hc.event.enrichment_ensure",
     async (span) => {
@@ -161,4 +162,4 @@ export async function POST(request: NextRequest) {
     },
     { route: "/api/enrichment/ensure", method: "POST", event_type: "enrichment_ensure" }
   );
-}
+});
@@ -3,8 +3,9 @@ import { getEnrichmentProvider } from "@/lib/llm/provider";
 import { getEnrichment, saveEnrichment } from "@/lib/llm/enrichmentStore";
 import type { EnrichmentInput } from "@/lib/llm/enrichmentTypes";
 import { withSpan, withChildSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   return withSpan(
     "hc.event.enrichment",
     async (span) => {
@@ -130,4 +131,4 @@ export async function POST(request: NextRequest) {
     },
     { route: "/api/enrichment", method: "POST", event_type: "enrichment" }
   );
-}
+});
@@ -1,43 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { listScores } from "@/lib/scoreStore";
+import { countScoreRecords, queryScoreRecords } from "@/lib/scoreStore";
 import { computeInsights } from "@/lib/insights";
-import type { ScoreRecord } from "@/lib/scoring";
+import { rangeStart, type DateRange } from "@/lib/scoreIndexes";
+import { scoringVersionOf } from "@/lib/scoring";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function GET(request: NextRequest) {
+export const GET = withWorkspace(async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const range = (searchParams.get("range") as "7d" | "30d" | "all") || "7d";
+    const range = (searchParams.get("range") as DateRange) || "7d";
     const conferenceId = searchParams.get("conferenceId") || undefined;
     const personaId = searchParams.get("personaId") || undefined;
     const traineeId = searchParams.get("traineeId") || undefined;
-
-    // Fetch scores from store
-    const allScores = await listScores({ range, limit: 5000 });
-
-    // Apply filters
-    let filtered: ScoreRecord[] = allScores;
-
-    if (conferenceId) {
-      filtered = filtered.filter(
-        (score) => score.conferenceId === conferenceId
-      );
-    }
-
-    if (personaId) {
-      filtered = filtered.filter((score) => score.personaId === personaId);
-    }
-
-    if (traineeId) {
-      filtered = filtered.filter((score) => score.traineeId === traineeId);
-    }
+    const difficulty = searchParams.get("difficulty") || undefined;
+    const scoringVersion = searchParams.get("scoringVersion") || undefined;
+
+    // Filters are resolved against the sorted score indexes, so only
+    // matching records are loaded
+    const [filtered, totalScores] = await Promise.all([
+      queryScoreRecords({
+        conferenceId,
+        personaId,
+        traineeId,
+        difficulty,
+        since: rangeStart(range),
+      }),
+      countScoreRecords(range),
+    ]);
+
+    // Scores on different scoring versions aren't comparable; the version
+    // isn't indexed, so it filters the loaded records
+    const scoringVersions = [...new Set(filtered.items.map(scoringVersionOf))].sort();
+    const scores = scoringVersion
+      ? filtered.items.filter((record) => scoringVersionOf(record) === scoringVersion)
+      : filtered.items;
 
     // Compute insights
-    const insights = computeInsights(filtered);
+    const insights = computeInsights(scores);
 
     return NextResponse.json({
       insights,
-      totalScores: allScores.length,
-      filteredScores: filtered.length,
+      totalScores,
+      filteredScores: scores.length,
+      scoringVersions,
       range,
     });
   } catch (error) {
@@ -47,4 +52,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { getInvite } from "@/lib/invites";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function GET(req: Request, ctx: any) {
+export const GET = withWorkspace(async (req: Request, ctx: any) => {
   // Works across Next 15 / 16 / Turbopack
   const { token } = await Promise.resolve(ctx.params);
 
@@ -28,4 +29,4 @@ export async function GET(req: Request, ctx: any) {
     sessionId: invite.sessionId,
     createdAt: invite.createdAt,
   });
-}
+}, { ownerParam: "token" });
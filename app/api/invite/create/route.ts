@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { randomUUID } from "crypto";
 import { createSessionWithEnrichment } from "@/lib/createSession";
-import { saveSession } from "@/lib/storage";
-import { saveInvite } from "@/lib/invites";
 import { addInviteToIndex } from "@/lib/inviteIndex";
 import { getTrainee, ensureTraineesSeeded } from "@/lib/traineeStore";
 import { ensurePersonasSeeded } from "@/lib/personaStore";
 import { ensureConferencesSeeded } from "@/lib/conferenceStore";
 import { getEnrichment } from "@/lib/llm/enrichmentStore";
 import { withSpan, withChildSpan } from "@/lib/telemetry";
-import { useKv } from "@/lib/kvConfig";
 import { batchWrite, withTiming } from "@/lib/batchOperations";
+import { keys } from "@/lib/persistence/keys";
+import { sessionCreatedEvent, stampSessionEvents } from "@/lib/sessionEvents";
+import { withWorkspace, recordWorkspaceOwner } from "@/lib/workspaces";
 
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   return withSpan(
     "hc.event.invite_create",
     async (span) => {
@@ -37,8 +37,14 @@ export async function POST(request: NextRequest) {
 
         span.setAttribute("conference_id", body.conferenceId || "none");
         span.setAttribute("persona_id", body.personaId || "none");
+        const personaIds: string[] | undefined = Array.isArray(body.personaIds) ? body.personaIds : undefined;
+        const coaching = body.coaching === true;
+        if (personaIds) {
+          span.setAttribute("attendee_count", personaIds.length);
+        }
         span.setAttribute("trainee_id", body.traineeId);
         span.setAttribute("difficulty", body.difficulty || "auto");
+        span.setAttribute("coaching", coaching);
 
         // Ensure all stores are seeded (critical for in-memory dev mode)
         // In production with KV, these are no-ops after first call
@@ -92,11 +98,13 @@ export async function POST(request: NextRequest) {
         // skipEnrichmentGeneration=true means only check cache, don't generate
         const result = await createSessionWithEnrichment({
           personaId: body.personaId,
+          personaIds,
           conferenceId: body.conferenceId,
           conferenceContext: body.conferenceContext,
           attendeeProfile: body.attendeeProfile,
           difficulty: body.difficulty,
           traineeId: body.traineeId,
+          coaching,
           skipEnrichmentGeneration: true, // KEY: Don't block on OpenAI
         });
 
@@ -116,9 +124,11 @@ export async function POST(request: NextRequest) {
           sessionId: session.id,
           createdAt,
           conferenceId: body.conferenceId,
-          personaId: body.personaId,
+          personaId: session.kickoff.personaId,
+          ...(personaIds ? { personaIds } : {}),
           traineeId: body.traineeId,
           traineeName: body.traineeName || `${trainee.firstName} ${trainee.lastName}`,
+          ...(coaching ? { coaching } : {}),
           createdBy: body.createdBy,
           // Snapshot fields from session
           conferenceName: session.kickoff.conferenceName,
@@ -126,7 +136,7 @@ export async function POST(request: NextRequest) {
           traineeNameShort: session.kickoff.traineeNameShort,
         };
 
-        // Batch write: session + invite + index in single pipeline (if KV)
+        // Batch write: session + invite in single pipeline, then admin index
         const { duration: writeDuration } = await withTiming(async () => {
           return withChildSpan(
             "hc.dep.kv.write",
@@ -134,22 +144,22 @@ export async function POST(request: NextRequest) {
               childSpan.setAttribute("dep_type", "kv");
               childSpan.setAttribute("operation", "batch_write");
 
-              if (useKv()) {
-                // Batch all writes into single pipeline
-                await batchWrite([
-                  { key: `session:${session.id}`, value: session },
-                  { key: `invite:${token}`, value: invite },
-                  { key: `invite_index:${token}`, value: createdAt },
-                ]);
-                childSpan.setAttribute("operations_count", 3);
-                kvPipelineCalls++;
-              } else {
-                // In-memory mode: call individual functions
-                await saveSession(session);
-                await saveInvite(invite);
-                await addInviteToIndex(token, createdAt);
-                childSpan.setAttribute("operations_count", 3);
-              }
+              // Batch session + its creation event + invite + reverse mapping
+              // into a single write
+              await batchWrite([
+                { key: keys.session(session.id), value: session },
+                {
+                  key: keys.sessionEvents(session.id, 0),
+                  value: stampSessionEvents([sessionCreatedEvent(session)], 0),
+                },
+                { key: keys.invite(token), value: invite },
+                { key: keys.sessionInvite(session.id), value: { token } },
+              ]);
+              await addInviteToIndex(token, createdAt);
+              // Token-only links must resolve to this workspace (see saveInvite)
+              await recordWorkspaceOwner([token, session.id]);
+              childSpan.setAttribute("operations_count", 5);
+              kvPipelineCalls++;
             }
           );
         });
@@ -185,6 +195,24 @@ export async function POST(request: NextRequest) {
           span.setAttribute("invite_create.enrichment_triggered", false);
         }
 
+        // Group sessions: warm the cache for everyone else at the booth too
+        // (the message route picks it up when they first speak)
+        for (const attendee of session.attendees?.slice(1) ?? []) {
+          if (!body.conferenceId || attendee.enrichment) continue;
+          fetch(new URL("/api/enrichment/ensure", request.url).toString(), {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              conferenceId: body.conferenceId,
+              personaId: attendee.personaId,
+              conferenceContext: session.kickoff.conferenceContext,
+              attendeeProfile: attendee.attendeeProfile,
+            }),
+          }).catch((err) => {
+            console.error("[invite/create] Background enrichment trigger failed:", err);
+          });
+        }
+
         span.setAttribute("status", 200);
         span.setAttribute("session_id", session.id);
         span.setAttribute("invite_token", token);
@@ -211,4 +239,4 @@ export async function POST(request: NextRequest) {
     },
     { route: "/api/invite/create", method: "POST", event_type: "invite_create" }
   );
-}
+});
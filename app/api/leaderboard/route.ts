@@ -1,94 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
-import { listLeaderboardIndex, LeaderboardEntry } from "@/lib/leaderboardStore";
+import { countLeaderboardEntries, listLeaderboard } from "@/lib/leaderboardStore";
+import { rangeStart } from "@/lib/scoreIndexes";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function GET(request: NextRequest) {
+export const GET = withWorkspace(async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams;
     const range = searchParams.get("range") || "7d"; // Default to 7d
     const conferenceId = searchParams.get("conferenceId") || undefined;
     const personaId = searchParams.get("personaId") || undefined;
     const traineeId = searchParams.get("traineeId") || undefined;
+    const difficulty = searchParams.get("difficulty") || undefined;
     const jobTitle = searchParams.get("jobTitle") || undefined;
+    // Coaching-mode runs are ranked on their own board
+    const coached = searchParams.get("coached") === "true";
+    const cursor = searchParams.get("cursor");
     const limitParam = searchParams.get("limit");
     const limit = limitParam ? Math.min(parseInt(limitParam, 10), 200) : 20;
 
-    // Fetch all entries
-    const allEntries = await listLeaderboardIndex();
-    const totalStored = allEntries.length;
-
-    // Apply range filter
-    let entries = allEntries;
-    if (range !== "all") {
-      const now = new Date();
-      let cutoffTime: Date;
-
-      switch (range) {
-        case "24h":
-          cutoffTime = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-          break;
-        case "7d":
-          cutoffTime = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case "30d":
-          cutoffTime = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          break;
-        default:
-          cutoffTime = new Date(0);
-      }
-
-      entries = entries.filter((entry) => {
-        const entryTime = new Date(entry.createdAt);
-        return entryTime >= cutoffTime;
-      });
-    }
-
-    // Apply conference filter
-    if (conferenceId) {
-      entries = entries.filter(
-        (entry) => entry.conferenceId === conferenceId
-      );
-    }
-
-    // Apply persona filter
-    if (personaId) {
-      entries = entries.filter(
-        (entry) => entry.personaId === personaId
-      );
-    }
-
-    // Apply trainee filter
-    if (traineeId) {
-      entries = entries.filter(
-        (entry) => entry.traineeId === traineeId
-      );
-    }
-
-    // Apply job title filter (convenience filter)
-    if (jobTitle) {
-      entries = entries.filter(
-        (entry) => entry.jobTitle?.toLowerCase() === jobTitle.toLowerCase()
-      );
-    }
-
-    const totalMatched = entries.length;
-
-    // Sort by score desc, then createdAt desc (recency tie-break)
-    entries.sort((a, b) => {
-      if (b.score !== a.score) {
-        return b.score - a.score;
-      }
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-
-    // Limit results
-    const topEntries = entries.slice(0, limit);
+    // Filtering, ordering (score desc, then createdAt desc) and paging all
+    // happen against the sorted indexes
+    const [page, totalStored] = await Promise.all([
+      listLeaderboard(
+        {
+          conferenceId,
+          personaId,
+          traineeId,
+          difficulty,
+          jobTitle,
+          coached,
+          since: rangeStart(range),
+        },
+        { limit, cursor }
+      ),
+      countLeaderboardEntries(coached),
+    ]);
 
     return NextResponse.json({
-      entries: topEntries,
-      totalMatched,
+      entries: page.items,
+      totalMatched: page.totalMatched,
+      totalEstimated: page.totalEstimated ?? false,
       totalStored,
+      nextCursor: page.nextCursor,
       rangeUsed: range,
       limitUsed: limit,
+      coached,
     });
   } catch (error) {
     console.error("Failed to fetch leaderboard:", error);
@@ -97,4 +53,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
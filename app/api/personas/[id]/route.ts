@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getPersona, archivePersona, ensurePersonasSeeded } from "@/lib/personaStore";
+import { withWorkspace } from "@/lib/workspaces";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
 
-export async function GET(
+export const GET = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await ensurePersonasSeeded();
     const { id } = await params;
@@ -25,15 +27,16 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
-    const success = await archivePersona(id);
+    const before = await getPersona(id);
+    const success = await archivePersona(id, resolveActor(request).name);
 
     if (!success) {
       return NextResponse.json(
@@ -42,6 +45,13 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(request, {
+      action: "persona.archive",
+      target: { type: "persona", id },
+      before,
+      after: await getPersona(id),
+    });
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Failed to archive persona:", error);
@@ -50,4 +60,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
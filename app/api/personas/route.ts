@@ -5,12 +5,17 @@ import {
   ensurePersonasSeeded,
   findPersonaByName,
   archivePersona,
+  getPersona,
 } from "@/lib/personaStore";
 import { Persona } from "@/lib/scenarioTypes";
 import { seedScenarioPresets } from "@/lib/seedScenarioPresets";
 import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { withWorkspace } from "@/lib/workspaces";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
+import { getActiveSimulatorConfig } from "@/lib/simulatorConfigStore";
+import { validateRuleOverrides } from "@/lib/scenarioRules";
 
-export async function GET() {
+export const GET = withWorkspace(async () => {
   try {
     // Ensure seeded on first access
     await ensurePersonasSeeded();
@@ -27,9 +32,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -41,6 +46,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Rule overrides must make sense against the active simulator config
+    const { config } = await getActiveSimulatorConfig();
+    const { overrides, errors } = validateRuleOverrides(body.ruleOverrides, config);
+    if (overrides === null) {
+      return NextResponse.json(
+        { error: `Invalid rule overrides (${errors.length} error(s))`, errors },
+        { status: 400 }
+      );
+    }
+    body.ruleOverrides = overrides;
+
     // Check for overwrite when creating new persona (no id provided)
     if (!body.id) {
       const existing = await findPersonaByName(body.name);
@@ -59,12 +75,29 @@ export async function POST(request: NextRequest) {
 
     // If archiveExistingId is provided, archive it first before creating new
     if (body.archiveExistingId) {
-      await archivePersona(body.archiveExistingId);
+      const archivedBefore = await getPersona(body.archiveExistingId);
+      if (await archivePersona(body.archiveExistingId, resolveActor(request).name)) {
+        await recordAudit(request, {
+          action: "persona.archive",
+          target: { type: "persona", id: body.archiveExistingId },
+          before: archivedBefore,
+          after: await getPersona(body.archiveExistingId),
+        });
+      }
     }
 
+    const before = body.id ? await getPersona(body.id) : null;
+
     // Upsert persona (creates if missing id, updates if present)
     const persona = await upsertPersona(body as Partial<Persona> & { name: string });
 
+    await recordAudit(request, {
+      action: "persona.save",
+      target: { type: "persona", id: persona.id },
+      before,
+      after: persona,
+    });
+
     // Invalidate bootstrap cache so changes appear immediately
     invalidateBootstrapCache();
 
@@ -76,4 +109,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
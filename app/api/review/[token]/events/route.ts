@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getInvite } from "@/lib/invites";
+import { getSession } from "@/lib/storage";
+import { checkSessionLog } from "@/lib/sessionLog";
+import { redactSessionEvent } from "@/lib/sessionEvents";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * Trainer-safe event log for the review replay.
+ * Redacts attendeeProfile from the session_created snapshot.
+ */
+export const GET = withWorkspace(async (
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params;
+
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  const invite = await getInvite(token);
+  if (!invite) {
+    return NextResponse.json(
+      { error: "Invalid or revoked invite token" },
+      { status: 404 }
+    );
+  }
+
+  if (invite.revoked) {
+    return NextResponse.json(
+      { error: "This invite has been revoked" },
+      { status: 403 }
+    );
+  }
+
+  const session = await getSession(invite.sessionId);
+  if (!session) {
+    return NextResponse.json(
+      { error: "Session not found" },
+      { status: 404 }
+    );
+  }
+
+  const check = await checkSessionLog(session);
+
+  return NextResponse.json({
+    sessionId: session.id,
+    events: check.events.map(redactSessionEvent),
+    missingRevisions: check.missingRevisions,
+    rebuildMatches: check.mismatches.length === 0,
+    mismatches: check.mismatches,
+  });
+}, { ownerParam: "token" });
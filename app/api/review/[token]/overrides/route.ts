@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { saveTrainerOverrides } from "@/lib/scoreOverrides";
+import { effectiveScore } from "@/lib/scoring";
+import { recordAudit, resolveActor } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * POST /api/review/[token]/overrides
+ * Replace a finished session's trainer overrides (see lib/scoreOverrides.ts).
+ * The computed score is kept; the leaderboard entry moves to the effective
+ * score and grade.
+ *
+ * Request body (send the whole set; missing overrides are removed):
+ * {
+ *   grade?: { value: "A" | "B" | "C" | "D" | "F", justification: string },
+ *   breakdown?: { [dimension: string]: { value: number, justification: string } }
+ * }
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *   (the invite token alone is known to the trainee)
+ *
+ * Returns:
+ * {
+ *   success: true,
+ *   trainerOverrides: TrainerOverrides | null,
+ *   effective: { score, grade, breakdown, overridden }
+ * }
+ *
+ * Returns 400 with { error, errors: string[] } when an override is out of
+ * range or missing its justification, 404 when the session has no score yet.
+ */
+export const POST = withWorkspace(async (
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params;
+
+  try {
+    // Validate admin token
+    const adminToken = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!adminToken || adminToken !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const actor = resolveActor(request);
+    const result = await saveTrainerOverrides(
+      token,
+      body,
+      actor.name !== "unknown" ? actor.name : undefined
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.status === 404 ? "Score not found" : "Invalid overrides", errors: result.errors },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(request, {
+      action: "score.override",
+      target: { type: "score", id: token },
+      before: result.previous ?? null,
+      after: result.record.trainerOverrides ?? null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      trainerOverrides: result.record.trainerOverrides ?? null,
+      effective: effectiveScore(result.record),
+    });
+  } catch (error) {
+    console.error("[Overrides] Failed to save overrides:", error);
+    return NextResponse.json(
+      { error: "Failed to save overrides" },
+      { status: 500 }
+    );
+  }
+}, { ownerParam: "token" });
+
+/**
+ * DELETE /api/review/[token]/overrides
+ * Remove all trainer overrides; the computed score applies again
+ *
+ * Safety:
+ * - Requires x-admin-reset-token header matching ADMIN_RESET_TOKEN env var
+ *
+ * Returns:
+ * { success: true, trainerOverrides: null, effective: { score, grade, breakdown, overridden } }
+ */
+export const DELETE = withWorkspace(async (
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params;
+
+  try {
+    // Validate admin token
+    const adminToken = request.headers.get("x-admin-reset-token");
+    const expectedToken = process.env.ADMIN_RESET_TOKEN;
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: "Admin not configured (ADMIN_RESET_TOKEN missing)" },
+        { status: 500 }
+      );
+    }
+
+    if (!adminToken || adminToken !== expectedToken) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid or missing x-admin-reset-token" },
+        { status: 401 }
+      );
+    }
+
+    const result = await saveTrainerOverrides(token, {});
+    if (!result.ok) {
+      return NextResponse.json({ error: "Score not found" }, { status: 404 });
+    }
+
+    if (result.previous) {
+      await recordAudit(request, {
+        action: "score.override",
+        target: { type: "score", id: token },
+        before: result.previous,
+        after: null,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      trainerOverrides: null,
+      effective: effectiveScore(result.record),
+    });
+  } catch (error) {
+    console.error("[Overrides] Failed to clear overrides:", error);
+    return NextResponse.json(
+      { error: "Failed to clear overrides" },
+      { status: 500 }
+    );
+  }
+}, { ownerParam: "token" });
@@ -1,13 +1,20 @@
 import { NextResponse } from "next/server";
 import { getInvite } from "@/lib/invites";
 import { getSession } from "@/lib/storage";
+import { getScore } from "@/lib/scoreStore";
+import { effectiveScore } from "@/lib/scoring";
+import { annotateTurns } from "@/lib/turnAnnotations";
 import { normalizeTranscript } from "@/lib/normalizeTranscript";
+import { withWorkspace } from "@/lib/workspaces";
+import { getSessionLog } from "@/lib/sessionLog";
+import { getSessionSimulatorConfig } from "@/lib/simulatorConfigStore";
+import { buildEngagementCurve, getEngagementConfig, getSessionEngagement } from "@/lib/engagement";
 
 /**
  * Trainer-safe review endpoint that returns session data for a given invite token.
  * Redacts attendeeProfile to prevent exposure in UI.
  */
-export async function GET(req: Request, ctx: any) {
+export const GET = withWorkspace(async (req: Request, ctx: any) => {
   // Works across Next 15 / 16 / Turbopack
   const { token } = await Promise.resolve(ctx.params);
 
@@ -58,15 +65,52 @@ export async function GET(req: Request, ctx: any) {
   // Normalize transcript
   const transcript = normalizeTranscript(session.transcript);
 
+  // Attendee patience meter, one point per trainee turn
+  const config = await getSessionSimulatorConfig(session);
+  const { wavering_below, walk_away_at } = getEngagementConfig(config);
+  const { events } = await getSessionLog(session);
+  const scoreRecord = await getScore(token);
+
   return NextResponse.json({
     token,
     sessionId: session.id,
     kickoff: redactedKickoff,
     transcript,
     currentState: session.currentState,
+    // Group sessions: per-attendee state and outcome (profiles stay hidden)
+    attendees: session.attendees?.map((attendee) => ({
+      id: attendee.id,
+      personaId: attendee.personaId,
+      displayName: attendee.displayName,
+      stakeholderType: attendee.stakeholderType,
+      currentState: attendee.currentState,
+      outcome: attendee.outcome,
+    })),
     violations: session.violations ?? [],
     active: session.active,
     startTime: session.startTime,
     trainerFeedback: session.trainerFeedback || undefined,
+    engagement: {
+      current: getSessionEngagement(session, config),
+      waveringBelow: wavering_below,
+      walkAwayAt: walk_away_at,
+      curve: buildEngagementCurve(events, config),
+    },
+    // One per trainee message: stored with the score, live from the log until then
+    annotations: scoreRecord?.turnAnnotations ?? annotateTurns(session, events),
+    // Finished sessions: the computed score, the LLM judge's evaluation and
+    // the trainer's overrides with the effective result
+    score: scoreRecord
+      ? {
+          score: scoreRecord.score,
+          grade: scoreRecord.grade,
+          breakdown: scoreRecord.breakdown,
+          breakdownMax: scoreRecord.breakdownMax,
+          heuristicScore: scoreRecord.heuristicScore,
+          judge: scoreRecord.judge,
+          trainerOverrides: scoreRecord.trainerOverrides,
+          effective: effectiveScore(scoreRecord),
+        }
+      : undefined,
   });
-}
+}, { ownerParam: "token" });
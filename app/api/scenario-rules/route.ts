@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getActiveSimulatorConfig } from "@/lib/simulatorConfigStore";
+import { withWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/scenario-rules
+ * Global rule defaults the editor's rule override fields build on
+ *
+ * Returns:
+ * {
+ *   turnLimits: Record<Difficulty, number>,
+ *   bandKeys: string[],     // persona_outcome_bands keys
+ *   outcomes: string[],     // states.OUTCOME.possible_outcomes
+ *   interruptionChance: Record<Difficulty, number>,
+ *   interruptionEvents: string[]  // interruptions.events keys
+ * }
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    const { config } = await getActiveSimulatorConfig();
+
+    return NextResponse.json(
+      {
+        turnLimits: config.conversation_rules.turn_limits,
+        bandKeys: Object.keys(config.persona_outcome_bands),
+        outcomes: config.states.OUTCOME?.possible_outcomes ?? [],
+        interruptionChance: config.interruptions?.chance_per_turn ?? { easy: 0, medium: 0, hard: 0 },
+        interruptionEvents: Object.keys(config.interruptions?.events ?? {}),
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Failed to load scenario rules:", error);
+    return NextResponse.json(
+      { error: "Failed to load scenario rules" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,28 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession, saveSession } from "@/lib/storage";
+import { matchesExpectedRevision, sessionConflictBody } from "@/lib/sessionView";
 import { randomUUID } from "crypto";
 import { getInviteForSession } from "@/lib/invites";
-import { scoreSession } from "@/lib/scoring";
 import { saveScore } from "@/lib/scoreStore";
-import { addToLeaderboardIndex } from "@/lib/leaderboardStore";
+import { scoreFinishedSession } from "@/lib/sessionScoring";
+import { addToLeaderboardIndex, leaderboardEntryFromScore } from "@/lib/leaderboardStore";
 import { getOutcomeAction, type OutcomeActionType } from "@/lib/outcomeActions";
 import { withSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * Complete a session with an explicit outcome action.
  *
  * This endpoint:
  * 1. Appends a system message describing the action
- * 2. Marks session as inactive
+ * 2. Marks session as inactive and persists it (409 on revision conflict)
  * 3. Generates and saves score
  * 4. Returns shareUrl for redirect
  *
  * This replaces the auto-end flow with an explicit user action.
  */
-export async function POST(
+export const POST = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   return withSpan(
     "hc.event.session_complete",
     async (span) => {
@@ -53,7 +55,7 @@ export async function POST(
           );
         }
 
-        const { actionType } = await request.json();
+        const { actionType, expectedRevision } = await request.json();
 
         if (!actionType) {
           span.setAttribute("status", 400);
@@ -66,6 +68,12 @@ export async function POST(
 
         span.setAttribute("action_type", actionType);
 
+        if (!matchesExpectedRevision(session, expectedRevision)) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(session), { status: 409 });
+        }
+
         // 1) Determine final outcome (prefer stored pendingOutcome)
         const outcome = session.pendingOutcome || "POLITE_EXIT";
         span.setAttribute("final_outcome", outcome);
@@ -82,9 +90,20 @@ export async function POST(
         };
         session.transcript.push(completionMessage);
 
-        // 4) Mark session as complete
+        // 4) Mark session as complete and persist before scoring, so a lost
+        // revision race never leaves a score for a transcript that wasn't saved
         session.active = false;
 
+        const saved = await saveSession(session, [
+          { type: "system_message", message: completionMessage },
+          { type: "session_ended", via: "complete", outcome },
+        ]);
+        if (!saved.ok) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(saved.latest), { status: 409 });
+        }
+
         // 5) Generate and save score
         let shareUrl: string | null = null;
         let grade: string | null = null;
@@ -97,7 +116,7 @@ export async function POST(
             span.setAttribute("has_token", true);
 
             // Generate score
-            const scoreRecord = scoreSession(session, token);
+            const scoreRecord = await scoreFinishedSession(session, token);
             await saveScore(scoreRecord);
 
             shareUrl = `/share/${token}`;
@@ -106,22 +125,13 @@ export async function POST(
 
             span.setAttribute("score", scoreRecord.score);
             span.setAttribute("grade", scoreRecord.grade);
+            if (scoreRecord.judge) {
+              span.setAttribute("judge_provider", scoreRecord.judge.provider);
+              span.setAttribute("judge_score", scoreRecord.judge.score);
+            }
 
             // Add to leaderboard
-            await addToLeaderboardIndex({
-              token: scoreRecord.token,
-              score: scoreRecord.score,
-              grade: scoreRecord.grade,
-              createdAt: scoreRecord.completedAt,
-              conferenceId: scoreRecord.conferenceId || null,
-              conferenceName: scoreRecord.conferenceName || null,
-              personaId: scoreRecord.personaId || null,
-              personaDisplayName: scoreRecord.personaDisplayName || null,
-              jobTitle: null,
-              difficulty: (scoreRecord.difficulty as "easy" | "medium" | "hard") || null,
-              traineeId: scoreRecord.traineeId || null,
-              traineeNameShort: scoreRecord.traineeNameShort || null,
-            });
+            await addToLeaderboardIndex(leaderboardEntryFromScore(scoreRecord));
 
             span.setAttribute("leaderboard_added", true);
           } else {
@@ -134,9 +144,6 @@ export async function POST(
           // Continue - still complete the session even if scoring fails
         }
 
-        // 6) Persist session
-        await saveSession(session);
-
         span.setAttribute("status", 200);
 
         return NextResponse.json({
@@ -146,6 +153,7 @@ export async function POST(
           grade,
           score,
           actionType: action.actionType,
+          revision: saved.revision,
         });
       } catch (error) {
         console.error("[complete] Error:", error);
@@ -161,4 +169,4 @@ export async function POST(
     },
     { route: "/api/session/[id]/complete", method: "POST", event_type: "session_complete" }
   );
-}
+}, { ownerParam: "id" });
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/storage";
+import { getSessionDraft, MAX_DRAFT_LENGTH, saveSessionDraft } from "@/lib/sessionDrafts";
+import { withSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET /api/session/[id]/draft
+ * The trainee's unsent message (see lib/sessionDrafts.ts)
+ *
+ * Returns:
+ * { draft: { text: string, updatedAt: string } | null }
+ */
+export const GET = withWorkspace(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+
+  const session = await getSession(id);
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ draft: await getSessionDraft(id) });
+}, { ownerParam: "id" });
+
+/**
+ * POST /api/session/[id]/draft
+ * Save the trainee's unsent message while they type. The trainee page also
+ * sends it as a beacon when the tab is closed.
+ *
+ * Request body:
+ * {
+ *   text: string  // Empty clears the draft; longer than 4000 characters is cut
+ * }
+ *
+ * Returns:
+ * { ok: true, draft: { text: string, updatedAt: string } | null }
+ *
+ * Drafts don't touch the session itself, so no expectedRevision. Sending the
+ * message clears the draft.
+ */
+export const POST = withWorkspace(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan(
+    "hc.event.session_draft",
+    async (span) => {
+      const { id } = await params;
+
+      span.setAttribute("route", "/api/session/[id]/draft");
+      span.setAttribute("method", "POST");
+      span.setAttribute("event_type", "session_draft");
+      span.setAttribute("session_id", id);
+
+      try {
+        const session = await getSession(id);
+        if (!session || !session.active) {
+          span.setAttribute("status", 404);
+          return NextResponse.json(
+            { error: "Session not found or inactive" },
+            { status: 404 }
+          );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (typeof body.text !== "string") {
+          span.setAttribute("status", 400);
+          return NextResponse.json({ error: "text must be a string" }, { status: 400 });
+        }
+
+        const draft = await saveSessionDraft(id, body.text);
+
+        span.setAttribute("draft_length", Math.min(body.text.length, MAX_DRAFT_LENGTH));
+        span.setAttribute("status", 200);
+        return NextResponse.json({ ok: true, draft });
+      } catch (error) {
+        console.error("Save draft error:", error);
+
+        span.setAttribute("status", 500);
+        span.setAttribute("error_message", error instanceof Error ? error.message : "Unknown error");
+
+        return NextResponse.json(
+          { error: "Failed to save draft" },
+          { status: 500 }
+        );
+      }
+    },
+    { route: "/api/session/[id]/draft", method: "POST", event_type: "session_draft" }
+  );
+}, { ownerParam: "id" });
@@ -1,20 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession, saveSession } from '@/lib/storage';
-import { SIMULATOR_CONFIG } from '@/lib/simulator';
+import { matchesExpectedRevision, sessionConflictBody } from '@/lib/sessionView';
+import { getSessionSimulatorConfig } from '@/lib/simulatorConfigStore';
 import { randomUUID } from 'crypto';
 import { getInviteForSession, getInvite } from '@/lib/invites';
-import { scoreSession } from '@/lib/scoring';
+import { calculateActiveTime } from '@/lib/scoring';
 import { saveScore } from '@/lib/scoreStore';
+import { scoreFinishedSession } from '@/lib/sessionScoring';
 import { addToLeaderboardIndex } from '@/lib/leaderboardStore';
 import { getPersona, ensurePersonasSeeded } from '@/lib/personaStore';
 import { getConference, ensureConferencesSeeded } from '@/lib/conferenceStore';
 import { buildPersonaTitle } from '@/lib/formatUtils';
 import { withSpan } from '@/lib/telemetry';
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function POST(
+export const POST = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   return withSpan(
     "hc.event.session_end",
     async (span) => {
@@ -36,6 +39,14 @@ export async function POST(
           );
         }
 
+        const body = await request.json().catch(() => ({}));
+
+        if (!matchesExpectedRevision(session, body.expectedRevision)) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(session), { status: 409 });
+        }
+
         session.active = false;
 
         span.setAttribute("final_state", session.currentState);
@@ -50,8 +61,12 @@ export async function POST(
 
         span.setAttribute("session_duration_sec", duration);
 
+        // Time actually spent in the conversation (idle gaps and pauses left out)
+        const activeTime = calculateActiveTime(session.transcript, session.pauses);
+        span.setAttribute("session_active_sec", activeTime);
+
         // Generate feedback
-        const states = Object.keys(SIMULATOR_CONFIG.states);
+        const { state_order: states } = await getSessionSimulatorConfig(session);
         const reached = states.indexOf(session.currentState);
         const total = states.length - 1;
 
@@ -62,19 +77,22 @@ export async function POST(
         span.setAttribute("outcome", outcome);
         span.setAttribute("states_reached", reached);
         span.setAttribute("states_total", total);
+
+        // Regressions (the attendee closing back up) are not progress
+        const forwardTransitions = session.stateHistory.filter((h) => h.kind !== "regress").length;
     
     const feedback = `
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 SESSION FEEDBACK
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-⏱️  Duration: ${Math.floor(duration / 60)}m ${duration % 60}s
+⏱️  Duration: ${Math.floor(activeTime / 60)}m ${activeTime % 60}s active (${Math.floor(duration / 60)}m ${duration % 60}s total)
 🎯 Outcome: ${outcome}
 📊 State Progress: ${reached}/${total}
 
 ✅ What You Did Well:
 ${session.violations.length === 0 ? '• Maintained discipline with product keywords' : ''}
-${session.stateHistory.length > 0 ? '• Successfully advanced the conversation through ' + session.stateHistory.length + ' state(s)' : ''}
+${forwardTransitions > 0 ? '• Successfully advanced the conversation through ' + forwardTransitions + ' state(s)' : ''}
 
 ⚠️  Where You Could Improve:
 ${session.violations.length > 0 ? session.violations.map(v => '• ' + v).join('\n') : ''}
@@ -87,7 +105,7 @@ Hidden profile was used to generate responses appropriate to difficulty level: $
 ${outcome === 'DEMO_READY' ? 'Strong execution! You earned genuine interest.' : outcome === 'DEFERRED_INTEREST' ? 'Good progress. More discovery could have sealed it.' : 'Conversation ended early. Review failure modes.'}
 
 State Transitions:
-${session.stateHistory.map(h => `${h.from} → ${h.to}`).join('\n') || 'None'}
+${session.stateHistory.map(h => `${h.from} → ${h.to}${h.reason ? ` (${h.reason})` : ''}`).join('\n') || 'None'}
 
 Remember: Listen, discover pain, validate, then align to outcomes.
     `.trim();
@@ -100,7 +118,15 @@ Remember: Listen, discover pain, validate, then align to outcomes.
     };
     session.transcript.push(feedbackMsg);
 
-    await saveSession(session);
+    const saved = await saveSession(session, [
+      { type: 'system_message', message: feedbackMsg },
+      { type: 'session_ended', via: 'end', outcome },
+    ]);
+    if (!saved.ok) {
+      span.setAttribute("status", 409);
+      span.setAttribute("error", "revision_conflict");
+      return NextResponse.json(sessionConflictBody(saved.latest), { status: 409 });
+    }
 
     // Attempt to get token for scoring (Phase C)
     let token: string | null = null;
@@ -110,7 +136,6 @@ Remember: Listen, discover pain, validate, then align to outcomes.
 
       // Fallback: accept token from request body
       if (!token) {
-        const body = await request.json().catch(() => ({}));
         token = body.token || null;
       }
     } catch (e) {
@@ -123,7 +148,7 @@ Remember: Listen, discover pain, validate, then align to outcomes.
         if (token) {
           span.setAttribute("has_token", true);
           try {
-            const scoreRecord = scoreSession(session, token);
+            const scoreRecord = await scoreFinishedSession(session, token);
             await saveScore(scoreRecord);
             shareUrl = `/share/${token}`;
             scoreData = {
@@ -134,6 +159,10 @@ Remember: Listen, discover pain, validate, then align to outcomes.
 
             span.setAttribute("score", scoreRecord.score);
             span.setAttribute("grade", scoreRecord.grade);
+            if (scoreRecord.judge) {
+              span.setAttribute("judge_provider", scoreRecord.judge.provider);
+              span.setAttribute("judge_score", scoreRecord.judge.score);
+            }
 
         // Add to leaderboard index with full metadata (Phase F)
         // Resolve conference and persona data from invite
@@ -199,6 +228,8 @@ Remember: Listen, discover pain, validate, then align to outcomes.
               // Trainee snapshot from score record (Phase H1)
               traineeId: scoreRecord.traineeId || null,
               traineeNameShort: scoreRecord.traineeNameShort || null,
+              ...(scoreRecord.coached ? { coached: true } : {}),
+              scoringVersion: scoreRecord.scoringVersion,
             });
           } catch (e) {
             console.error('Failed to save score:', e);
@@ -215,6 +246,7 @@ Remember: Listen, discover pain, validate, then align to outcomes.
           outcome,
           stateProgress: { reached, total },
           violations: session.violations,
+          revision: saved.revision,
           shareUrl,
           score: scoreData,
         });
@@ -232,4 +264,4 @@ Remember: Listen, discover pain, validate, then align to outcomes.
     },
     { route: "/api/session/[id]/end", method: "POST", event_type: "session_end" }
   );
-}
\ No newline at end of file
+}, { ownerParam: "id" });
\ No newline at end of file
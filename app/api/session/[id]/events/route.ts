@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getSession, getSessionRevision } from "@/lib/storage";
+import { checkSessionLog } from "@/lib/sessionLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET /api/session/[id]/events
+ * Full event log for a session plus a rebuild check against the stored
+ * snapshot (debugging aid; not redacted).
+ *
+ * Query params:
+ * - rebuilt=1: include the snapshot rebuilt from the log
+ */
+export const GET = withWorkspace(async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+
+  if (!id) {
+    return NextResponse.json({ error: "Missing session id" }, { status: 400 });
+  }
+
+  const session = await getSession(id);
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const check = await checkSessionLog(session);
+
+  return NextResponse.json({
+    sessionId: session.id,
+    revision: getSessionRevision(session),
+    events: check.events,
+    missingRevisions: check.missingRevisions,
+    rebuildMatches: check.mismatches.length === 0,
+    mismatches: check.mismatches,
+    rebuilt: searchParams.get("rebuilt") === "1" ? check.rebuilt : undefined,
+  });
+}, { ownerParam: "id" });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession, saveSession } from "@/lib/storage";
+import { matchesExpectedRevision, sessionConflictBody } from "@/lib/sessionView";
 import { withSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * GET /api/session/[id]/feedback
@@ -16,10 +18,10 @@ import { withSpan } from "@/lib/telemetry";
  *   } | null
  * }
  */
-export async function GET(
+export const GET = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   return withSpan(
     "hc.event.get_feedback",
     async (span) => {
@@ -64,7 +66,7 @@ export async function GET(
     },
     { route: "/api/session/[id]/feedback", method: "GET", event_type: "get_feedback" }
   );
-}
+}, { ownerParam: "id" });
 
 /**
  * POST /api/session/[id]/feedback
@@ -74,7 +76,8 @@ export async function GET(
  * {
  *   guidance: string,          // Required: The trainer's guidance text
  *   applyToScenario?: boolean, // Optional: Whether to update the scenario preset
- *   updatedBy?: string         // Optional: Identifier for who made the update
+ *   updatedBy?: string,        // Optional: Identifier for who made the update
+ *   expectedRevision?: number  // Optional: 409 if the session has moved on
  * }
  *
  * Returns:
@@ -85,13 +88,16 @@ export async function GET(
  *     applyToScenario?: boolean,
  *     updatedAt: string,
  *     updatedBy?: string
- *   }
+ *   },
+ *   revision: number
  * }
+ *
+ * Returns 409 with the latest session if it was written concurrently.
  */
-export async function POST(
+export const POST = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   return withSpan(
     "hc.event.save_feedback",
     async (span) => {
@@ -123,6 +129,12 @@ export async function POST(
           );
         }
 
+        if (!matchesExpectedRevision(session, body.expectedRevision)) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(session), { status: 409 });
+        }
+
         // Update session with trainer feedback
         session.trainerFeedback = {
           guidance: body.guidance,
@@ -135,7 +147,14 @@ export async function POST(
         span.setAttribute("apply_to_scenario", session.trainerFeedback.applyToScenario || false);
 
         // Save session
-        await saveSession(session);
+        const saved = await saveSession(session, [
+          { type: "trainer_feedback_saved", feedback: session.trainerFeedback },
+        ]);
+        if (!saved.ok) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(saved.latest), { status: 409 });
+        }
 
         // TODO: If applyToScenario is true, update the persona/conference notes
         // This requires conference/persona update logic which can be added later
@@ -151,6 +170,7 @@ export async function POST(
         return NextResponse.json({
           success: true,
           feedback: session.trainerFeedback,
+          revision: saved.revision,
         });
       } catch (error) {
         console.error("[Feedback] Failed to save feedback:", error);
@@ -169,7 +189,7 @@ export async function POST(
     },
     { route: "/api/session/[id]/feedback", method: "POST", event_type: "save_feedback" }
   );
-}
+}, { ownerParam: "id" });
 
 /**
  * DELETE /api/session/[id]/feedback
@@ -177,13 +197,16 @@ export async function POST(
  *
  * Returns:
  * {
- *   success: true
+ *   success: true,
+ *   revision: number
  * }
+ *
+ * Returns 409 with the latest session if it was written concurrently.
  */
-export async function DELETE(
+export const DELETE = withWorkspace(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   return withSpan(
     "hc.event.delete_feedback",
     async (span) => {
@@ -209,12 +232,20 @@ export async function DELETE(
         delete session.trainerFeedback;
 
         // Save session
-        await saveSession(session);
+        const saved = await saveSession(session, [
+          { type: "trainer_feedback_cleared" },
+        ]);
+        if (!saved.ok) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(saved.latest), { status: 409 });
+        }
 
         span.setAttribute("status", 200);
 
         return NextResponse.json({
           success: true,
+          revision: saved.revision,
         });
       } catch (error) {
         console.error("[Feedback] Failed to delete feedback:", error);
@@ -233,4 +264,4 @@ export async function DELETE(
     },
     { route: "/api/session/[id]/feedback", method: "DELETE", event_type: "delete_feedback" }
   );
-}
+}, { ownerParam: "id" });
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionRevision, saveSession } from "@/lib/storage";
+import { matchesExpectedRevision, sessionConflictBody } from "@/lib/sessionView";
+import { pauseSession, SESSION_PAUSE_REASONS, type SessionPauseReason } from "@/lib/sessionPause";
+import { withSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * POST /api/session/[id]/pause
+ * Pause an active session (see lib/sessionPause.ts). The trainee page calls
+ * this from the Pause button and as a beacon when the tab is closed.
+ *
+ * Request body:
+ * {
+ *   reason?: "trainee" | "tab_closed", // Default "trainee"
+ *   expectedRevision?: number          // Optional: 409 if the session has moved on
+ * }
+ *
+ * Returns:
+ * { ok: true, paused: true, revision: number }
+ *
+ * Pausing a paused session is a no-op. Returns 404 for unknown or ended
+ * sessions and 409 with the latest session if it was written concurrently.
+ */
+export const POST = withWorkspace(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan(
+    "hc.event.session_pause",
+    async (span) => {
+      const { id } = await params;
+
+      span.setAttribute("route", "/api/session/[id]/pause");
+      span.setAttribute("method", "POST");
+      span.setAttribute("event_type", "session_pause");
+      span.setAttribute("session_id", id);
+
+      try {
+        const session = await getSession(id);
+        if (!session || !session.active) {
+          span.setAttribute("status", 404);
+          return NextResponse.json(
+            { error: "Session not found or inactive" },
+            { status: 404 }
+          );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const reason: SessionPauseReason = body.reason ?? "trainee";
+        if (!SESSION_PAUSE_REASONS.includes(reason)) {
+          span.setAttribute("status", 400);
+          return NextResponse.json(
+            { error: `reason must be one of ${SESSION_PAUSE_REASONS.join(", ")}` },
+            { status: 400 }
+          );
+        }
+
+        if (!matchesExpectedRevision(session, body.expectedRevision)) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(session), { status: 409 });
+        }
+
+        span.setAttribute("pause_reason", reason);
+
+        const events = pauseSession(session, reason);
+        if (events.length === 0) {
+          span.setAttribute("status", 200);
+          span.setAttribute("already_paused", true);
+          return NextResponse.json({ ok: true, paused: true, revision: getSessionRevision(session) });
+        }
+
+        const saved = await saveSession(session, events);
+        if (!saved.ok) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(saved.latest), { status: 409 });
+        }
+
+        span.setAttribute("status", 200);
+        return NextResponse.json({ ok: true, paused: true, revision: saved.revision });
+      } catch (error) {
+        console.error("Pause session error:", error);
+
+        span.setAttribute("status", 500);
+        span.setAttribute("error_message", error instanceof Error ? error.message : "Unknown error");
+
+        return NextResponse.json(
+          { error: "Failed to pause session" },
+          { status: 500 }
+        );
+      }
+    },
+    { route: "/api/session/[id]/pause", method: "POST", event_type: "session_pause" }
+  );
+}, { ownerParam: "id" });
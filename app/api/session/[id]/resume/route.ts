@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionRevision, saveSession } from "@/lib/storage";
+import { matchesExpectedRevision, sessionConflictBody } from "@/lib/sessionView";
+import { resumeSession } from "@/lib/sessionPause";
+import { withSpan } from "@/lib/telemetry";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * POST /api/session/[id]/resume
+ * Resume a paused session (see lib/sessionPause.ts)
+ *
+ * Request body:
+ * {
+ *   expectedRevision?: number  // Optional: 409 if the session has moved on
+ * }
+ *
+ * Returns:
+ * { ok: true, paused: false, revision: number }
+ *
+ * Resuming a session that isn't paused is a no-op. Returns 404 for unknown
+ * or ended sessions and 409 with the latest session if it was written
+ * concurrently.
+ */
+export const POST = withWorkspace(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan(
+    "hc.event.session_resume",
+    async (span) => {
+      const { id } = await params;
+
+      span.setAttribute("route", "/api/session/[id]/resume");
+      span.setAttribute("method", "POST");
+      span.setAttribute("event_type", "session_resume");
+      span.setAttribute("session_id", id);
+
+      try {
+        const session = await getSession(id);
+        if (!session || !session.active) {
+          span.setAttribute("status", 404);
+          return NextResponse.json(
+            { error: "Session not found or inactive" },
+            { status: 404 }
+          );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (!matchesExpectedRevision(session, body.expectedRevision)) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(session), { status: 409 });
+        }
+
+        const events = resumeSession(session);
+        if (events.length === 0) {
+          span.setAttribute("status", 200);
+          span.setAttribute("was_paused", false);
+          return NextResponse.json({ ok: true, paused: false, revision: getSessionRevision(session) });
+        }
+
+        const saved = await saveSession(session, events);
+        if (!saved.ok) {
+          span.setAttribute("status", 409);
+          span.setAttribute("error", "revision_conflict");
+          return NextResponse.json(sessionConflictBody(saved.latest), { status: 409 });
+        }
+
+        span.setAttribute("status", 200);
+        span.setAttribute("was_paused", true);
+        return NextResponse.json({ ok: true, paused: false, revision: saved.revision });
+      } catch (error) {
+        console.error("Resume session error:", error);
+
+        span.setAttribute("status", 500);
+        span.setAttribute("error_message", error instanceof Error ? error.message : "Unknown error");
+
+        return NextResponse.json(
+          { error: "Failed to resume session" },
+          { status: 500 }
+        );
+      }
+    },
+    { route: "/api/session/[id]/resume", method: "POST", event_type: "session_resume" }
+  );
+}, { ownerParam: "id" });
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
-import { getSession } from "@/lib/storage";
+import { getSession, getSessionRevision } from "@/lib/storage";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function GET(req: Request, ctx: any) {
+export const GET = withWorkspace(async (req: Request, ctx: any) => {
   // Works across Next 15 / 16 / Turbopack
   const { id } = await Promise.resolve(ctx.params);
 
@@ -23,13 +24,15 @@ export async function GET(req: Request, ctx: any) {
 
   return NextResponse.json({
     sessionId: session.id,
+    revision: getSessionRevision(session),
     transcript: session.transcript,
     currentState: session.currentState,
     stateHistory: session.stateHistory ?? [],
     violations: session.violations ?? [],
     active: session.active,
     kickoff: session.kickoff,
+    attendees: session.attendees,
     startTime: session.startTime,
     decisionTrace: session.decisionTrace,
   });
-}
\ No newline at end of file
+}, { ownerParam: "id" });
\ No newline at end of file
@@ -1,11 +1,19 @@
 import { NextResponse } from "next/server";
 import { getSession } from "@/lib/storage";
+import { toTraineeSessionView } from "@/lib/sessionView";
+import { getSessionDraft } from "@/lib/sessionDrafts";
+import { buildCoachingHint, isCoachedSession } from "@/lib/coaching";
+import { getSessionSimulatorConfig } from "@/lib/simulatorConfigStore";
+import { withWorkspace } from "@/lib/workspaces";
 
 /**
  * Trainee-safe session endpoint that redacts kickoff.attendeeProfile
  * to prevent exposing the hidden profile to the browser.
+ *
+ * Also returns what the trainee page needs to pick up where it left off:
+ * the unsent draft and, in coaching mode, the hint for the current state.
  */
-export async function GET(req: Request, ctx: any) {
+export const GET = withWorkspace(async (req: Request, ctx: any) => {
   // Works across Next 15 / 16 / Turbopack
   const { id } = await Promise.resolve(ctx.params);
 
@@ -19,21 +27,25 @@ export async function GET(req: Request, ctx: any) {
     return NextResponse.json({ error: "Session not found" }, { status: 404 });
   }
 
-  // Redact attendeeProfile from kickoff
-  const redactedKickoff = {
-    conferenceContext: session.kickoff.conferenceContext,
-    difficulty: session.kickoff.difficulty,
-    personaId: session.kickoff.personaId,
-    // attendeeProfile is intentionally omitted
-  };
+  const view = toTraineeSessionView(session);
+  if (!session.active) {
+    return NextResponse.json(view);
+  }
+
+  const draft = await getSessionDraft(id);
+  // The last message's warnings aren't stored; restore the state guidance
+  const coachingHint = isCoachedSession(session)
+    ? buildCoachingHint(
+        session.currentState,
+        { issues: [], stateSignals: [] },
+        session.currentState,
+        await getSessionSimulatorConfig(session)
+      )
+    : undefined;
 
   return NextResponse.json({
-    sessionId: session.id,
-    transcript: session.transcript,
-    currentState: session.currentState,
-    violations: session.violations ?? [],
-    active: session.active,
-    kickoff: redactedKickoff,
-    startTime: session.startTime,
+    ...view,
+    ...(draft ? { draft: draft.text } : {}),
+    ...(coachingHint ? { coachingHint } : {}),
   });
-}
+}, { ownerParam: "id" });
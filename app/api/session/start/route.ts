@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { saveSession } from '@/lib/storage';
 import { createSessionWithEnrichment } from '@/lib/createSession';
 import { withSpan } from '@/lib/telemetry';
+import { sessionCreatedEvent } from '@/lib/sessionEvents';
+import { withWorkspace, recordWorkspaceOwner } from "@/lib/workspaces";
 
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   return withSpan(
     "hc.event.session_start",
     async (span) => {
@@ -17,6 +19,9 @@ export async function POST(request: NextRequest) {
         if (body.personaId) {
           span.setAttribute("persona_id", body.personaId);
         }
+        if (Array.isArray(body.personaIds)) {
+          span.setAttribute("attendee_count", body.personaIds.length);
+        }
         if (body.conferenceId) {
           span.setAttribute("conference_id", body.conferenceId);
         }
@@ -24,6 +29,7 @@ export async function POST(request: NextRequest) {
 
         const result = await createSessionWithEnrichment({
           personaId: body.personaId,
+          personaIds: Array.isArray(body.personaIds) ? body.personaIds : undefined,
           conferenceId: body.conferenceId,
           conferenceContext: body.conferenceContext,
           attendeeProfile: body.attendeeProfile,
@@ -40,7 +46,8 @@ export async function POST(request: NextRequest) {
         }
 
         const session = result.session;
-        await saveSession(session);
+        await saveSession(session, [sessionCreatedEvent(session)]);
+        await recordWorkspaceOwner([session.id]);
 
         span.setAttribute("session_id", session.id);
         span.setAttribute("current_state", session.currentState);
@@ -66,4 +73,4 @@ export async function POST(request: NextRequest) {
     },
     { route: "/api/session/start", method: "POST", event_type: "session_start" }
   );
-}
\ No newline at end of file
+});
\ No newline at end of file
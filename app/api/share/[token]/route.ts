@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
 import { getScore } from "@/lib/scoreStore";
+import { effectiveScore } from "@/lib/scoring";
 import { getInviteForSession } from "@/lib/invites";
+import { withWorkspace } from "@/lib/workspaces";
 
-export async function GET(req: Request, ctx: any) {
+export const GET = withWorkspace(async (req: Request, ctx: any) => {
   // Works across Next 15 / 16 / Turbopack
   const { token } = await Promise.resolve(ctx.params);
 
@@ -30,6 +32,7 @@ export async function GET(req: Request, ctx: any) {
   // Return score WITHOUT attendeeProfile (it's not in ScoreRecord anyway)
   return NextResponse.json({
     ...score,
+    effective: effectiveScore(score), // After trainer overrides
     inviteToken, // Add invite token for review link
   });
-}
+}, { ownerParam: "token" });
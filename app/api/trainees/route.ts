@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   listTrainees,
   upsertTrainee,
+  getTrainee,
 } from "@/lib/traineeStore";
 import { Trainee } from "@/lib/traineeStore";
 import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { withWorkspace } from "@/lib/workspaces";
+import { recordAudit } from "@/lib/auditLog";
 
-export async function GET() {
+export const GET = withWorkspace(async () => {
   try {
     const trainees = await listTrainees(false); // Exclude archived
     return NextResponse.json({ trainees });
@@ -17,9 +20,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withWorkspace(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -38,9 +41,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const before = body.id ? await getTrainee(body.id) : null;
+
     // Upsert trainee (creates if missing id, updates if present)
     const trainee = await upsertTrainee(body as Partial<Trainee> & { firstName: string; lastName: string });
 
+    await recordAudit(request, {
+      action: "trainee.save",
+      target: { type: "trainee", id: trainee.id },
+      before,
+      after: trainee,
+    });
+
     // Invalidate bootstrap cache so new trainee appears in Builder immediately
     invalidateBootstrapCache();
 
@@ -52,4 +64,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
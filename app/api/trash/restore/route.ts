@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { restoreFromTrash, TRASH_ITEM_TYPES, type TrashItemType } from "@/lib/trash";
+import { invalidateBootstrapCache } from "@/lib/memoryStore";
+import { recordAudit } from "@/lib/auditLog";
+import { withWorkspace } from "@/lib/workspaces";
+
+/**
+ * POST /api/trash/restore
+ * Restore an archived conference, persona or trainee
+ *
+ * Body: { type: "conference" | "persona" | "trainee", id: string }
+ *
+ * Returns:
+ * { success: true, item: Conference | Persona | Trainee }
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const type = body?.type as TrashItemType;
+    const id = body?.id;
+
+    if (!TRASH_ITEM_TYPES.includes(type) || !id || typeof id !== "string") {
+      return NextResponse.json(
+        { error: "Expected { type: conference | persona | trainee, id }" },
+        { status: 400 }
+      );
+    }
+
+    const { before, after, error } = await restoreFromTrash(type, id);
+    if (error) {
+      return NextResponse.json({ error }, { status: 404 });
+    }
+
+    invalidateBootstrapCache();
+    await recordAudit(request, {
+      action: `${type}.restore`,
+      target: { type, id },
+      before,
+      after,
+    });
+
+    return NextResponse.json({ success: true, item: after });
+  } catch (error) {
+    console.error("Failed to restore from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to restore item" },
+      { status: 500 }
+    );
+  }
+});
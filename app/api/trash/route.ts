@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { listTrash } from "@/lib/trash";
+import { getRetentionPolicy } from "@/lib/retention";
+import { withWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/trash
+ * Archived conferences, personas and trainees, most recently archived first
+ *
+ * Returns:
+ * { items: TrashItem[], purgeAfterDays: number | null }
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    const policy = await getRetentionPolicy();
+    const items = await listTrash(policy.trash.purgeAfterDays);
+
+    return NextResponse.json(
+      { items, purgeAfterDays: policy.trash.purgeAfterDays },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Failed to list trash:", error);
+    return NextResponse.json(
+      { error: "Failed to load trash" },
+      { status: 500 }
+    );
+  }
+});
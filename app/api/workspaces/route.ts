@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { currentWorkspaceId, listWorkspaces, withWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET /api/workspaces
+ * All workspaces plus the one this request resolved to (used by the
+ * TabsNav switcher)
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    const workspaces = await listWorkspaces();
+    return NextResponse.json({ workspaces, currentWorkspaceId: currentWorkspaceId() });
+  } catch (error) {
+    console.error("Failed to list workspaces:", error);
+    return NextResponse.json(
+      { error: "Failed to load workspaces" },
+      { status: 500 }
+    );
+  }
+});
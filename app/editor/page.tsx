@@ -2,13 +2,14 @@
 
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Plus, Save, Archive, ExternalLink } from "lucide-react";
+import { Plus, Save, Archive, ExternalLink, RotateCcw, Trash2 } from "lucide-react";
 import { BrandButton } from "@/components/ui/BrandButton";
 import { ChipInput } from "@/components/ui/ChipInput";
-import type { Conference, Persona } from "@/lib/scenarioTypes";
+import { RuleOverridesFields, type ScenarioRuleDefaults } from "@/components/RuleOverridesFields";
+import type { Conference, Persona, ScenarioRuleOverrides } from "@/lib/scenarioTypes";
 import type { Trainee } from "@/lib/traineeStore";
-import { formatTraineeFull } from "@/lib/traineeStore";
-import { toSentenceCase, buildPersonaTitle } from "@/lib/formatUtils";
+import { toSentenceCase, buildPersonaTitle, formatTraineeFull } from "@/lib/formatUtils";
+import type { TrashItem } from "@/lib/trash";
 
 // Helper function to abbreviate text (first 3 words, ~20 chars max)
 function abbreviate(text: string): string {
@@ -76,6 +77,12 @@ function generatePersonaSubtitle(
   return parts.join(" | ");
 }
 
+// Rule override validation errors come back as { error, errors: [{ path, message }] }
+function formatSaveErrors(data: { error?: string; errors?: Array<{ path: string; message: string }> }): string {
+  const lines = (data.errors ?? []).map((e) => `${e.path}: ${e.message}`);
+  return [data.error || "Invalid input", ...lines].join("\n");
+}
+
 export default function ScenarioEditorPage() {
   const router = useRouter();
 
@@ -89,12 +96,14 @@ export default function ScenarioEditorPage() {
     seniorityMix: string;
     observabilityMaturity: "Low" | "Medium" | "High";
     urls: string[];
+    ruleOverrides: ScenarioRuleOverrides;
   }>({
     name: "",
     themes: [],
     seniorityMix: "",
     observabilityMaturity: "Medium",
     urls: [],
+    ruleOverrides: {},
   });
 
   // Personas state
@@ -111,6 +120,7 @@ export default function ScenarioEditorPage() {
     urls: string[];
     notes: string;
     behaviorBrief: string;
+    ruleOverrides: ScenarioRuleOverrides;
   }>({
     name: "",
     personaType: "",
@@ -121,6 +131,7 @@ export default function ScenarioEditorPage() {
     urls: [],
     notes: "",
     behaviorBrief: "",
+    ruleOverrides: {},
   });
 
   // Trainees state
@@ -140,6 +151,14 @@ export default function ScenarioEditorPage() {
   const [successMessage, setSuccessMessage] = useState("");
   const [dataLoading, setDataLoading] = useState(true);
 
+  // Trash state
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [trashPurgeAfterDays, setTrashPurgeAfterDays] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Global rule defaults shown behind the rule override fields
+  const [ruleDefaults, setRuleDefaults] = useState<ScenarioRuleDefaults | null>(null);
+
   // Load data using bootstrap endpoint
   useEffect(() => {
     const loadData = async () => {
@@ -160,6 +179,8 @@ export default function ScenarioEditorPage() {
     };
 
     loadData();
+    loadTrash();
+    loadRuleDefaults();
   }, []);
 
   // Auto-generate persona name when relevant fields change
@@ -204,6 +225,30 @@ export default function ScenarioEditorPage() {
     }
   };
 
+  const loadTrash = async () => {
+    try {
+      const res = await fetch("/api/trash");
+      if (res.ok) {
+        const data = await res.json();
+        setTrash(data.items || []);
+        setTrashPurgeAfterDays(data.purgeAfterDays ?? null);
+      }
+    } catch (e) {
+      console.error("Failed to load trash:", e);
+    }
+  };
+
+  const loadRuleDefaults = async () => {
+    try {
+      const res = await fetch("/api/scenario-rules");
+      if (res.ok) {
+        setRuleDefaults(await res.json());
+      }
+    } catch (e) {
+      console.error("Failed to load scenario rules:", e);
+    }
+  };
+
   // Individual reload functions for after save/archive operations
   const reloadBootstrap = async () => {
     try {
@@ -217,6 +262,29 @@ export default function ScenarioEditorPage() {
     } catch (e) {
       console.error("Failed to reload data:", e);
     }
+    await loadTrash();
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setRestoringId(item.id);
+    try {
+      const response = await fetch("/api/trash/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: item.type, id: item.id }),
+      });
+
+      if (!response.ok) throw new Error("Failed to restore item");
+
+      await reloadBootstrap();
+      setSuccessMessage(`Restored ${item.type} "${item.name}"`);
+      setTimeout(() => setSuccessMessage(""), 3000);
+    } catch (error) {
+      console.error("Failed to restore item:", error);
+      alert("Failed to restore item");
+    } finally {
+      setRestoringId(null);
+    }
   };
 
   const handleSelectConference = (conf: Conference) => {
@@ -228,6 +296,7 @@ export default function ScenarioEditorPage() {
       seniorityMix: conf.seniorityMix,
       observabilityMaturity: conf.observabilityMaturity as "Low" | "Medium" | "High",
       urls: conf.sources?.urls || [],
+      ruleOverrides: conf.ruleOverrides || {},
     });
   };
 
@@ -244,6 +313,7 @@ export default function ScenarioEditorPage() {
       urls: persona.sources?.urls || [],
       notes: persona.sources?.notes || "",
       behaviorBrief: persona.behaviorBrief || "",
+      ruleOverrides: persona.ruleOverrides || {},
     });
   };
 
@@ -255,6 +325,7 @@ export default function ScenarioEditorPage() {
       seniorityMix: "",
       observabilityMaturity: "Medium",
       urls: [],
+      ruleOverrides: {},
     });
   };
 
@@ -270,6 +341,7 @@ export default function ScenarioEditorPage() {
       urls: [],
       notes: "",
       behaviorBrief: "",
+      ruleOverrides: {},
     });
   };
 
@@ -291,6 +363,7 @@ export default function ScenarioEditorPage() {
           seniorityMix: conferenceForm.seniorityMix,
           observabilityMaturity: conferenceForm.observabilityMaturity,
           sources: conferenceForm.urls.length > 0 ? { urls: conferenceForm.urls } : undefined,
+          ruleOverrides: conferenceForm.ruleOverrides,
           archiveExistingId: archiveExistingId,
         }),
       });
@@ -313,6 +386,12 @@ export default function ScenarioEditorPage() {
         }
       }
 
+      if (response.status === 400) {
+        const data = await response.json();
+        alert(formatSaveErrors(data));
+        return;
+      }
+
       if (!response.ok) throw new Error("Failed to save conference");
 
       const data = await response.json();
@@ -361,6 +440,7 @@ export default function ScenarioEditorPage() {
             ...(personaForm.urls.length > 0 ? { urls: personaForm.urls } : {}),
             ...(personaForm.notes.trim() ? { notes: personaForm.notes } : {}),
           },
+          ruleOverrides: personaForm.ruleOverrides,
           archiveExistingId: archiveExistingId,
         }),
       });
@@ -383,6 +463,12 @@ export default function ScenarioEditorPage() {
         }
       }
 
+      if (response.status === 400) {
+        const data = await response.json();
+        alert(formatSaveErrors(data));
+        return;
+      }
+
       if (!response.ok) throw new Error("Failed to save persona");
 
       const data = await response.json();
@@ -403,7 +489,7 @@ export default function ScenarioEditorPage() {
   const handleArchiveConference = async () => {
     if (!selectedConference) return;
 
-    if (!confirm(`Archive conference "${selectedConference.name}"? It will be hidden from lists.`)) {
+    if (!confirm(`Archive conference "${selectedConference.name}"? It will be moved to the trash and can be restored from there.`)) {
       return;
     }
 
@@ -427,7 +513,7 @@ export default function ScenarioEditorPage() {
   const handleArchivePersona = async () => {
     if (!selectedPersona) return;
 
-    if (!confirm(`Archive persona "${selectedPersona.name}"? It will be hidden from lists.`)) {
+    if (!confirm(`Archive persona "${selectedPersona.name}"? It will be moved to the trash and can be restored from there.`)) {
       return;
     }
 
@@ -501,7 +587,7 @@ export default function ScenarioEditorPage() {
   const handleArchiveTrainee = async () => {
     if (!selectedTrainee) return;
 
-    if (!confirm(`Archive trainee "${formatTraineeFull(selectedTrainee)}"? It will be hidden from lists.`)) {
+    if (!confirm(`Archive trainee "${formatTraineeFull(selectedTrainee)}"? It will be moved to the trash and can be restored from there.`)) {
       return;
     }
 
@@ -641,6 +727,12 @@ export default function ScenarioEditorPage() {
                 />
               </div>
 
+              <RuleOverridesFields
+                value={conferenceForm.ruleOverrides}
+                onChange={(ruleOverrides) => setConferenceForm((p) => ({ ...p, ruleOverrides }))}
+                defaults={ruleDefaults}
+              />
+
               {/* Display Name Preview */}
               {conferenceForm.name && (
                 <div className="border-t border-white/10 pt-3 mt-3">
@@ -809,6 +901,12 @@ export default function ScenarioEditorPage() {
                 />
               </div>
 
+              <RuleOverridesFields
+                value={personaForm.ruleOverrides}
+                onChange={(ruleOverrides) => setPersonaForm((p) => ({ ...p, ruleOverrides }))}
+                defaults={ruleDefaults}
+              />
+
               {/* Display Name Preview */}
               {personaForm.name && (
                 <div className="border-t border-white/10 pt-3 mt-3">
@@ -913,6 +1011,62 @@ export default function ScenarioEditorPage() {
           </div>
         </div>
       </div>
+
+      {/* Trash Section */}
+      <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Trash2 size={18} /> Trash
+          </h2>
+          <span className="text-xs text-gray-400">
+            {trashPurgeAfterDays === null
+              ? "Archived items are kept until restored"
+              : `Archived items are deleted for good after ${trashPurgeAfterDays} days`}
+          </span>
+        </div>
+
+        {trash.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing archived.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="py-1">Type</th>
+                  <th className="py-1">Name</th>
+                  <th className="py-1">Archived</th>
+                  <th className="py-1">By</th>
+                  <th className="py-1">Purged after</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody className="text-gray-200">
+                {trash.map((item) => (
+                  <tr key={`${item.type}:${item.id}`} className="border-t border-white/10">
+                    <td className="py-1.5 capitalize text-gray-400">{item.type}</td>
+                    <td className="py-1.5">{item.name}</td>
+                    <td className="py-1.5">{new Date(item.archivedAt).toLocaleString()}</td>
+                    <td className="py-1.5 text-gray-400">{item.archivedBy ?? "—"}</td>
+                    <td className="py-1.5 text-gray-400">
+                      {item.purgeAfter ? new Date(item.purgeAfter).toLocaleDateString() : "—"}
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <BrandButton
+                        onClick={() => handleRestore(item)}
+                        disabled={restoringId !== null}
+                        variant="neutral"
+                        className="text-xs px-2 py-1"
+                      >
+                        <RotateCcw size={14} /> {restoringId === item.id ? "Restoring..." : "Restore"}
+                      </BrandButton>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
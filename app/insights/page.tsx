@@ -4,13 +4,14 @@ import React, { useState, useEffect } from "react";
 import { BarChart3, Share2 } from "lucide-react";
 import { InsightsContent } from "@/components/InsightsContent";
 import { CopyLinkButton } from "@/components/CopyLinkButton";
+import { workspaceShareUrl } from "@/lib/workspaceClient";
 
 export default function InsightsPage() {
   const [shareUrl, setShareUrl] = useState("");
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      setShareUrl(`${window.location.origin}/insights/share`);
+      setShareUrl(workspaceShareUrl("/insights/share"));
     }
   }, []);
 
@@ -4,13 +4,14 @@ import React, { useState, useEffect } from "react";
 import { Trophy, Share2 } from "lucide-react";
 import { LeaderboardContent } from "@/components/LeaderboardContent";
 import { CopyLinkButton } from "@/components/CopyLinkButton";
+import { workspaceShareUrl } from "@/lib/workspaceClient";
 
 export default function LeaderboardPage() {
   const [shareUrl, setShareUrl] = useState("");
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      setShareUrl(`${window.location.origin}/leaderboard/share`);
+      setShareUrl(workspaceShareUrl("/leaderboard/share"));
     }
   }, []);
 
@@ -5,7 +5,7 @@ import { useSearchParams } from "next/navigation";
 import { BrandButton } from "../components/ui/BrandButton";
 import type { Conference, Persona } from "../lib/scenarioTypes";
 import type { Trainee } from "../lib/traineeStore";
-import { formatTraineeFull } from "../lib/traineeStore";
+import { formatTraineeFull } from "../lib/formatUtils";
 
 function HoneycombSimulator() {
   const searchParams = useSearchParams();
@@ -16,8 +16,12 @@ function HoneycombSimulator() {
   const [trainees, setTrainees] = useState<Trainee[]>([]);
   const [selectedConferenceId, setSelectedConferenceId] = useState<string>("");
   const [selectedPersonaId, setSelectedPersonaId] = useState<string>("");
+  // Optional second attendee for a group (multi-attendee) session
+  const [selectedCoPersonaId, setSelectedCoPersonaId] = useState<string>("");
   const [selectedTraineeId, setSelectedTraineeId] = useState<string>("");
   const [difficulty, setDifficulty] = useState<"easy" | "medium" | "hard">("medium");
+  // Coaching mode: in-session hints, kept off the main leaderboard
+  const [coaching, setCoaching] = useState(false);
   const [dataLoading, setDataLoading] = useState(true);
   const [dataRefreshing, setDataRefreshing] = useState(false);
 
@@ -200,8 +204,10 @@ OpenTelemetry familiarity: ${persona.otelFamiliarity}`.trim();
           difficulty,
           conferenceId: selectedConferenceId,
           personaId: selectedPersonaId,
+          personaIds: selectedCoPersonaId ? [selectedPersonaId, selectedCoPersonaId] : undefined,
           traineeId: selectedTraineeId,
           traineeName: formatTraineeFull(selectedTrainee),
+          coaching: coaching || undefined,
         }),
       });
 
@@ -359,7 +365,10 @@ OpenTelemetry familiarity: ${persona.otelFamiliarity}`.trim();
           <label className="block text-sm text-gray-300 mb-2 font-medium">Persona</label>
           <select
             value={selectedPersonaId}
-            onChange={(e) => setSelectedPersonaId(e.target.value)}
+            onChange={(e) => {
+              setSelectedPersonaId(e.target.value);
+              if (e.target.value === selectedCoPersonaId) setSelectedCoPersonaId("");
+            }}
             disabled={dataLoading}
             className="w-full bg-black/30 border border-white/20 text-gray-100 rounded-md px-3 py-2 outline-none focus:ring-2 focus:ring-white/10 focus:border-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -388,6 +397,35 @@ OpenTelemetry familiarity: ${persona.otelFamiliarity}`.trim();
           )}
         </div>
 
+        {/* Second attendee (group session) */}
+        <div>
+          <label className="block text-sm text-gray-300 mb-2 font-medium">
+            Second attendee <span className="text-xs text-gray-500">(optional)</span>
+          </label>
+          <select
+            value={selectedCoPersonaId}
+            onChange={(e) => setSelectedCoPersonaId(e.target.value)}
+            disabled={dataLoading || !selectedPersonaId}
+            className="w-full bg-black/30 border border-white/20 text-gray-100 rounded-md px-3 py-2 outline-none focus:ring-2 focus:ring-white/10 focus:border-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <option value="">Nobody - one-on-one conversation</option>
+            {personas
+              .filter((p) => p.id !== selectedPersonaId)
+              .map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+          </select>
+
+          {selectedCoPersonaId && (
+            <div className="text-xs text-gray-400 space-y-1 pl-2 mt-2">
+              Both attendees visit the booth together and take turns answering. Address each
+              stakeholder&apos;s priorities to score well.
+            </div>
+          )}
+        </div>
+
         {/* Trainee Selection */}
         <div>
           <label className="block text-sm text-gray-300 mb-2 font-medium">
@@ -427,6 +465,29 @@ OpenTelemetry familiarity: ${persona.otelFamiliarity}`.trim();
             <option value="hard">Hard - Skeptical</option>
           </select>
         </div>
+
+        {/* Coaching mode */}
+        <div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="coaching-mode"
+              checked={coaching}
+              onChange={(e) => setCoaching(e.target.checked)}
+              className="w-4 h-4 rounded border-white/15 bg-white/5 text-[#64BA00] focus:ring-[#64BA00] focus:ring-offset-0"
+            />
+            <label htmlFor="coaching-mode" className="text-sm text-gray-300">
+              Coaching mode <span className="text-xs text-gray-500">(for new hires)</span>
+            </label>
+          </div>
+
+          {coaching && (
+            <div className="text-xs text-gray-400 space-y-1 pl-2 mt-2">
+              The trainee sees a hint after each attendee reply: the current state, what moves it on and
+              what to avoid. The score is marked as coached and ranked separately from unassisted runs.
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Info Panel */}
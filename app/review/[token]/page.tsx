@@ -2,14 +2,24 @@
 
 import React, { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { MessageSquare, Clock, User, Home, Edit3, Save, X, Download } from "lucide-react";
+import { MessageSquare, Clock, User, Home, Edit3, Save, X, Download, History, Activity, Scale, SlidersHorizontal } from "lucide-react";
 import { BrandButton } from "@/components/ui/BrandButton";
+import { SessionReplay } from "@/components/SessionReplay";
+import { EngagementChart } from "@/components/EngagementChart";
+import { JudgeEvaluation } from "@/components/JudgeEvaluation";
+import { TurnAnnotationChips } from "@/components/TurnAnnotationChips";
+import { ScoreOverridesEditor } from "@/components/ScoreOverridesEditor";
+import type { EngagementPoint } from "@/lib/engagement";
+import type { SessionJudgment } from "@/lib/llm/judgeTypes";
+import type { TurnAnnotation } from "@/lib/turnAnnotations";
+import type { TrainerOverrides } from "@/lib/scoreOverrides";
 
 interface TranscriptMessage {
   id: string;
   type: "system" | "trainee" | "attendee";
   text: string;
   timestamp: string;
+  speakerId?: string;
 }
 
 interface TrainerFeedback {
@@ -34,10 +44,41 @@ interface ReviewData {
   };
   transcript: TranscriptMessage[];
   currentState: string;
+  attendees?: Array<{
+    id: string;
+    personaId?: string;
+    displayName: string;
+    stakeholderType: string;
+    currentState: string;
+    outcome?: string;
+  }>;
   violations: string[];
   active: boolean;
   startTime: string;
   trainerFeedback?: TrainerFeedback;
+  engagement?: {
+    current: number;
+    waveringBelow: number;
+    walkAwayAt: number;
+    curve: EngagementPoint[];
+  };
+  annotations?: TurnAnnotation[];
+  // Computed score, with the trainer's overrides and the effective result
+  score?: {
+    score: number;
+    grade: string;
+    breakdown: Record<string, number>;
+    breakdownMax?: Record<string, number>;
+    heuristicScore?: number;
+    judge?: SessionJudgment;
+    trainerOverrides?: TrainerOverrides;
+    effective: {
+      score: number;
+      grade: string;
+      breakdown: Record<string, number>;
+      overridden: boolean;
+    };
+  };
 }
 
 function formatTimestamp(isoString: string): string {
@@ -50,7 +91,15 @@ function formatTimestamp(isoString: string): string {
   });
 }
 
-function MessageBubble({ message }: { message: TranscriptMessage }) {
+function MessageBubble({
+  message,
+  speaker,
+  annotation,
+}: {
+  message: TranscriptMessage;
+  speaker?: string;
+  annotation?: TurnAnnotation;
+}) {
   const isTrainee = message.type === "trainee";
   const isSystem = message.type === "system";
   const isAttendee = message.type === "attendee";
@@ -61,7 +110,7 @@ function MessageBubble({ message }: { message: TranscriptMessage }) {
       ? "bg-gray-800/50 border-gray-700/50"
       : "bg-purple-900/30 border-purple-700/50";
 
-  const label = isTrainee ? "You" : isSystem ? "System" : "Attendee";
+  const label = isTrainee ? "You" : isSystem ? "System" : speaker ?? "Attendee";
   const labelColor = isTrainee
     ? "text-indigo-300"
     : isSystem
@@ -80,6 +129,11 @@ function MessageBubble({ message }: { message: TranscriptMessage }) {
         </span>
       </div>
       <p className="text-sm text-gray-300 whitespace-pre-wrap">{message.text}</p>
+      {annotation && (
+        <div className="mt-2">
+          <TurnAnnotationChips annotation={annotation} />
+        </div>
+      )}
     </div>
   );
 }
@@ -141,14 +195,22 @@ export default function ReviewPage() {
     setFeedbackSaved(false);
 
     try {
-      const res = await fetch(`/api/session/${reviewData.sessionId}/feedback`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          guidance: feedbackText,
-          applyToScenario,
-        }),
-      });
+      const saveFeedback = () =>
+        fetch(`/api/session/${reviewData.sessionId}/feedback`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            guidance: feedbackText,
+            applyToScenario,
+          }),
+        });
+
+      // Feedback replaces the previous guidance wholesale, so a save that
+      // raced a trainee message is safe to retry once
+      let res = await saveFeedback();
+      if (res.status === 409) {
+        res = await saveFeedback();
+      }
 
       if (!res.ok) {
         throw new Error("Failed to save feedback");
@@ -363,13 +425,101 @@ export default function ReviewPage() {
           </div>
         ) : (
           <div className="space-y-3">
+            {reviewData.attendees && reviewData.attendees.length > 1 && (
+              <div className="text-xs text-gray-400 space-y-1">
+                {reviewData.attendees.map((attendee) => (
+                  <div key={attendee.id}>
+                    {attendee.displayName} ({attendee.stakeholderType}) · {attendee.currentState}
+                    {attendee.outcome ? ` · ${attendee.outcome}` : ""}
+                  </div>
+                ))}
+              </div>
+            )}
             {reviewData.transcript.map((message) => (
-              <MessageBubble key={message.id} message={message} />
+              <MessageBubble
+                key={message.id}
+                message={message}
+                speaker={reviewData.attendees?.find((a) => a.id === message.speakerId)?.displayName}
+                annotation={reviewData.annotations?.find((a) => a.messageId === message.id)}
+              />
             ))}
           </div>
         )}
       </div>
 
+      {/* Engagement Meter */}
+      {reviewData.engagement && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Activity size={20} /> Attendee Engagement
+            <span className="text-sm font-normal text-gray-400">
+              {reviewData.engagement.current}/100
+            </span>
+          </h2>
+          <p className="text-sm text-gray-400 mb-4">
+            The attendee&apos;s patience after each trainee turn. Violations, monologues and repeated
+            questions lower it; empathy, reflection and relevant questions raise it.
+          </p>
+          <EngagementChart
+            curve={reviewData.engagement.curve}
+            waveringBelow={reviewData.engagement.waveringBelow}
+            walkAwayAt={reviewData.engagement.walkAwayAt}
+          />
+        </div>
+      )}
+
+      {/* Judge Evaluation */}
+      {reviewData.score?.judge && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Scale size={20} /> Judge Evaluation
+            <span className="text-sm font-normal text-gray-400">
+              Grade {reviewData.score.grade} · {reviewData.score.score}/100
+            </span>
+          </h2>
+          <JudgeEvaluation
+            judge={reviewData.score.judge}
+            heuristicScore={reviewData.score.heuristicScore}
+            score={reviewData.score.score}
+          />
+        </div>
+      )}
+
+      {/* Trainer Overrides */}
+      {reviewData.score && (
+        <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <SlidersHorizontal size={20} /> Score Overrides
+          </h2>
+          <p className="text-sm text-gray-400 mb-4">
+            Correct the heuristic where it got this session wrong. Overridden dimensions move the
+            score by the difference; the computed values are kept for calibrating the rubric.
+          </p>
+          <ScoreOverridesEditor
+            token={token}
+            score={reviewData.score}
+            onSaved={(trainerOverrides, effective) =>
+              setReviewData({
+                ...reviewData,
+                score: reviewData.score && { ...reviewData.score, trainerOverrides, effective },
+              })
+            }
+          />
+        </div>
+      )}
+
+      {/* Event Replay */}
+      <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
+        <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+          <History size={20} /> Replay
+        </h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Step through every recorded event (analysis, state changes, outcome sampling)
+          to see how the session reached its current state.
+        </p>
+        <SessionReplay token={token} />
+      </div>
+
       {/* Trainer Feedback */}
       <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
         <div className="flex items-center justify-between mb-4">
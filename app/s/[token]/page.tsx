@@ -1,18 +1,23 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
-import { Send, Square } from "lucide-react";
+import { Pause, Play, Send, Square } from "lucide-react";
 import { useParams, useRouter } from "next/navigation";
 import { BrandButton } from "../../../components/ui/BrandButton";
+import type { TraineeSessionView } from "@/lib/sessionView";
+import type { CoachingHint } from "@/lib/coaching";
 
 interface Message {
   id: string;
   type: "system" | "trainee" | "attendee";
   text: string;
   timestamp: string;
+  speakerId?: string;
 }
 
 const INVITE_TOKEN_STORAGE_KEY = "honeycomb_invite_token";
+// How long typing has to stop before the draft is saved (ms)
+const DRAFT_SAVE_DELAY_MS = 1000;
 
 function formatTime(timestamp: string) {
   return new Date(timestamp).toLocaleTimeString("en-US", {
@@ -30,19 +35,36 @@ export default function TraineePracticePage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [sessionId, setSessionId] = useState<string | null>(null);
+  // Last session revision seen; sent with every mutation so the server can
+  // reject writes based on a stale view
+  const [revision, setRevision] = useState<number | null>(null);
   const [currentState, setCurrentState] = useState("ICEBREAKER");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [conferenceContext, setConferenceContext] = useState("");
   const [violations, setViolations] = useState<string[]>([]);
+  // Group sessions: attendee titles for speaker labels
+  const [attendees, setAttendees] = useState<TraineeSessionView["attendees"]>(undefined);
+  // Coaching mode: hint for the latest attendee reply
+  const [coaching, setCoaching] = useState(false);
+  const [coachingHint, setCoachingHint] = useState<CoachingHint | null>(null);
   const [endPrompt, setEndPrompt] = useState<{
     outcome: string;
     actionLabel: string;
     actionType: string;
     tooltip?: string;
   } | null>(null);
+  // Paused by the trainee (or by closing the tab); input is disabled until resumed
+  const [paused, setPaused] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Draft text the server has, so unchanged drafts aren't re-sent
+  const savedDraftRef = useRef("");
+  // Latest values for the pagehide handler
+  const inputRef = useRef(input);
+  inputRef.current = input;
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
 
   const active = Boolean(sessionId);
 
@@ -80,6 +102,63 @@ export default function TraineePracticePage() {
     scrollToBottom();
   }, [messages]);
 
+  /**
+   * Replace local session state with the server's copy
+   */
+  const applySessionView = (view: TraineeSessionView) => {
+    setMessages(view.transcript || []);
+    setCurrentState(view.currentState || "ICEBREAKER");
+    setViolations(view.violations || []);
+    setAttendees(view.attendees);
+    setCoaching(Boolean(view.kickoff?.coaching));
+    setPaused(Boolean(view.paused));
+    setEndPrompt(view.endPrompt ?? null);
+    setRevision(typeof view.revision === "number" ? view.revision : null);
+  };
+
+  /**
+   * POST a session mutation with the last revision we saw.
+   *
+   * On 409 (someone else wrote the session first) adopt the server's latest
+   * state and retry once against its revision, unless shouldRetry says the
+   * retry is no longer wanted. Returns null when the conflict was resolved
+   * without a retry.
+   */
+  const postSessionMutation = async (
+    action: "message" | "complete" | "end" | "pause" | "resume",
+    body: Record<string, unknown>,
+    shouldRetry: (latest: TraineeSessionView) => boolean = () => true
+  ): Promise<Response | null> => {
+    const post = (expectedRevision: number | null) =>
+      fetch(`/api/session/${sessionId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...body,
+          expectedRevision: expectedRevision ?? undefined,
+        }),
+      });
+
+    const response = await post(revision);
+    if (response.status !== 409) return response;
+
+    const conflict = await response.json();
+    const latest: TraineeSessionView = conflict.session;
+    applySessionView(latest);
+
+    if (!latest.active) {
+      window.localStorage.removeItem(INVITE_TOKEN_STORAGE_KEY);
+      setSessionId(null);
+      setEndPrompt(null);
+      setError("This session has ended");
+      return null;
+    }
+
+    if (!shouldRetry(latest)) return null;
+
+    return post(latest.revision);
+  };
+
   /**
    * Load session from invite token on mount
    */
@@ -123,9 +202,12 @@ export default function TraineePracticePage() {
         }
 
         setSessionId(sessionData.sessionId);
-        setMessages(sessionData.transcript || []);
-        setCurrentState(sessionData.currentState || "ICEBREAKER");
-        setViolations(sessionData.violations || []);
+        applySessionView(sessionData);
+        setCoachingHint(sessionData.coachingHint ?? null);
+        if (sessionData.draft) {
+          savedDraftRef.current = sessionData.draft;
+          setInput(sessionData.draft);
+        }
 
         if (sessionData.kickoff?.conferenceContext) {
           setConferenceContext(sessionData.kickoff.conferenceContext);
@@ -143,19 +225,74 @@ export default function TraineePracticePage() {
     loadSession();
   }, [token]);
 
+  /**
+   * Save the unsent message once typing stops
+   */
+  useEffect(() => {
+    if (!sessionId || input === savedDraftRef.current) return;
+
+    const timer = setTimeout(() => {
+      fetch(`/api/session/${sessionId}/draft`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: input }),
+      })
+        .then((res) => {
+          if (res.ok) savedDraftRef.current = input;
+        })
+        .catch((e) => console.error("Failed to save draft:", e));
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [input, sessionId]);
+
+  /**
+   * Closing the tab: save the draft and pause the session so the time away
+   * isn't counted
+   */
+  useEffect(() => {
+    const handlePageHide = () => {
+      const id = sessionIdRef.current;
+      if (!id) return;
+
+      const beacon = (path: string, body: Record<string, unknown>) =>
+        navigator.sendBeacon(
+          `/api/session/${id}/${path}`,
+          new Blob([JSON.stringify(body)], { type: "application/json" })
+        );
+
+      if (inputRef.current !== savedDraftRef.current) {
+        beacon("draft", { text: inputRef.current });
+      }
+      beacon("pause", { reason: "tab_closed" });
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, []);
+
   const handleSendMessage = async () => {
-    if (!input.trim() || !sessionId || loading) return;
+    if (!input.trim() || !sessionId || loading || paused) return;
 
     const userMessage = input.trim();
     setInput("");
+    // Sending clears the draft server-side
+    savedDraftRef.current = "";
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/session/${sessionId}/message`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: userMessage }),
-      });
+      // Skip the retry if the latest transcript already has this message
+      // (e.g. it was sent from another tab)
+      const response = await postSessionMutation(
+        "message",
+        { message: userMessage },
+        (latest) =>
+          !latest.transcript
+            .slice(messages.length)
+            .some((m) => m.type === "trainee" && m.text === userMessage)
+      );
+
+      if (!response) return;
 
       if (!response.ok) {
         const errText = await response.text().catch(() => "");
@@ -164,9 +301,9 @@ export default function TraineePracticePage() {
 
       const data = await response.json();
 
-      // Build new messages array
-      const newMessages: Message[] = [
-        ...messages,
+      // Append to whatever is current (may have been reconciled above)
+      setMessages((prev) => [
+        ...prev,
         {
           id: `${Date.now()}-trainee`,
           type: "trainee",
@@ -174,11 +311,12 @@ export default function TraineePracticePage() {
           timestamp: new Date().toISOString(),
         },
         data.message,
-      ];
-
-      setMessages(newMessages);
+      ]);
       setCurrentState(data.currentState || currentState);
       setViolations(data.violations || []);
+      setRevision(typeof data.revision === "number" ? data.revision : null);
+      setCoachingHint(data.coachingHint ?? null);
+      setPaused(false);
 
       // Handle completion CTA
       if (data.endPrompt) {
@@ -186,6 +324,7 @@ export default function TraineePracticePage() {
       }
     } catch (error) {
       console.error("Failed to send message:", error);
+      setInput(userMessage);
       alert("Failed to send message");
     } finally {
       setLoading(false);
@@ -197,12 +336,12 @@ export default function TraineePracticePage() {
 
     setLoading(true);
     try {
-      const response = await fetch(`/api/session/${sessionId}/complete`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ actionType: endPrompt.actionType }),
+      const response = await postSessionMutation("complete", {
+        actionType: endPrompt.actionType,
       });
 
+      if (!response) return;
+
       if (!response.ok) {
         const errText = await response.text().catch(() => "");
         throw new Error(`Complete failed: ${response.status} ${errText}`);
@@ -235,11 +374,10 @@ export default function TraineePracticePage() {
 
     setLoading(true);
     try {
-      const response = await fetch(`/api/session/${sessionId}/end`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ token }), // Pass token for scoring
-      });
+      // Pass token for scoring
+      const response = await postSessionMutation("end", { token });
+
+      if (!response) return;
 
       if (!response.ok) {
         const errText = await response.text().catch(() => "");
@@ -272,6 +410,35 @@ export default function TraineePracticePage() {
     }
   };
 
+  const handleTogglePause = async () => {
+    if (!sessionId || loading) return;
+
+    setLoading(true);
+    try {
+      const response = await postSessionMutation(
+        paused ? "resume" : "pause",
+        {},
+        (latest) => Boolean(latest.paused) === paused
+      );
+
+      if (!response) return;
+
+      if (!response.ok) {
+        const errText = await response.text().catch(() => "");
+        throw new Error(`${paused ? "Resume" : "Pause"} failed: ${response.status} ${errText}`);
+      }
+
+      const data = await response.json();
+      setPaused(Boolean(data.paused));
+      setRevision(typeof data.revision === "number" ? data.revision : null);
+    } catch (error) {
+      console.error("Failed to pause/resume session:", error);
+      alert(`Failed to ${paused ? "resume" : "pause"} session`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleKeyDown: React.KeyboardEventHandler<HTMLInputElement> = (e) => {
     if (e.key === "Enter") {
       e.preventDefault();
@@ -326,14 +493,21 @@ export default function TraineePracticePage() {
               <div className="text-sm text-gray-300">
                 State: <span className="font-semibold">{currentState}</span>
               </div>
+              {coaching && (
+                <div className="px-3 py-1 rounded-full text-sm bg-amber-500/15 text-amber-200 border border-amber-400/20">
+                  Coaching
+                </div>
+              )}
               <div
                 className={`px-3 py-1 rounded-full text-sm ${
-                  active
-                    ? "bg-emerald-500/15 text-emerald-200 border border-emerald-400/20"
-                    : "bg-white/10 text-white/70 border border-white/10"
+                  active && paused
+                    ? "bg-amber-500/15 text-amber-200 border border-amber-400/20"
+                    : active
+                      ? "bg-emerald-500/15 text-emerald-200 border border-emerald-400/20"
+                      : "bg-white/10 text-white/70 border border-white/10"
                 }`}
               >
-                {active ? "● Active" : "● Inactive"}
+                {active ? (paused ? "● Paused" : "● Active") : "● Inactive"}
               </div>
             </div>
           </div>
@@ -349,6 +523,15 @@ export default function TraineePracticePage() {
                 <Square size={16} /> End Session
               </BrandButton>
             )}
+            {!endPrompt && (
+              <BrandButton
+                onClick={handleTogglePause}
+                disabled={!sessionId || loading}
+                variant="neutral"
+              >
+                {paused ? <Play size={16} /> : <Pause size={16} />} {paused ? "Resume" : "Pause"}
+              </BrandButton>
+            )}
           </div>
         </div>
 
@@ -369,7 +552,8 @@ export default function TraineePracticePage() {
                     ? "bg-white/10 border border-white/10"
                     : "bg-sky-500/20 border border-sky-400/20";
 
-                const label = isTrainee ? "You" : isAttendee ? "Attendee" : "System";
+                const speaker = attendees?.find((a) => a.id === m.speakerId)?.displayName;
+                const label = isTrainee ? "You" : isAttendee ? speaker ?? "Attendee" : "System";
 
                 return (
                   <div
@@ -389,6 +573,34 @@ export default function TraineePracticePage() {
           )}
         </div>
 
+        {/* Coaching hint (coaching mode only) */}
+        {coaching && coachingHint && !endPrompt && (
+          <div className="mt-3 bg-amber-500/10 border border-amber-400/20 rounded-lg p-4 text-sm space-y-2">
+            <div className="text-amber-200 font-medium">
+              💡 Coach: you&apos;re in {coachingHint.state}
+              {coachingHint.attendeeName ? ` with ${coachingHint.attendeeName}` : ""}
+              {coachingHint.stateDescription && (
+                <span className="font-normal text-amber-200/70"> — {coachingHint.stateDescription}</span>
+              )}
+            </div>
+            {coachingHint.warnings.length > 0 && (
+              <div className="text-red-200">
+                ⚠️ Your last message: {coachingHint.warnings.join("; ")}
+              </div>
+            )}
+            {coachingHint.advanceWhen.length > 0 && (
+              <div className="text-gray-200">
+                <span className="text-gray-400">To move on:</span> {coachingHint.advanceWhen.join(" · ")}
+              </div>
+            )}
+            {coachingHint.avoid.length > 0 && (
+              <div className="text-gray-200">
+                <span className="text-gray-400">Avoid:</span> {coachingHint.avoid.join(" · ")}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Completion CTA (when outcome reached) */}
         {endPrompt && sessionId && (
           <div className="bg-emerald-500/10 border border-emerald-400/20 rounded-lg p-4 space-y-3">
@@ -413,18 +625,26 @@ export default function TraineePracticePage() {
         {/* Fixed Input at Bottom - Hide when CTA is showing */}
         {!endPrompt && (
           <div className="sticky bottom-0 bg-gray-900/95 backdrop-blur-sm border-t border-white/15 pt-4 mt-4">
+            {paused && sessionId && (
+              <div className="mb-3 flex items-center justify-between gap-3 bg-amber-500/10 border border-amber-400/20 rounded-lg px-4 py-3 text-sm text-amber-200">
+                <span>Session paused. Time away doesn&apos;t count; your draft is saved.</span>
+                <BrandButton onClick={handleTogglePause} disabled={loading} variant="lime">
+                  <Play size={16} /> Resume
+                </BrandButton>
+              </div>
+            )}
             <div className="flex items-center gap-3">
               <input
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={sessionId ? "Your response..." : "Loading..."}
-                disabled={!sessionId || loading}
+                placeholder={sessionId ? (paused ? "Paused" : "Your response...") : "Loading..."}
+                disabled={!sessionId || loading || paused}
                 className="flex-1 bg-black/30 border border-white/20 text-gray-100 rounded-md px-4 py-3 outline-none focus:border-white/30 focus:ring-2 focus:ring-white/10 disabled:opacity-60"
               />
               <BrandButton
                 onClick={handleSendMessage}
-                disabled={!sessionId || loading || !input.trim()}
+                disabled={!sessionId || loading || paused || !input.trim()}
                 variant="cobalt"
               >
                 <Send size={16} /> Send
@@ -2,8 +2,13 @@
 
 import React, { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { Award, TrendingUp, AlertCircle, Home, Trophy, Eye } from "lucide-react";
+import { Award, TrendingUp, AlertCircle, Home, Trophy, Eye, Scale, ListOrdered } from "lucide-react";
 import { BrandButton } from "../../../components/ui/BrandButton";
+import { JudgeEvaluation } from "../../../components/JudgeEvaluation";
+import { TurnAnnotationChips } from "../../../components/TurnAnnotationChips";
+import type { SessionJudgment } from "../../../lib/llm/judgeTypes";
+import type { TurnAnnotation } from "../../../lib/turnAnnotations";
+import type { TrainerOverrides } from "../../../lib/scoreOverrides";
 import Link from "next/link";
 
 interface ScoreRecord {
@@ -14,18 +19,28 @@ interface ScoreRecord {
   conferenceContext?: string;
   score: number;
   grade: "A" | "B" | "C" | "D" | "F";
-  breakdown: {
-    listening: number;
-    discovery: number;
-    empathy: number;
-    otel_assumptions: number;
-    guardrails: number;
-  };
+  breakdown: Record<string, number>;
+  breakdownMax?: Record<string, number>;
+  judge?: SessionJudgment;
+  heuristicScore?: number;
+  turnAnnotations?: TurnAnnotation[];
   highlights: string[];
   mistakes: string[];
   violations: string[];
   createdAt: string;
   completedAt: string;
+  scoringVersion?: string;
+  rescoredAt?: string;
+  trainerOverrides?: TrainerOverrides;
+  // After trainer overrides (the computed values when there are none)
+  effective?: {
+    score: number;
+    grade: "A" | "B" | "C" | "D" | "F";
+    breakdown: Record<string, number>;
+    overridden: boolean;
+  };
+  coached?: boolean;
+  incomplete?: boolean;
   inviteToken?: string | null;
 }
 
@@ -98,13 +113,21 @@ export default function ShareScorePage() {
     );
   }
 
+  const shown = scoreRecord.effective ?? {
+    score: scoreRecord.score,
+    grade: scoreRecord.grade,
+    breakdown: scoreRecord.breakdown,
+    overridden: false,
+  };
+  const gradeOverride = scoreRecord.trainerOverrides?.grade;
+
   const gradeColor = {
     A: "text-green-400",
     B: "text-blue-400",
     C: "text-yellow-400",
     D: "text-orange-400",
     F: "text-red-400",
-  }[scoreRecord.grade];
+  }[shown.grade];
 
   const gradeBackground = {
     A: "bg-green-900/30 border-green-700",
@@ -112,7 +135,7 @@ export default function ShareScorePage() {
     C: "bg-yellow-900/30 border-yellow-700",
     D: "bg-orange-900/30 border-orange-700",
     F: "bg-red-900/30 border-red-700",
-  }[scoreRecord.grade];
+  }[shown.grade];
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -127,6 +150,16 @@ export default function ShareScorePage() {
               Difficulty: {scoreRecord.difficulty}
             </p>
           )}
+          {scoreRecord.coached && (
+            <p className="text-amber-200/80 text-xs mt-1">
+              Coaching mode (hints shown during the session)
+            </p>
+          )}
+          {scoreRecord.incomplete && (
+            <p className="text-red-300/80 text-xs mt-1">
+              Incomplete: the session was left unfinished and closed by an admin
+            </p>
+          )}
         </div>
 
         {/* Score Card */}
@@ -137,13 +170,21 @@ export default function ShareScorePage() {
             <Award size={48} className={gradeColor} />
             <div>
               <div className={`text-6xl font-bold ${gradeColor}`}>
-                {scoreRecord.grade}
+                {shown.grade}
               </div>
               <div className="text-2xl text-gray-300 mt-2">
-                {scoreRecord.score}/100
+                {shown.score}/100
               </div>
             </div>
           </div>
+          {shown.overridden && (
+            <div className="text-sm text-gray-400 space-y-1">
+              <p>
+                Adjusted by a trainer · computed {scoreRecord.grade}, {scoreRecord.score}/100
+              </p>
+              {gradeOverride && <p className="italic">&ldquo;{gradeOverride.justification}&rdquo;</p>}
+            </div>
+          )}
         </div>
 
         {/* Breakdown */}
@@ -152,19 +193,27 @@ export default function ShareScorePage() {
             <TrendingUp size={20} /> Score Breakdown
           </h2>
           <div className="space-y-3">
-            {Object.entries(scoreRecord.breakdown).map(([key, value]) => {
+            {Object.entries(shown.breakdown).map(([key, value]) => {
               const label = key
                 .replace(/_/g, " ")
                 .replace(/\b\w/g, (c) => c.toUpperCase());
-              const percentage = (value / 20) * 100;
+              const max = scoreRecord.breakdownMax?.[key] ?? 20;
+              const percentage = (value / max) * 100;
+              const override = scoreRecord.trainerOverrides?.breakdown?.[key];
               return (
                 <div key={key}>
                   <div className="flex items-center justify-between text-sm mb-1">
                     <span className="text-gray-300">{label}</span>
                     <span className="text-gray-400">
-                      {value}/20
+                      {override && `computed ${scoreRecord.breakdown[key]} · `}
+                      {value}/{max}
                     </span>
                   </div>
+                  {override && (
+                    <p className="text-xs text-gray-400 italic mb-1">
+                      Trainer: &ldquo;{override.justification}&rdquo;
+                    </p>
+                  )}
                   <div className="w-full bg-gray-700 rounded-full h-2">
                     <div
                       className="bg-indigo-500 h-2 rounded-full transition-all"
@@ -177,6 +226,20 @@ export default function ShareScorePage() {
           </div>
         </div>
 
+        {/* Judge Evaluation */}
+        {scoreRecord.judge && (
+          <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <Scale size={20} /> Judge Evaluation
+            </h2>
+            <JudgeEvaluation
+              judge={scoreRecord.judge}
+              heuristicScore={scoreRecord.heuristicScore}
+              score={scoreRecord.score}
+            />
+          </div>
+        )}
+
         {/* Highlights */}
         {scoreRecord.highlights.length > 0 && (
           <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
@@ -211,6 +274,26 @@ export default function ShareScorePage() {
           </div>
         )}
 
+        {/* Turn by Turn */}
+        {scoreRecord.turnAnnotations && scoreRecord.turnAnnotations.length > 0 && (
+          <div className="rounded-lg border border-white/15 bg-white/7 p-6 shadow-sm">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <ListOrdered size={20} /> Turn by Turn
+            </h2>
+            <ol className="space-y-3">
+              {scoreRecord.turnAnnotations.map((annotation) => (
+                <li key={annotation.messageId} className="flex items-start gap-3">
+                  <span className="text-xs text-gray-500 mt-0.5 w-6 shrink-0">#{annotation.turn}</span>
+                  <div className="space-y-1.5 min-w-0">
+                    <p className="text-sm text-gray-300 whitespace-pre-wrap">{annotation.text}</p>
+                    <TurnAnnotationChips annotation={annotation} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* Guardrail Violations */}
         {scoreRecord.violations && scoreRecord.violations.length > 0 && (
           <div className="rounded-lg border border-red-500/30 bg-red-900/10 p-6 shadow-sm">
@@ -259,6 +342,8 @@ export default function ShareScorePage() {
         {/* Footer */}
         <div className="text-center text-gray-500 text-xs">
           Session completed: {new Date(scoreRecord.completedAt).toLocaleString()}
+          {scoreRecord.scoringVersion && ` · Scoring ${scoreRecord.scoringVersion}`}
+          {scoreRecord.rescoredAt && ` (rescored ${new Date(scoreRecord.rescoredAt).toLocaleDateString()})`}
         </div>
       </div>
   );
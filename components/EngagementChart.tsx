@@ -0,0 +1,73 @@
+"use client";
+
+import React from "react";
+import type { EngagementPoint } from "@/lib/engagement";
+
+interface EngagementChartProps {
+  curve: EngagementPoint[];
+  waveringBelow: number;
+  walkAwayAt: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 24;
+
+const LEVEL_COLORS: Record<EngagementPoint["level"], string> = {
+  engaged: "#64BA00",
+  wavering: "#F5A623",
+  disengaged: "#F87171",
+};
+
+/**
+ * Attendee engagement meter per trainee turn (review page). Hover a point for
+ * what moved the meter on that turn.
+ */
+export function EngagementChart({ curve, waveringBelow, walkAwayAt }: EngagementChartProps) {
+  if (curve.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        No engagement data for this session (it was created before the meter existed).
+      </p>
+    );
+  }
+
+  const lastTurn = Math.max(1, curve[curve.length - 1].turn);
+  const x = (turn: number) => PADDING + (turn / lastTurn) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - (value / 100) * (HEIGHT - 2 * PADDING);
+  const path = curve.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.turn)},${y(p.value)}`).join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40">
+        {/* Threshold bands */}
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(waveringBelow)} y2={y(waveringBelow)}
+          stroke="#F5A623" strokeDasharray="4 4" strokeOpacity={0.5} />
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(walkAwayAt)} y2={y(walkAwayAt)}
+          stroke="#F87171" strokeDasharray="4 4" strokeOpacity={0.5} />
+        <text x={WIDTH - PADDING} y={y(waveringBelow) - 4} textAnchor="end" fontSize={10} fill="#F5A623">
+          wavering
+        </text>
+        <text x={WIDTH - PADDING} y={y(walkAwayAt) - 4} textAnchor="end" fontSize={10} fill="#F87171">
+          walks away
+        </text>
+
+        <path d={path} fill="none" stroke="#A78BFA" strokeWidth={2} />
+        {curve.map((p) => (
+          <circle key={p.turn} cx={x(p.turn)} cy={y(p.value)} r={4} fill={LEVEL_COLORS[p.level]}>
+            <title>
+              {`Turn ${p.turn}: ${p.value} (${p.delta >= 0 ? "+" : ""}${p.delta})` +
+                p.changes
+                  .map((c) => `\n${c.reason} ${c.delta >= 0 ? "+" : ""}${c.delta}${c.detail ? `: ${c.detail}` : ""}`)
+                  .join("")}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Start</span>
+        <span>Turn {lastTurn}</span>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
 import React, { useEffect, useState } from "react";
 import type { Conference, Persona } from "@/lib/scenarioTypes";
 import type { Trainee } from "@/lib/traineeStore";
-import { formatTraineeShort } from "@/lib/traineeStore";
+import { formatTraineeShort } from "@/lib/formatUtils";
+import { withWorkspaceParam } from "@/lib/workspaceClient";
 import type {
   InsightsData,
   TraineeSummary,
@@ -17,6 +18,7 @@ export function InsightsContent() {
   const [conferences, setConferences] = useState<Conference[]>([]);
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [trainees, setTrainees] = useState<Trainee[]>([]);
+  const [scoringVersions, setScoringVersions] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<{
     totalScores: number;
@@ -29,15 +31,16 @@ export function InsightsContent() {
   const [conferenceFilter, setConferenceFilter] = useState<string>("");
   const [personaFilter, setPersonaFilter] = useState<string>("");
   const [traineeFilter, setTraineeFilter] = useState<string>("");
+  const [scoringVersionFilter, setScoringVersionFilter] = useState<string>("");
 
   // Load conferences, personas, and trainees for filters
   useEffect(() => {
     async function loadFilterData() {
       try {
         const [confRes, personaRes, traineeRes] = await Promise.all([
-          fetch("/api/conferences"),
-          fetch("/api/personas"),
-          fetch("/api/trainees"),
+          fetch(withWorkspaceParam("/api/conferences")),
+          fetch(withWorkspaceParam("/api/personas")),
+          fetch(withWorkspaceParam("/api/trainees")),
         ]);
 
         if (confRes.ok) {
@@ -77,10 +80,14 @@ export function InsightsContent() {
         if (traineeFilter) {
           params.set("traineeId", traineeFilter);
         }
+        if (scoringVersionFilter) {
+          params.set("scoringVersion", scoringVersionFilter);
+        }
 
-        const response = await fetch(`/api/insights?${params.toString()}`);
+        const response = await fetch(withWorkspaceParam(`/api/insights?${params.toString()}`));
         const data = await response.json();
         setInsights(data.insights || null);
+        setScoringVersions(data.scoringVersions || []);
         setStats({
           totalScores: data.totalScores || 0,
           filteredScores: data.filteredScores || 0,
@@ -93,13 +100,13 @@ export function InsightsContent() {
       }
     }
     loadInsights();
-  }, [range, conferenceFilter, personaFilter, traineeFilter]);
+  }, [range, conferenceFilter, personaFilter, traineeFilter, scoringVersionFilter]);
 
   return (
     <>
       {/* Filters */}
       <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
           <div>
             <label className="block text-xs text-gray-400 mb-1">
               Time Range
@@ -164,6 +171,24 @@ export function InsightsContent() {
               ))}
             </select>
           </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Scoring Version
+            </label>
+            <select
+              value={scoringVersionFilter}
+              onChange={(e) => setScoringVersionFilter(e.target.value)}
+              className="w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30"
+            >
+              <option value="">All versions</option>
+              {scoringVersions.map((version) => (
+                <option key={version} value={version}>
+                  {version}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {stats && (
@@ -375,6 +400,53 @@ export function InsightsContent() {
               )}
             </div>
           </div>
+
+          {/* Trainer Overrides */}
+          {insights.calibration.overriddenScores > 0 && (
+            <div className="rounded-lg border border-white/15 bg-white/7 shadow-sm overflow-hidden">
+              <div className="bg-white/5 border-b border-white/10 px-4 py-3">
+                <h2 className="text-lg font-semibold text-white">
+                  Trainer Overrides
+                </h2>
+                <p className="text-xs text-gray-400">
+                  Scores above include trainer overrides; these compare them
+                  with the computed scores
+                </p>
+              </div>
+              <div className="p-4 space-y-3 text-sm text-gray-300">
+                <p>
+                  {insights.calibration.overriddenScores} overridden score(s),
+                  average change{" "}
+                  {insights.calibration.avgScoreDelta > 0
+                    ? `+${insights.calibration.avgScoreDelta}`
+                    : insights.calibration.avgScoreDelta}
+                </p>
+                {Object.keys(insights.calibration.gradeChanges).length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(insights.calibration.gradeChanges).map(
+                      ([move, count]) => (
+                        <span
+                          key={move}
+                          className="px-2 py-1 rounded text-xs font-mono bg-white/8 text-gray-200 border border-white/15"
+                        >
+                          {move}: {count}
+                        </span>
+                      )
+                    )}
+                  </div>
+                )}
+                {Object.keys(insights.calibration.dimensionOverrides).length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    Overridden dimensions:{" "}
+                    {Object.entries(insights.calibration.dimensionOverrides)
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([dimension, count]) => `${dimension.replace(/_/g, " ")} (${count})`)
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
         </>
       )}
     </>
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import { JUDGE_DIMENSION_MAX, type SessionJudgment } from "@/lib/llm/judgeTypes";
+
+interface JudgeEvaluationProps {
+  judge: SessionJudgment;
+  /** Heuristic total, when the judge's score was blended into the final one */
+  heuristicScore?: number;
+  /** Final score */
+  score: number;
+}
+
+/**
+ * The LLM judge's per-criterion scores, rationale and evidence quotes
+ * (review and share pages)
+ */
+export function JudgeEvaluation({ judge, heuristicScore, score }: JudgeEvaluationProps) {
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-400 space-y-1">
+        <p>
+          Judge score <span className="text-gray-200 font-medium">{judge.score}/100</span>
+          {heuristicScore !== undefined
+            ? ` · blended with the heuristic ${heuristicScore}/100 into ${score}/100`
+            : " · for reference (the score above is heuristic)"}
+        </p>
+        <p className="text-xs text-gray-500">
+          {judge.provider === "mock" ? "Mock judge" : `Judged by ${judge.model ?? judge.provider}`} against
+          prompt bundle {judge.promptBundleId} ({judge.promptBundleVersion})
+        </p>
+        {judge.rationale && <p className="text-gray-300">{judge.rationale}</p>}
+      </div>
+
+      <div className="space-y-3">
+        {judge.dimensions.map((dimension) => (
+          <div key={dimension.id} className="rounded-md border border-white/10 bg-black/20 p-3">
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-gray-200 font-medium">{dimension.label}</span>
+              <span className="text-gray-400">
+                {dimension.score}/{JUDGE_DIMENSION_MAX}
+              </span>
+            </div>
+            {dimension.rationale && <p className="text-sm text-gray-400">{dimension.rationale}</p>}
+            {dimension.evidence.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {dimension.evidence.map((quote, idx) => (
+                  <li
+                    key={idx}
+                    className="border-l-2 border-indigo-400/50 pl-2 text-xs text-gray-300 italic"
+                  >
+                    &ldquo;{quote}&rdquo;
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
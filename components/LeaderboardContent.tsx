@@ -6,11 +6,36 @@ import { Trophy, ExternalLink, Play } from "lucide-react";
 import type { LeaderboardEntry } from "@/lib/leaderboardStore";
 import type { Conference, Persona } from "@/lib/scenarioTypes";
 import type { Trainee } from "@/lib/traineeStore";
-import { formatTraineeShort } from "@/lib/traineeStore";
+import { formatTraineeShort } from "@/lib/formatUtils";
 import { BrandButton } from "@/components/ui/BrandButton";
+import { withWorkspaceParam } from "@/lib/workspaceClient";
 
 type RangeOption = "24h" | "7d" | "30d" | "all";
 
+function leaderboardParams(filters: {
+  range: RangeOption;
+  conferenceId: string;
+  personaId: string;
+  traineeId: string;
+  coached: boolean;
+}): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("range", filters.range);
+  if (filters.conferenceId) {
+    params.set("conferenceId", filters.conferenceId);
+  }
+  if (filters.personaId) {
+    params.set("personaId", filters.personaId);
+  }
+  if (filters.traineeId) {
+    params.set("traineeId", filters.traineeId);
+  }
+  if (filters.coached) {
+    params.set("coached", "true");
+  }
+  return params;
+}
+
 function formatDate(isoString: string): string {
   return new Date(isoString).toLocaleString("en-US", {
     month: "short",
@@ -44,8 +69,11 @@ export function LeaderboardContent() {
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [trainees, setTrainees] = useState<Trainee[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [stats, setStats] = useState<{
     totalMatched: number;
+    totalEstimated: boolean;
     totalStored: number;
     rangeUsed: string;
     limitUsed: number;
@@ -56,15 +84,17 @@ export function LeaderboardContent() {
   const [conferenceFilter, setConferenceFilter] = useState<string>("");
   const [personaFilter, setPersonaFilter] = useState<string>("");
   const [traineeFilter, setTraineeFilter] = useState<string>("");
+  // Coaching-mode runs have their own board
+  const [coached, setCoached] = useState(false);
 
   // Load conferences, personas, and trainees for filters
   useEffect(() => {
     async function loadFilterData() {
       try {
         const [confRes, personaRes, traineeRes] = await Promise.all([
-          fetch("/api/conferences"),
-          fetch("/api/personas"),
-          fetch("/api/trainees"),
+          fetch(withWorkspaceParam("/api/conferences")),
+          fetch(withWorkspaceParam("/api/personas")),
+          fetch(withWorkspaceParam("/api/trainees")),
         ]);
 
         if (confRes.ok) {
@@ -93,23 +123,21 @@ export function LeaderboardContent() {
     async function loadLeaderboard() {
       setLoading(true);
       try {
-        const params = new URLSearchParams();
-        params.set("range", range);
-        if (conferenceFilter) {
-          params.set("conferenceId", conferenceFilter);
-        }
-        if (personaFilter) {
-          params.set("personaId", personaFilter);
-        }
-        if (traineeFilter) {
-          params.set("traineeId", traineeFilter);
-        }
+        const params = leaderboardParams({
+          range,
+          conferenceId: conferenceFilter,
+          personaId: personaFilter,
+          traineeId: traineeFilter,
+          coached,
+        });
 
-        const response = await fetch(`/api/leaderboard?${params.toString()}`);
+        const response = await fetch(withWorkspaceParam(`/api/leaderboard?${params.toString()}`));
         const data = await response.json();
         setEntries(data.entries || []);
+        setNextCursor(data.nextCursor || null);
         setStats({
           totalMatched: data.totalMatched || 0,
+          totalEstimated: data.totalEstimated === true,
           totalStored: data.totalStored || 0,
           rangeUsed: data.rangeUsed || range,
           limitUsed: data.limitUsed || 20,
@@ -121,13 +149,38 @@ export function LeaderboardContent() {
       }
     }
     loadLeaderboard();
-  }, [range, conferenceFilter, personaFilter, traineeFilter]);
+  }, [range, conferenceFilter, personaFilter, traineeFilter, coached]);
+
+  // Append the next page (the cursor carries the position; filters must match)
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const params = leaderboardParams({
+        range,
+        conferenceId: conferenceFilter,
+        personaId: personaFilter,
+        traineeId: traineeFilter,
+        coached,
+      });
+      params.set("cursor", nextCursor);
+
+      const response = await fetch(withWorkspaceParam(`/api/leaderboard?${params.toString()}`));
+      const data = await response.json();
+      setEntries((prev) => [...prev, ...(data.entries || [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (error) {
+      console.error("Failed to load more leaderboard entries:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   return (
     <>
       {/* Filters */}
       <div className="rounded-lg border border-white/15 bg-white/7 p-4 shadow-sm">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
           <div>
             <label className="block text-xs text-gray-400 mb-1">Time Range</label>
             <select
@@ -142,6 +195,18 @@ export function LeaderboardContent() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Board</label>
+            <select
+              value={coached ? "coached" : "unassisted"}
+              onChange={(e) => setCoached(e.target.value === "coached")}
+              className="w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30"
+            >
+              <option value="unassisted">Unassisted runs</option>
+              <option value="coached">Coaching mode runs</option>
+            </select>
+          </div>
+
           <div>
             <label className="block text-xs text-gray-400 mb-1">Conference</label>
             <select
@@ -193,7 +258,8 @@ export function LeaderboardContent() {
 
         {stats && (
           <p className="text-xs text-gray-400 mt-3">
-            Showing top {entries.length} of {stats.totalMatched} matching entries
+            Showing top {entries.length} of {stats.totalEstimated ? "up to " : ""}
+            {stats.totalMatched} matching entries
             {stats.totalStored > stats.totalMatched && (
               <span> (filtered from {stats.totalStored} total)</span>
             )}
@@ -270,6 +336,14 @@ export function LeaderboardContent() {
                       </td>
                       <td className="px-3 py-3">
                         <GradeBadge grade={entry.grade} />
+                        {entry.computedGrade && (
+                          <span
+                            className="ml-2 text-xs text-gray-400"
+                            title={`Adjusted by a trainer (computed ${entry.computedGrade}, ${entry.computedScore}/100)`}
+                          >
+                            adjusted
+                          </span>
+                        )}
                       </td>
                       <td className="px-3 py-3 text-sm text-gray-300">
                         {entry.traineeNameShort || "—"}
@@ -300,6 +374,13 @@ export function LeaderboardContent() {
               </tbody>
             </table>
           </div>
+          {nextCursor && (
+            <div className="border-t border-white/10 p-3 text-center">
+              <BrandButton onClick={loadMore} disabled={loadingMore} variant="neutral">
+                {loadingMore ? "Loading..." : "Load more"}
+              </BrandButton>
+            </div>
+          )}
         </div>
       )}
     </>
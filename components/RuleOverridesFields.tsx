@@ -0,0 +1,243 @@
+"use client";
+
+import React from "react";
+import { ChipInput } from "./ui/ChipInput";
+import type { Difficulty, ScenarioRuleOverrides } from "@/lib/scenarioTypes";
+
+/** Global defaults from GET /api/scenario-rules */
+export interface ScenarioRuleDefaults {
+  turnLimits: Record<Difficulty, number>;
+  bandKeys: string[];
+  outcomes: string[];
+  interruptionChance: Record<Difficulty, number>;
+  interruptionEvents: string[];
+}
+
+interface RuleOverridesFieldsProps {
+  value: ScenarioRuleOverrides;
+  onChange: (next: ScenarioRuleOverrides) => void;
+  defaults: ScenarioRuleDefaults | null;
+}
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+const CUSTOM_BAND = "__custom__";
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+// Empty input clears the override; anything else is sent as typed and
+// validated by the API
+function parseNumber(text: string): number | undefined {
+  return text.trim() === "" ? undefined : Number(text);
+}
+
+/**
+ * Optional per-scenario rule overrides for the conference and persona forms.
+ * Empty fields fall back to the global simulator config.
+ */
+export function RuleOverridesFields({ value, onChange, defaults }: RuleOverridesFieldsProps) {
+  const isSet = Object.values(value).some((field) => field !== undefined);
+  const bandMode = value.outcomeBand ? CUSTOM_BAND : value.outcomeBandKey ?? "";
+
+  const setTurnLimit = (difficulty: Difficulty, text: string) => {
+    const turnLimits = { ...value.turnLimits, [difficulty]: parseNumber(text) };
+    if (turnLimits[difficulty] === undefined) delete turnLimits[difficulty];
+    onChange({ ...value, turnLimits: Object.keys(turnLimits).length > 0 ? turnLimits : undefined });
+  };
+
+  const setList = (
+    field: "extraBannedKeywords" | "extraSelfServiceCues" | "extraDeferredInterestCues" | "extraMqlCues",
+    list: string[]
+  ) => {
+    onChange({ ...value, [field]: list.length > 0 ? list : undefined });
+  };
+
+  const setBandMode = (mode: string) => {
+    const next: ScenarioRuleOverrides = { ...value, outcomeBand: undefined, outcomeBandKey: undefined };
+    if (mode === CUSTOM_BAND) {
+      next.outcomeBand = { tolerance: 0.1, weights: {} };
+    } else if (mode) {
+      next.outcomeBandKey = mode;
+    }
+    onChange(next);
+  };
+
+  const setBandTolerance = (text: string) => {
+    if (!value.outcomeBand) return;
+    onChange({ ...value, outcomeBand: { ...value.outcomeBand, tolerance: parseNumber(text) ?? 0 } });
+  };
+
+  const setBandWeight = (outcome: string, text: string) => {
+    if (!value.outcomeBand) return;
+    const weights = { ...value.outcomeBand.weights };
+    const weight = parseNumber(text);
+    if (weight === undefined) delete weights[outcome];
+    else weights[outcome] = weight;
+    onChange({ ...value, outcomeBand: { ...value.outcomeBand, weights } });
+  };
+
+  const toggleInterruptionEvent = (kind: string, enabled: boolean) => {
+    // Starting from "all allowed" when nothing is restricted yet
+    const current = value.interruptionEvents ?? defaults?.interruptionEvents ?? [];
+    const next = enabled ? [...current, kind] : current.filter((k) => k !== kind);
+    const allAllowed = (defaults?.interruptionEvents ?? []).every((k) => next.includes(k));
+    onChange({ ...value, interruptionEvents: allAllowed ? undefined : next });
+  };
+
+  const weightSum = Object.values(value.outcomeBand?.weights ?? {}).reduce((sum, w) => sum + w, 0);
+
+  return (
+    <details className="border-t border-white/10 pt-3" open={isSet}>
+      <summary className="text-xs text-gray-400 cursor-pointer select-none">
+        Rule overrides {isSet ? "(customized)" : "(using global rules)"}
+      </summary>
+
+      <div className="space-y-3 mt-3">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Turn limits</label>
+          <div className="grid grid-cols-3 gap-2">
+            {DIFFICULTIES.map((difficulty) => (
+              <div key={difficulty}>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={value.turnLimits?.[difficulty] ?? ""}
+                  onChange={(e) => setTurnLimit(difficulty, e.target.value)}
+                  placeholder={defaults ? String(defaults.turnLimits[difficulty]) : ""}
+                  className={inputClass}
+                />
+                <div className="text-[10px] text-gray-500 mt-0.5 capitalize">{difficulty}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Extra banned keywords</label>
+          <ChipInput
+            value={value.extraBannedKeywords ?? []}
+            onChange={(list) => setList("extraBannedKeywords", list)}
+            placeholder="e.g., competitor product names"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Extra self-service cues</label>
+          <ChipInput
+            value={value.extraSelfServiceCues ?? []}
+            onChange={(list) => setList("extraSelfServiceCues", list)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Extra deferred-interest cues</label>
+          <ChipInput
+            value={value.extraDeferredInterestCues ?? []}
+            onChange={(list) => setList("extraDeferredInterestCues", list)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Extra MQL cues</label>
+          <ChipInput
+            value={value.extraMqlCues ?? []}
+            onChange={(list) => setList("extraMqlCues", list)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Outcome band</label>
+          <select
+            value={bandMode}
+            onChange={(e) => setBandMode(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Match job title (default)</option>
+            {(defaults?.bandKeys ?? []).map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+            <option value={CUSTOM_BAND}>Custom…</option>
+          </select>
+        </div>
+
+        {value.outcomeBand && (
+          <div className="space-y-2 rounded border border-white/10 p-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Tolerance (0-1)</label>
+              <input
+                type="number"
+                step={0.05}
+                min={0}
+                max={1}
+                value={value.outcomeBand.tolerance}
+                onChange={(e) => setBandTolerance(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            {(defaults?.outcomes ?? []).map((outcome) => (
+              <div key={outcome} className="flex items-center gap-2">
+                <label className="flex-1 text-xs text-gray-400 font-mono">{outcome}</label>
+                <input
+                  type="number"
+                  step={0.05}
+                  min={0}
+                  max={1}
+                  value={value.outcomeBand?.weights[outcome] ?? ""}
+                  onChange={(e) => setBandWeight(outcome, e.target.value)}
+                  className={`${inputClass} w-24`}
+                />
+              </div>
+            ))}
+            <div
+              className={`text-xs ${Math.abs(weightSum - 1) > 0.001 ? "text-red-300" : "text-gray-500"}`}
+            >
+              Weights sum to {Number(weightSum.toFixed(3))} (must be 1)
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Interruption chance per turn (0-1)</label>
+          <input
+            type="number"
+            step={0.05}
+            min={0}
+            max={1}
+            value={value.interruptionChance ?? ""}
+            onChange={(e) => onChange({ ...value, interruptionChance: parseNumber(e.target.value) })}
+            placeholder={
+              defaults
+                ? Object.entries(defaults.interruptionChance)
+                    .map(([difficulty, chance]) => `${difficulty} ${chance}`)
+                    .join(", ")
+                : ""
+            }
+            className={inputClass}
+          />
+        </div>
+
+        {(defaults?.interruptionEvents.length ?? 0) > 0 && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Interruptions that can happen</label>
+            <div className="flex flex-wrap gap-3">
+              {defaults!.interruptionEvents.map((kind) => (
+                <label key={kind} className="flex items-center gap-1 text-xs text-gray-300 font-mono">
+                  <input
+                    type="checkbox"
+                    checked={value.interruptionEvents?.includes(kind) ?? true}
+                    onChange={(e) => toggleInterruptionEvent(kind, e.target.checked)}
+                  />
+                  {kind}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
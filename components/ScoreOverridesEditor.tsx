@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useState } from "react";
+import { Save, X } from "lucide-react";
+import { BrandButton } from "@/components/ui/BrandButton";
+import type { TrainerOverrides } from "@/lib/scoreOverrides";
+
+const GRADES = ["A", "B", "C", "D", "F"];
+
+const inputClass =
+  "w-full bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1.5 text-sm outline-none focus:border-white/30";
+
+interface EffectiveScore {
+  score: number;
+  grade: string;
+  breakdown: Record<string, number>;
+  overridden: boolean;
+}
+
+interface ReviewScore {
+  score: number;
+  grade: string;
+  breakdown: Record<string, number>;
+  breakdownMax?: Record<string, number>;
+  trainerOverrides?: TrainerOverrides;
+  effective: EffectiveScore;
+}
+
+interface ScoreOverridesEditorProps {
+  token: string;
+  score: ReviewScore;
+  /** Called with the stored overrides and the effective score after a save or clear */
+  onSaved: (trainerOverrides: TrainerOverrides | undefined, effective: EffectiveScore) => void;
+}
+
+type Draft = { value: string; justification: string };
+
+function draftFrom(
+  overrides: TrainerOverrides | undefined,
+  breakdown: Record<string, number>
+): { grade: Draft; breakdown: Record<string, Draft> } {
+  return {
+    grade: {
+      value: overrides?.grade?.value ?? "",
+      justification: overrides?.grade?.justification ?? "",
+    },
+    breakdown: Object.fromEntries(
+      Object.keys(breakdown).map((key): [string, Draft] => {
+        const override = overrides?.breakdown?.[key];
+        return [key, { value: override ? String(override.value) : "", justification: override?.justification ?? "" }];
+      })
+    ),
+  };
+}
+
+/**
+ * Trainer overrides of the breakdown and grade (review page). A blank value
+ * keeps the computed one; every override needs a justification. Saving needs
+ * the admin token.
+ */
+export function ScoreOverridesEditor({ token, score, onSaved }: ScoreOverridesEditorProps) {
+  const [draft, setDraft] = useState(() => draftFrom(score.trainerOverrides, score.breakdown));
+  const [adminToken, setAdminToken] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const setDimension = (key: string, change: Partial<Draft>) =>
+    setDraft((previous) => ({
+      ...previous,
+      breakdown: { ...previous.breakdown, [key]: { ...previous.breakdown[key], ...change } },
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors([]);
+    try {
+      const breakdown = Object.fromEntries(
+        Object.entries(draft.breakdown)
+          .filter(([, override]) => override.value !== "")
+          .map(([key, override]) => [key, { value: Number(override.value), justification: override.justification }])
+      );
+      const res = await fetch(`/api/review/${token}/overrides`, {
+        method: "POST",
+        headers: { "x-admin-reset-token": adminToken, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          grade: draft.grade.value ? draft.grade : undefined,
+          breakdown,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setErrors(data.errors ?? [data.error || "Failed to save overrides"]);
+        return;
+      }
+
+      onSaved(data.trainerOverrides ?? undefined, data.effective);
+    } catch (e) {
+      console.error("Failed to save overrides:", e);
+      setErrors(["Failed to save overrides"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm("Remove all overrides and go back to the computed score?")) return;
+
+    setSaving(true);
+    setErrors([]);
+    try {
+      const res = await fetch(`/api/review/${token}/overrides`, {
+        method: "DELETE",
+        headers: { "x-admin-reset-token": adminToken },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setErrors([data.error || "Failed to clear overrides"]);
+        return;
+      }
+
+      setDraft(draftFrom(undefined, score.breakdown));
+      onSaved(undefined, data.effective);
+    } catch (e) {
+      console.error("Failed to clear overrides:", e);
+      setErrors(["Failed to clear overrides"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">
+        Computed grade <span className="text-gray-200 font-medium">{score.grade}</span> ·{" "}
+        {score.score}/100
+        {score.effective.overridden && (
+          <>
+            {" "}
+            · effective <span className="text-gray-200 font-medium">{score.effective.grade}</span> ·{" "}
+            {score.effective.score}/100 (used by the leaderboard and insights)
+          </>
+        )}
+      </p>
+
+      <table className="w-full text-left text-sm">
+        <thead className="text-xs text-gray-400 uppercase tracking-wider">
+          <tr>
+            <th className="py-1 pr-3">Dimension</th>
+            <th className="py-1 pr-3">Computed</th>
+            <th className="py-1 pr-3 w-24">Override</th>
+            <th className="py-1">Justification</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-300">
+          {Object.entries(score.breakdown).map(([key, value]) => (
+            <tr key={key} className="border-t border-white/10">
+              <td className="py-1.5 pr-3 capitalize">{key.replace(/_/g, " ")}</td>
+              <td className="py-1.5 pr-3">
+                {value}/{score.breakdownMax?.[key] ?? 20}
+              </td>
+              <td className="py-1.5 pr-3">
+                <input
+                  type="number"
+                  min={0}
+                  max={score.breakdownMax?.[key] ?? 20}
+                  value={draft.breakdown[key]?.value ?? ""}
+                  onChange={(e) => setDimension(key, { value: e.target.value })}
+                  className={inputClass}
+                />
+              </td>
+              <td className="py-1.5">
+                <input
+                  type="text"
+                  value={draft.breakdown[key]?.justification ?? ""}
+                  onChange={(e) => setDimension(key, { justification: e.target.value })}
+                  placeholder={draft.breakdown[key]?.value ? "Required" : ""}
+                  className={inputClass}
+                />
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-white/10">
+            <td className="py-1.5 pr-3 font-medium">Final grade</td>
+            <td className="py-1.5 pr-3">{score.grade}</td>
+            <td className="py-1.5 pr-3">
+              <select
+                value={draft.grade.value}
+                onChange={(e) =>
+                  setDraft((previous) => ({ ...previous, grade: { ...previous.grade, value: e.target.value } }))
+                }
+                className={inputClass}
+              >
+                <option value="">—</option>
+                {GRADES.map((grade) => (
+                  <option key={grade} value={grade}>
+                    {grade}
+                  </option>
+                ))}
+              </select>
+            </td>
+            <td className="py-1.5">
+              <input
+                type="text"
+                value={draft.grade.justification}
+                onChange={(e) =>
+                  setDraft((previous) => ({
+                    ...previous,
+                    grade: { ...previous.grade, justification: e.target.value },
+                  }))
+                }
+                placeholder={draft.grade.value ? "Required" : ""}
+                className={inputClass}
+              />
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {errors.length > 0 && (
+        <ul className="rounded-md border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-300 space-y-1">
+          {errors.map((error, idx) => (
+            <li key={idx}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          type="password"
+          value={adminToken}
+          onChange={(e) => setAdminToken(e.target.value)}
+          placeholder="ADMIN_RESET_TOKEN"
+          className={`${inputClass} max-w-xs`}
+        />
+        <BrandButton onClick={handleSave} disabled={!adminToken || saving} variant="lime" className="text-sm">
+          <Save size={14} /> {saving ? "Saving..." : "Save Overrides"}
+        </BrandButton>
+        {score.trainerOverrides && (
+          <button
+            onClick={handleClear}
+            disabled={!adminToken || saving}
+            className="text-sm text-gray-400 hover:text-gray-300 transition"
+          >
+            <X size={14} className="inline mr-1" /> Clear overrides
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
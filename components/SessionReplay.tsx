@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight, History } from "lucide-react";
+import { BrandButton } from "./ui/BrandButton";
+import {
+  replaySessionEvents,
+  type SessionEvent,
+  type SessionReplayStep,
+} from "@/lib/sessionEvents";
+
+interface SessionReplayProps {
+  token: string;
+}
+
+interface ReplayLog {
+  steps: SessionReplayStep[];
+  missingRevisions: number[];
+  mismatches: string[];
+}
+
+// Bookkeeping fields shown in the step header rather than the payload
+const LOG_FIELDS = ["revision", "seq", "at"];
+
+/**
+ * One-line description of an event for the step header
+ */
+function describeEvent(event: SessionEvent): string {
+  switch (event.type) {
+    case "session_created":
+      return "Session created";
+    case "enrichment_attached":
+      return `Enrichment attached (${event.source})`;
+    case "message_received":
+      return "Trainee message received";
+    case "analysis_result":
+      return event.issues.length > 0
+        ? `Analysis: ${event.issues.length} issue(s)`
+        : "Analysis: no issues";
+    case "engagement_updated":
+      return `Engagement ${event.delta >= 0 ? "+" : ""}${event.delta} → ${event.value} (${event.level})`;
+    case "interruption_triggered":
+      return `Interruption at turn ${event.atTurn}: ${event.kind} (${event.turnsLeft} turns left)`;
+    case "intent_classified":
+      return `Intent classified: ${event.intent} (${event.confidence.toFixed(2)})`;
+    case "reply_generated":
+      return `Attendee reply (${event.source}${event.provider ? `, ${event.provider}` : ""})`;
+    case "state_advanced": {
+      const who = event.attendeeId ? `${event.attendeeId} ` : "";
+      return event.kind === "regress"
+        ? `State regressed: ${who}${event.from} → ${event.to}${event.reason ? ` (${event.reason})` : ""}`
+        : `State ${event.kind === "skip" ? "skipped" : "advanced"}: ${who}${event.from} → ${event.to}${event.reason ? ` (${event.reason})` : ""}`;
+    }
+    case "outcome_sampled":
+      return `Outcome sampled (${event.resolver}): ${event.outcome}`;
+    case "cta_shown":
+      return event.attendeeId
+        ? `CTA shown: ${event.actionLabel} (${event.attendeeId} committed to ${event.attendeeOutcome})`
+        : `CTA shown: ${event.actionLabel}`;
+    case "cta_blocked":
+      return `CTA blocked: ${event.reason}`;
+    case "system_message":
+      return "System message";
+    case "session_paused":
+      return `Session paused (${event.reason === "tab_closed" ? "tab closed" : "by trainee"})`;
+    case "session_resumed":
+      return "Session resumed";
+    case "session_ended":
+      return `Session ended via ${event.via}: ${event.outcome}`;
+    case "trainer_feedback_saved":
+      return "Trainer feedback saved";
+    case "trainer_feedback_cleared":
+      return "Trainer feedback cleared";
+  }
+}
+
+/**
+ * Step-by-step replay of a session's event log (review page)
+ */
+export function SessionReplay({ token }: SessionReplayProps) {
+  const [log, setLog] = useState<ReplayLog | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReplay = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/review/${token}/events`);
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || "Failed to load event log");
+      }
+
+      const data = await res.json();
+      setLog({
+        steps: replaySessionEvents(data.events || []),
+        missingRevisions: data.missingRevisions || [],
+        mismatches: data.mismatches || [],
+      });
+      setStepIndex(0);
+    } catch (e) {
+      console.error("Failed to load replay:", e);
+      setError(e instanceof Error ? e.message : "Failed to load event log");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!log) {
+    return (
+      <div className="space-y-2">
+        <BrandButton onClick={loadReplay} disabled={loading} variant="neutral" className="text-sm">
+          <History size={14} /> {loading ? "Loading..." : "Load replay"}
+        </BrandButton>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  if (log.steps.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        No event log for this session (it was created before event logging was enabled).
+      </p>
+    );
+  }
+
+  const step = log.steps[stepIndex];
+  const { event, snapshot } = step;
+  const payload = Object.fromEntries(
+    Object.entries(event).filter(([key]) => !LOG_FIELDS.includes(key))
+  );
+  const lastMessage = snapshot.transcript[snapshot.transcript.length - 1];
+
+  return (
+    <div className="space-y-4">
+      {(log.missingRevisions.length > 0 || log.mismatches.length > 0) && (
+        <div className="rounded-md border border-amber-400/30 bg-amber-500/10 p-3 text-xs text-amber-200">
+          {log.missingRevisions.length > 0 && (
+            <div>Log has gaps at revision(s) {log.missingRevisions.join(", ")}.</div>
+          )}
+          {log.mismatches.length > 0 && (
+            <div>Rebuilt state differs from the stored session in: {log.mismatches.join(", ")}.</div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <BrandButton
+          onClick={() => setStepIndex((i) => Math.max(0, i - 1))}
+          disabled={stepIndex === 0}
+          variant="neutral"
+          className="text-sm"
+        >
+          <ChevronLeft size={14} /> Prev
+        </BrandButton>
+        <input
+          type="range"
+          min={0}
+          max={log.steps.length - 1}
+          value={stepIndex}
+          onChange={(e) => setStepIndex(Number(e.target.value))}
+          className="flex-1 accent-[#64BA00]"
+        />
+        <BrandButton
+          onClick={() => setStepIndex((i) => Math.min(log.steps.length - 1, i + 1))}
+          disabled={stepIndex === log.steps.length - 1}
+          variant="neutral"
+          className="text-sm"
+        >
+          Next <ChevronRight size={14} />
+        </BrandButton>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-gray-200">{describeEvent(event)}</p>
+          <span className="text-xs text-gray-500">
+            Step {stepIndex + 1}/{log.steps.length} · rev {event.revision}
+          </span>
+        </div>
+        <pre className="mt-2 max-h-64 overflow-auto rounded-md bg-black/30 p-3 text-xs text-gray-300">
+          {JSON.stringify(payload, null, 2)}
+        </pre>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">State</p>
+          <p className="text-gray-300">
+            {snapshot.currentState} · {snapshot.active ? "active" : "ended"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Transcript</p>
+          <p className="text-gray-300">
+            {snapshot.transcript.length} message(s) · {snapshot.violations.length} violation(s)
+          </p>
+        </div>
+        {lastMessage && (
+          <div className="md:col-span-2">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">
+              Latest message ({lastMessage.type})
+            </p>
+            <p className="text-gray-300 whitespace-pre-wrap">{lastMessage.text}</p>
+          </div>
+        )}
+        {snapshot.decisionTrace && (
+          <div className="md:col-span-2">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Decision trace</p>
+            <pre className="max-h-48 overflow-auto rounded-md bg-black/30 p-3 text-xs text-gray-300">
+              {JSON.stringify(snapshot.decisionTrace, null, 2)}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
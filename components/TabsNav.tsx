@@ -1,7 +1,10 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
+import type { Workspace } from "@/lib/workspaces";
+import { setWorkspaceCookie } from "@/lib/workspaceClient";
 
 const tabs = [
   { name: "Scenario Builder", href: "/" },
@@ -9,11 +12,36 @@ const tabs = [
   { name: "Scenario Editor", href: "/editor" },
   { name: "Leaderboard", href: "/leaderboard" },
   { name: "Insights", href: "/insights" },
+  { name: "Audit Log", href: "/admin/audit" },
 ];
 
 export function TabsNav() {
   const pathname = usePathname();
   const router = useRouter();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string>("");
+
+  // Load workspaces for the switcher (hidden until there is more than one)
+  useEffect(() => {
+    async function loadWorkspaces() {
+      try {
+        const res = await fetch("/api/workspaces");
+        if (!res.ok) return;
+        const data = await res.json();
+        setWorkspaces(data.workspaces || []);
+        setCurrentWorkspaceId(data.currentWorkspaceId || "");
+      } catch (error) {
+        console.error("Failed to load workspaces:", error);
+      }
+    }
+    loadWorkspaces();
+  }, []);
+
+  const handleWorkspaceChange = (workspaceId: string) => {
+    setWorkspaceCookie(workspaceId);
+    // Full reload so every page refetches from the new workspace
+    window.location.reload();
+  };
 
   const handleBuilderClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -23,7 +51,7 @@ export function TabsNav() {
 
   return (
     <div className="border-b border-white/15 bg-white/7">
-      <div className="max-w-7xl mx-auto px-6">
+      <div className="max-w-7xl mx-auto px-6 flex items-center justify-between gap-4">
         <nav className="flex gap-1">
           {tabs.map((tab) => {
             const isActive = pathname === tab.href;
@@ -62,6 +90,23 @@ export function TabsNav() {
             );
           })}
         </nav>
+
+        {workspaces.length > 1 && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Workspace
+            <select
+              value={currentWorkspaceId}
+              onChange={(e) => handleWorkspaceChange(e.target.value)}
+              className="bg-black/30 border border-white/20 text-gray-100 rounded px-2 py-1 text-sm outline-none focus:border-white/30"
+            >
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import type { TurnAnnotation } from "@/lib/turnAnnotations";
+
+const chipClass = "px-1.5 py-0.5 rounded text-[11px] font-medium border";
+
+/**
+ * Inline annotations for one trainee message (review and share pages).
+ * Hover a violation for the analyzer's message.
+ */
+export function TurnAnnotationChips({ annotation }: { annotation: TurnAnnotation }) {
+  const stateChanged = annotation.stateBefore !== annotation.stateAfter;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {annotation.questionType === "open" && (
+        <span className={`${chipClass} bg-emerald-500/15 text-emerald-200 border-emerald-400/20`}>
+          Open question
+        </span>
+      )}
+      {annotation.questionType === "closed" && (
+        <span className={`${chipClass} bg-white/8 text-gray-300 border-white/15`}>Closed question</span>
+      )}
+      {annotation.reflection && (
+        <span className={`${chipClass} bg-indigo-500/15 text-indigo-200 border-indigo-400/20`}>Reflection</span>
+      )}
+      {annotation.empathy && (
+        <span className={`${chipClass} bg-pink-500/15 text-pink-200 border-pink-400/20`}>Empathy</span>
+      )}
+      {annotation.violations.map((violation, idx) => (
+        <span
+          key={idx}
+          title={violation.message}
+          className={`${chipClass} bg-red-500/15 text-red-300 border-red-400/30 font-mono`}
+        >
+          ⚠ {violation.ruleId}
+        </span>
+      ))}
+      <span
+        className={`${chipClass} font-mono ${
+          stateChanged
+            ? "bg-sky-500/15 text-sky-200 border-sky-400/20"
+            : "bg-white/5 text-gray-400 border-white/10"
+        }`}
+      >
+        {stateChanged ? `${annotation.stateBefore} → ${annotation.stateAfter}` : annotation.stateBefore}
+      </span>
+      {annotation.attendeeIntent && (
+        <span className={`${chipClass} bg-purple-500/15 text-purple-200 border-purple-400/20 font-mono`}>
+          intent: {annotation.attendeeIntent}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Abandoned sessions: started (the trainee has sent something), still
+ * active, and untouched for longer than a threshold. Usually a tab closed
+ * mid-conversation that nobody came back to.
+ *
+ * Admins list them and force-close them from /admin/abandoned. A closed
+ * session is ended with via "abandoned" and scored like any other, flagged
+ * incomplete (ScoreRecord.incomplete) and kept off the leaderboard.
+ */
+
+import { randomUUID } from "crypto";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { saveSession, type SessionState } from "./storage";
+import { getInviteForSession } from "./invites";
+import { saveScore } from "./scoreStore";
+import { scoreFinishedSession } from "./sessionScoring";
+import { deleteSessionDraft } from "./sessionDrafts";
+import { isSessionPaused, lastSessionActivity } from "./sessionPause";
+
+export const DEFAULT_ABANDONED_AFTER_MINUTES = 60;
+
+export interface AbandonedSession {
+  sessionId: string;
+  token: string | null;
+  personaId?: string;
+  traineeNameShort?: string;
+  currentState: string;
+  traineeMessages: number;
+  paused: boolean;
+  startTime: string;
+  lastActivityAt: string;
+  idleMinutes: number;
+}
+
+export interface ForceCloseResult {
+  sessionId: string;
+  closed: boolean;
+  token?: string;
+  score?: number;
+  grade?: string;
+  /** Why the session was not closed */
+  error?: string;
+}
+
+function isAbandoned(session: SessionState, cutoff: number): boolean {
+  if (!session.active || !session.transcript.some((m) => m.type === "trainee")) return false;
+  const last = lastSessionActivity(session);
+  return last !== null && new Date(last).getTime() < cutoff;
+}
+
+async function loadSessions(): Promise<SessionState[]> {
+  const storage = getStorage();
+  const found = await storage.keys(keys.session(""));
+  const sessions = await storage.mget<SessionState>(found);
+  return sessions.filter((session): session is SessionState => session !== null);
+}
+
+/**
+ * Active sessions with no trainee or attendee activity for olderThanMinutes,
+ * longest idle first
+ */
+export async function listAbandonedSessions(
+  olderThanMinutes = DEFAULT_ABANDONED_AFTER_MINUTES,
+  now = Date.now()
+): Promise<AbandonedSession[]> {
+  const cutoff = now - olderThanMinutes * 60 * 1000;
+  const abandoned = (await loadSessions()).filter((session) => isAbandoned(session, cutoff));
+
+  const rows = await Promise.all(
+    abandoned.map(async (session): Promise<AbandonedSession> => {
+      const lastActivityAt = lastSessionActivity(session)!;
+      return {
+        sessionId: session.id,
+        token: await getInviteForSession(session.id),
+        personaId: session.kickoff.personaId,
+        traineeNameShort: session.kickoff.traineeNameShort,
+        currentState: session.currentState,
+        traineeMessages: session.transcript.filter((m) => m.type === "trainee").length,
+        paused: isSessionPaused(session),
+        startTime: session.startTime,
+        lastActivityAt,
+        idleMinutes: Math.floor((now - new Date(lastActivityAt).getTime()) / 60000),
+      };
+    })
+  );
+
+  return rows.sort((a, b) => b.idleMinutes - a.idleMinutes);
+}
+
+/**
+ * End an abandoned session and score it as incomplete. Sessions that are
+ * no longer abandoned (ended, or picked up again) are left alone.
+ */
+export async function forceCloseAbandonedSession(
+  session: SessionState,
+  olderThanMinutes = DEFAULT_ABANDONED_AFTER_MINUTES,
+  now = Date.now()
+): Promise<ForceCloseResult> {
+  if (!isAbandoned(session, now - olderThanMinutes * 60 * 1000)) {
+    return { sessionId: session.id, closed: false, error: "Session is not abandoned" };
+  }
+
+  const abandonedAt = new Date(now).toISOString();
+  const outcome = session.pendingOutcome ?? "POLITE_EXIT";
+  const closingMessage = {
+    id: randomUUID(),
+    type: "system" as const,
+    text: "Session closed by an admin after the trainee left it unfinished.",
+    timestamp: abandonedAt,
+  };
+
+  session.transcript.push(closingMessage);
+  session.active = false;
+  session.abandonedAt = abandonedAt;
+
+  const saved = await saveSession(session, [
+    { type: "system_message", message: closingMessage },
+    { type: "session_ended", via: "abandoned", outcome, abandonedAt },
+  ]);
+  if (!saved.ok) {
+    return { sessionId: session.id, closed: false, error: "Session was updated by another request" };
+  }
+  await deleteSessionDraft(session.id);
+
+  const token = await getInviteForSession(session.id);
+  if (!token) {
+    return { sessionId: session.id, closed: true };
+  }
+
+  const scoreRecord = await scoreFinishedSession(session, token);
+  await saveScore(scoreRecord);
+  return {
+    sessionId: session.id,
+    closed: true,
+    token,
+    score: scoreRecord.score,
+    grade: scoreRecord.grade,
+  };
+}
+
+/**
+ * Force-close every abandoned session (or only sessionIds, when given)
+ */
+export async function forceCloseAbandonedSessions(
+  olderThanMinutes = DEFAULT_ABANDONED_AFTER_MINUTES,
+  sessionIds?: string[],
+  now = Date.now()
+): Promise<ForceCloseResult[]> {
+  const cutoff = now - olderThanMinutes * 60 * 1000;
+  const wanted = sessionIds ? new Set(sessionIds) : null;
+  const sessions = (await loadSessions()).filter(
+    (session) => isAbandoned(session, cutoff) && (!wanted || wanted.has(session.id))
+  );
+
+  const results: ForceCloseResult[] = [];
+  for (const session of sessions) {
+    results.push(await forceCloseAbandonedSession(session, olderThanMinutes, now));
+  }
+  return results;
+}
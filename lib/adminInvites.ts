@@ -4,8 +4,9 @@ import { getSession, SessionState } from "./storage";
 import { getScore } from "./scoreStore";
 import { getConference } from "./conferenceStore";
 import { getPersona } from "./personaStore";
-import { getTrainee, formatTraineeShort } from "./traineeStore";
-import { buildPersonaTitle } from "./formatUtils";
+import { getTrainee } from "./traineeStore";
+import { buildPersonaTitle, formatTraineeShort } from "./formatUtils";
+import { isSessionPaused, lastSessionActivity } from "./sessionPause";
 
 export type AdminInviteRow = {
   token: string;
@@ -19,7 +20,7 @@ export type AdminInviteRow = {
   traineeShortName: string | null; // "First L." format
   difficulty: "easy" | "medium" | "hard" | null;
   createdAt: string;
-  status: "NOT_STARTED" | "IN_PROGRESS" | "COMPLETED";
+  status: "NOT_STARTED" | "IN_PROGRESS" | "PAUSED" | "COMPLETED" | "INCOMPLETE";
   score: number | null;
   grade: string | null;
   lastActivityAt: string | null;
@@ -31,10 +32,15 @@ export type AdminInviteRow = {
 /**
  * Determine session status based on session data and score existence
  */
-function determineStatus(
+export function determineStatus(
   session: SessionState | null,
   hasScore: boolean
-): "NOT_STARTED" | "IN_PROGRESS" | "COMPLETED" {
+): AdminInviteRow["status"] {
+  // Force-closed as abandoned (scored, but not finished by the trainee)
+  if (session?.abandonedAt) {
+    return "INCOMPLETE";
+  }
+
   if (hasScore) {
     return "COMPLETED";
   }
@@ -53,27 +59,22 @@ function determineStatus(
     return hasTraineeMessages ? "COMPLETED" : "NOT_STARTED";
   }
 
+  if (!hasTraineeMessages) {
+    return "NOT_STARTED";
+  }
+
   // Active session with trainee messages
-  return hasTraineeMessages ? "IN_PROGRESS" : "NOT_STARTED";
+  return isSessionPaused(session) ? "PAUSED" : "IN_PROGRESS";
 }
 
 /**
  * Compute last activity timestamp from session transcript
- * Returns the most recent message timestamp, excluding system messages
+ * Returns the most recent message (excluding system messages), pause or
+ * resume timestamp
  */
 function computeLastActivity(session: SessionState | null): string | null {
-  if (!session || !session.transcript.length) return null;
-
-  // Find the most recent trainee or attendee message
-  const relevantMessages = session.transcript.filter(
-    (msg) => msg.type === "trainee" || msg.type === "attendee"
-  );
-
-  if (relevantMessages.length === 0) return null;
-
-  // Return the most recent timestamp
-  const lastMessage = relevantMessages[relevantMessages.length - 1];
-  return lastMessage.timestamp;
+  if (!session) return null;
+  return lastSessionActivity(session);
 }
 
 /**
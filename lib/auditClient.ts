@@ -0,0 +1,61 @@
+/**
+ * Browser-side audit helpers (safe to import from client components).
+ *
+ * The name recorded as the actor of audit entries lives in a cookie, so
+ * editor and admin pages carry it on every same-origin fetch.
+ */
+
+export const AUDIT_ACTOR_COOKIE = "hc_actor";
+
+export const AUDIT_ACTIONS = [
+  "conference.save",
+  "conference.archive",
+  "conference.restore",
+  "persona.save",
+  "persona.archive",
+  "persona.restore",
+  "trainee.save",
+  "trainee.archive",
+  "trainee.restore",
+  "trainees.archive_by_name",
+  "trainees.cleanup",
+  "personas.cleanup_duplicates",
+  "presets.seed",
+  "demo.reset",
+  "prompt_bundle.save",
+  "prompt_bundle.activate",
+  "simulator_config.save",
+  "simulator_config.activate",
+  "invite.revoke",
+  "sessions.force_close",
+  "scores.rescore",
+  "score.override",
+  "enrichment.delete",
+  "retention.update",
+  "data.purge",
+  "data.import",
+  "data.migrate",
+  "workspace.create",
+  "workspace.share",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * Actor name set in this browser (null = unknown)
+ */
+export function readActorCookie(): string | null {
+  if (typeof document === "undefined") return null;
+
+  for (const part of document.cookie.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === AUDIT_ACTOR_COOKIE) return decodeURIComponent(rest.join("=")) || null;
+  }
+  return null;
+}
+
+export function setActorCookie(name: string): void {
+  document.cookie = `${AUDIT_ACTOR_COOKIE}=${encodeURIComponent(name)}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+}
@@ -0,0 +1,196 @@
+/**
+ * Append-only audit log for destructive and configuration-changing actions.
+ *
+ * Admin and editor routes call recordAudit after a change succeeds (never on
+ * dry runs). Entries are written once under audit:entry:{id} and indexed by
+ * time in the audit:by_time sorted set; nothing updates or deletes them
+ * (the retention purge does not touch the log).
+ *
+ * Entries are per workspace, like everything else getStorage() returns.
+ */
+
+import { randomUUID } from "crypto";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { byPosition, decodeCursor, pageOf, type Page, type PageOptions } from "./persistence/cursor";
+import type { SortedSetMember } from "./persistence/storageAdapter";
+import { currentWorkspaceId, readRequestCookie } from "./workspaces";
+import { AUDIT_ACTOR_COOKIE, type AuditAction } from "./auditClient";
+
+export { AUDIT_ACTIONS, AUDIT_ACTOR_COOKIE, type AuditAction } from "./auditClient";
+
+export interface AuditActor {
+  /** Name from the x-audit-actor header or hc_actor cookie ("unknown" if neither) */
+  name: string;
+  /** admin-token: request carried a valid admin token; ui: editor/builder pages */
+  via: "admin-token" | "ui";
+  ip: string | null;
+}
+
+export interface AuditTarget {
+  type: string;
+  /** null for bulk actions (see details) */
+  id: string | null;
+}
+
+/** Changed top-level fields: { field: { before, after } } */
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  workspaceId: string;
+  actor: AuditActor;
+  action: AuditAction;
+  target: AuditTarget;
+  before: unknown;
+  after: unknown;
+  diff: AuditDiff | null;
+  /** Summary for bulk actions (counts, affected IDs, options) */
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilters {
+  action?: string;
+  /** Case-insensitive substring of the actor name */
+  actor?: string;
+  targetType?: string;
+  targetId?: string;
+  /** Entries at or after this time (ms) */
+  since?: number;
+  /** Entries at or before this time (ms) */
+  until?: number;
+}
+
+export const AUDIT_ACTOR_HEADER = "x-audit-actor";
+
+const MAX_ACTOR_LENGTH = 100;
+
+/**
+ * Who made the request
+ */
+export function resolveActor(request: Request): AuditActor {
+  const name = (
+    request.headers.get(AUDIT_ACTOR_HEADER) ||
+    readRequestCookie(request, AUDIT_ACTOR_COOKIE) ||
+    ""
+  )
+    .trim()
+    .slice(0, MAX_ACTOR_LENGTH);
+
+  const expectedToken = process.env.ADMIN_RESET_TOKEN;
+  const adminToken = request.headers.get("x-admin-reset-token");
+
+  return {
+    name: name || "unknown",
+    via: expectedToken && adminToken === expectedToken ? "admin-token" : "ui",
+    ip: request.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+  };
+}
+
+/**
+ * Top-level fields that differ between two records (null when nothing
+ * comparable changed)
+ */
+export function diffRecords(before: unknown, after: unknown): AuditDiff | null {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (!isObject(before) && !isObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after)
+      ? null
+      : { value: { before: before ?? null, after: after ?? null } };
+  }
+
+  const from = isObject(before) ? before : {};
+  const to = isObject(after) ? after : {};
+  const diff: AuditDiff = {};
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      diff[field] = { before: from[field] ?? null, after: to[field] ?? null };
+    }
+  }
+  return Object.keys(diff).length > 0 ? diff : null;
+}
+
+/**
+ * Append an entry. Failures are logged, not thrown: the change it describes
+ * has already happened.
+ */
+export async function recordAudit(
+  request: Request,
+  input: {
+    action: AuditAction;
+    target: AuditTarget;
+    before?: unknown;
+    after?: unknown;
+    details?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const now = new Date();
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    at: now.toISOString(),
+    workspaceId: currentWorkspaceId(),
+    actor: resolveActor(request),
+    action: input.action,
+    target: input.target,
+    before: input.before ?? null,
+    after: input.after ?? null,
+    diff: diffRecords(input.before ?? null, input.after ?? null),
+    details: input.details,
+  };
+
+  try {
+    const storage = getStorage();
+    await storage.set(keys.auditEntry(entry.id), entry);
+    await storage.zadd(keys.auditIndex(), [{ member: entry.id, score: now.getTime() }]);
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${entry.action}:`, error, entry);
+  }
+}
+
+function matchesAuditFilters(entry: AuditEntry, filters: AuditFilters): boolean {
+  return (
+    (!filters.action || entry.action === filters.action) &&
+    (!filters.actor || entry.actor.name.toLowerCase().includes(filters.actor.toLowerCase())) &&
+    (!filters.targetType || entry.target.type === filters.targetType) &&
+    (!filters.targetId || entry.target.id === filters.targetId)
+  );
+}
+
+/**
+ * Audit entries matching the filters, newest first
+ */
+export async function queryAuditLog(
+  filters: AuditFilters,
+  options: PageOptions = {}
+): Promise<Page<AuditEntry>> {
+  const storage = getStorage();
+  const positions = await storage.zrange(keys.auditIndex(), {
+    min: filters.since,
+    max: filters.until,
+    rev: true,
+  });
+  const entries = await storage.mget<AuditEntry>(
+    positions.map(({ member }) => keys.auditEntry(member))
+  );
+
+  const byId = new Map<string, AuditEntry>();
+  const matched: SortedSetMember[] = [];
+  positions.forEach((position, i) => {
+    const entry = entries[i];
+    if (entry && matchesAuditFilters(entry, filters)) {
+      byId.set(position.member, entry);
+      matched.push(position);
+    }
+  });
+  matched.sort(byPosition);
+
+  const { page, nextCursor } = pageOf(matched, decodeCursor(options.cursor), options.limit ?? 50);
+  return {
+    items: page.map(({ member }) => byId.get(member)!),
+    totalMatched: matched.length,
+    nextCursor,
+  };
+}
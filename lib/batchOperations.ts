@@ -3,8 +3,7 @@
  * Helpers to reduce KV round-trips by batching reads and writes
  */
 
-import { kv } from "@vercel/kv";
-import { useKv } from "./kvConfig";
+import { getStorage } from "./persistence";
 
 export interface BatchReadResult<T = any> {
   [key: string]: T | null;
@@ -21,18 +20,8 @@ export async function batchRead<T = any>(
     return {};
   }
 
-  if (!useKv()) {
-    // In dev/in-memory mode, reads are already fast
-    // No need to batch, but maintain same interface
-    const result: BatchReadResult<T> = {};
-    for (const key of keys) {
-      result[key] = null; // In-memory stores handle their own caching
-    }
-    return result;
-  }
-
-  // Use mget for efficient batch read
-  const values = await kv.mget<T[]>(...keys);
+  // Adapter mget is a single round-trip on KV and a map lookup elsewhere
+  const values = await getStorage().mget<T>(keys);
 
   const result: BatchReadResult<T> = {};
   keys.forEach((key, index) => {
@@ -52,19 +41,10 @@ export async function batchWrite(
     return;
   }
 
-  if (!useKv()) {
-    // In dev/in-memory mode, individual stores handle writes
-    return;
-  }
-
-  // Use pipeline for efficient batch write
-  const pipeline = kv.pipeline();
-
-  for (const op of operations) {
-    pipeline.set(op.key, op.value);
-  }
-
-  await pipeline.exec();
+  // Pipelined on KV, a single flush on the file backend
+  await getStorage().setMany(
+    operations.map((op) => ({ key: op.key, value: op.value }))
+  );
 }
 
 /**
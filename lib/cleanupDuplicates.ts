@@ -1,13 +1,6 @@
-import { kv } from "@vercel/kv";
 import { listPersonas, archivePersona } from "./personaStore";
 import { listConferences, archiveConference } from "./conferenceStore";
-
-/**
- * KV is configured when Vercel/Upstash env vars are present.
- */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
-}
+import { isDurableStorage } from "./persistence";
 
 /**
  * Normalize name for comparison (trim, lowercase, collapse whitespace)
@@ -34,9 +27,9 @@ function normalizeName(name: string): string {
  * - Technical Buyer
  * - CTO (Startup)
  */
-export async function cleanupDuplicatePersonas(): Promise<number> {
-  if (!useKv()) {
-    console.log("[CleanupDuplicates] KV not configured, skipping cleanup");
+export async function cleanupDuplicatePersonas(archivedBy = "system"): Promise<number> {
+  if (!isDurableStorage()) {
+    console.log("[CleanupDuplicates] Durable storage not configured, skipping cleanup");
     return 0;
   }
 
@@ -101,7 +94,7 @@ export async function cleanupDuplicatePersonas(): Promise<number> {
     }
 
     if (shouldArchive) {
-      await archivePersona(persona.id);
+      await archivePersona(persona.id, archivedBy);
       console.log(`[CleanupDuplicates] Archived persona: ${persona.name} (${reason})`);
       archivedCount++;
     }
@@ -120,9 +113,9 @@ export async function cleanupDuplicatePersonas(): Promise<number> {
  * - Standalone "KubeCon" (replaced by "KubeCon + CloudNativeCon")
  * - "QCon EMEA" (renamed to "QCon")
  */
-export async function cleanupOldConferences(): Promise<number> {
-  if (!useKv()) {
-    console.log("[CleanupDuplicates] KV not configured, skipping cleanup");
+export async function cleanupOldConferences(archivedBy = "system"): Promise<number> {
+  if (!isDurableStorage()) {
+    console.log("[CleanupDuplicates] Durable storage not configured, skipping cleanup");
     return 0;
   }
 
@@ -134,7 +127,7 @@ export async function cleanupOldConferences(): Promise<number> {
 
     // Archive standalone "KubeCon" only (not "KubeCon + CloudNativeCon")
     if (normalizedName === "kubecon") {
-      await archiveConference(conf.id);
+      await archiveConference(conf.id, archivedBy);
       console.log(`[CleanupDuplicates] Archived old conference: ${conf.name}`);
       archivedCount++;
       continue;
@@ -142,7 +135,7 @@ export async function cleanupOldConferences(): Promise<number> {
 
     // Archive "QCon EMEA" (renamed to "QCon")
     if (normalizedName === "qcon emea") {
-      await archiveConference(conf.id);
+      await archiveConference(conf.id, archivedBy);
       console.log(`[CleanupDuplicates] Archived old conference: ${conf.name}`);
       archivedCount++;
     }
@@ -158,12 +151,12 @@ export async function cleanupOldConferences(): Promise<number> {
 /**
  * Run all cleanup tasks
  */
-export async function runCleanup(): Promise<{
+export async function runCleanup(archivedBy = "system"): Promise<{
   personas: number;
   conferences: number;
 }> {
-  const personas = await cleanupDuplicatePersonas();
-  const conferences = await cleanupOldConferences();
+  const personas = await cleanupDuplicatePersonas(archivedBy);
+  const conferences = await cleanupOldConferences(archivedBy);
 
   return { personas, conferences };
 }
@@ -0,0 +1,98 @@
+/**
+ * Coaching mode: in-session hints for new hires.
+ *
+ * Chosen at invite creation (kickoff.coaching). After each attendee reply the
+ * trainee page shows which state the conversation is in, the signals that
+ * move it on (the state's advance_when), what holds it back (block_when) and
+ * anything the trainee's last message tripped in analyzeTraineeMessage.
+ *
+ * Coached scores are flagged (ScoreRecord.coached) and ranked on their own
+ * leaderboard so they don't compete with unassisted runs.
+ */
+
+import type { SessionState } from "./storage";
+import type { SimulatorConfig } from "./simulatorConfig";
+
+/** Trainee-facing wording for the built-in signal vocabulary (see analyzeTraineeMessage) */
+const SIGNAL_TIPS: Record<string, string> = {
+  human_curiosity: "Ask an open question about them, not the product",
+  role_based_question: "Ask about their role, team or day-to-day",
+  reflective_listening: "Play back what you heard or ask them to say more",
+  how_is_that_working_question: "Ask how their current setup is working for them",
+  empathy_or_validation: "Acknowledge how frustrating that sounds",
+  reflection: "Summarise what they said in your own words",
+  impact_focused_question: "Ask what the problem costs them (outages, pages, customers)",
+  outcome_alignment: "Tie what you offer to the outcome they want",
+  respectful_demo_offer: "Ask whether a quick demo would be useful",
+  early_pitch: "Pitching features, pricing or a demo before they've asked",
+  feature_dump: "Listing product features",
+  feature_list: "Listing product features",
+  solution_pushing: "Pushing the product instead of asking",
+  immediate_solution_pitch: "Jumping to the product while they're still describing the problem",
+  interrupt_venting: "Cutting them off while they vent",
+  over_promise: "Promising it will fix everything",
+  assumption_about_otel: "Assuming they use OpenTelemetry without asking",
+  banned_keyword: "Using internal or banned product terms",
+  any_issue: "Anything the rules engine flags",
+};
+
+export interface CoachingHint {
+  /** State the conversation is in after the reply */
+  state: string;
+  stateDescription: string;
+  /** What moves the conversation on (advance_when) */
+  advanceWhen: string[];
+  /** What holds it back (block_when) */
+  avoid: string[];
+  /** What the last trainee message tripped (empty when clean) */
+  warnings: string[];
+  /** Group sessions: who the hint is about */
+  attendeeName?: string;
+}
+
+/**
+ * Whether a session runs in coaching mode
+ */
+export function isCoachedSession(session: Pick<SessionState, "kickoff">): boolean {
+  return session.kickoff.coaching === true;
+}
+
+/**
+ * Trainee-facing wording for a state-graph signal
+ */
+export function describeSignal(signal: string): string {
+  if (SIGNAL_TIPS[signal]) return SIGNAL_TIPS[signal];
+  const label = signal.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Build the hint shown after an attendee reply
+ *
+ * @param state - State after the turn (the speaker's, in group sessions)
+ * @param analysis - analyzeTraineeMessage result for the trainee's message
+ * @param analyzedState - State the message was analyzed in (before the turn)
+ * @param config - The session's simulator config
+ */
+export function buildCoachingHint(
+  state: string,
+  analysis: { issues: string[]; stateSignals: string[] },
+  analyzedState: string,
+  config: SimulatorConfig,
+  attendeeName?: string
+): CoachingHint {
+  const stateConfig = config.states[state];
+  const blockedBefore = config.states[analyzedState]?.block_when ?? [];
+  const tripped = blockedBefore
+    .filter((signal) => analysis.stateSignals.includes(signal))
+    .map((signal) => `${describeSignal(signal)} holds ${analyzedState} back`);
+
+  return {
+    state,
+    stateDescription: stateConfig?.description ?? "",
+    advanceWhen: (stateConfig?.advance_when ?? []).map(describeSignal),
+    avoid: (stateConfig?.block_when ?? []).map(describeSignal),
+    warnings: [...analysis.issues, ...tripped],
+    ...(attendeeName ? { attendeeName } : {}),
+  };
+}
@@ -1,21 +1,10 @@
-import { kv } from "@vercel/kv";
 import { Conference } from "./scenarioTypes";
-import { useKv } from "./kvConfig";
-import { getMemStore } from "./memoryStore";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { currentWorkspaceId } from "./persistence/workspaceScope";
 
-const MAX_INDEX_SIZE = 500;
-
-// Seed-once guard to prevent repeated seeding
-let seedingPromise: Promise<void> | null = null;
-
-// Helper to get in-memory store (now uses global shared store)
-function getInMemoryStore() {
-  const mem = getMemStore();
-  return {
-    conferences: mem.conferences,
-    index: mem.conferenceIndex,
-  };
-}
+// Seed-once guard (per workspace) to prevent repeated seeding
+const seedingPromises = new Map<string, Promise<void>>();
 
 /**
  * Generate a readable slug-based ID with random suffix
@@ -36,41 +25,25 @@ function generateConferenceId(name: string): string {
 export async function listConferences(
   includeArchived = false
 ): Promise<Conference[]> {
-  if (useKv()) {
-    const index = (await kv.get<string[]>("conferences:index")) ?? [];
-    const conferences: Conference[] = [];
-
-    for (const id of index) {
-      const conf = await kv.get<Conference>(`conference:${id}`);
-      if (conf && (includeArchived || !conf.isArchived)) {
-        conferences.push(conf);
-      }
-    }
-
-    return conferences;
-  } else {
-    // In-memory fallback (uses global shared store)
-    const { conferences: confMap, index } = getInMemoryStore();
-    const conferences: Conference[] = [];
-    for (const id of index) {
-      const conf = confMap.get(id);
-      if (conf && (includeArchived || !conf.isArchived)) {
-        conferences.push(conf);
-      }
+  const storage = getStorage();
+  const index = (await storage.get<string[]>(keys.conferenceIndex())) ?? [];
+  const records = await storage.mget<Conference>(index.map((id) => keys.conference(id)));
+
+  const conferences: Conference[] = [];
+  for (const conf of records) {
+    if (conf && (includeArchived || !conf.isArchived)) {
+      conferences.push(conf);
     }
-    return conferences;
   }
+
+  return conferences;
 }
 
 /**
  * Get a single conference by ID
  */
 export async function getConference(id: string): Promise<Conference | null> {
-  if (useKv()) {
-    return (await kv.get<Conference>(`conference:${id}`)) ?? null;
-  }
-  const { conferences } = getInMemoryStore();
-  return conferences.get(id) ?? null;
+  return getStorage().get<Conference>(keys.conference(id));
 }
 
 /**
@@ -116,68 +89,75 @@ export async function upsertConference(
     seniorityMix: conference.seniorityMix ?? "",
     observabilityMaturity: conference.observabilityMaturity ?? "Medium",
     sources: conference.sources,
+    ruleOverrides: conference.ruleOverrides,
     createdAt: existing?.createdAt ?? now,
     createdBy: conference.createdBy ?? "admin",
     updatedAt: isUpdate ? now : undefined,
     isArchived: conference.isArchived ?? false,
   };
 
-  if (useKv()) {
-    // Save conference
-    await kv.set(`conference:${id}`, fullConference);
+  const storage = getStorage();
 
-    // Update index if new
-    if (!isUpdate) {
-      const index = (await kv.get<string[]>("conferences:index")) ?? [];
-      const filtered = index.filter((i) => i !== id);
-      const updated = [id, ...filtered].slice(0, MAX_INDEX_SIZE);
-      await kv.set("conferences:index", updated);
-    }
-  } else {
-    // In-memory fallback (uses global shared store)
-    const { conferences, index } = getInMemoryStore();
-    conferences.set(id, fullConference);
+  // Save conference
+  await storage.set(keys.conference(id), fullConference);
 
-    if (!isUpdate) {
-      const filtered = index.filter((i) => i !== id);
-      index.length = 0;
-      index.push(id, ...filtered);
-      if (index.length > MAX_INDEX_SIZE) {
-        index.length = MAX_INDEX_SIZE;
-      }
-    }
+  // Update index if new (prepend to keep newest first)
+  if (!isUpdate) {
+    const index = (await storage.get<string[]>(keys.conferenceIndex())) ?? [];
+    const filtered = index.filter((i) => i !== id);
+    const updated = [id, ...filtered];
+    await storage.set(keys.conferenceIndex(), updated);
   }
 
   return fullConference;
 }
 
 /**
- * Soft delete a conference (set isArchived = true)
+ * Soft delete a conference (set isArchived = true). It stays in the trash until
+ * restored or purged (see lib/trash.ts).
  */
-export async function archiveConference(id: string): Promise<boolean> {
+export async function archiveConference(id: string, archivedBy = "system"): Promise<boolean> {
   const existing = await getConference(id);
   if (!existing) return false;
 
+  const now = new Date().toISOString();
   const archived: Conference = {
     ...existing,
     isArchived: true,
-    updatedAt: new Date().toISOString(),
+    archivedAt: now,
+    archivedBy,
+    updatedAt: now,
   };
 
-  if (useKv()) {
-    await kv.set(`conference:${id}`, archived);
-  } else {
-    const { conferences } = getInMemoryStore();
-    conferences.set(id, archived);
-  }
+  await getStorage().set(keys.conference(id), archived);
 
   return true;
 }
 
+/**
+ * Undo archiveConference
+ */
+export async function restoreConference(id: string): Promise<Conference | null> {
+  const existing = await getConference(id);
+  if (!existing) return null;
+
+  const restored: Conference = {
+    ...existing,
+    isArchived: false,
+    archivedAt: undefined,
+    archivedBy: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await getStorage().set(keys.conference(id), restored);
+
+  return restored;
+}
+
 /**
  * Seed initial conferences from common conference contexts
  * Idempotent: Only creates conferences that don't already exist by normalized name
- * Seed-once: Ensures seeding only happens once per process
+ * Seed-once: Ensures seeding only happens once per workspace per process
  */
 async function seedConferencesInternal(): Promise<void> {
   const now = new Date().toISOString();
@@ -246,11 +226,12 @@ async function seedConferencesInternal(): Promise<void> {
 }
 
 /**
- * Public API - ensures seeding happens exactly once per process
+ * Public API - ensures seeding happens exactly once per workspace per process
  */
 export async function ensureConferencesSeeded(): Promise<void> {
-  if (!seedingPromise) {
-    seedingPromise = seedConferencesInternal();
+  const workspaceId = currentWorkspaceId();
+  if (!seedingPromises.has(workspaceId)) {
+    seedingPromises.set(workspaceId, seedConferencesInternal());
   }
-  return seedingPromise;
+  return seedingPromises.get(workspaceId)!;
 }
@@ -1,13 +1,21 @@
 import { randomUUID } from "crypto";
-import { SessionState } from "./storage";
+import { SessionState, type SessionAttendee } from "./storage";
 import { getPersonaById, PERSONAS } from "./personas";
 import { getEnrichment, saveEnrichment } from "./llm/enrichmentStore";
 import { getEnrichmentProvider } from "./llm/provider";
 import type { EnrichmentInput } from "./llm/enrichmentTypes";
 import { getConference, ensureConferencesSeeded } from "./conferenceStore";
 import { getPersona, ensurePersonasSeeded, listPersonas } from "./personaStore";
-import { buildPersonaTitle } from "./formatUtils";
-import { getTrainee, formatTraineeShort, ensureTraineesSeeded } from "./traineeStore";
+import { buildPersonaTitle, formatTraineeShort } from "./formatUtils";
+import { getTrainee, ensureTraineesSeeded } from "./traineeStore";
+import { getActiveSimulatorConfig } from "./simulatorConfigStore";
+import { mergeRuleOverrides } from "./scenarioRules";
+import { getEngagementConfig } from "./engagement";
+import { MAX_GROUP_SIZE } from "./multiAttendee";
+import { detectStakeholderType } from "./simulator";
+import type { SimulatorConfig } from "./simulatorConfig";
+import type { EnrichmentResult } from "./llm/enrichmentTypes";
+import type { Persona, ScenarioRuleOverrides } from "./scenarioTypes";
 
 /**
  * Generate dynamic opening line based on emotional posture and modifiers.
@@ -90,8 +98,102 @@ function generateOpeningLine(attendeeProfile: string): string {
   return "*approaches booth casually*";
 }
 
+/**
+ * Hidden attendee profile built from a persona record
+ */
+function buildAttendeeProfile(persona: Persona): string {
+  return `Persona: ${persona.personaType}
+Modifiers: ${persona.modifiers.join("; ")}
+Emotional posture: ${persona.emotionalPosture}
+Tooling bias: ${persona.toolingBias}
+OpenTelemetry familiarity: ${persona.otelFamiliarity}`;
+}
+
+/**
+ * Error for an invalid group persona list (null when valid or not a group)
+ */
+function validateGroupPersonaIds(personaIds: string[] | undefined): string | null {
+  if (!personaIds || personaIds.length === 0) return null;
+  if (personaIds.length < 2 || personaIds.length > MAX_GROUP_SIZE) {
+    return `personaIds must list 2 to ${MAX_GROUP_SIZE} personas for a group session.`;
+  }
+  if (new Set(personaIds).size !== personaIds.length) {
+    return "personaIds must not repeat a persona.";
+  }
+  return null;
+}
+
+/**
+ * Turn a session into a group session: one attendee per persona (the first
+ * mirrors kickoff), each opening with their own line
+ */
+function addGroupAttendees(session: SessionState, personas: Persona[], config: SimulatorConfig): void {
+  const stakeholders = config.stakeholder_types || {};
+
+  const attendees: SessionAttendee[] = personas.map((persona, i) => {
+    const attendeeProfile = i === 0 ? session.kickoff.attendeeProfile : buildAttendeeProfile(persona);
+    const stakeholderType = detectStakeholderType(attendeeProfile, undefined, config);
+    return {
+      id: `attendee-${i + 1}`,
+      personaId: persona.id,
+      displayName: persona.personaType,
+      attendeeProfile,
+      stakeholderType,
+      priorities: stakeholders[stakeholderType]?.priorities ?? [],
+      currentState: session.currentState,
+    };
+  });
+
+  const [systemMsg, leadOpening] = session.transcript;
+  systemMsg.text += `. Attendees: ${attendees.map((a) => a.displayName).join(", ")}`;
+  leadOpening.speakerId = attendees[0].id;
+  for (const attendee of attendees.slice(1)) {
+    session.transcript.push({
+      id: randomUUID(),
+      type: "attendee",
+      text: generateOpeningLine(attendee.attendeeProfile),
+      timestamp: leadOpening.timestamp,
+      speakerId: attendee.id,
+    });
+  }
+
+  session.attendees = attendees;
+}
+
+/**
+ * Cached enrichment for a conference + persona, generated when missing
+ * (if allowed)
+ */
+async function resolveEnrichment(
+  conferenceId: string,
+  personaId: string,
+  conferenceContext: string | undefined,
+  attendeeProfile: string | undefined,
+  generate: boolean
+): Promise<EnrichmentResult | null> {
+  let enrichment = await getEnrichment(conferenceId, personaId);
+
+  if (!enrichment && generate && conferenceContext && attendeeProfile) {
+    const provider = getEnrichmentProvider();
+    const enrichmentInput: EnrichmentInput = {
+      conferenceId,
+      personaId,
+      conferenceContext,
+      attendeeProfile,
+    };
+
+    enrichment = await provider.enrich(enrichmentInput);
+    await saveEnrichment(enrichment);
+  }
+
+  return enrichment;
+}
+
 export interface CreateSessionInput {
   personaId?: string;
+  // Group session: two or more personas at the booth together; the first is
+  // the lead (overrides personaId)
+  personaIds?: string[];
   conferenceId?: string;
   conferenceContext?: string;
   attendeeProfile?: string;
@@ -101,6 +203,8 @@ export interface CreateSessionInput {
   personaDisplayName?: string;
   traineeId?: string;
   traineeNameShort?: string;
+  // Coaching mode (chosen at invite creation, see lib/coaching.ts)
+  coaching?: boolean;
   // Performance: skip enrichment generation (check cache only)
   skipEnrichmentGeneration?: boolean;
 }
@@ -122,10 +226,12 @@ export function createSession(input: CreateSessionInput): CreateSessionResult {
   const personaId = input.personaId;
 
   // Validate required fields
-  if (!conferenceContext?.trim() || !attendeeProfile?.trim() || !difficulty) {
+  const groupError = validateGroupPersonaIds(input.personaIds);
+  if (!conferenceContext?.trim() || !attendeeProfile?.trim() || !difficulty || groupError) {
     return {
       session: null as any,
       error:
+        groupError ??
         "Missing required fields: conferenceContext, attendeeProfile, and difficulty are required.",
     };
   }
@@ -141,6 +247,7 @@ export function createSession(input: CreateSessionInput): CreateSessionResult {
 
   const session: SessionState = {
     id: sessionId,
+    revision: 0,
     currentState: "ICEBREAKER",
     stateHistory: [],
     transcript: [
@@ -169,6 +276,7 @@ export function createSession(input: CreateSessionInput): CreateSessionResult {
       personaDisplayName: input.personaDisplayName,
       traineeId: input.traineeId,
       traineeNameShort: input.traineeNameShort,
+      ...(input.coaching ? { coaching: true } : {}),
     },
     startTime: now,
     active: true,
@@ -192,6 +300,12 @@ export async function createSessionWithEnrichment(
     ensureTraineesSeeded(),
   ]);
 
+  // Group session: the first persona is the lead (createSession validates the list)
+  const groupPersonaIds = input.personaIds ?? [];
+  if (groupPersonaIds.length > 0) {
+    input = { ...input, personaId: groupPersonaIds[0] };
+  }
+
   // Resolve kickoff data and display names
   let conferenceContext = input.conferenceContext;
   let attendeeProfile = input.attendeeProfile;
@@ -199,6 +313,9 @@ export async function createSessionWithEnrichment(
   let conferenceName = input.conferenceName;
   let personaDisplayName = input.personaDisplayName;
   let traineeNameShort = input.traineeNameShort;
+  let conferenceOverrides: ScenarioRuleOverrides | undefined;
+  let personaOverrides: ScenarioRuleOverrides | undefined;
+  const groupPersonas: Persona[] = [];
 
   try {
     // Resolve conference data
@@ -206,6 +323,7 @@ export async function createSessionWithEnrichment(
     if (input.conferenceId) {
       conference = await getConference(input.conferenceId);
       if (conference) {
+        conferenceOverrides = conference.ruleOverrides;
         if (!conferenceName) {
           conferenceName = conference.name;
         }
@@ -236,13 +354,11 @@ Observability Maturity: ${conference.observabilityMaturity}`;
         };
       }
 
+      personaOverrides = persona.ruleOverrides;
+
       // Build attendeeProfile from persona metadata
       if (!attendeeProfile) {
-        attendeeProfile = `Persona: ${persona.personaType}
-Modifiers: ${persona.modifiers.join("; ")}
-Emotional posture: ${persona.emotionalPosture}
-Tooling bias: ${persona.toolingBias}
-OpenTelemetry familiarity: ${persona.otelFamiliarity}`;
+        attendeeProfile = buildAttendeeProfile(persona);
       }
 
       // Set default difficulty if not provided (based on persona familiarity)
@@ -263,6 +379,15 @@ OpenTelemetry familiarity: ${persona.otelFamiliarity}`;
       }
     }
 
+    // Group session: everyone else at the booth (the lead was checked above)
+    for (const groupPersonaId of groupPersonaIds) {
+      const persona = await getPersona(groupPersonaId);
+      if (!persona) {
+        throw new Error(`Unknown personaId: ${groupPersonaId}`);
+      }
+      groupPersonas.push(persona);
+    }
+
     // Resolve trainee name
     if (input.traineeId && !traineeNameShort) {
       const trainee = await getTrainee(input.traineeId);
@@ -293,30 +418,51 @@ OpenTelemetry familiarity: ${persona.otelFamiliarity}`;
     return result;
   }
 
+  // Pin the config version so later config edits don't change this session
+  const activeConfig = await getActiveSimulatorConfig();
+  result.session.configVersion = activeConfig.version;
+  result.session.engagement = getEngagementConfig(activeConfig.config).initial;
+
+  // Snapshot scenario rule overrides (conference first, persona on top)
+  const ruleOverrides = mergeRuleOverrides(conferenceOverrides, personaOverrides);
+  if (ruleOverrides) {
+    result.session.ruleOverrides = ruleOverrides;
+  }
+
+  if (groupPersonas.length > 0) {
+    addGroupAttendees(result.session, groupPersonas, activeConfig.config);
+  }
+
   // Try to add enrichment if we have the IDs
   if (input.conferenceId && input.personaId) {
     try {
-      // Check cache first
-      let enrichment = await getEnrichment(input.conferenceId, input.personaId);
-
       // Only generate if not cached AND not skipping generation
-      if (!enrichment && !input.skipEnrichmentGeneration && input.conferenceContext && input.attendeeProfile) {
-        const provider = getEnrichmentProvider();
-        const enrichmentInput: EnrichmentInput = {
-          conferenceId: input.conferenceId,
-          personaId: input.personaId,
-          conferenceContext: input.conferenceContext,
-          attendeeProfile: input.attendeeProfile,
-        };
-
-        enrichment = await provider.enrich(enrichmentInput);
-        await saveEnrichment(enrichment);
-      }
+      const enrichment = await resolveEnrichment(
+        input.conferenceId,
+        input.personaId,
+        input.conferenceContext,
+        input.attendeeProfile,
+        !input.skipEnrichmentGeneration
+      );
 
       // Add enrichment to session (may be null if skipping)
       if (enrichment) {
         result.session.kickoff.enrichment = enrichment;
       }
+
+      // The other attendees in a group session (the lead's is in kickoff)
+      for (const attendee of result.session.attendees?.slice(1) ?? []) {
+        const attendeeEnrichment = await resolveEnrichment(
+          input.conferenceId,
+          attendee.personaId!,
+          result.session.kickoff.conferenceContext,
+          attendee.attendeeProfile,
+          !input.skipEnrichmentGeneration
+        );
+        if (attendeeEnrichment) {
+          attendee.enrichment = attendeeEnrichment;
+        }
+      }
     } catch (error) {
       // Log error but don't fail session creation
       console.error("Failed to load enrichment:", error);
@@ -0,0 +1,208 @@
+/**
+ * Attendee engagement (patience) meter.
+ *
+ * Each session carries a 0-100 meter (SessionState.engagement) that moves
+ * after every trainee turn: guardrail violations, monologues and repeated
+ * questions lower it; empathy, reflection and relevant questions raise it.
+ * Tuning lives in the simulator config (`engagement`), so it is versioned with
+ * the rest of the rules.
+ *
+ * The meter feeds the attendee prompt (PromptRuntimeContext.engagement) and
+ * determineBandedOutcome: at or below `walk_away_at` the attendee walks away
+ * with POLITE_EXIT. Every change is logged as an engagement_updated event,
+ * which the review page plots.
+ *
+ * Pure functions only (no storage access).
+ */
+
+import type {
+  EngagementAdjustment,
+  EngagementConfig,
+  SimulatorConfig,
+} from "./simulatorConfig";
+import type { SessionEvent } from "./sessionEvents";
+
+export const DEFAULT_ENGAGEMENT_CONFIG: EngagementConfig = {
+  initial: 70,
+  wavering_below: 40,
+  walk_away_at: 15,
+  monologue_words: 80,
+  repeat_similarity: 0.7,
+  adjustments: {
+    violation: -10,
+    monologue: -8,
+    repeated_question: -6,
+    empathy: 6,
+    reflection: 4,
+    relevant_question: 5,
+  },
+};
+
+export const ENGAGEMENT_MIN = 0;
+export const ENGAGEMENT_MAX = 100;
+
+export type EngagementLevel = "engaged" | "wavering" | "disengaged";
+
+export interface EngagementChange {
+  reason: EngagementAdjustment;
+  delta: number;
+  /** e.g. the violation text or the earlier question that was repeated */
+  detail?: string;
+}
+
+export interface EngagementTurn {
+  /** Meter before the turn */
+  previous: number;
+  /** Meter after the turn (clamped to 0-100) */
+  value: number;
+  delta: number;
+  level: EngagementLevel;
+  changes: EngagementChange[];
+}
+
+/** Signals from analyzeTraineeMessage that count as a relevant question */
+const RELEVANT_QUESTION_SIGNALS = [
+  "role_based_question",
+  "how_is_that_working_question",
+  "impact_focused_question",
+];
+
+/**
+ * The config's engagement settings (defaults for configs saved before the
+ * meter existed)
+ */
+export function getEngagementConfig(config: SimulatorConfig): EngagementConfig {
+  return config.engagement ?? DEFAULT_ENGAGEMENT_CONFIG;
+}
+
+/**
+ * Current meter value (sessions from before the meter start at `initial`)
+ */
+export function getSessionEngagement(
+  session: { engagement?: number },
+  config: SimulatorConfig
+): number {
+  return session.engagement ?? getEngagementConfig(config).initial;
+}
+
+export function getEngagementLevel(value: number, config: SimulatorConfig): EngagementLevel {
+  const settings = getEngagementConfig(config);
+  if (value <= settings.walk_away_at) return "disengaged";
+  if (value < settings.wavering_below) return "wavering";
+  return "engaged";
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+/**
+ * Word-set overlap (Jaccard) between two questions
+ */
+function questionSimilarity(a: string, b: string): number {
+  const setA = new Set(words(a));
+  const setB = new Set(words(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of setA) {
+    if (setB.has(word)) shared++;
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Score one trainee turn and move the meter.
+ *
+ * @param previous - Meter before the turn
+ * @param message - The trainee message
+ * @param analysis - analyzeTraineeMessage result for the message
+ * @param earlierTraineeMessages - The trainee's previous messages (oldest first)
+ * @param config - The session's simulator config
+ */
+export function scoreEngagementTurn(
+  previous: number,
+  message: string,
+  analysis: { issues: string[]; isQuestion: boolean; isEmpathetic: boolean; stateSignals: string[] },
+  earlierTraineeMessages: string[],
+  config: SimulatorConfig
+): EngagementTurn {
+  const settings = getEngagementConfig(config);
+  const changes: EngagementChange[] = [];
+  const add = (reason: EngagementAdjustment, detail?: string) =>
+    changes.push({ reason, delta: settings.adjustments[reason], ...(detail ? { detail } : {}) });
+
+  for (const issue of analysis.issues) {
+    add("violation", issue);
+  }
+
+  const wordCount = words(message).length;
+  if (wordCount > settings.monologue_words) {
+    add("monologue", `${wordCount} words`);
+  }
+
+  const repeated = analysis.isQuestion
+    ? earlierTraineeMessages.find(
+        (earlier) =>
+          earlier.includes("?") && questionSimilarity(message, earlier) >= settings.repeat_similarity
+      )
+    : undefined;
+  if (repeated) {
+    add("repeated_question", repeated);
+  }
+
+  if (analysis.isEmpathetic) {
+    add("empathy");
+  }
+  if (analysis.stateSignals.includes("reflection")) {
+    add("reflection");
+  }
+  // A repeated question doesn't also earn credit for being relevant
+  if (!repeated && analysis.stateSignals.some((signal) => RELEVANT_QUESTION_SIGNALS.includes(signal))) {
+    add("relevant_question");
+  }
+
+  const raw = previous + changes.reduce((sum, change) => sum + change.delta, 0);
+  const value = Math.min(ENGAGEMENT_MAX, Math.max(ENGAGEMENT_MIN, raw));
+
+  return {
+    previous,
+    value,
+    delta: value - previous,
+    level: getEngagementLevel(value, config),
+    changes,
+  };
+}
+
+export interface EngagementPoint {
+  /** Trainee turn (0 = session start) */
+  turn: number;
+  value: number;
+  delta: number;
+  level: EngagementLevel;
+  changes: EngagementChange[];
+}
+
+/**
+ * Meter value after every trainee turn, from a session's event log (empty
+ * for sessions from before the meter)
+ */
+export function buildEngagementCurve(events: SessionEvent[], config: SimulatorConfig): EngagementPoint[] {
+  const updates = events.filter(
+    (event): event is Extract<SessionEvent, { type: "engagement_updated" }> =>
+      event.type === "engagement_updated"
+  );
+  if (updates.length === 0) return [];
+
+  const start = updates[0].previous;
+  return [
+    { turn: 0, value: start, delta: 0, level: getEngagementLevel(start, config), changes: [] },
+    ...updates.map((update, i) => ({
+      turn: i + 1,
+      value: update.value,
+      delta: update.delta,
+      level: update.level,
+      changes: update.changes,
+    })),
+  ];
+}
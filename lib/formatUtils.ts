@@ -1,3 +1,5 @@
+import type { Trainee } from "./traineeStore";
+
 /**
  * Convert text to sentence case (first letter uppercase, rest lowercase)
  * Preserves known acronyms: SLOs, OTel, API, CI/CD, etc.
@@ -152,3 +154,18 @@ export function buildPersonaSubtitle(
 
   return parts.join(" | ");
 }
+
+/**
+ * Format trainee name as "First L."
+ */
+export function formatTraineeShort(trainee: Trainee): string {
+  const lastInitial = trainee.lastName.charAt(0).toUpperCase();
+  return `${trainee.firstName} ${lastInitial}.`;
+}
+
+/**
+ * Format trainee name as "First Last"
+ */
+export function formatTraineeFull(trainee: Trainee): string {
+  return `${trainee.firstName} ${trainee.lastName}`;
+}
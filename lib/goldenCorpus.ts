@@ -0,0 +1,259 @@
+/**
+ * Golden conversation corpus.
+ *
+ * Each entry is a fully scripted booth conversation (persona, difficulty,
+ * trainee turns) with the behaviour we expect from the simulator: attendee
+ * intents and reply sources per turn, the state progression, the outcome and
+ * a grade range. evaluateGoldenConversation runs an entry through the real
+ * pipeline (the offline replay engine with the mock chat provider on the
+ * bundled config, see lib/offlineReplay.ts) and lists every expectation that
+ * no longer holds.
+ *
+ * Entries live in scripts/golden/*.json; run them with `npm run test:golden`.
+ */
+
+import { replaySessionOffline, type OfflineReplayResult } from "./offlineReplay";
+import { BUNDLED_CONFIG_VERSION } from "./simulatorConfigStore";
+import { STATE_ORDER } from "./simulator";
+import type { ConfigValidationError } from "./simulatorConfig";
+
+export const GRADES = ["F", "D", "C", "B", "A"] as const;
+export type Grade = (typeof GRADES)[number];
+
+const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+const DEFAULT_CONFERENCE_CONTEXT = "Conference: Golden corpus\nThemes: observability, SRE";
+
+export interface GoldenTurnExpectation {
+  /** Session state after the turn */
+  state?: string;
+  /** Template intent of the reply (null: no template intent) */
+  intent?: string | null;
+  source?: "template" | "llm";
+  /** Outcome the end prompt offered this turn (null: no end prompt) */
+  endPrompt?: string | null;
+  /** Case-insensitive substrings the reply must contain */
+  replyIncludes?: string[];
+  /** Case-insensitive substrings the reply must not contain */
+  replyExcludes?: string[];
+}
+
+export interface GoldenTurn {
+  trainee: string;
+  expect?: GoldenTurnExpectation;
+}
+
+export interface GoldenConversation {
+  name: string;
+  description?: string;
+  /** Doc or incident the entry guards against (e.g. PREMATURE_EXIT_FIX.md) */
+  regression?: string;
+  personaId?: string;
+  /** Group sessions, lead first (instead of personaId) */
+  personaIds?: string[];
+  difficulty: (typeof DIFFICULTIES)[number];
+  conferenceContext?: string;
+  /** Defaults to "golden:{name}" */
+  outcomeSeed?: string;
+  turns: GoldenTurn[];
+  expect: {
+    /** Session states in the order they were reached, starting at ICEBREAKER */
+    states?: string[];
+    finalState?: string;
+    /** Pending outcome at the end (null: none) */
+    outcome?: string | null;
+    grade?: { min: Grade; max: Grade };
+    score?: { min?: number; max?: number };
+  };
+}
+
+export interface GoldenMismatch {
+  /** 1-based trainee turn (absent for whole-conversation expectations) */
+  turn?: number;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface GoldenResult {
+  name: string;
+  passed: boolean;
+  mismatches: GoldenMismatch[];
+  replay: OfflineReplayResult | null;
+  /** The entry could not be run (e.g. unknown persona) */
+  error?: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && item.trim() !== "");
+}
+
+/**
+ * Check a corpus entry's shape (empty when valid)
+ */
+export function validateGoldenConversation(input: unknown): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = [];
+  const fail = (path: string, message: string) => errors.push({ path, message });
+
+  if (!isObject(input)) {
+    fail("", "must be an object");
+    return errors;
+  }
+
+  if (typeof input.name !== "string" || !input.name.trim()) fail("name", "must be a non-empty string");
+  if (!input.personaId && !input.personaIds) fail("personaId", "personaId or personaIds is required");
+  if (input.personaIds !== undefined && !isStringList(input.personaIds)) {
+    fail("personaIds", "must be a list of persona IDs");
+  }
+  if (!DIFFICULTIES.includes(input.difficulty as never)) {
+    fail("difficulty", `must be one of ${DIFFICULTIES.join(", ")}`);
+  }
+
+  if (!Array.isArray(input.turns) || input.turns.length === 0) {
+    fail("turns", "must be a non-empty list");
+  } else {
+    input.turns.forEach((turn, i) => {
+      const path = `turns.${i}`;
+      if (!isObject(turn) || typeof turn.trainee !== "string" || !turn.trainee.trim()) {
+        fail(path, "must have a non-empty trainee message");
+        return;
+      }
+      if (turn.expect === undefined) return;
+      if (!isObject(turn.expect)) {
+        fail(`${path}.expect`, "must be an object");
+        return;
+      }
+      const { state, source, replyIncludes, replyExcludes } = turn.expect;
+      if (state !== undefined && !STATE_ORDER.includes(state as string)) {
+        fail(`${path}.expect.state`, `must be one of ${STATE_ORDER.join(", ")}`);
+      }
+      if (source !== undefined && source !== "template" && source !== "llm") {
+        fail(`${path}.expect.source`, "must be template or llm");
+      }
+      if (replyIncludes !== undefined && !isStringList(replyIncludes)) {
+        fail(`${path}.expect.replyIncludes`, "must be a list of strings");
+      }
+      if (replyExcludes !== undefined && !isStringList(replyExcludes)) {
+        fail(`${path}.expect.replyExcludes`, "must be a list of strings");
+      }
+    });
+  }
+
+  if (!isObject(input.expect)) {
+    fail("expect", "must be an object");
+  } else {
+    const { states, finalState, grade, score } = input.expect;
+    if (states !== undefined && (!isStringList(states) || !states.every((s) => STATE_ORDER.includes(s)))) {
+      fail("expect.states", `must be a list of ${STATE_ORDER.join(", ")}`);
+    }
+    if (finalState !== undefined && !STATE_ORDER.includes(finalState as string)) {
+      fail("expect.finalState", `must be one of ${STATE_ORDER.join(", ")}`);
+    }
+    if (
+      grade !== undefined &&
+      (!isObject(grade) ||
+        !GRADES.includes(grade.min as Grade) ||
+        !GRADES.includes(grade.max as Grade) ||
+        GRADES.indexOf(grade.min as Grade) > GRADES.indexOf(grade.max as Grade))
+    ) {
+      fail("expect.grade", "must be { min, max } with grades F-A and min no better than max");
+    }
+    if (
+      score !== undefined &&
+      (!isObject(score) ||
+        (score.min !== undefined && typeof score.min !== "number") ||
+        (score.max !== undefined && typeof score.max !== "number"))
+    ) {
+      fail("expect.score", "must be { min?, max? } with numbers");
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * States in the order the session reached them (consecutive repeats dropped)
+ */
+function stateProgression(replay: OfflineReplayResult): string[] {
+  const states = [STATE_ORDER[0]];
+  for (const turn of replay.turns) {
+    if (turn.replayed.state !== states[states.length - 1]) states.push(turn.replayed.state);
+  }
+  return states;
+}
+
+/**
+ * Run one corpus entry and compare it with its expectations
+ */
+export async function evaluateGoldenConversation(entry: GoldenConversation): Promise<GoldenResult> {
+  const { result: replay, error } = await replaySessionOffline(
+    {
+      messages: entry.turns.map((turn) => turn.trainee),
+      outcomeSeed: entry.outcomeSeed ?? `golden:${entry.name}`,
+      kickoff: {
+        personaId: entry.personaId,
+        personaIds: entry.personaIds,
+        difficulty: entry.difficulty,
+        conferenceContext: entry.conferenceContext ?? DEFAULT_CONFERENCE_CONTEXT,
+      },
+    },
+    { provider: "mock", configVersion: BUNDLED_CONFIG_VERSION }
+  );
+  if (!replay) {
+    return { name: entry.name, passed: false, mismatches: [], replay: null, error };
+  }
+
+  const mismatches: GoldenMismatch[] = [];
+  const check = (field: string, expected: unknown, actual: unknown, turn?: number) => {
+    if (expected !== undefined && JSON.stringify(expected) !== JSON.stringify(actual)) {
+      mismatches.push({ ...(turn ? { turn } : {}), field, expected, actual });
+    }
+  };
+
+  entry.turns.forEach((turn, i) => {
+    const expect = turn.expect;
+    const actual = replay.turns[i]?.replayed;
+    if (!expect || !actual) return;
+
+    check("state", expect.state, actual.state, i + 1);
+    check("intent", expect.intent, actual.intent ?? null, i + 1);
+    check("source", expect.source, actual.source, i + 1);
+    check("endPrompt", expect.endPrompt, actual.endPromptOutcome ?? null, i + 1);
+
+    const reply = actual.reply.toLowerCase();
+    for (const phrase of expect.replyIncludes ?? []) {
+      if (!reply.includes(phrase.toLowerCase())) {
+        mismatches.push({ turn: i + 1, field: "replyIncludes", expected: phrase, actual: actual.reply });
+      }
+    }
+    for (const phrase of expect.replyExcludes ?? []) {
+      if (reply.includes(phrase.toLowerCase())) {
+        mismatches.push({ turn: i + 1, field: "replyExcludes", expected: phrase, actual: actual.reply });
+      }
+    }
+  });
+
+  const { states, finalState, outcome, grade, score } = entry.expect;
+  check("states", states, stateProgression(replay));
+  check("finalState", finalState, replay.replayed.finalState);
+  check("outcome", outcome, replay.replayed.outcome);
+
+  if (grade) {
+    const index = GRADES.indexOf(replay.replayed.grade as Grade);
+    if (index < GRADES.indexOf(grade.min) || index > GRADES.indexOf(grade.max)) {
+      mismatches.push({ field: "grade", expected: `${grade.min}-${grade.max}`, actual: replay.replayed.grade });
+    }
+  }
+  if (score) {
+    const actual = replay.replayed.score;
+    if ((score.min !== undefined && actual < score.min) || (score.max !== undefined && actual > score.max)) {
+      mismatches.push({ field: "score", expected: `${score.min ?? 0}-${score.max ?? 100}`, actual });
+    }
+  }
+
+  return { name: entry.name, passed: mismatches.length === 0, mismatches, replay };
+}
@@ -1,4 +1,4 @@
-import { ScoreRecord } from "./scoring";
+import { effectiveScore, ScoreRecord } from "./scoring";
 
 export interface TraineeSummary {
   traineeId: string;
@@ -31,19 +31,66 @@ export interface ActivitySummary {
   }>;
 }
 
+/**
+ * Trainer overrides against the computed scores, for calibrating the rubric
+ */
+export interface CalibrationSummary {
+  overriddenScores: number;
+  // Computed → effective grade, e.g. { "C → B": 2 }
+  gradeChanges: Record<string, number>;
+  // Mean effective minus computed score over the overridden scores
+  avgScoreDelta: number;
+  // Overrides per breakdown dimension
+  dimensionOverrides: Record<string, number>;
+}
+
 export interface InsightsData {
   traineeSummaries: TraineeSummary[];
   scenarioSummaries: ScenarioSummary[];
   activity: ActivitySummary;
+  calibration: CalibrationSummary;
+}
+
+function computeCalibration(records: ScoreRecord[]): CalibrationSummary {
+  const calibration: CalibrationSummary = {
+    overriddenScores: 0,
+    gradeChanges: {},
+    avgScoreDelta: 0,
+    dimensionOverrides: {},
+  };
+  let totalDelta = 0;
+
+  for (const record of records) {
+    const effective = effectiveScore(record);
+    if (!effective.overridden) continue;
+
+    calibration.overriddenScores++;
+    totalDelta += effective.score - record.score;
+    if (effective.grade !== record.grade) {
+      const move = `${record.grade} → ${effective.grade}`;
+      calibration.gradeChanges[move] = (calibration.gradeChanges[move] ?? 0) + 1;
+    }
+    for (const key of Object.keys(record.trainerOverrides?.breakdown ?? {})) {
+      calibration.dimensionOverrides[key] = (calibration.dimensionOverrides[key] ?? 0) + 1;
+    }
+  }
+
+  if (calibration.overriddenScores > 0) {
+    calibration.avgScoreDelta = Math.round(totalDelta / calibration.overriddenScores);
+  }
+  return calibration;
 }
 
 /**
  * Compute insights from score records
- * Filters are applied before computation
+ * Filters are applied before computation. Scores are the effective ones
+ * (after trainer overrides); calibration compares them with the computed ones.
  */
-export function computeInsights(scores: ScoreRecord[]): InsightsData {
+export function computeInsights(records: ScoreRecord[]): InsightsData {
+  const scores = records.map((record) => ({ ...record, ...effectiveScore(record) }));
+
   // Group scores by traineeId
-  const traineeMap = new Map<string, ScoreRecord[]>();
+  const traineeMap = new Map<string, typeof scores>();
   for (const score of scores) {
     if (!score.traineeId) continue; // Skip scores without trainee
     const existing = traineeMap.get(score.traineeId) ?? [];
@@ -88,7 +135,7 @@ export function computeInsights(scores: ScoreRecord[]): InsightsData {
   traineeSummaries.sort((a, b) => b.sessionsCompleted - a.sessionsCompleted);
 
   // Group scores by conference+persona
-  const scenarioMap = new Map<string, ScoreRecord[]>();
+  const scenarioMap = new Map<string, typeof scores>();
   for (const score of scores) {
     if (!score.conferenceId || !score.personaId) continue; // Skip incomplete data
     const key = `${score.conferenceId}::${score.personaId}`;
@@ -148,5 +195,6 @@ export function computeInsights(scores: ScoreRecord[]): InsightsData {
       avgScore,
       topActiveTrainees: traineeActivity,
     },
+    calibration: computeCalibration(records),
   };
 }
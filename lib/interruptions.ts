@@ -0,0 +1,141 @@
+/**
+ * Seeded in-conversation interruptions ("my talk starts in five minutes",
+ * "a colleague just walked up", "I got paged").
+ *
+ * From `earliest_turn` on, each trainee turn may interrupt the conversation
+ * with the difficulty's `chance_per_turn` (conferences and personas can
+ * override both the chance and which events are allowed, see
+ * lib/scenarioRules.ts). The draw is seeded by the session's outcomeSeed and
+ * the turn number, so the same conversation is always interrupted at the same
+ * point. A session is interrupted at most once.
+ *
+ * The interruption is shown to the trainee as a system message and added to
+ * the attendee prompt. After `turns_left` more trainee turns the attendee
+ * leaves (POLITE_EXIT) unless the trainee has already landed an outcome.
+ * scoreSession grades how the trainee adapted.
+ *
+ * Pure functions only (no storage access).
+ */
+
+import { hashSeed, seededRandom } from "./simulator";
+import type { InterruptionEventConfig, SimulatorConfig } from "./simulatorConfig";
+import type { SessionState } from "./storage";
+
+export interface SessionInterruption {
+  /** interruptions.events key */
+  kind: string;
+  /** Trainee turn it happened on */
+  atTurn: number;
+  /** Trainee turns the attendee stays for afterwards */
+  turnsLeft: number;
+  /** Snapshot of the event's attendee_context */
+  attendeeContext: string;
+}
+
+export interface InterruptionAdaptation {
+  /** First reply after the interruption acknowledged it */
+  acknowledged: boolean;
+  /** Trainee messages got shorter afterwards */
+  compressed: boolean;
+  /** An outcome other than POLITE_EXIT was reached before the attendee left */
+  closedInTime: boolean;
+  /** 0-20 */
+  score: number;
+}
+
+/** Phrases that acknowledge the attendee's time pressure */
+const ACKNOWLEDGEMENT_PHRASES = [
+  "no worries",
+  "no problem",
+  "totally understand",
+  "understand",
+  "go ahead",
+  "before you go",
+  "let you go",
+  "won't keep you",
+  "don't want to keep you",
+  "quick",
+  "briefly",
+  "i'll be brief",
+  "in a hurry",
+  "good luck",
+];
+
+/** Average words per message at or below this counts as compressed */
+const SHORT_MESSAGE_WORDS = 25;
+
+/**
+ * Roll for an interruption on a trainee turn. Returns the event to inject,
+ * or null.
+ *
+ * @param seed - The session's outcomeSeed
+ * @param turn - Trainee turn number (1-based)
+ * @param difficulty - Session difficulty
+ * @param config - The session's simulator config (rule overrides applied)
+ */
+export function rollInterruption(
+  seed: string,
+  turn: number,
+  difficulty: string,
+  config: SimulatorConfig
+): { kind: string; event: InterruptionEventConfig } | null {
+  const settings = config.interruptions;
+  if (!settings || turn < settings.earliest_turn) return null;
+
+  const chance = settings.chance_per_turn[difficulty as keyof typeof settings.chance_per_turn] ?? 0;
+  if (seededRandom(hashSeed(`${seed}:interruption:${turn}`)) >= chance) return null;
+
+  const eligible = Object.entries(settings.events).filter(
+    ([, event]) => !event.difficulties || event.difficulties.includes(difficulty as never)
+  );
+  if (eligible.length === 0) return null;
+
+  const pick = seededRandom(hashSeed(`${seed}:interruption:${turn}:kind`));
+  const [kind, event] = eligible[Math.floor(pick * eligible.length)];
+  return { kind, event };
+}
+
+/**
+ * Trainee turns left before the attendee leaves (0 = leaving this turn)
+ */
+export function getInterruptionTurnsLeft(interruption: SessionInterruption, turn: number): number {
+  return Math.max(0, interruption.atTurn + interruption.turnsLeft - turn);
+}
+
+function wordCount(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function averageWords(messages: string[]): number {
+  if (messages.length === 0) return 0;
+  return messages.reduce((sum, message) => sum + wordCount(message), 0) / messages.length;
+}
+
+/**
+ * How the trainee handled the session's interruption (null when there was
+ * none, or the trainee never replied after it)
+ */
+export function evaluateInterruptionAdaptation(session: SessionState): InterruptionAdaptation | null {
+  const interruption = session.interruption;
+  if (!interruption) return null;
+
+  const trainee = session.transcript.filter((m) => m.type === "trainee").map((m) => m.text);
+  const before = trainee.slice(0, interruption.atTurn);
+  const after = trainee.slice(interruption.atTurn);
+  if (after.length === 0) return null;
+
+  const firstReply = after[0].toLowerCase();
+  const acknowledged = ACKNOWLEDGEMENT_PHRASES.some((phrase) => firstReply.includes(phrase));
+
+  const afterAverage = averageWords(after);
+  const compressed = afterAverage <= SHORT_MESSAGE_WORDS || afterAverage <= averageWords(before) * 0.75;
+
+  const closedInTime = Boolean(session.pendingOutcome && session.pendingOutcome !== "POLITE_EXIT");
+
+  return {
+    acknowledged,
+    compressed,
+    closedInTime,
+    score: (acknowledged ? 6 : 0) + (compressed ? 6 : 0) + (closedInTime ? 8 : 0),
+  };
+}
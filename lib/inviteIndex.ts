@@ -1,16 +1,7 @@
-import { kv } from "@vercel/kv";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
 
-const INVITE_INDEX_KEY = "invites:index";
-
-// In-memory fallback for local development
-let inMemoryIndex: Array<{ token: string; createdAt: string }> = [];
-
-/**
- * KV is configured when Vercel/Upstash env vars are present.
- */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
-}
+type InviteIndexEntry = { token: string; createdAt: string };
 
 /**
  * Add an invite token to the index for admin listing
@@ -19,41 +10,41 @@ export async function addInviteToIndex(
   token: string,
   createdAtISO: string
 ): Promise<void> {
+  const storage = getStorage();
   const entry = { token, createdAt: createdAtISO };
 
-  if (useKv()) {
-    // Get existing index
-    const existing =
-      (await kv.get<Array<{ token: string; createdAt: string }>>(
-        INVITE_INDEX_KEY
-      )) || [];
-
-    // Prepend new entry (newest first)
-    const updated = [entry, ...existing];
+  // Get existing index
+  const existing =
+    (await storage.get<InviteIndexEntry[]>(keys.inviteIndex())) || [];
 
-    // Keep only most recent 100 to avoid unbounded growth
-    const trimmed = updated.slice(0, 100);
+  // Prepend new entry (newest first). Growth is bounded by the retention
+  // policy (lib/retention.ts), not by a fixed cap
+  const updated = [entry, ...existing];
 
-    await kv.set(INVITE_INDEX_KEY, trimmed);
-    return;
-  }
-
-  // In-memory fallback
-  inMemoryIndex = [entry, ...inMemoryIndex].slice(0, 100);
+  await storage.set(keys.inviteIndex(), updated);
 }
 
 /**
  * List invite tokens from the index (newest first)
  */
 export async function listInvitesFromIndex(limit = 50): Promise<string[]> {
-  if (useKv()) {
-    const index =
-      (await kv.get<Array<{ token: string; createdAt: string }>>(
-        INVITE_INDEX_KEY
-      )) || [];
-    return index.slice(0, limit).map((entry) => entry.token);
-  }
-
-  // In-memory fallback
-  return inMemoryIndex.slice(0, limit).map((entry) => entry.token);
+  const index =
+    (await getStorage().get<InviteIndexEntry[]>(keys.inviteIndex())) || [];
+  return index.slice(0, limit).map((entry) => entry.token);
+}
+
+/**
+ * Remove invite tokens from the index. Reads the index right before writing
+ * it, so invites added meanwhile (e.g. during a purge) are kept.
+ */
+export async function removeInvitesFromIndex(tokens: Set<string>): Promise<void> {
+  if (tokens.size === 0) return;
+
+  const storage = getStorage();
+  const existing =
+    (await storage.get<InviteIndexEntry[]>(keys.inviteIndex())) || [];
+  await storage.set(
+    keys.inviteIndex(),
+    existing.filter((entry) => !tokens.has(entry.token))
+  );
 }
@@ -1,4 +1,6 @@
-import { kv } from "@vercel/kv";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { recordWorkspaceOwner } from "./workspaces";
 
 export interface InviteRecord {
   token: string;
@@ -6,8 +8,10 @@ export interface InviteRecord {
   createdAt: string;
   conferenceId?: string; // Added for admin tracker
   personaId?: string; // Added for admin tracker
+  personaIds?: string[]; // Group sessions: every persona at the booth, lead first
   traineeId?: string; // Trainee who will use this invite
   traineeName?: string; // Full trainee name for display
+  coaching?: boolean; // Coaching mode: in-session hints (see lib/coaching.ts)
   revoked?: boolean;
   expiresAt?: string;
   createdBy?: string;
@@ -17,47 +21,36 @@ export interface InviteRecord {
   traineeNameShort?: string;
 }
 
-const inMemoryInvites = new Map<string, InviteRecord>();
-const inMemorySessionInvites = new Map<string, { token: string }>();
-
-/**
- * KV is configured when Vercel/Upstash env vars are present.
- */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
-}
-
 export async function saveInvite(invite: InviteRecord): Promise<void> {
-  if (useKv()) {
-    await kv.set(`invite:${invite.token}`, invite);
-    await kv.set(`session_invite:${invite.sessionId}`, { token: invite.token });
-    return;
-  }
-  inMemoryInvites.set(invite.token, invite);
-  inMemorySessionInvites.set(invite.sessionId, { token: invite.token });
+  await getStorage().setMany([
+    { key: keys.invite(invite.token), value: invite },
+    { key: keys.sessionInvite(invite.sessionId), value: { token: invite.token } },
+  ]);
+  await recordWorkspaceOwner([invite.token, invite.sessionId]);
 }
 
 export async function getInvite(token: string): Promise<InviteRecord | null> {
-  if (useKv()) {
-    const result = await kv.get<InviteRecord>(`invite:${token}`);
-    return result ?? null;
-  }
-  return inMemoryInvites.get(token) ?? null;
+  return getStorage().get<InviteRecord>(keys.invite(token));
 }
 
 export async function linkSessionToInvite(sessionId: string, token: string): Promise<void> {
-  if (useKv()) {
-    await kv.set(`session_invite:${sessionId}`, { token });
-    return;
-  }
-  inMemorySessionInvites.set(sessionId, { token });
+  await getStorage().set(keys.sessionInvite(sessionId), { token });
+  await recordWorkspaceOwner([sessionId]);
 }
 
 export async function getInviteForSession(sessionId: string): Promise<string | null> {
-  if (useKv()) {
-    const result = await kv.get<{ token: string }>(`session_invite:${sessionId}`);
-    return result?.token ?? null;
-  }
-  const record = inMemorySessionInvites.get(sessionId);
-  return record?.token ?? null;
+  const result = await getStorage().get<{ token: string }>(keys.sessionInvite(sessionId));
+  return result?.token ?? null;
+}
+
+/**
+ * Mark an invite as revoked (the trainee and review links stop working)
+ */
+export async function revokeInvite(token: string): Promise<InviteRecord | null> {
+  const invite = await getInvite(token);
+  if (!invite) return null;
+
+  const revoked: InviteRecord = { ...invite, revoked: true };
+  await getStorage().set(keys.invite(token), revoked);
+  return revoked;
 }
@@ -8,7 +8,7 @@
  * - In production: always use KV if configured
  * - In development: use in-memory by default (faster), unless FORCE_VERCEL_KV=true
  */
-export function useKv(): boolean {
+export function isKvConfigured(): boolean {
   const hasKvConfig = Boolean(
     process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN
   );
@@ -1,4 +1,14 @@
-import { kv } from "@vercel/kv";
+import { effectiveScore, type ScoreRecord } from "./scoring";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import {
+  indexLeaderboardEntry,
+  queryLeaderboard,
+  unindexLeaderboardEntry,
+  type Page,
+  type PageOptions,
+  type ScoreFilters,
+} from "./scoreIndexes";
 
 export type LeaderboardEntry = {
   token: string;
@@ -15,64 +25,116 @@ export type LeaderboardEntry = {
   // Trainee snapshot (Phase H1)
   traineeId?: string | null;
   traineeNameShort?: string | null;
+  // Coaching mode run: only listed on the coached leaderboard
+  coached?: boolean;
+  // Scoring version of the score (see lib/scoring.ts); missing on older entries
+  scoringVersion?: string;
+  // Trainer-overridden scores rank by the effective score and grade above;
+  // these keep the computed ones (see lib/scoreOverrides.ts)
+  computedScore?: number;
+  computedGrade?: string;
 };
 
-const inMemoryLeaderboard: LeaderboardEntry[] = [];
-const MAX_LEADERBOARD_SIZE = 2000;
+/**
+ * Effective score and grade for an entry, plus the computed ones when a
+ * trainer overrode them
+ */
+function rankedScore(record: ScoreRecord): Pick<LeaderboardEntry, "score" | "grade" | "computedScore" | "computedGrade"> {
+  const effective = effectiveScore(record);
+  return {
+    score: effective.score,
+    grade: effective.grade,
+    ...(effective.overridden ? { computedScore: record.score, computedGrade: record.grade } : {}),
+  };
+}
 
 /**
- * KV is configured when Vercel/Upstash env vars are present.
+ * Build a leaderboard entry from a score record's snapshot fields
+ * Used when the index has to be rebuilt from stored scores
  */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+export function leaderboardEntryFromScore(record: ScoreRecord): LeaderboardEntry {
+  return {
+    token: record.token,
+    ...rankedScore(record),
+    createdAt: record.completedAt,
+    conferenceId: record.conferenceId || null,
+    conferenceName: record.conferenceName || null,
+    personaId: record.personaId || null,
+    personaDisplayName: record.personaDisplayName || null,
+    jobTitle: null,
+    difficulty: (record.difficulty as "easy" | "medium" | "hard") || null,
+    traineeId: record.traineeId || null,
+    traineeNameShort: record.traineeNameShort || null,
+    ...(record.coached ? { coached: true } : {}),
+    ...(record.scoringVersion ? { scoringVersion: record.scoringVersion } : {}),
+  };
 }
 
 /**
- * Add or update an entry in the leaderboard index
- * De-duplicates by token (replaces existing entry if token already exists)
+ * Add or update an entry in the leaderboard
+ * Re-adding a token replaces its entry and rank (see lib/scoreIndexes.ts)
  */
 export async function addToLeaderboardIndex(
   entry: LeaderboardEntry
 ): Promise<void> {
-  if (useKv()) {
-    // Fetch existing index
-    const existing = (await kv.get<LeaderboardEntry[]>("scores:index")) ?? [];
-
-    // Remove any existing entry with same token
-    const filtered = existing.filter((e) => e.token !== entry.token);
-
-    // Add new entry at the beginning (newest first)
-    const updated = [entry, ...filtered];
+  const storage = getStorage();
+  const previous = await storage.get<LeaderboardEntry>(keys.leaderboardEntry(entry.token));
+  await indexLeaderboardEntry(storage, entry, previous);
+}
 
-    // Cap at MAX_LEADERBOARD_SIZE
-    const capped = updated.slice(0, MAX_LEADERBOARD_SIZE);
+/**
+ * Update a token's entry from its (rescored or overridden) score record.
+ * Scores without an entry (incomplete runs) stay off the leaderboard.
+ *
+ * @returns Whether there was an entry to update
+ */
+export async function refreshLeaderboardEntry(record: ScoreRecord): Promise<boolean> {
+  const storage = getStorage();
+  const previous = await storage.get<LeaderboardEntry>(keys.leaderboardEntry(record.token));
+  if (!previous) return false;
 
-    // Save back to KV
-    await kv.set("scores:index", capped);
-  } else {
-    // In-memory fallback
-    // Remove any existing entry with same token
-    const filtered = inMemoryLeaderboard.filter((e) => e.token !== entry.token);
+  const entry: LeaderboardEntry = { ...previous };
+  // Cleared overrides drop the computed values
+  delete entry.computedScore;
+  delete entry.computedGrade;
+  await indexLeaderboardEntry(
+    storage,
+    {
+      ...entry,
+      ...rankedScore(record),
+      ...(record.scoringVersion ? { scoringVersion: record.scoringVersion } : {}),
+    },
+    previous
+  );
+  return true;
+}
 
-    // Add new entry at the beginning
-    inMemoryLeaderboard.length = 0;
-    inMemoryLeaderboard.push(entry, ...filtered);
+/**
+ * Remove a token's entry from the leaderboard (no-op if missing)
+ */
+export async function removeFromLeaderboardIndex(token: string): Promise<void> {
+  const storage = getStorage();
+  const entry = await storage.get<LeaderboardEntry>(keys.leaderboardEntry(token));
+  if (entry) await unindexLeaderboardEntry(storage, entry);
+}
 
-    // Cap at MAX_LEADERBOARD_SIZE
-    if (inMemoryLeaderboard.length > MAX_LEADERBOARD_SIZE) {
-      inMemoryLeaderboard.length = MAX_LEADERBOARD_SIZE;
-    }
-  }
+/**
+ * Page through the leaderboard, best score first
+ * Filters are applied server-side from the sorted indexes; coached runs are
+ * only listed with `coached: true`
+ */
+export async function listLeaderboard(
+  filters: ScoreFilters = {},
+  options: PageOptions = {}
+): Promise<Page<LeaderboardEntry>> {
+  return queryLeaderboard(getStorage(), filters, options);
 }
 
 /**
- * List all entries in the leaderboard index
- * Returns newest-first list
+ * Total number of leaderboard entries (unassisted, or coached with `coached`)
  */
-export async function listLeaderboardIndex(): Promise<LeaderboardEntry[]> {
-  if (useKv()) {
-    const result = await kv.get<LeaderboardEntry[]>("scores:index");
-    return result ?? [];
-  }
-  return [...inMemoryLeaderboard];
+export async function countLeaderboardEntries(coached = false): Promise<number> {
+  return getStorage().zcount(
+    coached ? keys.leaderboardFacetIndex("coaching", "coached") : keys.leaderboardIndex()
+  );
 }
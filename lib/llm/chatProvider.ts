@@ -82,9 +82,10 @@ export class OpenAIChatProvider implements ChatProvider {
 
       const completion = await client.chat.completions.create({
         model: this.model,
-        temperature: 0.4,
-        max_tokens: 300,
+        temperature: input.temperature ?? 0.4,
+        max_tokens: input.maxTokens ?? 300,
         messages,
+        ...(input.json ? { response_format: { type: "json_object" as const } } : {}),
       });
 
       const text = completion.choices[0]?.message?.content;
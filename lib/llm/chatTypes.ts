@@ -10,11 +10,18 @@ export interface ChatInput {
     content: string;
   }[];
   sessionId: string;
+  /** Reply length cap (default 300 tokens) */
+  maxTokens?: number;
+  /** Default 0.4 */
+  temperature?: number;
+  /** Ask for a JSON object reply (the prompt must say so too) */
+  json?: boolean;
 }
 
 export interface ChatResult {
   text: string;
-  provider: "openai" | "mock";
+  // "recorded": a reply replayed from a stored session (lib/offlineReplay.ts)
+  provider: "openai" | "mock" | "recorded";
   model?: string;
   createdAt: string;
 }
@@ -1,4 +1,5 @@
 import type { PromptBundle } from "./promptBundleTypes";
+import { DEFAULT_SCORING_RUBRIC } from "../scoringRubric";
 
 /**
  * Default v1 prompt bundle - baseline facilitator setup and master system prompt.
@@ -387,6 +388,7 @@ export const DEFAULT_PROMPT_BUNDLE_V1: PromptBundle = {
   facilitatorSetup: FACILITATOR_SETUP_V1,
   masterSystemPrompt: MASTER_SYSTEM_PROMPT_V1,
   postSessionRubric: POST_SESSION_RUBRIC_V1,
+  scoringRubric: DEFAULT_SCORING_RUBRIC,
   notes: "v1.7.0: Persona outcome bands with seeded variance, soft demo eligibility detection, realism improvements (no bullets/italics/parentheticals), tool specificity timing (1-2 turns)",
 };
 
@@ -1,26 +1,12 @@
-import { kv } from "@vercel/kv";
 import type { EnrichmentResult } from "./enrichmentTypes";
-import { getMemStore } from "../memoryStore";
-
-/**
- * KV is configured when Vercel/Upstash env vars are present.
- */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
-}
-
-/**
- * Helper to get in-memory store (now uses global shared store)
- */
-function getInMemoryStore() {
-  return getMemStore().enrichments;
-}
+import { getStorage } from "../persistence";
+import { keys } from "../persistence/keys";
 
 /**
  * Build cache key for enrichment
  */
 function buildKey(conferenceId: string, personaId: string): string {
-  return `enrichment:${conferenceId}:${personaId}`;
+  return keys.enrichment(conferenceId, personaId);
 }
 
 /**
@@ -30,13 +16,7 @@ export async function getEnrichment(
   conferenceId: string,
   personaId: string
 ): Promise<EnrichmentResult | null> {
-  const key = buildKey(conferenceId, personaId);
-
-  if (useKv()) {
-    return (await kv.get<EnrichmentResult>(key)) ?? null;
-  }
-
-  return getInMemoryStore().get(key) ?? null;
+  return getStorage().get<EnrichmentResult>(buildKey(conferenceId, personaId));
 }
 
 /**
@@ -45,13 +25,7 @@ export async function getEnrichment(
 export async function saveEnrichment(
   result: EnrichmentResult
 ): Promise<void> {
-  const key = buildKey(result.conferenceId, result.personaId);
-
-  if (useKv()) {
-    await kv.set(key, result);
-  } else {
-    getInMemoryStore().set(key, result);
-  }
+  await getStorage().set(buildKey(result.conferenceId, result.personaId), result);
 }
 
 /**
@@ -61,11 +35,5 @@ export async function invalidateEnrichment(
   conferenceId: string,
   personaId: string
 ): Promise<void> {
-  const key = buildKey(conferenceId, personaId);
-
-  if (useKv()) {
-    await kv.del(key);
-  } else {
-    getInMemoryStore().delete(key);
-  }
+  await getStorage().del(buildKey(conferenceId, personaId));
 }
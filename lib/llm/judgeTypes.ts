@@ -0,0 +1,39 @@
+/**
+ * Session Judge Types
+ * LLM-as-judge evaluation of a finished session against the prompt
+ * bundle's post-session rubric (see sessionJudge.ts)
+ */
+
+/** The judge scores each rubric criterion from 0 to this */
+export const JUDGE_DIMENSION_MAX = 10;
+
+/** One "- Label: description" line of PromptBundle.postSessionRubric */
+export interface JudgeCriterion {
+  /** Slug of the label, e.g. "discovery_quality" */
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface JudgeDimensionScore {
+  id: string;
+  label: string;
+  /** 0 to JUDGE_DIMENSION_MAX */
+  score: number;
+  rationale: string;
+  /** Verbatim transcript quotes the score rests on */
+  evidence: string[];
+}
+
+export interface SessionJudgment {
+  provider: "openai" | "mock";
+  model?: string;
+  /** Bundle whose postSessionRubric the session was judged against */
+  promptBundleId: string;
+  promptBundleVersion: string;
+  dimensions: JudgeDimensionScore[];
+  /** Mean dimension score on a 0-100 scale */
+  score: number;
+  rationale: string;
+  createdAt: string;
+}
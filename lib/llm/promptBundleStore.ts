@@ -1,43 +1,15 @@
 /**
- * Prompt bundle store - KV persistence in production, in-memory in development.
+ * Prompt bundle store - persisted through the configured storage adapter.
  *
  * Stores versioned prompt bundles that control the system prompt framework
  * for all simulator conversations.
  */
 
-import { kv } from "@vercel/kv";
-import { useKv } from "../kvConfig";
-import { getMemStore } from "../memoryStore";
+import { getStorage } from "../persistence";
+import { keys } from "../persistence/keys";
 import type { PromptBundle } from "./promptBundleTypes";
 import { getDefaultPromptBundle } from "./defaultPromptBundle";
-
-const PROMPT_BUNDLE_KEY_PREFIX = "prompt_bundle:";
-const PROMPT_BUNDLE_INDEX_KEY = "prompt_bundles:index";
-const ACTIVE_BUNDLE_KEY = "prompt_bundle:active";
-
-/**
- * Helper to get in-memory store (uses global shared store).
- */
-function getInMemoryStore() {
-  const mem = getMemStore();
-
-  // Initialize prompt bundle storage if not present
-  if (!mem.meta.promptBundles) {
-    mem.meta.promptBundles = new Map<string, PromptBundle>();
-  }
-  if (!mem.meta.promptBundleIndex) {
-    mem.meta.promptBundleIndex = [];
-  }
-  if (!mem.meta.activeBundleId) {
-    mem.meta.activeBundleId = "default";
-  }
-
-  return {
-    bundles: mem.meta.promptBundles as Map<string, PromptBundle>,
-    index: mem.meta.promptBundleIndex as string[],
-    activeBundleId: mem.meta.activeBundleId as string,
-  };
-}
+import { DEFAULT_SCORING_RUBRIC, type ScoringRubric } from "../scoringRubric";
 
 /**
  * Get a prompt bundle by ID.
@@ -50,20 +22,11 @@ function getInMemoryStore() {
 export async function getPromptBundle(
   bundleId: string = "default"
 ): Promise<PromptBundle> {
-  if (useKv()) {
-    const bundle = await kv.get<PromptBundle>(
-      `${PROMPT_BUNDLE_KEY_PREFIX}${bundleId}`
-    );
-    if (bundle) {
-      return bundle;
-    }
-  } else {
-    // In-memory development mode
-    const store = getInMemoryStore();
-    const bundle = store.bundles.get(bundleId);
-    if (bundle) {
-      return bundle;
-    }
+  const bundle = await getStorage().get<PromptBundle>(
+    keys.promptBundle(bundleId)
+  );
+  if (bundle) {
+    return bundle;
   }
 
   // Fallback to default if not found
@@ -79,15 +42,19 @@ export async function getPromptBundle(
  * @returns The active prompt bundle
  */
 export async function getActivePromptBundle(): Promise<PromptBundle> {
-  if (useKv()) {
-    const activeBundleId =
-      (await kv.get<string>(ACTIVE_BUNDLE_KEY)) || "default";
-    return getPromptBundle(activeBundleId);
-  } else {
-    // In-memory development mode
-    const store = getInMemoryStore();
-    return getPromptBundle(store.activeBundleId);
-  }
+  return getPromptBundle(await getActiveBundleId());
+}
+
+/**
+ * Get the scoring rubric of a bundle.
+ *
+ * Bundles saved before rubrics were added fall back to the default rubric.
+ *
+ * @param bundle - The prompt bundle
+ * @returns The bundle's scoring rubric
+ */
+export function getBundleScoringRubric(bundle: PromptBundle): ScoringRubric {
+  return bundle.scoringRubric ?? DEFAULT_SCORING_RUBRIC;
 }
 
 /**
@@ -107,33 +74,21 @@ export async function savePromptBundle(
     updatedAt: new Date().toISOString(),
   };
 
-  if (useKv()) {
-    // Save to KV
-    await kv.set(
-      `${PROMPT_BUNDLE_KEY_PREFIX}${bundle.id}`,
-      updatedBundle
-    );
-
-    // Update index if new
-    const index = (await kv.get<string[]>(PROMPT_BUNDLE_INDEX_KEY)) || [];
-    if (!index.includes(bundle.id)) {
-      index.push(bundle.id);
-      await kv.set(PROMPT_BUNDLE_INDEX_KEY, index);
-    }
-
-    console.log(`[PromptBundleStore] Saved bundle '${bundle.id}' to KV`);
-  } else {
-    // In-memory development mode
-    const store = getInMemoryStore();
-    store.bundles.set(bundle.id, updatedBundle);
-
-    if (!store.index.includes(bundle.id)) {
-      store.index.push(bundle.id);
-    }
-
-    console.log(`[PromptBundleStore] Saved bundle '${bundle.id}' to memory`);
+  const storage = getStorage();
+
+  await storage.set(keys.promptBundle(bundle.id), updatedBundle);
+
+  // Update index if new
+  const index = (await storage.get<string[]>(keys.promptBundleIndex())) || [];
+  if (!index.includes(bundle.id)) {
+    index.push(bundle.id);
+    await storage.set(keys.promptBundleIndex(), index);
   }
 
+  console.log(
+    `[PromptBundleStore] Saved bundle '${bundle.id}' (${storage.backend})`
+  );
+
   return updatedBundle;
 }
 
@@ -143,25 +98,13 @@ export async function savePromptBundle(
  * @returns Array of all prompt bundles
  */
 export async function listPromptBundles(): Promise<PromptBundle[]> {
-  if (useKv()) {
-    const index = (await kv.get<string[]>(PROMPT_BUNDLE_INDEX_KEY)) || [];
-    const bundles: PromptBundle[] = [];
-
-    for (const id of index) {
-      const bundle = await kv.get<PromptBundle>(
-        `${PROMPT_BUNDLE_KEY_PREFIX}${id}`
-      );
-      if (bundle) {
-        bundles.push(bundle);
-      }
-    }
-
-    return bundles;
-  } else {
-    // In-memory development mode
-    const store = getInMemoryStore();
-    return Array.from(store.bundles.values());
-  }
+  const storage = getStorage();
+  const index = (await storage.get<string[]>(keys.promptBundleIndex())) || [];
+  const bundles = await storage.mget<PromptBundle>(
+    index.map((id) => keys.promptBundle(id))
+  );
+
+  return bundles.filter((bundle): bundle is PromptBundle => bundle !== null);
 }
 
 /**
@@ -175,15 +118,11 @@ export async function setActivePromptBundle(bundleId: string): Promise<void> {
   // Verify the bundle exists
   await getPromptBundle(bundleId);
 
-  if (useKv()) {
-    await kv.set(ACTIVE_BUNDLE_KEY, bundleId);
-    console.log(`[PromptBundleStore] Set active bundle to '${bundleId}' in KV`);
-  } else {
-    // In-memory development mode
-    const mem = getMemStore();
-    mem.meta.activeBundleId = bundleId;
-    console.log(`[PromptBundleStore] Set active bundle to '${bundleId}' in memory`);
-  }
+  const storage = getStorage();
+  await storage.set(keys.activePromptBundle(), bundleId);
+  console.log(
+    `[PromptBundleStore] Set active bundle to '${bundleId}' (${storage.backend})`
+  );
 }
 
 /**
@@ -192,12 +131,7 @@ export async function setActivePromptBundle(bundleId: string): Promise<void> {
  * @returns The ID of the active bundle
  */
 export async function getActiveBundleId(): Promise<string> {
-  if (useKv()) {
-    return (await kv.get<string>(ACTIVE_BUNDLE_KEY)) || "default";
-  } else {
-    const store = getInMemoryStore();
-    return store.activeBundleId;
-  }
+  return (await getStorage().get<string>(keys.activePromptBundle())) || "default";
 }
 
 /**
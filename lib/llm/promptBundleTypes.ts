@@ -6,6 +6,9 @@
  * editable, and stored server-side to allow prompt iteration without code changes.
  */
 
+import type { EngagementLevel } from "../engagement";
+import type { ScoringRubric } from "../scoringRubric";
+
 export interface PromptBundle {
   /** Unique identifier (e.g., 'default', 'v1', 'v2-experimental') */
   id: string;
@@ -31,11 +34,19 @@ export interface PromptBundle {
   masterSystemPrompt: string;
 
   /**
-   * Optional post-session rubric - scoring guidelines or evaluation
-   * criteria for assessing trainee performance (future use).
+   * Optional post-session rubric - evaluation criteria the LLM judge scores
+   * finished sessions against, one "- Label: description" line per
+   * criterion (see lib/llm/sessionJudge.ts).
    */
   postSessionRubric?: string;
 
+  /**
+   * Optional scoring rubric - dimensions, signal patterns, points and grade
+   * rules scoreSession evaluates (see lib/scoringRubric.ts). Bundles without
+   * one score with DEFAULT_SCORING_RUBRIC.
+   */
+  scoringRubric?: ScoringRubric;
+
   /**
    * Optional notes - internal documentation about changes, experiments,
    * or rationale for this bundle version.
@@ -107,6 +118,32 @@ export interface PromptRuntimeContext {
    * Stakeholder type - executive, IC without authority, or unknown
    */
   stakeholderType?: string;
+
+  /**
+   * Attendee patience meter (0-100) and its level - wavering or disengaged
+   * attendees cool off or walk away
+   */
+  engagement?: {
+    value: number;
+    level: EngagementLevel;
+  };
+
+  /**
+   * Group sessions - who is speaking this turn and who else is at the booth
+   */
+  group?: {
+    speaker: string;
+    others: Array<{ displayName: string; stakeholderType: string }>;
+  };
+
+  /**
+   * Seeded interruption - what came up and how many replies the attendee has
+   * left before leaving (0 = leaving now)
+   */
+  interruption?: {
+    context: string;
+    turnsLeft: number;
+  };
 }
 
 /**
@@ -16,9 +16,11 @@ import type {
 } from "./promptBundleTypes";
 import type { EnrichmentResult } from "./enrichmentTypes";
 import {
+  SIMULATOR_CONFIG,
   renderSimulatorRules,
   renderStateBehavior,
   getBannedKeywords,
+  type SimulatorConfig,
 } from "../simulatorConfig";
 import { getActivePromptBundle } from "./promptBundleStore";
 
@@ -31,12 +33,14 @@ import { getActivePromptBundle } from "./promptBundleStore";
  * @param context - Runtime context (conference, persona, state, etc.)
  * @param conversationHistory - Recent message history
  * @param bundle - Optional specific bundle (defaults to active bundle)
+ * @param config - The session's simulator config (defaults to the bundled config)
  * @returns Composed system prompt
  */
 export async function composeAttendeeSystemPrompt(
   context: PromptRuntimeContext,
   conversationHistory: Array<{ role: string; content: string }>,
-  bundle?: PromptBundle
+  bundle?: PromptBundle,
+  config: SimulatorConfig = SIMULATOR_CONFIG
 ): Promise<ComposedSystemPrompt> {
   // Get active bundle if not provided
   const promptBundle = bundle || (await getActivePromptBundle());
@@ -51,11 +55,11 @@ export async function composeAttendeeSystemPrompt(
   sections.push(promptBundle.masterSystemPrompt);
 
   // 3. Structured rules from simulator config
-  const configRules = renderSimulatorRules();
+  const configRules = renderSimulatorRules(config);
   sections.push(configRules);
 
   // 4. Current state behavior
-  const stateBehavior = renderStateBehavior(context.sessionState);
+  const stateBehavior = renderStateBehavior(context.sessionState, config);
   sections.push(stateBehavior);
 
   // 5. Scenario context (conference + persona + difficulty)
@@ -118,6 +122,43 @@ Offer to connect with their manager, team lead, or decision maker.
 Badge scan + manager follow-up is a SUCCESS outcome (MQL_READY).`);
   }
 
+  // 7e. Engagement meter (patience running out)
+  if (context.engagement?.level === "wavering") {
+    sections.push(`\n⏳ PATIENCE WEARING THIN (engagement ${context.engagement.value}/100)
+The trainee has been pitching, talking at length, or repeating themselves.
+Your attention is drifting. Keep replies short and noticeably cooler, glance at the next booth or your phone.
+Warm up again only if they genuinely listen or ask about your situation.`);
+  } else if (context.engagement?.level === "disengaged") {
+    sections.push(`\n🚶 WALKING AWAY (engagement ${context.engagement.value}/100)
+You have lost interest in this conversation. Politely end it now and leave the booth
+(e.g. "I should get to the next session, thanks"). Do not ask questions or reopen the conversation.`);
+  }
+
+  // 7f. Group session (several attendees at the booth)
+  if (context.group) {
+    const others = context.group.others
+      .map((other) => `${other.displayName} (${other.stakeholderType.replace(/_/g, " ")})`)
+      .join(", ");
+    sections.push(`\n👥 GROUP CONVERSATION
+You are the ${context.group.speaker}. Also at the booth with you: ${others}.
+Your colleagues' lines appear in the conversation prefixed with their title.
+Speak only as yourself and from your own priorities. You may react briefly to what a colleague said,
+but never answer for them.`);
+  }
+
+  // 7g. Interruption (attendee has to leave soon)
+  if (context.interruption) {
+    sections.push(context.interruption.turnsLeft === 0
+      ? `\n⏰ LEAVING NOW
+${context.interruption.context}
+Your time is up. Wrap up in one short line and leave the booth. Only commit to a next step
+(badge scan, follow-up, demo) if the trainee has already offered one you want.`
+      : `\n⏰ SHORT ON TIME (${context.interruption.turnsLeft} more ${context.interruption.turnsLeft === 1 ? "reply" : "replies"} before you leave)
+${context.interruption.context}
+Keep replies short. Respond well to a trainee who notices and gets to the point;
+lose patience with one who keeps doing discovery or pitching at length.`);
+  }
+
   // 8. Recent conversation history
   const recentHistory = conversationHistory.slice(-12);
   if (recentHistory.length > 0) {
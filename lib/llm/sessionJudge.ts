@@ -0,0 +1,279 @@
+/**
+ * Session Judge
+ * LLM-as-judge evaluation of a finished session: the transcript and the
+ * prompt bundle's post-session rubric go to the ChatProvider, which replies
+ * with a score, rationale and evidence quotes per rubric criterion.
+ *
+ * MockSessionJudge scores deterministically from keyword cues, for offline
+ * use (no API key, offline replays). How the judge's score combines with the
+ * heuristic one is the scoring rubric's judge setting (see lib/scoringRubric.ts).
+ */
+
+import type { SessionState } from "../storage";
+import type { ScoringRubric } from "../scoringRubric";
+import { getChatProvider, type ChatProvider } from "./chatProvider";
+import type { PromptBundle } from "./promptBundleTypes";
+import {
+  JUDGE_DIMENSION_MAX,
+  type JudgeCriterion,
+  type JudgeDimensionScore,
+  type SessionJudgment,
+} from "./judgeTypes";
+
+export interface SessionJudge {
+  judge(session: SessionState, bundle: PromptBundle): Promise<SessionJudgment>;
+}
+
+/** Evidence quotes kept per criterion */
+const MAX_EVIDENCE = 3;
+/** Longest evidence quote (characters) */
+const MAX_QUOTE_LENGTH = 200;
+
+/**
+ * Criteria from the rubric text, one per "- Label: description" line.
+ * A rubric without such lines is judged as a single "overall" criterion.
+ */
+export function parseJudgeCriteria(rubricText?: string): JudgeCriterion[] {
+  const criteria: JudgeCriterion[] = [];
+  for (const line of (rubricText ?? "").split("\n")) {
+    const match = /^\s*[-*]\s*([^:]+):\s*(.+)$/.exec(line);
+    if (!match) continue;
+    const label = match[1].trim();
+    const id = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+    if (id && !criteria.some((c) => c.id === id)) {
+      criteria.push({ id, label, description: match[2].trim() });
+    }
+  }
+
+  return criteria.length > 0
+    ? criteria
+    : [{ id: "overall", label: "Overall", description: rubricText?.trim() || "Overall conversation quality" }];
+}
+
+function traineeMessages(session: SessionState): string[] {
+  return session.transcript.filter((m) => m.type === "trainee").map((m) => m.text);
+}
+
+function quote(text: string): string {
+  return text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH - 3)}...` : text;
+}
+
+function toJudgment(
+  bundle: PromptBundle,
+  dimensions: JudgeDimensionScore[],
+  rationale: string,
+  provider: SessionJudgment["provider"],
+  model?: string
+): SessionJudgment {
+  const mean = dimensions.reduce((sum, d) => sum + d.score, 0) / dimensions.length;
+  return {
+    provider,
+    ...(model ? { model } : {}),
+    promptBundleId: bundle.id,
+    promptBundleVersion: bundle.version,
+    dimensions,
+    score: Math.round((mean / JUDGE_DIMENSION_MAX) * 100),
+    rationale,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Keyword cues per criterion for the mock judge, matched against the
+ * criterion's id. Penalty cues lower the score (pitching, for guardrails).
+ */
+const MOCK_CUES: Array<{ criterion: RegExp; cue: RegExp; penalty?: boolean }> = [
+  {
+    criterion: /listen/,
+    cue: /what i'm hearing|sounds like|so you're saying|if i understand|let me make sure|to clarify/i,
+  },
+  {
+    criterion: /empath/,
+    cue: /\b(understand|makes sense|frustrat\w*|that's (tough|hard|rough)|i hear you|sorry)\b/i,
+  },
+  { criterion: /discover/, cue: /\b(what|how|why|where|when|who|tell me|walk me)\b[^.!?]*\?/i },
+  { criterion: /persona|align/, cue: /\byour (team|role|stack|org|company|setup|on-?call)\b/i },
+  { criterion: /otel|assumption/, cue: /\b(otel|opentelemetry|instrument\w*)\b[\s\S]*\?/i },
+  {
+    criterion: /guardrail|pitch/,
+    cue: /\b(honeycomb|our (product|platform|tool)|feature|pricing|sign up|free trial)\b/i,
+    penalty: true,
+  },
+];
+
+/**
+ * Deterministic judge for offline use: counts keyword cues in the trainee's
+ * messages per criterion (questions for criteria it doesn't recognise)
+ */
+export class MockSessionJudge implements SessionJudge {
+  async judge(session: SessionState, bundle: PromptBundle): Promise<SessionJudgment> {
+    const messages = traineeMessages(session);
+
+    const dimensions = parseJudgeCriteria(bundle.postSessionRubric).map(
+      (criterion): JudgeDimensionScore => {
+        const rule: { cue: RegExp; penalty?: boolean } =
+          MOCK_CUES.find((c) => c.criterion.test(criterion.id)) ?? { cue: /\?/ };
+        const matches = messages.filter((m) => rule.cue.test(m));
+        const label = criterion.label.toLowerCase();
+
+        if (rule.penalty) {
+          const violations = session.violations.length;
+          return {
+            id: criterion.id,
+            label: criterion.label,
+            score: Math.max(0, JUDGE_DIMENSION_MAX - 2 * matches.length - 2 * violations),
+            rationale:
+              matches.length + violations === 0
+                ? `No ${label} issues found.`
+                : `${matches.length} message(s) leaned into product talk; ${violations} guardrail violation(s).`,
+            evidence: matches.slice(0, MAX_EVIDENCE).map(quote),
+          };
+        }
+
+        return {
+          id: criterion.id,
+          label: criterion.label,
+          score: messages.length === 0 ? 0 : Math.min(JUDGE_DIMENSION_MAX, 2 + 2 * matches.length),
+          rationale: `${matches.length} of ${messages.length} trainee message(s) show ${label} cues.`,
+          evidence: matches.slice(0, MAX_EVIDENCE).map(quote),
+        };
+      }
+    );
+
+    return toJudgment(
+      bundle,
+      dimensions,
+      `Mock judge: keyword cues in ${messages.length} trainee message(s); no model was called.`,
+      "mock"
+    );
+  }
+}
+
+function formatTranscript(session: SessionState): string {
+  return session.transcript
+    .map((m) => {
+      if (m.type === "trainee") return `Trainee: ${m.text}`;
+      if (m.type === "system") return `[${m.text}]`;
+      const speaker = session.attendees?.find((a) => a.id === m.speakerId)?.displayName;
+      return `${speaker ? `Attendee (${speaker})` : "Attendee"}: ${m.text}`;
+    })
+    .join("\n");
+}
+
+function buildJudgePrompt(criteria: JudgeCriterion[], rubricText: string): string {
+  return `
+You evaluate a booth-conversation training session. The trainee staffs a conference booth; the attendee is simulated. Judge the trainee only, against this rubric:
+
+${rubricText}
+
+Score each criterion from 0 (absent) to ${JUDGE_DIMENSION_MAX} (excellent). Back every score with up to ${MAX_EVIDENCE} short quotes copied verbatim from the transcript.
+
+Respond with a JSON object only, no additional text:
+{
+  "dimensions": [
+${criteria.map((c) => `    { "id": "${c.id}", "score": 0, "rationale": "one or two sentences", "evidence": ["verbatim quote"] }`).join(",\n")}
+  ],
+  "rationale": "two or three sentences on the conversation overall"
+}
+`.trim();
+}
+
+/** Case- and whitespace-insensitive form for finding quotes in the transcript */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Judge backed by the ChatProvider. A missing or unparseable reply throws,
+ * so the session stays unjudged instead of getting a mock score blended into
+ * a real grade. Evidence not found in the transcript is dropped.
+ */
+export class ChatSessionJudge implements SessionJudge {
+  constructor(private provider: ChatProvider) {}
+
+  async judge(session: SessionState, bundle: PromptBundle): Promise<SessionJudgment> {
+    const criteria = parseJudgeCriteria(bundle.postSessionRubric);
+    const transcript = formatTranscript(session);
+
+    const result = await this.provider.generate({
+      systemPrompt: buildJudgePrompt(criteria, bundle.postSessionRubric ?? criteria[0].description),
+      conversation: [{ role: "user", content: `Transcript:\n${transcript}` }],
+      sessionId: session.id,
+      maxTokens: 1200,
+      temperature: 0,
+      json: true,
+    });
+
+    // The chat provider answers with its mock when the model call fails
+    if (result.provider !== "openai") {
+      throw new Error(`No judge reply from the model (provider: ${result.provider})`);
+    }
+
+    let parsed;
+    try {
+      parsed = JSON.parse(result.text);
+    } catch {
+      throw new Error("Judge reply is not valid JSON");
+    }
+    if (!Array.isArray(parsed.dimensions)) {
+      throw new Error("Judge reply is missing dimensions");
+    }
+
+    const searchable = normalize(transcript);
+    const dimensions = criteria.map((criterion): JudgeDimensionScore => {
+      const scored = parsed.dimensions.find((d: { id?: unknown }) => d?.id === criterion.id);
+      const score = Number(scored?.score);
+      if (!scored || !Number.isFinite(score)) {
+        throw new Error(`Judge reply is missing a score for ${criterion.id}`);
+      }
+      return {
+        id: criterion.id,
+        label: criterion.label,
+        score: Math.min(JUDGE_DIMENSION_MAX, Math.max(0, Math.round(score))),
+        rationale: String(scored.rationale ?? ""),
+        evidence: (Array.isArray(scored.evidence) ? scored.evidence : [])
+          .map((e: unknown) => String(e).replace(/^["']|["']$/g, ""))
+          .filter((e: string) => e.trim() && searchable.includes(normalize(e)))
+          .slice(0, MAX_EVIDENCE)
+          .map(quote),
+      };
+    });
+
+    return toJudgment(bundle, dimensions, String(parsed.rationale ?? ""), "openai", result.model);
+  }
+}
+
+/**
+ * Get Session Judge
+ * Default: MockSessionJudge
+ * Judge with OpenAI: CHAT_PROVIDER=openai + OPENAI_API_KEY set
+ */
+export function getSessionJudge(): SessionJudge {
+  if (process.env.CHAT_PROVIDER !== "openai" || !process.env.OPENAI_API_KEY) {
+    return new MockSessionJudge();
+  }
+  return new ChatSessionJudge(getChatProvider());
+}
+
+/**
+ * Judge a session unless the rubric turns the judge off. A judge that
+ * fails leaves the session unjudged rather than failing the score.
+ */
+export async function judgeSession(
+  session: SessionState,
+  bundle: PromptBundle,
+  rubric: ScoringRubric,
+  judge: SessionJudge = getSessionJudge()
+): Promise<SessionJudgment | undefined> {
+  if (rubric.judge?.mode === "off") return undefined;
+
+  try {
+    return await judge.judge(session, bundle);
+  } catch (error) {
+    console.error("[SessionJudge] Judging failed:", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      sessionId: session.id,
+    });
+    return undefined;
+  }
+}
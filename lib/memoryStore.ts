@@ -8,36 +8,28 @@
  *
  * Solution: Use globalThis to share a single memory store across all modules
  * in the same Node process. All routes read/write from the same Maps.
+ *
+ * Workspaces share the kv Map (their keys carry a workspace prefix) but each
+ * gets its own meta (caches), keyed by workspace ID.
  */
 
-import type { Conference, Persona } from "./scenarioTypes";
-import type { Trainee } from "./traineeStore";
-import type { SessionState } from "./storage";
-import type { InviteRecord } from "./invites";
-import type { EnrichmentResult } from "./llm/enrichmentTypes";
-import type { PromptBundle } from "./llm/promptBundleTypes";
+import { currentWorkspaceId } from "./persistence/workspaceScope";
+
+/**
+ * Per-workspace in-process caches
+ */
+export interface WorkspaceMeta {
+  bootstrapCache?: any;
+  bootstrapCacheAt?: number;
+}
 
 /**
  * Global memory store structure
  */
 export interface GlobalMemoryStore {
-  conferences: Map<string, Conference>;
-  conferenceIndex: string[];
-  personas: Map<string, Persona>;
-  personaIndex: string[];
-  trainees: Map<string, Trainee>;
-  traineeIndex: string[];
-  sessions: Map<string, SessionState>;
-  invites: Map<string, InviteRecord>;
-  inviteIndex: Map<string, string>; // token -> sessionId
-  enrichments: Map<string, EnrichmentResult>;
-  meta: {
-    bootstrapCache?: any;
-    bootstrapCacheAt?: number;
-    promptBundles?: Map<string, PromptBundle>;
-    promptBundleIndex?: string[];
-    activeBundleId?: string;
-  };
+  // Key-value entries for the in-memory storage adapter (same keys as KV)
+  kv: Map<string, unknown>;
+  meta: Map<string, WorkspaceMeta>;
 }
 
 /**
@@ -55,33 +47,36 @@ export function getMemStore(): GlobalMemoryStore {
   if (!globalThis.__HC_SIM_MEM__) {
     console.log("[MemoryStore] Initializing global shared memory store");
     globalThis.__HC_SIM_MEM__ = {
-      conferences: new Map(),
-      conferenceIndex: [],
-      personas: new Map(),
-      personaIndex: [],
-      trainees: new Map(),
-      traineeIndex: [],
-      sessions: new Map(),
-      invites: new Map(),
-      inviteIndex: new Map(),
-      enrichments: new Map(),
-      meta: {},
+      kv: new Map(),
+      meta: new Map(),
     };
   }
   return globalThis.__HC_SIM_MEM__;
 }
 
+/**
+ * Get the caches for the current workspace
+ */
+export function getWorkspaceMeta(): WorkspaceMeta {
+  const store = getMemStore();
+  const workspaceId = currentWorkspaceId();
+  if (!store.meta.has(workspaceId)) {
+    store.meta.set(workspaceId, {});
+  }
+  return store.meta.get(workspaceId)!;
+}
+
 /**
  * Invalidate bootstrap cache
  * Called when data changes (trainee/persona/conference created/updated)
  * Ensures Builder sees fresh data immediately
  */
 export function invalidateBootstrapCache(): void {
-  const store = getMemStore();
-  if (store.meta.bootstrapCache) {
+  const meta = getWorkspaceMeta();
+  if (meta.bootstrapCache) {
     console.log("[MemoryStore] Bootstrap cache invalidated");
-    store.meta.bootstrapCache = undefined;
-    store.meta.bootstrapCacheAt = undefined;
+    meta.bootstrapCache = undefined;
+    meta.bootstrapCacheAt = undefined;
   }
 }
 
@@ -89,13 +84,13 @@ export function invalidateBootstrapCache(): void {
  * Get bootstrap cache if valid
  */
 export function getBootstrapCache(): any | null {
-  const store = getMemStore();
+  const meta = getWorkspaceMeta();
   if (
-    store.meta.bootstrapCache &&
-    store.meta.bootstrapCacheAt &&
-    Date.now() < store.meta.bootstrapCacheAt
+    meta.bootstrapCache &&
+    meta.bootstrapCacheAt &&
+    Date.now() < meta.bootstrapCacheAt
   ) {
-    return store.meta.bootstrapCache;
+    return meta.bootstrapCache;
   }
   return null;
 }
@@ -104,7 +99,7 @@ export function getBootstrapCache(): any | null {
  * Set bootstrap cache with TTL
  */
 export function setBootstrapCache(data: any, ttlMs: number): void {
-  const store = getMemStore();
-  store.meta.bootstrapCache = data;
-  store.meta.bootstrapCacheAt = Date.now() + ttlMs;
+  const meta = getWorkspaceMeta();
+  meta.bootstrapCache = data;
+  meta.bootstrapCacheAt = Date.now() + ttlMs;
 }
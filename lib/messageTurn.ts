@@ -0,0 +1,761 @@
+/**
+ * One trainee turn of a live session: analysis, engagement, interruptions,
+ * the attendee reply (template or chat provider), state transition and
+ * outcome/CTA detection.
+ *
+ * Mutates the session and appends to `events`; the caller persists both.
+ * Shared by the message route and the offline replay engine
+ * (lib/offlineReplay.ts), which swaps in a mock or recorded chat provider and
+ * a pinned prompt bundle.
+ */
+
+import { randomUUID } from "crypto";
+import type { Span } from "@opentelemetry/api";
+import type { SessionState } from "./storage";
+import type { SessionEventInput } from "./sessionEvents";
+import {
+  analyzeTraineeMessage,
+  evaluateStateTransition,
+  hasExceededTurnLimit,
+  detectSelfServiceCues,
+  detectMQLCues,
+  detectDeferredInterestCues,
+  detectStakeholderType,
+  determineOutcome,
+  determineBandedOutcome,
+} from "./simulator";
+import type { SimulatorConfig } from "./simulatorConfig";
+import { getSessionEngagement, scoreEngagementTurn } from "./engagement";
+import { getInterruptionTurnsLeft, rollInterruption } from "./interruptions";
+import {
+  attendeeSessionView,
+  combineAttendeeOutcomes,
+  getGroupState,
+  isGroupSession,
+  pickNextSpeaker,
+} from "./multiAttendee";
+import { getChatProvider, MockChatProvider, type ChatProvider } from "./llm/chatProvider";
+import type { ChatInput } from "./llm/chatTypes";
+import { withChildSpan } from "./telemetry";
+import { getEnrichment } from "./llm/enrichmentStore";
+import { composeAttendeeSystemPrompt } from "./llm/promptComposer";
+import type { PromptBundle, PromptRuntimeContext } from "./llm/promptBundleTypes";
+import { getOutcomeAction, shouldShowCompletionCTA } from "./outcomeActions";
+import { generateAttendeeReply } from "./attendee/generateAttendeeReply";
+import { postProcessAttendeeText } from "./attendee/postProcess";
+import { detectCommittedOutcome } from "./outcomeCommitment";
+import { isEvaluationQuestion } from "./outcomeEvaluation";
+import { buildCoachingHint, isCoachedSession, type CoachingHint } from "./coaching";
+
+/**
+ * Simple canned responses keyed by simulator state (last-resort fallback
+ * when every chat provider fails).
+ */
+const MOCK_RESPONSES: Record<string, string[]> = {
+  ICEBREAKER: [
+    "Hey. Quick lap between talks. What are you all covering here?",
+    "Hi. I’ve got a minute. What’s the focus?",
+    "I’m trying not to get pulled into a pitch — what do you all do?",
+  ],
+  EXPLORATION: [
+    "I’m an SRE. Mostly incident response and trying to reduce toil.",
+    "We run Prometheus + Grafana, plus logs in ELK. It’s… fine.",
+    "My day is a mix of on-call, reliability reviews, and trying to tame alerts.",
+  ],
+  PAIN_DISCOVERY: [
+    "We had an outage recently and it was a mess to sort through.",
+    "Alert fatigue is real. Lots of noise, not enough signal.",
+    "We spend too long figuring out where to start instead of fixing.",
+  ],
+  SOLUTION_FRAMING: [
+    "Maybe. How does that help during an incident, not just after?",
+    "I’m skeptical of anything that sounds like a silver bullet.",
+    "What’s the overhead for engineers to adopt it?",
+  ],
+  OUTCOME: [
+    "I can spare a few minutes if it’s focused.",
+    "This sounds interesting—can we follow up after the conference?",
+    "I should run, but appreciate the quick overview.",
+  ],
+};
+
+function pickMockResponse(state: string) {
+  const options = MOCK_RESPONSES[state] ?? MOCK_RESPONSES.ICEBREAKER;
+  return options[Math.floor(Math.random() * options.length)];
+}
+
+export interface MessageTurnOptions {
+  /** The session's simulator config (rule overrides applied) */
+  config: SimulatorConfig;
+  span: Span;
+  /** Defaults to getChatProvider() */
+  chatProvider?: ChatProvider;
+  /** Defaults to the active prompt bundle */
+  promptBundle?: PromptBundle;
+}
+
+export interface MessageTurnEndPrompt {
+  outcome: string;
+  actionLabel: string;
+  actionType: string;
+  tooltip?: string;
+}
+
+export interface MessageTurnResult {
+  attendeeMsg: SessionState["transcript"][number];
+  /** Eligible outcome this turn ("UNKNOWN" if none) */
+  outcome: string;
+  /** Completion CTA, when the attendee committed */
+  endPrompt: MessageTurnEndPrompt | null;
+  chatMeta?: { provider: string; model?: string };
+  /** Coaching mode only: hint to show after the reply */
+  coachingHint?: CoachingHint;
+}
+
+/**
+ * Run one trainee message through the simulator
+ *
+ * @param session - Live session (mutated)
+ * @param message - The trainee message
+ * @param events - Event batch for this write (appended to)
+ */
+export async function runMessageTurn(
+  session: SessionState,
+  message: string,
+  events: SessionEventInput[],
+  options: MessageTurnOptions
+): Promise<MessageTurnResult> {
+  const { config, span } = options;
+
+  // Group sessions: one attendee answers each turn; the rest of the turn
+  // runs against that attendee's view (profile, enrichment, state)
+  const turnPick = isGroupSession(session)
+    ? pickNextSpeaker(session.attendees, session.transcript, message)
+    : null;
+  const speaker = turnPick?.speaker;
+  if (turnPick) {
+    span.setAttribute("attendee_count", session.attendees!.length);
+    span.setAttribute("speaker_id", turnPick.speaker.id);
+    span.setAttribute("speaker_reason", turnPick.reason);
+
+    // Lead enrichment is the caller's job; others only come from the
+    // cache (invite creation warms it)
+    const isLead = turnPick.speaker.id === session.attendees![0].id;
+    if (!isLead && !turnPick.speaker.enrichment && session.kickoff.conferenceId && turnPick.speaker.personaId) {
+      try {
+        const enrichment = await getEnrichment(session.kickoff.conferenceId, turnPick.speaker.personaId);
+        if (enrichment) {
+          turnPick.speaker.enrichment = enrichment;
+          events.push({
+            type: "enrichment_attached",
+            source: "cache",
+            enrichment,
+            attendeeId: turnPick.speaker.id,
+          });
+        }
+      } catch (error) {
+        console.error("[message] Failed to load attendee enrichment:", error);
+      }
+    }
+  }
+  const view = speaker ? attendeeSessionView(session, speaker) : session;
+
+  // 1) Add trainee message to transcript
+  const traineeMsg = {
+    id: randomUUID(),
+    type: "trainee" as const,
+    text: message,
+    timestamp: new Date().toISOString(),
+    ...(turnPick ? { addressedTo: turnPick.addressedTo } : {}),
+  };
+  session.transcript.push(traineeMsg);
+  events.push({ type: "message_received", message: traineeMsg });
+
+  // 2) Analyze trainee message (your rules engine)
+  const analyzedState = view.currentState;
+  const analysis = analyzeTraineeMessage(message, analyzedState, config);
+
+  // 3) Track violations (FIXED: removed stray '.' and use push(...spread))
+  if (analysis.issues?.length > 0) {
+    session.violations.push(...analysis.issues);
+    span.setAttribute("violations_count", session.violations.length);
+  }
+
+  // 3a) Check turn limits
+  const traineeMessageCount = session.transcript.filter((m) => m.type === "trainee").length;
+  const turnLimitExceeded = hasExceededTurnLimit(
+    traineeMessageCount,
+    session.kickoff.difficulty,
+    config
+  );
+
+  if (turnLimitExceeded) {
+    span.setAttribute("turn_limit_exceeded", true);
+    span.setAttribute("trainee_turns", traineeMessageCount);
+  }
+
+  // 3b) Detect self-service cues
+  const selfServiceDetected = detectSelfServiceCues(message, config);
+  if (selfServiceDetected) {
+    span.setAttribute("self_service_cues_detected", true);
+  }
+
+  // 3c) Detect MQL cues with detailed matching (now includes near-term intent)
+  const mqlResult = detectMQLCues(message, config);
+  if (mqlResult.detected) {
+    span.setAttribute("mql_cues_detected", true);
+    span.setAttribute("mql_matched_cues", mqlResult.matched.join(", "));
+    span.setAttribute("mql_match_count", mqlResult.matched.length);
+    span.setAttribute("mql_near_term_intent", mqlResult.hasNearTermIntent);
+  }
+
+  // 3d) Detect deferred interest cues
+  const deferredInterestDetected = detectDeferredInterestCues(message, config);
+  if (deferredInterestDetected) {
+    span.setAttribute("deferred_interest_cues_detected", true);
+  }
+
+  // 3e) Detect stakeholder type from persona + transcript signals
+  // Build recent transcript for analysis (last 3 messages)
+  const recentTranscript = session.transcript
+    .slice(-3)
+    .map((m) => m.text)
+    .join(" ");
+  const stakeholderType = detectStakeholderType(
+    view.kickoff.attendeeProfile,
+    recentTranscript,
+    config
+  );
+  if (stakeholderType !== "unknown") {
+    span.setAttribute("stakeholder_type", stakeholderType);
+  }
+
+  // 3f) Move the attendee's patience meter (walks away when it runs out)
+  const earlierTraineeMessages = session.transcript
+    .filter((m) => m.type === "trainee" && m.id !== traineeMsg.id)
+    .map((m) => m.text);
+  const engagementTurn = scoreEngagementTurn(
+    getSessionEngagement(session, config),
+    message,
+    analysis,
+    earlierTraineeMessages,
+    config
+  );
+  session.engagement = engagementTurn.value;
+  const walkedAway = engagementTurn.level === "disengaged";
+  span.setAttribute("engagement", engagementTurn.value);
+  span.setAttribute("engagement_level", engagementTurn.level);
+
+  events.push({
+    type: "analysis_result",
+    state: view.currentState,
+    ...analysis,
+    signals: {
+      turnLimitExceeded,
+      selfServiceDetected,
+      mql: mqlResult,
+      deferredInterestDetected,
+      stakeholderType,
+    },
+  });
+  events.push({ type: "engagement_updated", ...engagementTurn });
+
+  // 3g) Seeded interruptions ("my talk starts in five minutes"): the
+  // attendee leaves once the countdown runs out unless an outcome has
+  // already been committed
+  const traineeTurn = session.transcript.filter((m) => m.type === "trainee").length;
+  if (!session.interruption && session.outcomeSeed) {
+    const rolled = rollInterruption(session.outcomeSeed, traineeTurn, session.kickoff.difficulty, config);
+    if (rolled) {
+      session.interruption = {
+        kind: rolled.kind,
+        atTurn: traineeTurn,
+        turnsLeft: rolled.event.turns_left,
+        attendeeContext: rolled.event.attendee_context,
+      };
+      const interruptionMsg = {
+        id: randomUUID(),
+        type: "system" as const,
+        text: rolled.event.system_message,
+        timestamp: new Date().toISOString(),
+      };
+      session.transcript.push(interruptionMsg);
+      events.push({ type: "interruption_triggered", ...session.interruption, message: interruptionMsg });
+      span.setAttribute("interruption_kind", rolled.kind);
+    }
+  }
+  const interruptionTurnsLeft = session.interruption
+    ? getInterruptionTurnsLeft(session.interruption, traineeTurn)
+    : undefined;
+  const interruptionExpired =
+    interruptionTurnsLeft === 0 && (!session.pendingOutcome || session.pendingOutcome === "POLITE_EXIT");
+  const leaving = walkedAway || interruptionExpired;
+  if (interruptionTurnsLeft !== undefined) {
+    span.setAttribute("interruption_turns_left", interruptionTurnsLeft);
+  }
+
+  // 4) Build conversation history for ChatProvider (excluding system messages)
+  // Group sessions: the other attendees' lines are labelled with their title
+  const speakerName = (speakerId?: string) =>
+    session.attendees?.find((a) => a.id === speakerId)?.displayName;
+  const conversationHistory = session.transcript
+    .filter((m) => m.type !== "system")
+    .map((m) => ({
+      role: m.type === "trainee" ? ("user" as const) : ("assistant" as const),
+      content:
+        speaker && m.type === "attendee" && m.speakerId && m.speakerId !== speaker.id
+          ? `(${speakerName(m.speakerId)}) ${m.text}`
+          : m.text,
+    }));
+
+  span.setAttribute("conversation_length", conversationHistory.length);
+
+  // 5) Generate attendee response (template-based with LLM fallback)
+  let attendeeResponseText: string = "";
+  let chatMeta: { provider: string; model?: string } | undefined;
+  let attendeeReplySource: "template" | "llm" = "llm";
+  let attendeeIntent: string | undefined;
+  let attendeeIntentConfidence: number | undefined;
+
+  // Count trainee turns for deterministic variant selection
+  const traineeTurnCount = session.transcript.filter((m) => m.type === "trainee").length;
+
+  // Try template-based response first (not when walking away or
+  // interrupted: the templates would keep the conversation going)
+  const templateResult = leaving || session.interruption
+    ? null
+    : generateAttendeeReply({
+        traineeText: message,
+        session: view,
+        traineeTurnCount,
+      });
+  // Templates may establish tooling context on the view
+  session.toolingContext = view.toolingContext;
+
+  if (templateResult) {
+    // Use template-based response
+    attendeeResponseText = templateResult.text;
+    attendeeReplySource = templateResult.source;
+    attendeeIntent = templateResult.intent;
+    attendeeIntentConfidence = templateResult.confidence;
+
+    // Track expressed intent (for exhaustion prevention)
+    const recordIntent = Boolean(
+      attendeeIntent && attendeeIntentConfidence && attendeeIntentConfidence >= 0.8
+    );
+    if (attendeeIntent && recordIntent) {
+      if (!session.expressedIntents) {
+        session.expressedIntents = [];
+      }
+      if (!session.expressedIntents.includes(attendeeIntent)) {
+        session.expressedIntents.push(attendeeIntent);
+      }
+    }
+    if (attendeeIntent) {
+      events.push({
+        type: "intent_classified",
+        intent: attendeeIntent,
+        confidence: attendeeIntentConfidence ?? 0,
+        recorded: recordIntent,
+      });
+    }
+
+    span.setAttribute("attendee_reply_source", attendeeReplySource);
+    if (attendeeIntent) {
+      span.setAttribute("attendee_intent", attendeeIntent);
+      span.setAttribute("attendee_intent_confidence", attendeeIntentConfidence || 0);
+    }
+  } else {
+    // Fallback to LLM if template didn't match
+    try {
+    // Build prompt runtime context from session data
+    // Parse attendee profile to extract structured fields
+    const profileLines = view.kickoff.attendeeProfile.split("\n");
+    const profileParsed: Record<string, string> = {};
+    for (const line of profileLines) {
+      const [key, ...valueParts] = line.split(":");
+      if (key && valueParts.length > 0) {
+        profileParsed[key.trim()] = valueParts.join(":").trim();
+      }
+    }
+
+    const runtimeContext: PromptRuntimeContext = {
+      conference: {
+        name: session.kickoff.conferenceName || "Unknown Conference",
+        themes: session.kickoff.conferenceContext || "General tech topics",
+      },
+      persona: {
+        title: profileParsed["Persona"] || "Unknown",
+        modifiers: profileParsed["Modifiers"] || "None",
+        emotionalPosture: profileParsed["Emotional posture"] || "Neutral",
+        toolingBias: profileParsed["Tooling bias"] || "None specified",
+        otelFamiliarity: profileParsed["OpenTelemetry familiarity"] || "Unknown",
+      },
+      difficulty: session.kickoff.difficulty,
+      enrichment: view.kickoff.enrichment || null,
+      sessionState: view.currentState,
+      trainerGuidance: session.trainerFeedback?.guidance || null,
+      turnLimitExceeded,
+      selfServiceCuesDetected: selfServiceDetected,
+      mqlCuesDetected: mqlResult.detected,
+      deferredInterestCuesDetected: deferredInterestDetected,
+      stakeholderType,
+      engagement: { value: engagementTurn.value, level: engagementTurn.level },
+      ...(session.interruption && interruptionTurnsLeft !== undefined
+        ? {
+            interruption: {
+              context: session.interruption.attendeeContext,
+              turnsLeft: interruptionTurnsLeft,
+            },
+          }
+        : {}),
+      ...(speaker
+        ? {
+            group: {
+              speaker: speaker.displayName,
+              others: session.attendees!
+                .filter((a) => a.id !== speaker.id)
+                .map((a) => ({ displayName: a.displayName, stakeholderType: a.stakeholderType })),
+            },
+          }
+        : {}),
+    };
+
+    // Compose system prompt using versioned bundle
+    const composedPrompt = await composeAttendeeSystemPrompt(
+      runtimeContext,
+      conversationHistory,
+      options.promptBundle,
+      config
+    );
+
+    span.setAttribute("prompt_bundle_version", composedPrompt.bundleVersion);
+    span.setAttribute("prompt_has_trainer_guidance", composedPrompt.hasTrainerGuidance);
+
+    // Prepare chat input
+    const chatInput: ChatInput = {
+      systemPrompt: composedPrompt.content,
+      conversation: conversationHistory,
+      sessionId: session.id,
+    };
+
+    // Get provider and generate response with child span
+    const provider = options.chatProvider ?? getChatProvider();
+
+    const result = await withChildSpan(
+      "hc.dep.chat.generate",
+      async (childSpan) => {
+        childSpan.setAttribute("dep_type", "chat");
+        childSpan.setAttribute("session_id", session.id);
+        childSpan.setAttribute("current_state", view.currentState);
+        childSpan.setAttribute("conversation_length", conversationHistory.length);
+
+        const res = await provider.generate(chatInput);
+
+        childSpan.setAttribute("provider", res.provider);
+        if (res.model) {
+          childSpan.setAttribute("model", res.model);
+        }
+        childSpan.setAttribute("response_length", res.text.length);
+
+        return res;
+      },
+      { dep_type: "chat" }
+    );
+
+    // Recorded replies (offline replay) were post-processed when first generated
+    attendeeResponseText = result.provider === "recorded" ? result.text : postProcessAttendeeText(result.text);
+    attendeeReplySource = "llm";
+    chatMeta = {
+      provider: result.provider,
+      model: result.model,
+    };
+
+    span.setAttribute("attendee_reply_source", attendeeReplySource);
+    span.setAttribute("chat_provider", result.provider);
+    if (result.model) {
+      span.setAttribute("chat_model", result.model);
+    }
+    } catch (error) {
+    // Fallback to mock provider if generation fails
+    console.warn("[chat] Provider generation failed, falling back to mock:", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      sessionId: session.id,
+    });
+
+    span.setAttribute("chat_fallback", true);
+
+    try {
+      const mockProvider = new MockChatProvider();
+      const mockResult = await mockProvider.generate({
+        systemPrompt: "",
+        conversation: conversationHistory,
+        sessionId: session.id,
+      });
+      attendeeResponseText = postProcessAttendeeText(mockResult.text);
+      attendeeReplySource = "llm";
+      chatMeta = { provider: "mock (fallback)" };
+      span.setAttribute("attendee_reply_source", attendeeReplySource);
+      span.setAttribute("chat_provider", "mock_fallback");
+    } catch (fallbackError) {
+      // Ultimate fallback: use canned response
+      console.error("[chat] Mock provider also failed:", fallbackError);
+      attendeeResponseText = postProcessAttendeeText(pickMockResponse(view.currentState));
+      attendeeReplySource = "llm";
+      chatMeta = { provider: "canned (emergency fallback)" };
+      span.setAttribute("attendee_reply_source", attendeeReplySource);
+      span.setAttribute("chat_provider", "canned_emergency");
+    }
+    }
+  }
+
+  // 6) Add attendee response to transcript
+  const attendeeMsg = {
+    id: randomUUID(),
+    type: "attendee" as const,
+    text: attendeeResponseText,
+    timestamp: new Date().toISOString(),
+    ...(speaker ? { speakerId: speaker.id } : {}),
+  };
+  session.transcript.push(attendeeMsg);
+  events.push({
+    type: "reply_generated",
+    message: attendeeMsg,
+    source: attendeeReplySource,
+    provider: chatMeta?.provider,
+    model: chatMeta?.model,
+    toolingContext: session.toolingContext,
+  });
+
+  span.setAttribute("response_length", attendeeResponseText.length);
+
+  // 7) Move through the state graph (server-side decision only)
+  // OUTCOME is gated on attendee commitment (attendee_committed signal)
+  let stateAdvanced = false;
+
+  // Group sessions: only the responding attendee's state moves
+  const stateSignals = [...analysis.stateSignals];
+  if (
+    view.currentState === "SOLUTION_FRAMING" &&
+    detectCommittedOutcome(attendeeResponseText) !== null
+  ) {
+    stateSignals.push("attendee_committed");
+  }
+
+  const transition = evaluateStateTransition(view.currentState, stateSignals, config);
+  if (transition) {
+    const historyEntry = {
+      from: transition.from,
+      to: transition.to,
+      timestamp: new Date().toISOString(),
+      kind: transition.kind,
+      reason: transition.reason,
+      ...(speaker ? { attendeeId: speaker.id } : {}),
+    };
+    session.stateHistory.push(historyEntry);
+    if (speaker) {
+      speaker.currentState = transition.to;
+      session.currentState = getGroupState(session.attendees!, config);
+      events.push({
+        type: "state_advanced",
+        ...historyEntry,
+        signals: transition.signals,
+        groupState: session.currentState,
+      });
+    } else {
+      session.currentState = transition.to;
+      events.push({ type: "state_advanced", ...historyEntry, signals: transition.signals });
+    }
+    stateAdvanced = transition.kind !== "regress";
+
+    span.setAttribute("state_advanced", stateAdvanced);
+    span.setAttribute("state_transition_kind", transition.kind);
+    span.setAttribute("state_transition_reason", transition.reason);
+    span.setAttribute("new_state", transition.to);
+  } else {
+    span.setAttribute("state_advanced", false);
+    if (view.currentState === "SOLUTION_FRAMING" && !stateSignals.includes("attendee_committed")) {
+      span.setAttribute("outcome_gate_blocked", "no_commitment");
+    }
+  }
+
+  // 8) Detect outcome and prepare completion CTA (NO AUTO-END)
+  // Check for outcomes in SOLUTION_FRAMING and OUTCOME states (group
+  // sessions: once every attendee has got that far)
+  let outcome = "UNKNOWN";
+  let endPrompt: MessageTurnEndPrompt | null = null;
+
+  if (
+    leaving ||
+    session.currentState === "OUTCOME" ||
+    session.currentState === "SOLUTION_FRAMING"
+  ) {
+    // Use banded outcome resolver if outcomeSeed is available
+    if (session.outcomeSeed && view.kickoff.attendeeProfile) {
+      // Build recent transcript for soft demo eligibility
+      const recentTranscript = session.transcript
+        .slice(-10)
+        .map((m) => m.text)
+        .join(" ");
+
+      const result = determineBandedOutcome(
+        session.currentState,
+        mqlResult,
+        selfServiceDetected,
+        deferredInterestDetected,
+        attendeeResponseText,
+        recentTranscript,
+        view.kickoff.attendeeProfile,
+        session.outcomeSeed,
+        config,
+        engagementTurn.value
+      );
+
+      outcome = result.outcome;
+
+      // Store decision trace for transparency
+      session.decisionTrace = {
+        personaBandKey: result.personaBandKey,
+        personaWeightsUsed: result.personaWeightsUsed,
+        eligibleOutcomes: result.eligibleOutcomes,
+        sampledOutcome: outcome !== "UNKNOWN" ? outcome : undefined,
+        demoEligibilityScore: result.demoEligibilityScore,
+        jitteredWeights: result.jitteredWeights,
+        reason: result.reason
+      };
+
+      // Add telemetry for banded outcomes
+      if (result.demoEligibilityScore !== undefined) {
+        span.setAttribute("demo_eligibility_score", result.demoEligibilityScore);
+      }
+      if (result.personaBandKey) {
+        span.setAttribute("persona_band_key", result.personaBandKey);
+        span.setAttribute("persona_weights_used", result.personaWeightsUsed || false);
+      }
+      if (result.reason) {
+        span.setAttribute("outcome_reason", result.reason);
+      }
+
+      events.push({
+        type: "outcome_sampled",
+        resolver: "banded",
+        outcome,
+        state: session.currentState,
+        inputs: {
+          mql: mqlResult,
+          selfServiceDetected,
+          deferredInterestDetected,
+          outcomeSeed: session.outcomeSeed,
+        },
+        decisionTrace: { ...session.decisionTrace },
+      });
+    } else {
+      // Fallback to original determineOutcome
+      outcome = determineOutcome(
+        session.currentState,
+        mqlResult,
+        selfServiceDetected,
+        deferredInterestDetected,
+        attendeeResponseText
+      );
+
+      events.push({
+        type: "outcome_sampled",
+        resolver: "basic",
+        outcome,
+        state: session.currentState,
+        inputs: {
+          mql: mqlResult,
+          selfServiceDetected,
+          deferredInterestDetected,
+        },
+      });
+    }
+
+    span.setAttribute("outcome_detected", outcome);
+    span.setAttribute("outcome_eligible", outcome !== "UNKNOWN");
+
+    // COMMITMENT GATE: Only show CTA if attendee explicitly committed
+    // Outcome eligibility (above) is used for scoring/telemetry only
+    // Walking away (or leaving after an interruption) is the attendee's
+    // own decision, no commitment needed
+    let committedOutcome = leaving ? "POLITE_EXIT" : detectCommittedOutcome(attendeeResponseText);
+
+    // EVALUATION QUESTION GATE (Fix 2): Block CTA on mid-funnel questions
+    const isEvaluation = !leaving && isEvaluationQuestion(attendeeResponseText);
+    if (isEvaluation) {
+      span.setAttribute("evaluation_question_detected", true);
+      committedOutcome = null; // Force block
+    }
+
+    if (committedOutcome) {
+      span.setAttribute("outcome_committed", committedOutcome);
+      span.setAttribute("commitment_detected", true);
+    }
+
+    // Show CTA ONLY if commitment detected AND not evaluation question
+    if (committedOutcome && shouldShowCompletionCTA(committedOutcome)) {
+      // Group sessions: record what the speaker committed to; the CTA
+      // offers the strongest outcome anyone at the booth committed to
+      // (leaving ends it for everyone)
+      const attendeeOutcome = committedOutcome;
+      if (speaker) {
+        speaker.outcome = attendeeOutcome;
+        if (!leaving) {
+          committedOutcome = combineAttendeeOutcomes(session.attendees!.map((a) => a.outcome)) ?? attendeeOutcome;
+        }
+        span.setAttribute("attendee_outcome", attendeeOutcome);
+      }
+      const action = getOutcomeAction(committedOutcome);
+
+      // Store pending outcome in session for UI restoration
+      session.pendingOutcome = committedOutcome;
+      session.pendingEndAction = {
+        actionType: action.actionType,
+        actionLabel: action.actionLabel,
+      };
+
+      endPrompt = {
+        outcome: committedOutcome,
+        actionLabel: action.actionLabel,
+        actionType: action.actionType,
+        tooltip: action.tooltip,
+      };
+
+      events.push({
+        type: "cta_shown",
+        outcome: committedOutcome,
+        actionType: action.actionType,
+        actionLabel: action.actionLabel,
+        ...(speaker ? { attendeeId: speaker.id, attendeeOutcome } : {}),
+      });
+
+      span.setAttribute("completion_cta_ready", true);
+      span.setAttribute("completion_action", action.actionType);
+    } else if (outcome !== "UNKNOWN") {
+      // Outcome eligible but not committed yet
+      span.setAttribute("completion_cta_ready", false);
+      const blockReason = isEvaluation ? "evaluation_question" : "no_commitment";
+      span.setAttribute("cta_blocked_reason", blockReason);
+
+      // Add to decision trace
+      if (session.decisionTrace) {
+        session.decisionTrace.reason = blockReason;
+      }
+      events.push({ type: "cta_blocked", outcome, reason: blockReason });
+    }
+  }
+
+  // 9) Coaching mode: what to do next, for the trainee page
+  const coachingHint = isCoachedSession(session)
+    ? buildCoachingHint(
+        speaker?.currentState ?? session.currentState,
+        analysis,
+        analyzedState,
+        config,
+        speaker?.displayName
+      )
+    : undefined;
+
+  return { attendeeMsg, outcome, endPrompt, chatMeta, ...(coachingHint ? { coachingHint } : {}) };
+}
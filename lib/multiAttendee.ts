@@ -0,0 +1,205 @@
+/**
+ * Multi-attendee (group) booth scenarios, e.g. an IC and their manager.
+ *
+ * A group session carries one SessionAttendee per persona
+ * (SessionState.attendees), each with its own hidden profile, enrichment,
+ * stakeholder type and position in the state graph. The first attendee is the
+ * lead and mirrors session.kickoff, so code that only knows single-attendee
+ * sessions keeps working.
+ *
+ * Every trainee turn gets one reply; pickNextSpeaker decides who gives it.
+ * Only that attendee's state moves. session.currentState is the least
+ * advanced attendee's state, so the conversation as a whole only reaches
+ * SOLUTION_FRAMING once every stakeholder has been brought along. The session
+ * outcome is the strongest outcome any attendee has committed to.
+ *
+ * Pure functions only (no storage access).
+ */
+
+import type { SessionAttendee, SessionState } from "./storage";
+import type { SimulatorConfig } from "./simulatorConfig";
+import { abbreviateJobTitle } from "./formatUtils";
+
+type TranscriptEntry = SessionState["transcript"][number];
+
+/** Largest group a session can be created with */
+export const MAX_GROUP_SIZE = 3;
+
+/** Combined outcome picks the first of these any attendee committed to */
+const OUTCOME_PRIORITY = [
+  "MQL_READY",
+  "DEMO_READY",
+  "SELF_SERVICE_READY",
+  "DEFERRED_INTEREST",
+  "POLITE_EXIT",
+];
+
+/** Title words too generic to tell attendees apart ("Senior", "of", ...) */
+const GENERIC_TITLE_WORDS = new Set(["senior", "staff", "principal", "lead", "head", "the", "and", "of"]);
+
+export type SpeakerReason = "addressed" | "priority" | "turn_taking";
+
+export interface SpeakerPick {
+  speaker: SessionAttendee;
+  reason: SpeakerReason;
+  /** Attendees the trainee message addressed (by role or priority) */
+  addressedTo: string[];
+}
+
+export function isGroupSession(
+  session: Pick<SessionState, "attendees">
+): session is SessionState & { attendees: SessionAttendee[] } {
+  return (session.attendees?.length ?? 0) > 1;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegex(term.toLowerCase())}s?\\b`).test(text);
+}
+
+/**
+ * Words of an attendee's title the trainee can address them by
+ * ("Site Reliability Engineer" -> site, reliability, engineer, sre)
+ */
+function titleTerms(attendee: SessionAttendee): string[] {
+  const title = `${attendee.displayName} ${abbreviateJobTitle(attendee.displayName)}`.toLowerCase();
+  return (title.match(/[a-z0-9]+/g) ?? []).filter(
+    (word) => word.length >= 3 && !GENERIC_TITLE_WORDS.has(word)
+  );
+}
+
+/**
+ * Attendees a trainee message speaks to: by title ("as the director...") or
+ * by touching their stakeholder priorities ("what's the ROI...")
+ */
+export function findAddressedAttendees(
+  attendees: SessionAttendee[],
+  text: string
+): { byTitle: string[]; byPriority: string[] } {
+  const lower = text.toLowerCase();
+  const byTitle: string[] = [];
+  const byPriority: string[] = [];
+
+  for (const attendee of attendees) {
+    // A term shared by every attendee (e.g. "engineer") picks nobody out
+    const distinctive = titleTerms(attendee).filter(
+      (term) => !attendees.every((other) => titleTerms(other).includes(term))
+    );
+    if (distinctive.some((term) => mentions(lower, term))) {
+      byTitle.push(attendee.id);
+    } else if (attendee.priorities.some((priority) => mentions(lower, priority))) {
+      byPriority.push(attendee.id);
+    }
+  }
+
+  return { byTitle, byPriority };
+}
+
+/**
+ * Transcript index of each attendee's latest line (-1 if they haven't spoken)
+ */
+function lastSpokeAt(attendee: SessionAttendee, transcript: TranscriptEntry[]): number {
+  for (let i = transcript.length - 1; i >= 0; i--) {
+    if (transcript[i].type === "attendee" && transcript[i].speakerId === attendee.id) return i;
+  }
+  return -1;
+}
+
+/**
+ * Choose who answers a trainee message: an attendee addressed by title, then
+ * one whose priorities it touched, otherwise whoever spoke least recently.
+ * Ties go to the attendee who has waited longest.
+ *
+ * @param attendees - The session's attendees
+ * @param transcript - Transcript before the trainee message
+ * @param traineeText - The trainee message
+ */
+export function pickNextSpeaker(
+  attendees: SessionAttendee[],
+  transcript: TranscriptEntry[],
+  traineeText: string
+): SpeakerPick {
+  const { byTitle, byPriority } = findAddressedAttendees(attendees, traineeText);
+  const waitedLongest = (ids: string[]) =>
+    attendees
+      .filter((attendee) => ids.includes(attendee.id))
+      .reduce((best, attendee) =>
+        lastSpokeAt(attendee, transcript) < lastSpokeAt(best, transcript) ? attendee : best
+      );
+
+  const addressedTo = [...byTitle, ...byPriority];
+  if (byTitle.length > 0) {
+    return { speaker: waitedLongest(byTitle), reason: "addressed", addressedTo };
+  }
+  if (byPriority.length > 0) {
+    return { speaker: waitedLongest(byPriority), reason: "priority", addressedTo };
+  }
+  return {
+    speaker: waitedLongest(attendees.map((attendee) => attendee.id)),
+    reason: "turn_taking",
+    addressedTo,
+  };
+}
+
+/**
+ * The least advanced attendee's state (what session.currentState tracks)
+ */
+export function getGroupState(attendees: SessionAttendee[], config: SimulatorConfig): string {
+  const order = config.state_order;
+  let least = attendees[0].currentState;
+  for (const attendee of attendees) {
+    if (order.indexOf(attendee.currentState) < order.indexOf(least)) least = attendee.currentState;
+  }
+  return least;
+}
+
+/**
+ * The session as one attendee sees it: their profile, enrichment and state
+ * in kickoff/currentState, for code written against single-attendee sessions
+ * (templates, prompt context, outcome bands). Shallow copy; the transcript
+ * and other shared fields are the session's own.
+ */
+export function attendeeSessionView(session: SessionState, attendee: SessionAttendee): SessionState {
+  const isLead = session.attendees?.[0]?.id === attendee.id;
+  return {
+    ...session,
+    currentState: attendee.currentState,
+    kickoff: {
+      ...session.kickoff,
+      personaId: attendee.personaId,
+      personaDisplayName: attendee.displayName,
+      attendeeProfile: attendee.attendeeProfile,
+      enrichment: isLead ? session.kickoff.enrichment : attendee.enrichment,
+    },
+  };
+}
+
+/**
+ * Strongest committed outcome across attendees (undefined if none committed)
+ */
+export function combineAttendeeOutcomes(outcomes: Array<string | undefined>): string | undefined {
+  return OUTCOME_PRIORITY.find((outcome) => outcomes.includes(outcome));
+}
+
+export interface StakeholderCoverage {
+  attendee: SessionAttendee;
+  /** Trainee messages that addressed this attendee */
+  turns: number;
+}
+
+/**
+ * How often the trainee addressed each attendee (null for single-attendee
+ * sessions)
+ */
+export function getStakeholderCoverage(session: SessionState): StakeholderCoverage[] | null {
+  if (!isGroupSession(session)) return null;
+
+  const trainee = session.transcript.filter((m) => m.type === "trainee");
+  return session.attendees.map((attendee) => ({
+    attendee,
+    turns: trainee.filter((m) => m.addressedTo?.includes(attendee.id)).length,
+  }));
+}
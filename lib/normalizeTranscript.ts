@@ -3,6 +3,7 @@ export interface TranscriptMessage {
   type: "system" | "trainee" | "attendee";
   text: string;
   timestamp: string;
+  speakerId?: string;
 }
 
 /**
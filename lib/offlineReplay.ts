@@ -0,0 +1,346 @@
+/**
+ * Deterministic offline replay of a session.
+ *
+ * Re-runs a session's trainee messages through the live message pipeline
+ * (runMessageTurn: analyzeTraineeMessage, generateAttendeeReply and its
+ * intent classifier, determineBandedOutcome, ...) and scoreSession, then
+ * diffs the result against the original transcript, state history and
+ * outcome. Used to check template, detector, config or prompt bundle changes
+ * against real past conversations before shipping them.
+ *
+ * Nothing is saved and no live model is called. Replies that need the chat
+ * provider come from:
+ * - "recorded" (default): the original session's reply for that turn, falling
+ *   back to the mock once the replay runs past the original transcript
+ * - "mock": MockChatProvider
+ * Enrichment comes from the original session (cache only for ad-hoc input).
+ * Randomness is seeded by the outcomeSeed, so replaying the same input twice
+ * gives the same result.
+ */
+
+import type { SessionState } from "./storage";
+import type { SessionEventInput } from "./sessionEvents";
+import { getSessionLog } from "./sessionLog";
+import { runMessageTurn } from "./messageTurn";
+import { MockChatProvider, type ChatProvider } from "./llm/chatProvider";
+import type { ChatInput, ChatResult } from "./llm/chatTypes";
+import { getActiveBundleId, getBundleScoringRubric, getPromptBundle } from "./llm/promptBundleStore";
+import { getSessionSimulatorConfig, getSimulatorConfigVersion } from "./simulatorConfigStore";
+import { getEngagementConfig } from "./engagement";
+import { scoreSession } from "./scoring";
+import type { ScoringRubric } from "./scoringRubric";
+import { judgeSession, MockSessionJudge } from "./llm/sessionJudge";
+import type { PromptBundle } from "./llm/promptBundleTypes";
+import { createSessionWithEnrichment, type CreateSessionInput } from "./createSession";
+import { withChildSpan, withSpan } from "./telemetry";
+
+type TranscriptEntry = SessionState["transcript"][number];
+
+export type ReplayProvider = "recorded" | "mock";
+
+export const REPLAY_PROVIDERS: ReplayProvider[] = ["recorded", "mock"];
+
+export interface ReplayOptions {
+  /** Where chat-provider replies come from (default "recorded") */
+  provider?: ReplayProvider;
+  /** Prompt bundle to compose attendee prompts with (default: active bundle) */
+  promptBundleId?: string;
+  /** Simulator config version to replay on (default: the session's own) */
+  configVersion?: number;
+}
+
+/** Replay input without a stored session */
+export interface AdHocReplayInput {
+  messages: string[];
+  outcomeSeed: string;
+  /** As for /api/session/start (enrichment is looked up in the cache only) */
+  kickoff: CreateSessionInput;
+}
+
+export interface ReplayTurnSide {
+  reply: string;
+  speakerId?: string;
+  /** System messages the turn added (e.g. interruptions) */
+  systemMessages: string[];
+}
+
+export interface ReplayTurn {
+  /** 1-based trainee turn */
+  turn: number;
+  trainee: string;
+  /** null past the end of the original transcript (or for ad-hoc input) */
+  original: ReplayTurnSide | null;
+  replayed: ReplayTurnSide & {
+    source: "template" | "llm";
+    intent?: string;
+    state: string;
+    issues: string[];
+    /** Outcome the end prompt offered this turn */
+    endPromptOutcome?: string;
+  };
+  changed: Array<"reply" | "speaker" | "system_messages">;
+}
+
+export interface ReplaySummary {
+  stateHistory: string[];
+  finalState: string;
+  outcome: string | null;
+  score: number;
+  grade: string;
+}
+
+export interface OfflineReplayResult {
+  /** The replayed session's ID (null for ad-hoc input) */
+  sessionId: string | null;
+  provider: ReplayProvider;
+  promptBundle: { id: string; version: string };
+  configVersion: number;
+  turns: ReplayTurn[];
+  /** Original session as stored, scored with the current scorer (null for ad-hoc input) */
+  original: ReplaySummary | null;
+  replayed: ReplaySummary;
+  /** What differs from the original (empty when identical or ad-hoc) */
+  changes: Array<"transcript" | "state_history" | "final_state" | "outcome" | "score">;
+  identical: boolean;
+}
+
+/**
+ * Serves the original session's attendee replies, one per trainee turn
+ */
+class RecordedChatProvider implements ChatProvider {
+  turn = 0;
+  private fallback = new MockChatProvider();
+
+  constructor(private replies: Array<string | undefined>) {}
+
+  async generate(input: ChatInput): Promise<ChatResult> {
+    const reply = this.replies[this.turn - 1];
+    if (reply === undefined) return this.fallback.generate(input);
+    return { text: reply, provider: "recorded", createdAt: new Date().toISOString() };
+  }
+}
+
+/**
+ * Split a transcript into trainee turns: each trainee message plus what
+ * followed it up to the next one
+ */
+function splitTurns(transcript: TranscriptEntry[]): ReplayTurnSide[] {
+  const turns: ReplayTurnSide[] = [];
+  for (const entry of transcript) {
+    if (entry.type === "trainee") {
+      turns.push({ reply: "", systemMessages: [] });
+      continue;
+    }
+    const current = turns[turns.length - 1];
+    if (!current) continue;
+    if (entry.type === "system") {
+      current.systemMessages.push(entry.text);
+    } else if (!current.reply) {
+      current.reply = entry.text;
+      if (entry.speakerId) current.speakerId = entry.speakerId;
+    }
+  }
+  return turns;
+}
+
+function describeStateHistory(session: SessionState): string[] {
+  return session.stateHistory.map(
+    (h) => `${h.attendeeId ? `${h.attendeeId}: ` : ""}${h.from} -> ${h.to}`
+  );
+}
+
+/**
+ * Final state and score of a run. Judged by the mock judge, so replays stay
+ * deterministic and never call a live model.
+ */
+async function summarize(
+  session: SessionState,
+  promptBundle: PromptBundle,
+  rubric: ScoringRubric
+): Promise<ReplaySummary> {
+  const judgment = await judgeSession(session, promptBundle, rubric, new MockSessionJudge());
+  const score = scoreSession(session, "replay", rubric, judgment);
+  return {
+    stateHistory: describeStateHistory(session),
+    finalState: session.currentState,
+    outcome: session.pendingOutcome ?? null,
+    score: score.score,
+    grade: score.grade,
+  };
+}
+
+/**
+ * The session as it was before the first trainee message, with the
+ * enrichment it picked up along the way
+ */
+async function buildInitialState(session: SessionState): Promise<SessionState> {
+  const { events } = await getSessionLog(session);
+  const created = events.find((event) => event.type === "session_created");
+
+  let initial: SessionState;
+  if (created?.type === "session_created") {
+    initial = structuredClone(created.snapshot);
+  } else {
+    // Sessions from before the event log: strip everything the turns added
+    const firstTrainee = session.transcript.findIndex((m) => m.type === "trainee");
+    initial = structuredClone(session);
+    initial.transcript = firstTrainee === -1 ? initial.transcript : initial.transcript.slice(0, firstTrainee);
+    initial.currentState = "ICEBREAKER";
+    initial.stateHistory = [];
+    initial.violations = [];
+    delete initial.expressedIntents;
+    delete initial.decisionTrace;
+    delete initial.pendingOutcome;
+    delete initial.pendingEndAction;
+    delete initial.toolingContext;
+    delete initial.interruption;
+    delete initial.engagement;
+    for (const attendee of initial.attendees ?? []) {
+      attendee.currentState = "ICEBREAKER";
+      delete attendee.outcome;
+    }
+  }
+
+  initial.active = true;
+  initial.kickoff.enrichment = session.kickoff.enrichment;
+  for (const attendee of initial.attendees ?? []) {
+    const stored = session.attendees?.find((a) => a.id === attendee.id);
+    if (stored?.enrichment) attendee.enrichment = stored.enrichment;
+  }
+  return initial;
+}
+
+/**
+ * Replay a stored session, or a list of trainee messages, offline
+ *
+ * @param input - A stored session, or ad-hoc messages + outcomeSeed + kickoff
+ * @param options - Provider, prompt bundle and config version to replay with
+ */
+export async function replaySessionOffline(
+  input: SessionState | AdHocReplayInput,
+  options: ReplayOptions = {}
+): Promise<{ result: OfflineReplayResult | null; error?: string }> {
+  const provider = options.provider ?? "recorded";
+  if (!REPLAY_PROVIDERS.includes(provider)) {
+    return { result: null, error: `Unknown provider: ${provider} (expected ${REPLAY_PROVIDERS.join(" or ")})` };
+  }
+
+  const original = "messages" in input ? null : input;
+  let session: SessionState;
+  let messages: string[];
+  if (original) {
+    session = await buildInitialState(original);
+    messages = original.transcript.filter((m) => m.type === "trainee").map((m) => m.text);
+  } else {
+    const adHoc = input as AdHocReplayInput;
+    const created = await createSessionWithEnrichment({ ...adHoc.kickoff, skipEnrichmentGeneration: true });
+    if (created.error) return { result: null, error: created.error };
+    session = created.session;
+    session.outcomeSeed = adHoc.outcomeSeed;
+    messages = adHoc.messages;
+  }
+
+  if (options.configVersion !== undefined) {
+    const record = await getSimulatorConfigVersion(options.configVersion);
+    if (!record) {
+      return { result: null, error: `Simulator config version ${options.configVersion} not found` };
+    }
+    session.configVersion = options.configVersion;
+    session.engagement ??= getEngagementConfig(record.config).initial;
+  }
+  const config = await getSessionSimulatorConfig(session);
+
+  const bundleId = options.promptBundleId ?? (await getActiveBundleId());
+  const promptBundle = await getPromptBundle(bundleId);
+  if (promptBundle.id !== bundleId) {
+    return { result: null, error: `Prompt bundle ${bundleId} not found` };
+  }
+
+  const originalTurns = original ? splitTurns(original.transcript) : [];
+  const chatProvider =
+    provider === "recorded"
+      ? new RecordedChatProvider(originalTurns.map((turn) => turn.reply || undefined))
+      : new MockChatProvider();
+
+  return withSpan(
+    "hc.replay.session",
+    async (span) => {
+      span.setAttribute("session_id", original?.id ?? "ad-hoc");
+      span.setAttribute("turn_count", messages.length);
+
+      const turns: ReplayTurn[] = [];
+      for (const [i, message] of messages.entries()) {
+        if (chatProvider instanceof RecordedChatProvider) chatProvider.turn = i + 1;
+
+        const transcriptStart = session.transcript.length;
+        const events: SessionEventInput[] = [];
+        const { endPrompt } = await withChildSpan("hc.replay.turn", (turnSpan) =>
+          runMessageTurn(session, message, events, { config, span: turnSpan, chatProvider, promptBundle })
+        );
+
+        const [replayedSide] = splitTurns(session.transcript.slice(transcriptStart));
+        const reply = events.find((e) => e.type === "reply_generated");
+        const intent = events.find((e) => e.type === "intent_classified");
+        const analysis = events.find((e) => e.type === "analysis_result");
+        const originalSide = originalTurns[i] ?? null;
+
+        const changed: ReplayTurn["changed"] = [];
+        if (originalSide) {
+          if (originalSide.reply !== replayedSide.reply) changed.push("reply");
+          if (originalSide.speakerId !== replayedSide.speakerId) changed.push("speaker");
+          if (JSON.stringify(originalSide.systemMessages) !== JSON.stringify(replayedSide.systemMessages)) {
+            changed.push("system_messages");
+          }
+        }
+
+        turns.push({
+          turn: i + 1,
+          trainee: message,
+          original: originalSide,
+          replayed: {
+            ...replayedSide,
+            source: reply?.type === "reply_generated" ? reply.source : "llm",
+            ...(intent?.type === "intent_classified" ? { intent: intent.intent } : {}),
+            state: session.currentState,
+            issues: analysis?.type === "analysis_result" ? analysis.issues : [],
+            ...(endPrompt ? { endPromptOutcome: endPrompt.outcome } : {}),
+          },
+          changed,
+        });
+      }
+
+      const rubric = getBundleScoringRubric(promptBundle);
+      const replayed = await summarize(session, promptBundle, rubric);
+      const originalSummary = original ? await summarize(original, promptBundle, rubric) : null;
+
+      const changes: OfflineReplayResult["changes"] = [];
+      if (originalSummary) {
+        if (turns.some((turn) => turn.changed.length > 0)) changes.push("transcript");
+        if (JSON.stringify(originalSummary.stateHistory) !== JSON.stringify(replayed.stateHistory)) {
+          changes.push("state_history");
+        }
+        if (originalSummary.finalState !== replayed.finalState) changes.push("final_state");
+        if (originalSummary.outcome !== replayed.outcome) changes.push("outcome");
+        if (originalSummary.score !== replayed.score) changes.push("score");
+      }
+
+      span.setAttribute("replay_provider", provider);
+      span.setAttribute("replay_changes", changes.join(","));
+
+      return {
+        result: {
+          sessionId: original?.id ?? null,
+          provider,
+          promptBundle: { id: promptBundle.id, version: promptBundle.version },
+          configVersion: session.configVersion ?? 0,
+          turns,
+          original: originalSummary,
+          replayed,
+          changes,
+          identical: originalSummary !== null && changes.length === 0,
+        },
+      };
+    },
+    { route: "offline-replay" }
+  );
+}
@@ -0,0 +1,812 @@
+/**
+ * Backup and restore of all simulator data as one versioned JSON archive.
+ *
+ * Export reads every key family straight from storage (not through the
+ * indexes, so records that fell off a capped index still travel). Import
+ * writes records back and rebuilds the indexes.
+ *
+ * Import modes:
+ * - replace: delete all simulator data first, then write the archive
+ * - merge:   keep existing data; records whose ID already exists (and differ)
+ *            are handled by the conflict policy:
+ *            skip      - keep the existing record
+ *            overwrite - replace it with the archived one
+ *            rename    - import under a fresh ID and rewrite every reference
+ *                        to it inside the archive (invites, sessions, scores,
+ *                        leaderboard, enrichments, event logs)
+ *
+ * Enrichments are caches keyed by conference + persona, so "rename" keeps the
+ * existing entry for them.
+ *
+ * Imported invites and sessions get owner records for the current workspace
+ * (see recordWorkspaceOwner), so their links resolve without a cookie.
+ */
+
+import { randomUUID } from "crypto";
+import type { StorageAdapter } from "./storageAdapter";
+import { KEY_FAMILIES, keys, type KeyFamilyName } from "./keys";
+import { getSchemaVersions, type SchemaVersions } from "./migrations";
+import type { Conference, Persona } from "../scenarioTypes";
+import type { Trainee } from "../traineeStore";
+import type { PromptBundle } from "../llm/promptBundleTypes";
+import type { EnrichmentResult } from "../llm/enrichmentTypes";
+import type { InviteRecord } from "../invites";
+import { sessionEventKeys, type SessionState } from "../storage";
+import type { SessionEvent } from "../sessionEvents";
+import type { ScoreRecord } from "../scoring";
+import {
+  leaderboardEntryFromScore,
+  type LeaderboardEntry,
+} from "../leaderboardStore";
+import { indexLeaderboardEntry, indexScore } from "../scoreIndexes";
+import { forgetWorkspaceOwner, recordWorkspaceOwner } from "../workspaces";
+
+export const ARCHIVE_FORMAT = "hc-simulator-archive";
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveData {
+  conferences: Conference[];
+  personas: Persona[];
+  trainees: Trainee[];
+  promptBundles: PromptBundle[];
+  activePromptBundleId: string | null;
+  enrichments: EnrichmentResult[];
+  invites: InviteRecord[];
+  sessions: SessionState[];
+  /** Event log per session ID, in revision order */
+  sessionEvents: Record<string, SessionEvent[]>;
+  scores: ScoreRecord[];
+  leaderboard: LeaderboardEntry[];
+}
+
+export interface SimulatorArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    backend: string;
+    schemaVersions: SchemaVersions;
+  };
+  data: ArchiveData;
+}
+
+export type ImportMode = "merge" | "replace";
+export type ConflictPolicy = "skip" | "overwrite" | "rename";
+
+export interface ImportOptions {
+  mode: ImportMode;
+  onConflict: ConflictPolicy;
+  dryRun: boolean;
+}
+
+export type ArchiveCollection =
+  | "conferences"
+  | "personas"
+  | "trainees"
+  | "promptBundles"
+  | "enrichments"
+  | "sessions"
+  | "invites"
+  | "scores";
+
+export interface CollectionImportReport {
+  created: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
+  unchanged: number;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  onConflict: ConflictPolicy;
+  dryRun: boolean;
+  /** Keys removed before writing (replace mode) */
+  deletedKeys: number;
+  collections: Record<ArchiveCollection, CollectionImportReport>;
+  /** old ID → new ID for every renamed record */
+  renamedIds: Partial<Record<ArchiveCollection, Record<string, string>>>;
+  activePromptBundleId: string | null;
+  warnings: string[];
+}
+
+const WRITE_CHUNK_SIZE = 200;
+
+/** "family:" part of a key, for prefix scans */
+function familyPrefix(key: string): string {
+  return key.slice(0, key.indexOf(":") + 1);
+}
+
+const SESSION_EVENTS_PREFIX = familyPrefix(keys.sessionEvents("", 0));
+
+/** Families holding one record per key (prefix scans find them all) */
+const RECORD_PREFIXES = {
+  conferences: keys.conference(""),
+  personas: keys.persona(""),
+  trainees: keys.trainee(""),
+  promptBundles: keys.promptBundle(""),
+  enrichments: familyPrefix(keys.enrichment("", "")),
+  invites: keys.invite(""),
+  sessions: keys.session(""),
+  scores: keys.score(""),
+} satisfies Record<ArchiveCollection, string>;
+
+function byNewest(a: string | undefined, b: string | undefined): number {
+  return new Date(b ?? 0).getTime() - new Date(a ?? 0).getTime();
+}
+
+async function loadByPrefix<T>(
+  storage: StorageAdapter,
+  prefix: string,
+  exclude: string[] = []
+): Promise<T[]> {
+  const found = (await storage.keys(prefix)).filter((key) => !exclude.includes(key));
+  const values = await storage.mget<T>(found);
+  return values.filter((value): value is T => value !== null);
+}
+
+/**
+ * Read every simulator record into an archive
+ */
+export async function exportArchive(
+  storage: StorageAdapter
+): Promise<SimulatorArchive> {
+  const [
+    conferences,
+    personas,
+    trainees,
+    promptBundles,
+    activePromptBundleId,
+    enrichments,
+    invites,
+    sessions,
+    scores,
+    leaderboard,
+  ] = await Promise.all([
+    loadByPrefix<Conference>(storage, RECORD_PREFIXES.conferences),
+    loadByPrefix<Persona>(storage, RECORD_PREFIXES.personas),
+    loadByPrefix<Trainee>(storage, RECORD_PREFIXES.trainees),
+    loadByPrefix<PromptBundle>(storage, RECORD_PREFIXES.promptBundles, [
+      keys.activePromptBundle(),
+    ]),
+    storage.get<string>(keys.activePromptBundle()),
+    loadByPrefix<EnrichmentResult>(storage, RECORD_PREFIXES.enrichments),
+    loadByPrefix<InviteRecord>(storage, RECORD_PREFIXES.invites),
+    loadByPrefix<SessionState>(storage, RECORD_PREFIXES.sessions),
+    loadByPrefix<ScoreRecord>(storage, RECORD_PREFIXES.scores),
+    loadByPrefix<LeaderboardEntry>(storage, keys.leaderboardEntry("")),
+  ]);
+
+  // Event batches are keyed session_events:{sessionId}:{revision}
+  const eventKeys = await storage.keys(SESSION_EVENTS_PREFIX);
+  const eventBatches = await storage.mget<SessionEvent[]>(eventKeys);
+  const sessionEvents: Record<string, SessionEvent[]> = {};
+  eventKeys.forEach((key, i) => {
+    const rest = key.slice(SESSION_EVENTS_PREFIX.length);
+    const sessionId = rest.slice(0, rest.lastIndexOf(":"));
+    const batch = eventBatches[i];
+    if (!sessionId || !batch) return;
+    (sessionEvents[sessionId] ??= []).push(...batch);
+  });
+  for (const events of Object.values(sessionEvents)) {
+    events.sort((a, b) => a.revision - b.revision || a.seq - b.seq);
+  }
+
+  // Prompt bundle index order is meaningful (insertion order)
+  const bundleOrder = (await storage.get<string[]>(keys.promptBundleIndex())) ?? [];
+  promptBundles.sort(
+    (a, b) =>
+      (bundleOrder.indexOf(a.id) + 1 || Infinity) -
+      (bundleOrder.indexOf(b.id) + 1 || Infinity)
+  );
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      backend: storage.backend,
+      schemaVersions: await getSchemaVersions(storage),
+    },
+    data: {
+      conferences: conferences.sort((a, b) => byNewest(a.createdAt, b.createdAt)),
+      personas: personas.sort((a, b) => byNewest(a.createdAt, b.createdAt)),
+      trainees: trainees.sort((a, b) => byNewest(a.createdAt, b.createdAt)),
+      promptBundles,
+      activePromptBundleId,
+      enrichments,
+      invites: invites.sort((a, b) => byNewest(a.createdAt, b.createdAt)),
+      sessions: sessions.sort((a, b) => byNewest(a.startTime, b.startTime)),
+      sessionEvents,
+      scores: scores.sort((a, b) => byNewest(a.completedAt, b.completedAt)),
+      leaderboard: leaderboard.sort((a, b) => byNewest(a.createdAt, b.createdAt)),
+    },
+  };
+}
+
+/**
+ * Validate an uploaded archive. Returns an error message when unusable.
+ */
+export function parseArchive(input: unknown): {
+  archive: SimulatorArchive | null;
+  error?: string;
+} {
+  if (!input || typeof input !== "object") {
+    return { archive: null, error: "Archive must be a JSON object" };
+  }
+
+  const candidate = input as Partial<SimulatorArchive>;
+  if (candidate.format !== ARCHIVE_FORMAT) {
+    return { archive: null, error: `Not a simulator archive (expected format "${ARCHIVE_FORMAT}")` };
+  }
+  if (typeof candidate.version !== "number" || candidate.version > ARCHIVE_VERSION) {
+    return {
+      archive: null,
+      error: `Unsupported archive version ${candidate.version} (this build reads up to ${ARCHIVE_VERSION})`,
+    };
+  }
+
+  const data = candidate.data as Partial<ArchiveData> | undefined;
+  if (!data || typeof data !== "object") {
+    return { archive: null, error: "Archive is missing its data section" };
+  }
+
+  const arrays: Array<keyof ArchiveData> = [
+    "conferences",
+    "personas",
+    "trainees",
+    "promptBundles",
+    "enrichments",
+    "invites",
+    "sessions",
+    "scores",
+    "leaderboard",
+  ];
+  for (const name of arrays) {
+    if (data[name] !== undefined && !Array.isArray(data[name])) {
+      return { archive: null, error: `data.${name} must be an array` };
+    }
+  }
+
+  const idFields: Array<[keyof ArchiveData, string]> = [
+    ["conferences", "id"],
+    ["personas", "id"],
+    ["trainees", "id"],
+    ["promptBundles", "id"],
+    ["invites", "token"],
+    ["sessions", "id"],
+    ["scores", "token"],
+  ];
+  for (const [name, field] of idFields) {
+    const items = (data[name] as Array<Record<string, unknown>> | undefined) ?? [];
+    if (items.some((item) => typeof item?.[field] !== "string" || !item[field])) {
+      return { archive: null, error: `Every item in data.${name} needs a string ${field}` };
+    }
+  }
+
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: candidate.version,
+      exportedAt: candidate.exportedAt ?? "",
+      source: candidate.source ?? { backend: "unknown", schemaVersions: {} },
+      data: {
+        conferences: data.conferences ?? [],
+        personas: data.personas ?? [],
+        trainees: data.trainees ?? [],
+        promptBundles: data.promptBundles ?? [],
+        activePromptBundleId: data.activePromptBundleId ?? null,
+        enrichments: data.enrichments ?? [],
+        invites: data.invites ?? [],
+        sessions: data.sessions ?? [],
+        sessionEvents: data.sessionEvents ?? {},
+        scores: data.scores ?? [],
+        leaderboard: data.leaderboard ?? [],
+      },
+    },
+  };
+}
+
+function emptyReport(): CollectionImportReport {
+  return { created: 0, overwritten: 0, renamed: 0, skipped: 0, unchanged: 0 };
+}
+
+function randomSuffix(): string {
+  return Math.random().toString(36).substring(2, 6);
+}
+
+function remap(map: Map<string, string>, id: string | undefined): string | undefined {
+  return id === undefined ? undefined : map.get(id) ?? id;
+}
+
+function remapNullable(map: Map<string, string>, id: string | null | undefined) {
+  return id === null || id === undefined ? id : map.get(id) ?? id;
+}
+
+interface PlannedWrite<T> {
+  id: string;
+  item: T;
+}
+
+/**
+ * Decide what happens to each item of a collection against existing storage
+ */
+async function planCollection<T>(
+  storage: StorageAdapter,
+  items: T[],
+  options: {
+    idOf: (item: T) => string;
+    keyOf: (id: string) => string;
+    withId: (item: T, id: string) => T;
+    newId: (id: string) => string;
+    policy: ConflictPolicy;
+    replacing: boolean;
+  },
+  report: CollectionImportReport
+): Promise<{ writes: PlannedWrite<T>[]; renamed: Map<string, string> }> {
+  const writes: PlannedWrite<T>[] = [];
+  const renamed = new Map<string, string>();
+
+  const existing = options.replacing
+    ? items.map(() => null)
+    : await storage.mget<T>(items.map((item) => options.keyOf(options.idOf(item))));
+
+  items.forEach((item, i) => {
+    const id = options.idOf(item);
+    const current = existing[i];
+
+    if (!current) {
+      writes.push({ id, item });
+      report.created++;
+    } else if (JSON.stringify(current) === JSON.stringify(item)) {
+      report.unchanged++;
+    } else if (options.policy === "overwrite") {
+      writes.push({ id, item });
+      report.overwritten++;
+    } else if (options.policy === "rename") {
+      const nextId = options.newId(id);
+      renamed.set(id, nextId);
+      writes.push({ id: nextId, item: options.withId(item, nextId) });
+      report.renamed++;
+    } else {
+      report.skipped++;
+    }
+  });
+
+  return { writes, renamed };
+}
+
+/**
+ * Every key the simulator owns (used by replace mode)
+ */
+async function listSimulatorKeys(storage: StorageAdapter): Promise<string[]> {
+  const prefixes = [
+    ...Object.values(RECORD_PREFIXES),
+    SESSION_EVENTS_PREFIX,
+    familyPrefix(keys.sessionInvite("")),
+    familyPrefix(keys.sessionDraft("")),
+    // Sorted sets (with their facet sets) and leaderboard entries
+    keys.scoreIndex(),
+    familyPrefix(keys.leaderboardIndex()),
+  ];
+  const found = await Promise.all(prefixes.map((prefix) => storage.keys(prefix)));
+
+  return Array.from(
+    new Set([
+      ...found.flat(),
+      keys.conferenceIndex(),
+      keys.personaIndex(),
+      keys.traineeIndex(),
+      keys.promptBundleIndex(),
+      keys.activePromptBundle(),
+      keys.inviteIndex(),
+    ])
+  );
+}
+
+async function writeInChunks(
+  storage: StorageAdapter,
+  entries: Array<{ key: string; value: unknown }>
+): Promise<void> {
+  for (let i = 0; i < entries.length; i += WRITE_CHUNK_SIZE) {
+    await storage.setMany(entries.slice(i, i + WRITE_CHUNK_SIZE));
+  }
+}
+
+async function deleteInChunks(storage: StorageAdapter, keyList: string[]): Promise<void> {
+  for (let i = 0; i < keyList.length; i += WRITE_CHUNK_SIZE) {
+    await Promise.all(keyList.slice(i, i + WRITE_CHUNK_SIZE).map((key) => storage.del(key)));
+  }
+}
+
+/**
+ * Merge new IDs in front of an existing newest-first index
+ */
+function prependToIndex(existing: string[], ids: string[]): string[] {
+  const incoming = new Set(ids);
+  return [...ids, ...existing.filter((id) => !incoming.has(id))];
+}
+
+/**
+ * Restore an archive into storage
+ */
+export async function importArchive(
+  storage: StorageAdapter,
+  archive: SimulatorArchive,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const { data } = archive;
+  const replacing = options.mode === "replace";
+  const policy = options.onConflict;
+  const warnings: string[] = [];
+
+  const collections = {
+    conferences: emptyReport(),
+    personas: emptyReport(),
+    trainees: emptyReport(),
+    promptBundles: emptyReport(),
+    enrichments: emptyReport(),
+    sessions: emptyReport(),
+    invites: emptyReport(),
+    scores: emptyReport(),
+  } satisfies Record<ArchiveCollection, CollectionImportReport>;
+
+  // Schema drift: archived values may need a migration after import
+  for (const [family, definition] of Object.entries(KEY_FAMILIES)) {
+    const archived = archive.source.schemaVersions[family as KeyFamilyName];
+    if (archived !== undefined && archived < definition.version) {
+      warnings.push(
+        `${family} was exported at schema v${archived} (current v${definition.version}); run /api/admin/migrate-data after import`
+      );
+    }
+  }
+
+  // 1) Scenario content (no dependencies)
+  const conferencePlan = await planCollection(
+    storage,
+    data.conferences,
+    {
+      idOf: (c) => c.id,
+      keyOf: keys.conference,
+      withId: (c, id) => ({ ...c, id }),
+      newId: (id) => `${id}-${randomSuffix()}`,
+      policy,
+      replacing,
+    },
+    collections.conferences
+  );
+  const personaPlan = await planCollection(
+    storage,
+    data.personas,
+    {
+      idOf: (p) => p.id,
+      keyOf: keys.persona,
+      withId: (p, id) => ({ ...p, id }),
+      newId: (id) => `${id}-${randomSuffix()}`,
+      policy,
+      replacing,
+    },
+    collections.personas
+  );
+  const traineePlan = await planCollection(
+    storage,
+    data.trainees,
+    {
+      idOf: (t) => t.id,
+      keyOf: keys.trainee,
+      withId: (t, id) => ({ ...t, id }),
+      newId: (id) => `${id}-${randomSuffix()}`,
+      policy,
+      replacing,
+    },
+    collections.trainees
+  );
+  const bundlePlan = await planCollection(
+    storage,
+    data.promptBundles,
+    {
+      idOf: (b) => b.id,
+      keyOf: keys.promptBundle,
+      withId: (b, id) => ({ ...b, id }),
+      newId: (id) => `${id}-${randomSuffix()}`,
+      policy,
+      replacing,
+    },
+    collections.promptBundles
+  );
+
+  const conferenceIds = conferencePlan.renamed;
+  const personaIds = personaPlan.renamed;
+  const traineeIds = traineePlan.renamed;
+
+  // 2) Enrichments follow renamed conferences/personas
+  const enrichments = data.enrichments.map((e) => ({
+    ...e,
+    conferenceId: remap(conferenceIds, e.conferenceId) ?? e.conferenceId,
+    personaId: remap(personaIds, e.personaId) ?? e.personaId,
+  }));
+  const enrichmentPlan = await planCollection(
+    storage,
+    enrichments,
+    {
+      idOf: (e) => keys.enrichment(e.conferenceId, e.personaId),
+      keyOf: (key) => key,
+      withId: (e) => e,
+      newId: (id) => id,
+      // Caches: never fork an enrichment under a new key
+      policy: policy === "rename" ? "skip" : policy,
+      replacing,
+    },
+    collections.enrichments
+  );
+
+  // 3) Sessions (kickoff references scenario content)
+  const sessions = data.sessions.map((s) => ({
+    ...s,
+    kickoff: {
+      ...s.kickoff,
+      conferenceId: remap(conferenceIds, s.kickoff.conferenceId),
+      personaId: remap(personaIds, s.kickoff.personaId),
+      traineeId: remap(traineeIds, s.kickoff.traineeId),
+    },
+  }));
+  const sessionPlan = await planCollection(
+    storage,
+    sessions,
+    {
+      idOf: (s) => s.id,
+      keyOf: keys.session,
+      withId: (s, id) => ({ ...s, id }),
+      newId: () => randomUUID(),
+      policy,
+      replacing,
+    },
+    collections.sessions
+  );
+  const sessionIds = sessionPlan.renamed;
+
+  // 4) Invites (reference sessions and scenario content)
+  const invites = data.invites.map((invite) => ({
+    ...invite,
+    sessionId: remap(sessionIds, invite.sessionId) ?? invite.sessionId,
+    conferenceId: remap(conferenceIds, invite.conferenceId),
+    personaId: remap(personaIds, invite.personaId),
+    traineeId: remap(traineeIds, invite.traineeId),
+  }));
+  const invitePlan = await planCollection(
+    storage,
+    invites,
+    {
+      idOf: (i) => i.token,
+      keyOf: keys.invite,
+      withId: (i, token) => ({ ...i, token }),
+      newId: () => randomUUID(),
+      policy,
+      replacing,
+    },
+    collections.invites
+  );
+
+  // 5) Scores share the invite token namespace
+  const tokens = new Map(invitePlan.renamed);
+  const scores = data.scores.map((score) => ({
+    ...score,
+    token: remap(tokens, score.token) ?? score.token,
+    sessionId: remap(sessionIds, score.sessionId) ?? score.sessionId,
+    conferenceId: remap(conferenceIds, score.conferenceId),
+    personaId: remap(personaIds, score.personaId),
+    traineeId: remap(traineeIds, score.traineeId),
+  }));
+  const scorePlan = await planCollection(
+    storage,
+    scores,
+    {
+      idOf: (s) => s.token,
+      keyOf: keys.score,
+      withId: (s, token) => ({ ...s, token }),
+      newId: () => randomUUID(),
+      policy,
+      replacing,
+    },
+    collections.scores
+  );
+  for (const [from, to] of scorePlan.renamed) {
+    // A score renamed on its own (no matching invite in the archive)
+    const original = [...tokens].find(([, renamedTo]) => renamedTo === from)?.[0] ?? from;
+    tokens.set(original, to);
+  }
+
+  // Active prompt bundle: replace takes the archive's; merge keeps ours if set
+  const archivedActive = remapNullable(bundlePlan.renamed, data.activePromptBundleId) ?? null;
+  const currentActive = replacing ? null : await storage.get<string>(keys.activePromptBundle());
+  const activePromptBundleId = currentActive ?? archivedActive;
+
+  const renamedIds: ImportReport["renamedIds"] = {};
+  const renameSets: Array<[ArchiveCollection, Map<string, string>]> = [
+    ["conferences", conferenceIds],
+    ["personas", personaIds],
+    ["trainees", traineeIds],
+    ["promptBundles", bundlePlan.renamed],
+    ["sessions", sessionIds],
+    ["invites", invitePlan.renamed],
+    ["scores", scorePlan.renamed],
+  ];
+  for (const [name, map] of renameSets) {
+    if (map.size > 0) renamedIds[name] = Object.fromEntries(map);
+  }
+
+  const report: ImportReport = {
+    mode: options.mode,
+    onConflict: policy,
+    dryRun: options.dryRun,
+    deletedKeys: 0,
+    collections,
+    renamedIds,
+    activePromptBundleId,
+    warnings,
+  };
+
+  if (replacing) {
+    const existingKeys = await listSimulatorKeys(storage);
+    report.deletedKeys = existingKeys.length;
+    if (!options.dryRun) {
+      await deleteInChunks(storage, existingKeys);
+      await forgetWorkspaceOwner(
+        existingKeys.flatMap((key) =>
+          [RECORD_PREFIXES.invites, RECORD_PREFIXES.sessions]
+            .filter((prefix) => key.startsWith(prefix))
+            .map((prefix) => key.slice(prefix.length))
+        )
+      );
+    }
+  }
+
+  if (options.dryRun) {
+    return report;
+  }
+
+  // Records
+  const writes: Array<{ key: string; value: unknown }> = [
+    ...conferencePlan.writes.map((w) => ({ key: keys.conference(w.id), value: w.item })),
+    ...personaPlan.writes.map((w) => ({ key: keys.persona(w.id), value: w.item })),
+    ...traineePlan.writes.map((w) => ({ key: keys.trainee(w.id), value: w.item })),
+    ...bundlePlan.writes.map((w) => ({ key: keys.promptBundle(w.id), value: w.item })),
+    ...enrichmentPlan.writes.map((w) => ({
+      key: keys.enrichment(w.item.conferenceId, w.item.personaId),
+      value: w.item,
+    })),
+    ...sessionPlan.writes.map((w) => ({ key: keys.session(w.id), value: w.item })),
+    ...invitePlan.writes.flatMap((w) => [
+      { key: keys.invite(w.id), value: w.item },
+      { key: keys.sessionInvite(w.item.sessionId), value: { token: w.id } },
+    ]),
+    ...scorePlan.writes.map((w) => ({ key: keys.score(w.id), value: w.item })),
+  ];
+
+  // Event logs travel with their (possibly renamed) session
+  const originalSessionId = new Map(
+    [...sessionIds].map(([from, to]) => [to, from])
+  );
+  for (const { id, item } of sessionPlan.writes) {
+    const events = data.sessionEvents[originalSessionId.get(id) ?? id] ?? [];
+    const batches = new Map<number, SessionEvent[]>();
+    for (const event of events) {
+      const next =
+        event.type === "session_created"
+          ? { ...event, snapshot: { ...event.snapshot, id, kickoff: item.kickoff } }
+          : event;
+      batches.set(event.revision, [...(batches.get(event.revision) ?? []), next]);
+    }
+    for (const [revision, batch] of batches) {
+      writes.push({ key: keys.sessionEvents(id, revision), value: batch });
+    }
+  }
+
+  if (activePromptBundleId) {
+    writes.push({ key: keys.activePromptBundle(), value: activePromptBundleId });
+  }
+
+  // Leaderboard: archived entries for written scores, rebuilt when missing
+  const archivedEntries = new Map(
+    data.leaderboard.map((entry) => [remap(tokens, entry.token) ?? entry.token, entry])
+  );
+  const writtenEntries = scorePlan.writes.map(({ id, item }) => {
+    const archived = archivedEntries.get(id);
+    if (!archived) return leaderboardEntryFromScore(item);
+    return {
+      ...archived,
+      token: id,
+      conferenceId: remapNullable(conferenceIds, archived.conferenceId) ?? null,
+      personaId: remapNullable(personaIds, archived.personaId) ?? null,
+      traineeId: remapNullable(traineeIds, archived.traineeId) ?? null,
+    };
+  });
+
+  // Overwritten scores must leave the facet sets they no longer match
+  const [previousScores, previousEntries] = replacing
+    ? [[], []]
+    : await Promise.all([
+        storage.mget<ScoreRecord>(scorePlan.writes.map((w) => keys.score(w.id))),
+        storage.mget<LeaderboardEntry>(scorePlan.writes.map((w) => keys.leaderboardEntry(w.id))),
+      ]);
+
+  // Overwritten sessions lose their old event log (the archive's replaces it)
+  const previousSessions = replacing
+    ? []
+    : await storage.mget<SessionState>(sessionPlan.writes.map((w) => keys.session(w.id)));
+  await deleteInChunks(
+    storage,
+    previousSessions.flatMap((session) => (session ? sessionEventKeys(session) : []))
+  );
+
+  await writeInChunks(storage, writes);
+  await recordWorkspaceOwner([
+    ...invitePlan.writes.map((w) => w.id),
+    ...sessionPlan.writes.map((w) => w.id),
+  ]);
+
+  // Indexes
+  const [
+    conferenceIndex,
+    personaIndex,
+    traineeIndex,
+    bundleIndex,
+    inviteIndex,
+  ] = replacing
+    ? [[], [], [], [], []]
+    : await Promise.all([
+        storage.get<string[]>(keys.conferenceIndex()),
+        storage.get<string[]>(keys.personaIndex()),
+        storage.get<string[]>(keys.traineeIndex()),
+        storage.get<string[]>(keys.promptBundleIndex()),
+        storage.get<Array<{ token: string; createdAt: string }>>(keys.inviteIndex()),
+      ]);
+
+  const writtenInvites = invitePlan.writes.map((w) => ({
+    token: w.id,
+    createdAt: w.item.createdAt,
+  }));
+  const inviteTokens = new Set(writtenInvites.map((entry) => entry.token));
+
+  await writeInChunks(storage, [
+    {
+      key: keys.conferenceIndex(),
+      value: prependToIndex(conferenceIndex ?? [], conferencePlan.writes.map((w) => w.id)),
+    },
+    {
+      key: keys.personaIndex(),
+      value: prependToIndex(personaIndex ?? [], personaPlan.writes.map((w) => w.id)),
+    },
+    {
+      key: keys.traineeIndex(),
+      value: prependToIndex(traineeIndex ?? [], traineePlan.writes.map((w) => w.id)),
+    },
+    {
+      // Insertion order: append
+      key: keys.promptBundleIndex(),
+      value: [
+        ...(bundleIndex ?? []).filter((id) => !bundlePlan.writes.some((w) => w.id === id)),
+        ...bundlePlan.writes.map((w) => w.id),
+      ],
+    },
+    {
+      key: keys.inviteIndex(),
+      value: [
+        ...writtenInvites,
+        ...(inviteIndex ?? []).filter((entry) => !inviteTokens.has(entry.token)),
+      ].sort((a, b) => byNewest(a.createdAt, b.createdAt)),
+    },
+  ]);
+
+  // Sorted score and leaderboard indexes
+  for (let i = 0; i < scorePlan.writes.length; i += WRITE_CHUNK_SIZE) {
+    await Promise.all(
+      scorePlan.writes.slice(i, i + WRITE_CHUNK_SIZE).flatMap(({ item }, j) => [
+        indexScore(storage, item, previousScores[i + j]),
+        indexLeaderboardEntry(storage, writtenEntries[i + j], previousEntries[i + j]),
+      ])
+    );
+  }
+
+  return report;
+}
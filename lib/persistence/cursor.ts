@@ -0,0 +1,62 @@
+/**
+ * Cursor pagination over sorted-set positions.
+ *
+ * Items are ordered by (score desc, member desc). A cursor encodes the last
+ * position of a page, so the next page starts strictly after it even when
+ * items are added or removed in between.
+ */
+
+import type { SortedSetMember } from "./storageAdapter";
+
+export interface PageOptions {
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Records matching the filters (all pages) */
+  totalMatched: number;
+  /** totalMatched is an upper bound: the query stopped before checking every candidate */
+  totalEstimated?: boolean;
+  nextCursor: string | null;
+}
+
+export function encodeCursor(position: SortedSetMember): string {
+  return Buffer.from(`${position.score}:${position.member}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string | null | undefined): SortedSetMember | null {
+  if (!cursor) return null;
+  const decoded = Buffer.from(cursor, "base64url").toString();
+  const split = decoded.indexOf(":");
+  const score = Number(decoded.slice(0, split));
+  if (split < 0 || Number.isNaN(score)) return null;
+  return { score, member: decoded.slice(split + 1) };
+}
+
+export function isAfter(item: SortedSetMember, cursor: SortedSetMember | null): boolean {
+  if (!cursor) return true;
+  return item.score < cursor.score || (item.score === cursor.score && item.member < cursor.member);
+}
+
+export function byPosition(a: SortedSetMember, b: SortedSetMember): number {
+  if (a.score !== b.score) return b.score - a.score;
+  return a.member < b.member ? 1 : a.member > b.member ? -1 : 0;
+}
+
+/**
+ * Slice one page out of positions already in (score desc, member desc) order
+ */
+export function pageOf(
+  positions: SortedSetMember[],
+  cursor: SortedSetMember | null,
+  limit: number
+): { page: SortedSetMember[]; nextCursor: string | null } {
+  const remaining = positions.filter((position) => isAfter(position, cursor));
+  const page = remaining.slice(0, limit);
+  const nextCursor =
+    remaining.length > limit && page.length > 0 ? encodeCursor(page[page.length - 1]) : null;
+  return { page, nextCursor };
+}
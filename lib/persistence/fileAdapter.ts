@@ -0,0 +1,192 @@
+/**
+ * File-backed storage adapter (JSON on disk).
+ *
+ * Intended for on-prem training laptops that need sessions, scores and
+ * scenario content to survive restarts without a Vercel KV account.
+ *
+ * The whole store is held in memory and flushed to a single JSON file after
+ * every write. Writes go to a temp file first and are renamed into place so a
+ * crash mid-write never leaves a truncated store behind. Like the memory
+ * store, state lives on globalThis so Turbopack module instances share it.
+ */
+
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { rename, writeFile } from "fs/promises";
+import path from "path";
+import type { StorageAdapter } from "./storageAdapter";
+import {
+  addToSortedSet,
+  countSortedSet,
+  rangeSortedSet,
+  removeFromSortedSet,
+  type SortedSetValue,
+} from "./sortedSet";
+
+const FILE_FORMAT_VERSION = 1;
+
+interface FileStoreState {
+  filePath: string;
+  entries: Map<string, unknown>;
+  // Serializes flushes so concurrent writes never interleave on disk
+  writeChain: Promise<void>;
+}
+
+interface FileStorePayload {
+  version: number;
+  savedAt: string;
+  entries: Record<string, unknown>;
+}
+
+declare global {
+  var __HC_SIM_FILE_STORE__: FileStoreState | undefined;
+}
+
+/**
+ * Resolve the on-disk location of the store.
+ * Override with STORAGE_FILE_PATH; defaults to ./.data/simulator-store.json
+ */
+export function resolveStorageFilePath(): string {
+  const configured = process.env.STORAGE_FILE_PATH;
+  if (configured && configured.trim()) {
+    return path.resolve(configured.trim());
+  }
+  return path.join(process.cwd(), ".data", "simulator-store.json");
+}
+
+function loadEntries(filePath: string): Map<string, unknown> {
+  if (!existsSync(filePath)) {
+    return new Map();
+  }
+
+  const raw = readFileSync(filePath, "utf8");
+  if (!raw.trim()) {
+    return new Map();
+  }
+
+  const payload = JSON.parse(raw) as FileStorePayload;
+  if (payload.version !== FILE_FORMAT_VERSION) {
+    throw new Error(
+      `[FileStore] Unsupported store file version ${payload.version} in ${filePath}`
+    );
+  }
+
+  return new Map(Object.entries(payload.entries ?? {}));
+}
+
+function getState(): FileStoreState {
+  const filePath = resolveStorageFilePath();
+
+  if (!globalThis.__HC_SIM_FILE_STORE__ || globalThis.__HC_SIM_FILE_STORE__.filePath !== filePath) {
+    const entries = loadEntries(filePath);
+    console.log(`[FileStore] Loaded ${entries.size} keys from ${filePath}`);
+    globalThis.__HC_SIM_FILE_STORE__ = {
+      filePath,
+      entries,
+      writeChain: Promise.resolve(),
+    };
+  }
+
+  return globalThis.__HC_SIM_FILE_STORE__;
+}
+
+/**
+ * Queue a flush of the full store to disk (atomic temp-file + rename).
+ */
+function flush(state: FileStoreState): Promise<void> {
+  const next = state.writeChain.then(async () => {
+    const payload: FileStorePayload = {
+      version: FILE_FORMAT_VERSION,
+      savedAt: new Date().toISOString(),
+      entries: Object.fromEntries(state.entries),
+    };
+
+    mkdirSync(path.dirname(state.filePath), { recursive: true });
+    const tmpPath = `${state.filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(payload), "utf8");
+    await rename(tmpPath, state.filePath);
+  });
+
+  // Keep the chain alive even if one flush fails
+  state.writeChain = next.catch((error) => {
+    console.error("[FileStore] Failed to flush store to disk:", error);
+  });
+
+  return next;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+export function createFileAdapter(): StorageAdapter {
+  return {
+    backend: "file",
+
+    async get<T>(key: string): Promise<T | null> {
+      const value = getState().entries.get(key) as T | undefined;
+      return value === undefined ? null : clone(value);
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      const state = getState();
+      state.entries.set(key, clone(value));
+      await flush(state);
+    },
+
+    async del(key: string): Promise<void> {
+      const state = getState();
+      if (state.entries.delete(key)) {
+        await flush(state);
+      }
+    },
+
+    async mget<T>(keys: string[]): Promise<Array<T | null>> {
+      const { entries } = getState();
+      return keys.map((key) => {
+        const value = entries.get(key) as T | undefined;
+        return value === undefined ? null : clone(value);
+      });
+    },
+
+    async setMany(items: Array<{ key: string; value: unknown }>): Promise<void> {
+      if (items.length === 0) return;
+
+      const state = getState();
+      for (const item of items) {
+        state.entries.set(item.key, clone(item.value));
+      }
+      await flush(state);
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      return Array.from(getState().entries.keys()).filter((key) =>
+        key.startsWith(prefix)
+      );
+    },
+
+    async zadd(key, members): Promise<void> {
+      if (members.length === 0) return;
+
+      const state = getState();
+      state.entries.set(key, addToSortedSet(state.entries.get(key) as SortedSetValue | undefined, members));
+      await flush(state);
+    },
+
+    async zrem(key, members): Promise<void> {
+      const state = getState();
+      const current = state.entries.get(key) as SortedSetValue | undefined;
+      if (!current || members.length === 0) return;
+
+      state.entries.set(key, removeFromSortedSet(current, members));
+      await flush(state);
+    },
+
+    async zrange(key, range) {
+      return rangeSortedSet(getState().entries.get(key) as SortedSetValue | undefined, range);
+    },
+
+    async zcount(key, range): Promise<number> {
+      return countSortedSet(getState().entries.get(key) as SortedSetValue | undefined, range);
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Storage adapter selection.
+ *
+ * Backend is chosen by STORAGE_BACKEND ("kv" | "memory" | "file").
+ * When unset, falls back to the historical behavior: Vercel KV when
+ * configured (see isKvConfigured), otherwise the in-memory store.
+ *
+ * getStorage() is scoped to the current workspace (see ./workspaceScope);
+ * getGlobalStorage() reads keys shared by all workspaces.
+ */
+
+import { isKvConfigured } from "../kvConfig";
+import { createKvAdapter } from "./kvAdapter";
+import { createMemoryAdapter } from "./memoryAdapter";
+import { createFileAdapter } from "./fileAdapter";
+import { currentWorkspaceId, scopeStorage } from "./workspaceScope";
+import type { StorageAdapter, StorageBackend } from "./storageAdapter";
+
+export type { StorageAdapter, StorageBackend } from "./storageAdapter";
+
+const adapters: Partial<Record<StorageBackend, StorageAdapter>> = {};
+const scopedAdapters = new Map<string, StorageAdapter>();
+
+/**
+ * Determine which backend is configured for this process
+ */
+export function resolveStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+
+  if (configured === "kv" || configured === "memory" || configured === "file") {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(
+      `[Storage] Unknown STORAGE_BACKEND "${configured}", falling back to default`
+    );
+  }
+
+  return isKvConfigured() ? "kv" : "memory";
+}
+
+/**
+ * Get the unscoped storage adapter for the configured backend
+ * Safe to call on every request - adapters are created once per backend
+ */
+export function getGlobalStorage(): StorageAdapter {
+  const backend = resolveStorageBackend();
+
+  if (!adapters[backend]) {
+    switch (backend) {
+      case "kv":
+        adapters[backend] = createKvAdapter();
+        break;
+      case "file":
+        adapters[backend] = createFileAdapter();
+        break;
+      default:
+        adapters[backend] = createMemoryAdapter();
+    }
+  }
+
+  return adapters[backend]!;
+}
+
+/**
+ * Get the storage adapter for a workspace
+ */
+export function getWorkspaceStorage(workspaceId: string): StorageAdapter {
+  const base = getGlobalStorage();
+  const cacheKey = `${base.backend}:${workspaceId}`;
+
+  if (!scopedAdapters.has(cacheKey)) {
+    scopedAdapters.set(cacheKey, scopeStorage(base, workspaceId));
+  }
+
+  return scopedAdapters.get(cacheKey)!;
+}
+
+/**
+ * Get the storage adapter for the current workspace
+ */
+export function getStorage(): StorageAdapter {
+  return getWorkspaceStorage(currentWorkspaceId());
+}
+
+/**
+ * True when data survives a process restart (KV or file backend)
+ */
+export function isDurableStorage(): boolean {
+  return resolveStorageBackend() !== "memory";
+}
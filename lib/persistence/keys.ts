@@ -0,0 +1,243 @@
+/**
+ * Storage key registry.
+ *
+ * Every key the simulator writes is built here so key shapes live in one
+ * place. Each family carries a schema version for the value stored under it;
+ * bump the version and add a migration in ./migrations.ts whenever the value
+ * shape changes. Applied versions are recorded under SCHEMA_VERSIONS_KEY.
+ *
+ * Keys are relative to the current workspace (getStorage() adds the prefix).
+ * Families marked `global` are shared by all workspaces and must be read and
+ * written through getGlobalStorage().
+ *
+ * See docs/KEY_SCHEMA.md for the full reference.
+ */
+
+export interface KeyFamily {
+  /** Key shape ({placeholders} are filled by the builders below) */
+  pattern: string;
+  /** Schema version of the value stored under this family */
+  version: number;
+  /** Value shape, for humans */
+  description: string;
+  /** Shared by all workspaces (stored without a workspace prefix) */
+  global?: boolean;
+}
+
+export const KEY_FAMILIES = {
+  session: {
+    pattern: "session:{sessionId}",
+    version: 1,
+    description: "SessionState snapshot (revision-checked by saveSession)",
+  },
+  invite: {
+    pattern: "invite:{token}",
+    version: 1,
+    description: "InviteRecord",
+  },
+  sessionEvents: {
+    pattern: "session_events:{sessionId}:{revision}",
+    version: 1,
+    description: "SessionEvent[] written with that session revision",
+  },
+  sessionInvite: {
+    pattern: "session_invite:{sessionId}",
+    version: 1,
+    description: "{ token } reverse lookup from session to invite",
+  },
+  sessionDraft: {
+    pattern: "session_draft:{sessionId}",
+    version: 1,
+    description: "SessionDraft: the trainee's unsent message",
+  },
+  inviteIndex: {
+    pattern: "invites:index",
+    version: 1,
+    description: "Array<{ token, createdAt }>, newest first",
+  },
+  score: {
+    pattern: "score:{token}",
+    version: 1,
+    description: "ScoreRecord",
+  },
+  scoreIndex: {
+    pattern: "scores:by_time",
+    version: 2,
+    description: "Sorted set: score token → completedAt (ms)",
+  },
+  scoreFacetIndex: {
+    pattern: "scores:by_time:{facet}:{value}",
+    version: 1,
+    description: "Sorted set per conference/persona/trainee/difficulty: token → completedAt (ms)",
+  },
+  leaderboardEntry: {
+    pattern: "leaderboard:entry:{token}",
+    version: 1,
+    description: "LeaderboardEntry",
+  },
+  leaderboardIndex: {
+    pattern: "leaderboard:rank",
+    version: 2,
+    description: "Sorted set: token → rank (score × 1e13 + createdAt ms), unassisted runs only",
+  },
+  leaderboardFacetIndex: {
+    pattern: "leaderboard:rank:{facet}:{value}",
+    version: 1,
+    description: "Sorted set per conference/persona/trainee/difficulty/jobTitle/coaching: token → rank",
+  },
+  trainee: {
+    pattern: "trainee:{id}",
+    version: 1,
+    description: "Trainee",
+  },
+  traineeIndex: {
+    pattern: "trainees:index",
+    version: 1,
+    description: "string[] of trainee IDs, newest first",
+  },
+  persona: {
+    pattern: "persona:{id}",
+    version: 1,
+    description: "Persona",
+  },
+  personaIndex: {
+    pattern: "personas:index",
+    version: 1,
+    description: "string[] of persona IDs, newest first",
+  },
+  conference: {
+    pattern: "conference:{id}",
+    version: 1,
+    description: "Conference",
+  },
+  conferenceIndex: {
+    pattern: "conferences:index",
+    version: 1,
+    description: "string[] of conference IDs, newest first",
+  },
+  enrichment: {
+    pattern: "enrichment:{conferenceId}:{personaId}",
+    version: 1,
+    description: "EnrichmentResult",
+  },
+  promptBundle: {
+    pattern: "prompt_bundle:{bundleId}",
+    version: 1,
+    description: "PromptBundle",
+  },
+  promptBundleIndex: {
+    pattern: "prompt_bundles:index",
+    version: 1,
+    description: "string[] of prompt bundle IDs, insertion order",
+  },
+  activePromptBundle: {
+    pattern: "prompt_bundle:active",
+    version: 1,
+    description: "string ID of the active prompt bundle",
+  },
+  retentionPolicy: {
+    pattern: "retention:policy",
+    version: 1,
+    description: "RetentionPolicy (days per entity type; null keeps forever)",
+  },
+  simulatorConfigVersion: {
+    pattern: "simulator_config:version:{version}",
+    version: 1,
+    description: "SimulatorConfigVersion (immutable once written)",
+  },
+  simulatorConfigIndex: {
+    pattern: "simulator_config:versions",
+    version: 1,
+    description: "number[] of saved simulator config versions, oldest first",
+  },
+  activeSimulatorConfig: {
+    pattern: "simulator_config:active",
+    version: 1,
+    description: "number: simulator config version new sessions start on (0 = bundled file)",
+  },
+  auditEntry: {
+    pattern: "audit:entry:{id}",
+    version: 1,
+    description: "AuditEntry (append-only)",
+  },
+  auditIndex: {
+    pattern: "audit:by_time",
+    version: 1,
+    description: "Sorted set: audit entry ID → time (ms)",
+  },
+  workspace: {
+    pattern: "workspace:{workspaceId}",
+    version: 1,
+    description: "Workspace",
+    global: true,
+  },
+  workspaceIndex: {
+    pattern: "workspaces:index",
+    version: 1,
+    description: "string[] of workspace IDs, creation order",
+    global: true,
+  },
+  workspaceOwner: {
+    pattern: "workspace_owner:{id}",
+    version: 1,
+    description: "{ workspaceId } owning an invite token or session ID",
+    global: true,
+  },
+} satisfies Record<string, KeyFamily>;
+
+export type KeyFamilyName = keyof typeof KEY_FAMILIES;
+
+/**
+ * Record of applied schema versions: { [family]: version }
+ */
+export const SCHEMA_VERSIONS_KEY = "schema:versions";
+
+/**
+ * Keys from retired schema versions (read and removed by migrations only)
+ */
+export const LEGACY_KEYS = {
+  /** scoreIndex v1: string[] of score tokens, newest first */
+  scoreIndex: "scores:index",
+  /** leaderboardIndex v1: LeaderboardEntry[], newest first */
+  leaderboardIndex: "leaderboard:index",
+};
+
+/**
+ * Key builders - use these instead of string literals in stores
+ */
+export const keys = {
+  session: (sessionId: string) => `session:${sessionId}`,
+  invite: (token: string) => `invite:${token}`,
+  sessionEvents: (sessionId: string, revision: number) =>
+    `session_events:${sessionId}:${revision}`,
+  sessionInvite: (sessionId: string) => `session_invite:${sessionId}`,
+  sessionDraft: (sessionId: string) => `session_draft:${sessionId}`,
+  inviteIndex: () => "invites:index",
+  score: (token: string) => `score:${token}`,
+  scoreIndex: () => "scores:by_time",
+  scoreFacetIndex: (facet: string, value: string) => `scores:by_time:${facet}:${value}`,
+  leaderboardEntry: (token: string) => `leaderboard:entry:${token}`,
+  leaderboardIndex: () => "leaderboard:rank",
+  leaderboardFacetIndex: (facet: string, value: string) =>
+    `leaderboard:rank:${facet}:${value}`,
+  trainee: (id: string) => `trainee:${id}`,
+  traineeIndex: () => "trainees:index",
+  persona: (id: string) => `persona:${id}`,
+  personaIndex: () => "personas:index",
+  conference: (id: string) => `conference:${id}`,
+  conferenceIndex: () => "conferences:index",
+  enrichment: (conferenceId: string, personaId: string) =>
+    `enrichment:${conferenceId}:${personaId}`,
+  promptBundle: (bundleId: string) => `prompt_bundle:${bundleId}`,
+  promptBundleIndex: () => "prompt_bundles:index",
+  activePromptBundle: () => "prompt_bundle:active",
+  retentionPolicy: () => "retention:policy",
+  simulatorConfigVersion: (version: number) => `simulator_config:version:${version}`,
+  simulatorConfigIndex: () => "simulator_config:versions",
+  activeSimulatorConfig: () => "simulator_config:active",
+  auditEntry: (id: string) => `audit:entry:${id}`,
+  auditIndex: () => "audit:by_time",
+  workspace: (workspaceId: string) => `workspace:${workspaceId}`,
+  workspaceIndex: () => "workspaces:index",
+  workspaceOwner: (id: string) => `workspace_owner:${id}`,
+};
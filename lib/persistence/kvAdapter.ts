@@ -0,0 +1,108 @@
+/**
+ * Vercel KV (Upstash Redis) storage adapter.
+ */
+
+import { kv } from "@vercel/kv";
+import type { SortedSetMember, StorageAdapter } from "./storageAdapter";
+
+type ScoreBound = number | "-inf" | "+inf";
+
+function lowerBound(min: number | undefined): ScoreBound {
+  return min === undefined || min === -Infinity ? "-inf" : min;
+}
+
+function upperBound(max: number | undefined): ScoreBound {
+  return max === undefined || max === Infinity ? "+inf" : max;
+}
+
+/**
+ * ZRANGE ... WITHSCORES returns [member, score, member, score, ...]
+ */
+function pairMembers(flat: unknown[]): SortedSetMember[] {
+  const members: SortedSetMember[] = [];
+  for (let i = 0; i < flat.length; i += 2) {
+    members.push({ member: String(flat[i]), score: Number(flat[i + 1]) });
+  }
+  return members;
+}
+
+export function createKvAdapter(): StorageAdapter {
+  return {
+    backend: "kv",
+
+    async get<T>(key: string): Promise<T | null> {
+      return (await kv.get<T>(key)) ?? null;
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      await kv.set(key, value);
+    },
+
+    async del(key: string): Promise<void> {
+      await kv.del(key);
+    },
+
+    async mget<T>(keys: string[]): Promise<Array<T | null>> {
+      if (keys.length === 0) return [];
+      const values = await kv.mget<Array<T | null>>(...keys);
+      return keys.map((_, index) => values[index] ?? null);
+    },
+
+    async setMany(entries: Array<{ key: string; value: unknown }>): Promise<void> {
+      if (entries.length === 0) return;
+
+      // Use pipeline for efficient batch write
+      const pipeline = kv.pipeline();
+      for (const entry of entries) {
+        pipeline.set(entry.key, entry.value);
+      }
+      await pipeline.exec();
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      const result: string[] = [];
+      for await (const key of kv.scanIterator({ match: `${prefix}*`, count: 500 })) {
+        result.push(key);
+      }
+      return result;
+    },
+
+    async zadd(key, members): Promise<void> {
+      if (members.length === 0) return;
+      const [first, ...rest] = members;
+      await kv.zadd(key, first, ...rest);
+    },
+
+    async zrem(key, members): Promise<void> {
+      if (members.length === 0) return;
+      await kv.zrem(key, ...members);
+    },
+
+    async zrange(key, range = {}) {
+      const min = lowerBound(range.min);
+      const max = upperBound(range.max);
+      // BYSCORE REV takes the bounds high-to-low
+      const [start, stop] = range.rev ? [max, min] : [min, max];
+
+      const flat =
+        range.count === undefined
+          ? await kv.zrange<unknown[]>(key, start, stop, {
+              byScore: true,
+              rev: range.rev,
+              withScores: true,
+            })
+          : await kv.zrange<unknown[]>(key, start, stop, {
+              byScore: true,
+              rev: range.rev,
+              withScores: true,
+              offset: range.offset ?? 0,
+              count: range.count,
+            });
+      return pairMembers(flat);
+    },
+
+    async zcount(key, range = {}): Promise<number> {
+      return kv.zcount(key, lowerBound(range.min), upperBound(range.max));
+    },
+  };
+}
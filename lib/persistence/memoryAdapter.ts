@@ -0,0 +1,78 @@
+/**
+ * In-memory storage adapter backed by the global shared memory store.
+ *
+ * Values are cloned on read and write so callers get the same copy semantics
+ * as Vercel KV (mutating a loaded object never changes stored data).
+ * Data is lost when the process restarts.
+ */
+
+import { getMemStore } from "../memoryStore";
+import type { StorageAdapter } from "./storageAdapter";
+import {
+  addToSortedSet,
+  countSortedSet,
+  rangeSortedSet,
+  removeFromSortedSet,
+  type SortedSetValue,
+} from "./sortedSet";
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+export function createMemoryAdapter(): StorageAdapter {
+  const entries = () => getMemStore().kv;
+
+  return {
+    backend: "memory",
+
+    async get<T>(key: string): Promise<T | null> {
+      const value = entries().get(key) as T | undefined;
+      return value === undefined ? null : clone(value);
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      entries().set(key, clone(value));
+    },
+
+    async del(key: string): Promise<void> {
+      entries().delete(key);
+    },
+
+    async mget<T>(keys: string[]): Promise<Array<T | null>> {
+      return keys.map((key) => {
+        const value = entries().get(key) as T | undefined;
+        return value === undefined ? null : clone(value);
+      });
+    },
+
+    async setMany(items: Array<{ key: string; value: unknown }>): Promise<void> {
+      for (const item of items) {
+        entries().set(item.key, clone(item.value));
+      }
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      return Array.from(entries().keys()).filter((key) => key.startsWith(prefix));
+    },
+
+    async zadd(key, members): Promise<void> {
+      if (members.length === 0) return;
+      entries().set(key, addToSortedSet(entries().get(key) as SortedSetValue | undefined, members));
+    },
+
+    async zrem(key, members): Promise<void> {
+      const current = entries().get(key) as SortedSetValue | undefined;
+      if (!current || members.length === 0) return;
+      entries().set(key, removeFromSortedSet(current, members));
+    },
+
+    async zrange(key, range) {
+      return rangeSortedSet(entries().get(key) as SortedSetValue | undefined, range);
+    },
+
+    async zcount(key, range): Promise<number> {
+      return countSortedSet(entries().get(key) as SortedSetValue | undefined, range);
+    },
+  };
+}
@@ -0,0 +1,416 @@
+/**
+ * Storage schema migration runner.
+ *
+ * Migrations are ordered, idempotent steps that bring stored data up to the
+ * versions declared in KEY_FAMILIES. Each run can be a dry run (report only)
+ * or apply (write repaired data and record the new versions under
+ * SCHEMA_VERSIONS_KEY).
+ *
+ * Exposed through /api/admin/migrate-data.
+ */
+
+import type { StorageAdapter } from "./storageAdapter";
+import {
+  KEY_FAMILIES,
+  LEGACY_KEYS,
+  SCHEMA_VERSIONS_KEY,
+  keys,
+  type KeyFamilyName,
+} from "./keys";
+import type { ScoreRecord } from "../scoring";
+import {
+  leaderboardEntryFromScore,
+  type LeaderboardEntry,
+} from "../leaderboardStore";
+import { indexLeaderboardEntry, indexScore } from "../scoreIndexes";
+
+export type MigrationMode = "dry-run" | "apply";
+
+export type SchemaVersions = Partial<Record<KeyFamilyName, number>>;
+
+interface MigrationResult {
+  /** Human-readable description of each change (made or planned) */
+  changes: string[];
+  /** Problems found that the migration could not repair */
+  issues: string[];
+}
+
+interface Migration {
+  id: string;
+  description: string;
+  /** Families brought to their target version by this step */
+  targets: Partial<Record<KeyFamilyName, number>>;
+  run(storage: StorageAdapter, dryRun: boolean): Promise<MigrationResult>;
+}
+
+export interface MigrationStepReport extends MigrationResult {
+  id: string;
+  description: string;
+  pending: boolean;
+  applied: boolean;
+  /** A later migration already moved these families past this step's targets */
+  superseded: boolean;
+}
+
+export interface MigrationRunReport {
+  mode: MigrationMode;
+  backend: string;
+  versionsBefore: SchemaVersions;
+  versionsAfter: SchemaVersions;
+  steps: MigrationStepReport[];
+}
+
+/**
+ * Check whether a value looks like a LeaderboardEntry
+ */
+function isLeaderboardEntry(value: unknown): value is LeaderboardEntry {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as LeaderboardEntry).token === "string" &&
+    typeof (value as LeaderboardEntry).score === "number"
+  );
+}
+
+function byNewest(a: string, b: string): number {
+  return new Date(b).getTime() - new Date(a).getTime();
+}
+
+/**
+ * 001: split the shared scores:index key.
+ *
+ * saveScore wrote score tokens and addToLeaderboardIndex wrote
+ * LeaderboardEntry objects to the same scores:index key, so each overwrote
+ * the other. This step separates the two shapes into scores:index (tokens)
+ * and leaderboard:index (entries), then cross-fills each index from stored
+ * score records so neither loses data.
+ */
+const splitScoresIndex: Migration = {
+  id: "001-split-scores-index",
+  description:
+    "Separate score tokens and leaderboard entries stored under scores:index",
+  targets: { scoreIndex: 1, leaderboardIndex: 1 },
+
+  async run(storage, dryRun) {
+    const changes: string[] = [];
+    const issues: string[] = [];
+
+    const raw = (await storage.get<unknown>(LEGACY_KEYS.scoreIndex)) ?? [];
+    const rawItems = Array.isArray(raw) ? raw : [];
+    if (!Array.isArray(raw)) {
+      issues.push("scores:index is not an array; treating as empty");
+    }
+
+    const tokens = new Set<string>();
+    const entries = new Map<string, LeaderboardEntry>();
+
+    // Existing leaderboard entries win over legacy copies
+    const existingLeaderboard =
+      (await storage.get<unknown[]>(LEGACY_KEYS.leaderboardIndex)) ?? [];
+    for (const item of existingLeaderboard) {
+      if (isLeaderboardEntry(item)) entries.set(item.token, item);
+    }
+    const leaderboardCountBefore = entries.size;
+
+    let legacyEntries = 0;
+    let unknownItems = 0;
+    for (const item of rawItems) {
+      if (typeof item === "string") {
+        tokens.add(item);
+      } else if (isLeaderboardEntry(item)) {
+        legacyEntries++;
+        if (!entries.has(item.token)) entries.set(item.token, item);
+      } else {
+        unknownItems++;
+      }
+    }
+
+    if (legacyEntries > 0) {
+      changes.push(
+        `Move ${legacyEntries} leaderboard entries from scores:index to leaderboard:index`
+      );
+    }
+    if (unknownItems > 0) {
+      changes.push(`Drop ${unknownItems} unrecognized items from scores:index`);
+    }
+
+    // Cross-fill: every stored score needs a token and a leaderboard entry
+    const scorePrefix = keys.score("");
+    const storedTokens = (await storage.keys(scorePrefix)).map((key) =>
+      key.slice(scorePrefix.length)
+    );
+    const allTokens = Array.from(
+      new Set([...tokens, ...entries.keys(), ...storedTokens])
+    );
+    const records = await storage.mget<ScoreRecord>(
+      allTokens.map((token) => keys.score(token))
+    );
+    const completedAt = new Map<string, string>();
+
+    let tokensRestored = 0;
+    let entriesRebuilt = 0;
+    allTokens.forEach((token, i) => {
+      const record = records[i];
+      if (!record) {
+        if (tokens.has(token)) {
+          issues.push(`Score token ${token} has no score record`);
+        }
+        return;
+      }
+
+      completedAt.set(token, record.completedAt);
+      if (!tokens.has(token)) {
+        tokens.add(token);
+        tokensRestored++;
+      }
+      if (!entries.has(token)) {
+        entries.set(token, leaderboardEntryFromScore(record));
+        entriesRebuilt++;
+      }
+    });
+
+    if (tokensRestored > 0) {
+      changes.push(`Restore ${tokensRestored} missing tokens to scores:index`);
+    }
+    if (entriesRebuilt > 0) {
+      changes.push(
+        `Rebuild ${entriesRebuilt} missing leaderboard entries from score records`
+      );
+    }
+
+    if (changes.length === 0) {
+      return { changes, issues };
+    }
+
+    const nextTokens = Array.from(tokens).sort((a, b) =>
+      byNewest(completedAt.get(a) ?? "", completedAt.get(b) ?? "")
+    );
+    const nextEntries = Array.from(entries.values()).sort((a, b) =>
+      byNewest(a.createdAt, b.createdAt)
+    );
+
+    changes.push(
+      `scores:index → ${nextTokens.length} tokens; leaderboard:index ${leaderboardCountBefore} → ${nextEntries.length} entries`
+    );
+
+    if (!dryRun) {
+      await storage.setMany([
+        { key: LEGACY_KEYS.scoreIndex, value: nextTokens },
+        { key: LEGACY_KEYS.leaderboardIndex, value: nextEntries },
+      ]);
+    }
+
+    return { changes, issues };
+  },
+};
+
+/**
+ * 002: move scores and the leaderboard onto sorted sets.
+ *
+ * The v1 indexes were whole arrays rewritten on every save, so concurrent
+ * completions dropped each other's entries and reads loaded everything.
+ * This step indexes every score record into scores:by_time (plus facet
+ * sets), writes one leaderboard:entry:{token} per entry into
+ * leaderboard:rank, and deletes the legacy arrays. Re-running it re-indexes
+ * any record missing from the sets.
+ */
+const sortedScoreIndexes: Migration = {
+  id: "002-sorted-score-indexes",
+  description:
+    "Move score and leaderboard indexes from arrays to sorted sets with facet sets",
+  targets: {
+    scoreIndex: 2,
+    scoreFacetIndex: 1,
+    leaderboardEntry: 1,
+    leaderboardIndex: 2,
+    leaderboardFacetIndex: 1,
+  },
+
+  async run(storage, dryRun) {
+    const changes: string[] = [];
+    const issues: string[] = [];
+
+    const [legacyTokens, legacyLeaderboard] = await Promise.all([
+      storage.get<unknown>(LEGACY_KEYS.scoreIndex),
+      storage.get<unknown>(LEGACY_KEYS.leaderboardIndex),
+    ]);
+
+    const legacyEntries = new Map<string, LeaderboardEntry>();
+    for (const item of Array.isArray(legacyLeaderboard) ? legacyLeaderboard : []) {
+      if (isLeaderboardEntry(item)) legacyEntries.set(item.token, item);
+    }
+
+    const scorePrefix = keys.score("");
+    const scoreKeys = await storage.keys(scorePrefix);
+    const records = (await storage.mget<ScoreRecord>(scoreKeys)).filter(
+      (record): record is ScoreRecord => record !== null
+    );
+    const recordTokens = new Set(records.map((record) => record.token));
+
+    if (Array.isArray(legacyTokens)) {
+      const orphaned = legacyTokens.filter(
+        (token) => typeof token === "string" && !recordTokens.has(token)
+      );
+      if (orphaned.length > 0) {
+        issues.push(
+          `${orphaned.length} token(s) in ${LEGACY_KEYS.scoreIndex} have no score record and are dropped`
+        );
+      }
+    }
+
+    // Whatever is already in the sets stays; only missing members are added
+    const entryPrefix = keys.leaderboardEntry("");
+    const [indexedScores, storedEntryKeys] = await Promise.all([
+      storage.zrange(keys.scoreIndex()),
+      storage.keys(entryPrefix),
+    ]);
+    const indexed = new Set(indexedScores.map(({ member }) => member));
+    const storedEntries = new Set(storedEntryKeys.map((key) => key.slice(entryPrefix.length)));
+
+    const unindexedScores = records.filter((record) => !indexed.has(record.token));
+    const missingEntries: LeaderboardEntry[] = [];
+    for (const entry of legacyEntries.values()) {
+      if (!storedEntries.has(entry.token)) missingEntries.push(entry);
+    }
+    let entriesRebuilt = 0;
+    for (const record of records) {
+      if (!storedEntries.has(record.token) && !legacyEntries.has(record.token)) {
+        missingEntries.push(leaderboardEntryFromScore(record));
+        entriesRebuilt++;
+      }
+    }
+
+    if (unindexedScores.length > 0) {
+      changes.push(`Index ${unindexedScores.length} score records into ${keys.scoreIndex()}`);
+    }
+    if (missingEntries.length > entriesRebuilt) {
+      changes.push(
+        `Move ${missingEntries.length - entriesRebuilt} leaderboard entries from ${LEGACY_KEYS.leaderboardIndex} to ${keys.leaderboardIndex()}`
+      );
+    }
+    if (entriesRebuilt > 0) {
+      changes.push(`Rebuild ${entriesRebuilt} missing leaderboard entries from score records`);
+    }
+
+    const legacyKeys = [LEGACY_KEYS.scoreIndex, LEGACY_KEYS.leaderboardIndex].filter(
+      (_, i) => [legacyTokens, legacyLeaderboard][i] !== null
+    );
+    if (legacyKeys.length > 0) {
+      changes.push(`Delete legacy ${legacyKeys.join(", ")}`);
+    }
+
+    if (dryRun || changes.length === 0) {
+      return { changes, issues };
+    }
+
+    // Index before deleting the arrays so an interrupted run can resume
+    for (const record of unindexedScores) {
+      await indexScore(storage, record);
+    }
+    for (const entry of missingEntries) {
+      await indexLeaderboardEntry(storage, entry);
+    }
+    await Promise.all(legacyKeys.map((key) => storage.del(key)));
+
+    return { changes, issues };
+  },
+};
+
+/**
+ * All migrations, in the order they must run
+ */
+const MIGRATIONS: Migration[] = [splitScoresIndex, sortedScoreIndexes];
+
+/**
+ * Read applied schema versions (families never migrated report 0)
+ */
+export async function getSchemaVersions(
+  storage: StorageAdapter
+): Promise<SchemaVersions> {
+  return (await storage.get<SchemaVersions>(SCHEMA_VERSIONS_KEY)) ?? {};
+}
+
+function isPending(migration: Migration, versions: SchemaVersions): boolean {
+  return Object.entries(migration.targets).some(
+    ([family, target]) => (versions[family as KeyFamilyName] ?? 0) < (target ?? 0)
+  );
+}
+
+/**
+ * True when every target family is already past this step (its detection
+ * logic would only recreate data a later step replaced)
+ */
+function isSuperseded(migration: Migration, versions: SchemaVersions): boolean {
+  return Object.entries(migration.targets).every(
+    ([family, target]) => (versions[family as KeyFamilyName] ?? 0) > (target ?? 0)
+  );
+}
+
+/**
+ * Run migrations against the given storage.
+ *
+ * Dry runs execute every migration's detection logic (pending or not) so the
+ * report also surfaces data that drifted after a migration was applied.
+ * Apply mode runs pending migrations plus any that detect drift, then stamps
+ * the target versions. Superseded steps are reported but never run.
+ */
+export async function runMigrations(
+  storage: StorageAdapter,
+  mode: MigrationMode
+): Promise<MigrationRunReport> {
+  const dryRun = mode === "dry-run";
+  const versionsBefore = await getSchemaVersions(storage);
+  const versions: SchemaVersions = { ...versionsBefore };
+  const steps: MigrationStepReport[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (isSuperseded(migration, versions)) {
+      steps.push({
+        id: migration.id,
+        description: migration.description,
+        pending: false,
+        applied: false,
+        superseded: true,
+        changes: [],
+        issues: [],
+      });
+      continue;
+    }
+
+    const pending = isPending(migration, versions);
+    const result = await migration.run(storage, dryRun);
+    const applied = !dryRun && (pending || result.changes.length > 0);
+
+    if (applied) {
+      for (const [family, target] of Object.entries(migration.targets)) {
+        versions[family as KeyFamilyName] = target;
+      }
+    }
+
+    steps.push({
+      id: migration.id,
+      description: migration.description,
+      pending,
+      applied,
+      superseded: false,
+      ...result,
+    });
+  }
+
+  if (!dryRun) {
+    // Families with no migrations are already at their declared version
+    for (const [family, definition] of Object.entries(KEY_FAMILIES)) {
+      const name = family as KeyFamilyName;
+      versions[name] = Math.max(versions[name] ?? 0, definition.version);
+    }
+    await storage.set(SCHEMA_VERSIONS_KEY, versions);
+  }
+
+  return {
+    mode,
+    backend: storage.backend,
+    versionsBefore,
+    versionsAfter: dryRun ? versionsBefore : versions,
+    steps,
+  };
+}
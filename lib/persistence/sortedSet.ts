@@ -0,0 +1,61 @@
+/**
+ * Sorted sets for the in-process backends (memory and file).
+ *
+ * A sorted set is stored as a plain { member: score } object under its key,
+ * which keeps it JSON-serializable for the file store. Ordering matches Redis:
+ * by score, ties by member (both reversed when `rev` is set).
+ */
+
+import type { SortedSetMember, SortedSetRange } from "./storageAdapter";
+
+export type SortedSetValue = Record<string, number>;
+
+export function addToSortedSet(
+  current: SortedSetValue | undefined,
+  members: SortedSetMember[]
+): SortedSetValue {
+  const next = { ...(current ?? {}) };
+  for (const { member, score } of members) {
+    next[member] = score;
+  }
+  return next;
+}
+
+export function removeFromSortedSet(
+  current: SortedSetValue | undefined,
+  members: string[]
+): SortedSetValue {
+  const next = { ...(current ?? {}) };
+  for (const member of members) {
+    delete next[member];
+  }
+  return next;
+}
+
+function inRange(score: number, range: Pick<SortedSetRange, "min" | "max">): boolean {
+  return score >= (range.min ?? -Infinity) && score <= (range.max ?? Infinity);
+}
+
+export function rangeSortedSet(
+  current: SortedSetValue | undefined,
+  range: SortedSetRange = {}
+): SortedSetMember[] {
+  const members = Object.entries(current ?? {})
+    .map(([member, score]) => ({ member, score }))
+    .filter(({ score }) => inRange(score, range))
+    .sort((a, b) =>
+      a.score !== b.score ? a.score - b.score : a.member < b.member ? -1 : a.member > b.member ? 1 : 0
+    );
+
+  if (range.rev) members.reverse();
+
+  const offset = range.offset ?? 0;
+  return members.slice(offset, range.count === undefined ? undefined : offset + range.count);
+}
+
+export function countSortedSet(
+  current: SortedSetValue | undefined,
+  range: Pick<SortedSetRange, "min" | "max"> = {}
+): number {
+  return Object.values(current ?? {}).filter((score) => inRange(score, range)).length;
+}
@@ -0,0 +1,61 @@
+/**
+ * Storage adapter contract shared by every persistence backend.
+ *
+ * All stores (sessions, invites, scores, leaderboard, trainees, personas,
+ * conferences, enrichments, prompt bundles) talk to this interface instead of
+ * branching on Vercel KV vs in-memory themselves. Values are plain JSON and
+ * keys follow the `family:id` shape used by Vercel KV.
+ */
+
+export type StorageBackend = "kv" | "memory" | "file";
+
+export interface SortedSetMember {
+  member: string;
+  score: number;
+}
+
+export interface SortedSetRange {
+  /** Inclusive lower score bound (default: no bound) */
+  min?: number;
+  /** Inclusive upper score bound (default: no bound) */
+  max?: number;
+  /** Highest score first; ties order by member, descending */
+  rev?: boolean;
+  offset?: number;
+  count?: number;
+}
+
+export interface StorageAdapter {
+  /** Backend identifier (for logging and admin diagnostics) */
+  readonly backend: StorageBackend;
+
+  /** Read a single key (null if missing) */
+  get<T>(key: string): Promise<T | null>;
+
+  /** Write a single key */
+  set<T>(key: string, value: T): Promise<void>;
+
+  /** Delete a single key (no-op if missing) */
+  del(key: string): Promise<void>;
+
+  /** Read many keys in one round-trip, preserving order */
+  mget<T>(keys: string[]): Promise<Array<T | null>>;
+
+  /** Write many keys in one round-trip */
+  setMany(entries: Array<{ key: string; value: unknown }>): Promise<void>;
+
+  /** List keys starting with the given prefix */
+  keys(prefix: string): Promise<string[]>;
+
+  /** Sorted set: add members or update their scores */
+  zadd(key: string, members: SortedSetMember[]): Promise<void>;
+
+  /** Sorted set: remove members (no-op for missing ones) */
+  zrem(key: string, members: string[]): Promise<void>;
+
+  /** Sorted set: members within a score range, ordered by score then member */
+  zrange(key: string, range?: SortedSetRange): Promise<SortedSetMember[]>;
+
+  /** Sorted set: number of members within a score range */
+  zcount(key: string, range?: Pick<SortedSetRange, "min" | "max">): Promise<number>;
+}
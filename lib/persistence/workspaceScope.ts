@@ -0,0 +1,95 @@
+/**
+ * Workspace scoping for storage.
+ *
+ * Each request runs inside a workspace (see withWorkspace in lib/workspaces.ts).
+ * getStorage() reads the current workspace from here and prefixes every key
+ * with `ws:{workspaceId}:`. The default workspace keeps unprefixed keys, so
+ * data written before workspaces existed stays where it is.
+ *
+ * Code running outside a request (scripts, seeding at startup) uses the
+ * default workspace unless wrapped in runInWorkspace.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { StorageAdapter } from "./storageAdapter";
+
+export const DEFAULT_WORKSPACE_ID = "default";
+
+const workspaceContext = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` with `workspaceId` as the current workspace
+ */
+export function runInWorkspace<T>(workspaceId: string, fn: () => T): T {
+  return workspaceContext.run(workspaceId, fn);
+}
+
+/**
+ * Workspace of the current request (default outside runInWorkspace)
+ */
+export function currentWorkspaceId(): string {
+  return workspaceContext.getStore() ?? DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Key prefix for a workspace ("" for the default workspace)
+ */
+export function workspaceKeyPrefix(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? "" : `ws:${workspaceId}:`;
+}
+
+/**
+ * Wrap an adapter so every key lives under the workspace prefix.
+ * keys() strips the prefix again, so stores never see it.
+ */
+export function scopeStorage(base: StorageAdapter, workspaceId: string): StorageAdapter {
+  const prefix = workspaceKeyPrefix(workspaceId);
+  if (!prefix) return base;
+
+  const scoped = (key: string) => `${prefix}${key}`;
+
+  return {
+    backend: base.backend,
+
+    get<T>(key: string) {
+      return base.get<T>(scoped(key));
+    },
+
+    set<T>(key: string, value: T) {
+      return base.set(scoped(key), value);
+    },
+
+    del(key: string) {
+      return base.del(scoped(key));
+    },
+
+    mget<T>(keyList: string[]) {
+      return base.mget<T>(keyList.map(scoped));
+    },
+
+    setMany(entries) {
+      return base.setMany(entries.map(({ key, value }) => ({ key: scoped(key), value })));
+    },
+
+    async keys(keyPrefix: string) {
+      const found = await base.keys(scoped(keyPrefix));
+      return found.map((key) => key.slice(prefix.length));
+    },
+
+    zadd(key, members) {
+      return base.zadd(scoped(key), members);
+    },
+
+    zrem(key, members) {
+      return base.zrem(scoped(key), members);
+    },
+
+    zrange(key, range) {
+      return base.zrange(scoped(key), range);
+    },
+
+    zcount(key, range) {
+      return base.zcount(scoped(key), range);
+    },
+  };
+}
@@ -1,23 +1,12 @@
-import { kv } from "@vercel/kv";
 import { Persona } from "./scenarioTypes";
 import { buildPersonaSubtitle } from "./formatUtils";
-import { useKv } from "./kvConfig";
 import { seedScenarioPresets } from "./seedScenarioPresets";
-import { getMemStore } from "./memoryStore";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { currentWorkspaceId } from "./persistence/workspaceScope";
 
-const MAX_INDEX_SIZE = 500;
-
-// Helper to get in-memory store (now uses global shared store)
-function getInMemoryStore() {
-  const mem = getMemStore();
-  return {
-    personas: mem.personas,
-    index: mem.personaIndex,
-  };
-}
-
-// Seed-once guard to prevent repeated seeding
-let seedingPromise: Promise<void> | null = null;
+// Seed-once guard (per workspace) to prevent repeated seeding
+const seedingPromises = new Map<string, Promise<void>>();
 
 /**
  * Generate a readable slug-based ID with random suffix
@@ -38,39 +27,25 @@ function generatePersonaId(name: string): string {
 export async function listPersonas(
   includeArchived = false
 ): Promise<Persona[]> {
-  if (useKv()) {
-    const index = (await kv.get<string[]>("personas:index")) ?? [];
-    const personas: Persona[] = [];
-
-    for (const id of index) {
-      const persona = await kv.get<Persona>(`persona:${id}`);
-      if (persona && (includeArchived || !persona.isArchived)) {
-        personas.push(persona);
-      }
+  const storage = getStorage();
+  const index = (await storage.get<string[]>(keys.personaIndex())) ?? [];
+  const records = await storage.mget<Persona>(index.map((id) => keys.persona(id)));
+
+  const personas: Persona[] = [];
+  for (const persona of records) {
+    if (persona && (includeArchived || !persona.isArchived)) {
+      personas.push(persona);
     }
-
-    return personas;
-  } else {
-    // In-memory fallback
-    const personas: Persona[] = [];
-    for (const id of getInMemoryStore().index) {
-      const persona = getInMemoryStore().personas.get(id);
-      if (persona && (includeArchived || !persona.isArchived)) {
-        personas.push(persona);
-      }
-    }
-    return personas;
   }
+
+  return personas;
 }
 
 /**
  * Get a single persona by ID
  */
 export async function getPersona(id: string): Promise<Persona | null> {
-  if (useKv()) {
-    return (await kv.get<Persona>(`persona:${id}`)) ?? null;
-  }
-  return getInMemoryStore().personas.get(id) ?? null;
+  return getStorage().get<Persona>(keys.persona(id));
 }
 
 /**
@@ -139,6 +114,7 @@ export async function upsertPersona(
     toolingBias: persona.toolingBias ?? "Various tools",
     otelFamiliarity: persona.otelFamiliarity ?? "never",
     sources: persona.sources,
+    ruleOverrides: persona.ruleOverrides,
     behaviorBrief,
     displaySubtitle,
     createdAt: existing?.createdAt ?? now,
@@ -147,57 +123,64 @@ export async function upsertPersona(
     isArchived: persona.isArchived ?? false,
   };
 
-  if (useKv()) {
-    // Save persona
-    await kv.set(`persona:${id}`, fullPersona);
+  const storage = getStorage();
 
-    // Update index if new
-    if (!isUpdate) {
-      const index = (await kv.get<string[]>("personas:index")) ?? [];
-      const filtered = index.filter((i) => i !== id);
-      const updated = [id, ...filtered].slice(0, MAX_INDEX_SIZE);
-      await kv.set("personas:index", updated);
-    }
-  } else {
-    // In-memory fallback
-    getInMemoryStore().personas.set(id, fullPersona);
-
-    if (!isUpdate) {
-      const { index } = getInMemoryStore();
-      const filtered = index.filter((i) => i !== id);
-      index.length = 0;
-      index.push(id, ...filtered);
-      if (index.length > MAX_INDEX_SIZE) {
-        index.length = MAX_INDEX_SIZE;
-      }
-    }
+  // Save persona
+  await storage.set(keys.persona(id), fullPersona);
+
+  // Update index if new (prepend to keep newest first)
+  if (!isUpdate) {
+    const index = (await storage.get<string[]>(keys.personaIndex())) ?? [];
+    const filtered = index.filter((i) => i !== id);
+    const updated = [id, ...filtered];
+    await storage.set(keys.personaIndex(), updated);
   }
 
   return fullPersona;
 }
 
 /**
- * Soft delete a persona (set isArchived = true)
+ * Soft delete a persona (set isArchived = true). It stays in the trash until
+ * restored or purged (see lib/trash.ts).
  */
-export async function archivePersona(id: string): Promise<boolean> {
+export async function archivePersona(id: string, archivedBy = "system"): Promise<boolean> {
   const existing = await getPersona(id);
   if (!existing) return false;
 
+  const now = new Date().toISOString();
   const archived: Persona = {
     ...existing,
     isArchived: true,
-    updatedAt: new Date().toISOString(),
+    archivedAt: now,
+    archivedBy,
+    updatedAt: now,
   };
 
-  if (useKv()) {
-    await kv.set(`persona:${id}`, archived);
-  } else {
-    getInMemoryStore().personas.set(id, archived);
-  }
+  await getStorage().set(keys.persona(id), archived);
 
   return true;
 }
 
+/**
+ * Undo archivePersona
+ */
+export async function restorePersona(id: string): Promise<Persona | null> {
+  const existing = await getPersona(id);
+  if (!existing) return null;
+
+  const restored: Persona = {
+    ...existing,
+    isArchived: false,
+    archivedAt: undefined,
+    archivedBy: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await getStorage().set(keys.persona(id), restored);
+
+  return restored;
+}
+
 /**
  * Internal seeding logic - now delegates to seedScenarioPresets
  */
@@ -208,11 +191,12 @@ async function seedPersonasInternal(): Promise<void> {
 }
 
 /**
- * Public API - ensures seeding happens exactly once per process
+ * Public API - ensures seeding happens exactly once per workspace per process
  */
 export async function ensurePersonasSeeded(): Promise<void> {
-  if (!seedingPromise) {
-    seedingPromise = seedPersonasInternal();
+  const workspaceId = currentWorkspaceId();
+  if (!seedingPromises.has(workspaceId)) {
+    seedingPromises.set(workspaceId, seedPersonasInternal());
   }
-  return seedingPromise;
+  return seedingPromises.get(workspaceId)!;
 }
@@ -1,4 +1,4 @@
-import config from "./simulator.config.json";
+import { SIMULATOR_CONFIG } from "./simulatorConfig";
 
 export type PersonaPreset = {
   id: string;
@@ -8,7 +8,7 @@ export type PersonaPreset = {
   attendeeProfile: string;
 };
 
-export const PERSONAS: PersonaPreset[] = (config as any).personas ?? [];
+export const PERSONAS: PersonaPreset[] = SIMULATOR_CONFIG.personas ?? [];
 
 export function getPersonaById(id: string): PersonaPreset | undefined {
   return PERSONAS.find((p) => p.id === id);
@@ -0,0 +1,174 @@
+/**
+ * Historical rescoring.
+ *
+ * Every score is stamped with the scoring version it was computed under
+ * (ScoreRecord.scoringVersion, see getScoringVersion). When the rubric or the
+ * scoring engine changes, rescoreSessions recomputes stored scores from their
+ * sessions under the active prompt bundle's version, so old and new scores
+ * compare again.
+ *
+ * A dry run only reports what would change. A commit replaces the scores
+ * (keeping their completion time and trainer overrides, setting rescoredAt)
+ * and updates the existing leaderboard entries; incomplete scores stay off
+ * the leaderboard. The stored judge evaluation is reused (scores without one
+ * are rescored without the judge), so a rescore doesn't call the judge model
+ * for every session. `rejudge` calls it again, on commit only: a dry run never
+ * calls the judge.
+ */
+
+import { getSession } from "./storage";
+import { getScore, saveScore, scanScoreRecords } from "./scoreStore";
+import { scoringVersionOf, getScoringVersion, type ScoreRecord } from "./scoring";
+import { refreshLeaderboardEntry } from "./leaderboardStore";
+import { getActivePromptBundle, getBundleScoringRubric } from "./llm/promptBundleStore";
+import { scoreSessionWithBundle } from "./sessionScoring";
+
+/** Scores read per page while scanning */
+const SCAN_PAGE_SIZE = 200;
+
+export interface RescoreOptions {
+  /** Report only; nothing is written (default true) */
+  dryRun?: boolean;
+  /** Only scores on this scoring version ("unversioned" for older scores) */
+  fromVersion?: string;
+  /** Only these scores (by token) */
+  tokens?: string[];
+  /** Stop after scanning this many scores */
+  limit?: number;
+  /** Judge the sessions again instead of reusing the stored evaluation (not in a dry run) */
+  rejudge?: boolean;
+}
+
+export interface RescoreSnapshot {
+  score: number;
+  grade: string;
+  scoringVersion: string;
+}
+
+export interface RescoreChange {
+  token: string;
+  sessionId: string;
+  traineeNameShort: string | null;
+  before: RescoreSnapshot;
+  after: RescoreSnapshot;
+  scoreDelta: number;
+}
+
+export interface RescoreSkip {
+  token: string;
+  reason: "already_current" | "session_missing" | "score_missing";
+}
+
+export interface RescoreReport {
+  dryRun: boolean;
+  /** Version the scores were (or would be) rescored under */
+  scoringVersion: string;
+  scanned: number;
+  rescored: number;
+  /** Rescored scores whose score or grade moved */
+  changed: number;
+  /** Moves per grade pair, e.g. { "C → B": 3 } */
+  gradeChanges: Record<string, number>;
+  /** Only rescored scores whose score or grade moved */
+  changes: RescoreChange[];
+  skipped: RescoreSkip[];
+  leaderboardUpdated: number;
+}
+
+function snapshot(record: ScoreRecord): RescoreSnapshot {
+  return { score: record.score, grade: record.grade, scoringVersion: scoringVersionOf(record) };
+}
+
+/**
+ * Scores to consider: the given tokens, or every stored score (newest first)
+ */
+async function* candidateScores(
+  options: RescoreOptions,
+  skipped: RescoreSkip[]
+): AsyncGenerator<ScoreRecord> {
+  if (options.tokens) {
+    for (const token of options.tokens) {
+      const record = await getScore(token);
+      if (record) yield record;
+      else skipped.push({ token, reason: "score_missing" });
+    }
+    return;
+  }
+
+  yield* scanScoreRecords(SCAN_PAGE_SIZE);
+}
+
+/**
+ * Rescore stored scores under the active prompt bundle's scoring version
+ */
+export async function rescoreSessions(options: RescoreOptions = {}): Promise<RescoreReport> {
+  const dryRun = options.dryRun ?? true;
+  const bundle = await getActivePromptBundle();
+  const scoringVersion = getScoringVersion(getBundleScoringRubric(bundle));
+
+  const report: RescoreReport = {
+    dryRun,
+    scoringVersion,
+    scanned: 0,
+    rescored: 0,
+    changed: 0,
+    gradeChanges: {},
+    changes: [],
+    skipped: [],
+    leaderboardUpdated: 0,
+  };
+
+  for await (const previous of candidateScores(options, report.skipped)) {
+    if (options.fromVersion && scoringVersionOf(previous) !== options.fromVersion) continue;
+    if (options.limit !== undefined && report.scanned >= options.limit) break;
+    report.scanned++;
+
+    if (previous.scoringVersion === scoringVersion) {
+      report.skipped.push({ token: previous.token, reason: "already_current" });
+      continue;
+    }
+    // Purged sessions can't be rescored; their scores keep their version
+    const session = await getSession(previous.sessionId);
+    if (!session) {
+      report.skipped.push({ token: previous.token, reason: "session_missing" });
+      continue;
+    }
+
+    const rescored = await scoreSessionWithBundle(
+      session,
+      previous.token,
+      bundle,
+      options.rejudge && !dryRun ? undefined : previous.judge ?? null
+    );
+    const record: ScoreRecord = {
+      ...rescored,
+      completedAt: previous.completedAt,
+      rescoredAt: new Date().toISOString(),
+      ...(previous.trainerOverrides ? { trainerOverrides: previous.trainerOverrides } : {}),
+    };
+    report.rescored++;
+
+    if (record.score !== previous.score || record.grade !== previous.grade) {
+      report.changed++;
+      report.changes.push({
+        token: record.token,
+        sessionId: record.sessionId,
+        traineeNameShort: record.traineeNameShort || null,
+        before: snapshot(previous),
+        after: snapshot(record),
+        scoreDelta: record.score - previous.score,
+      });
+      if (record.grade !== previous.grade) {
+        const move = `${previous.grade} → ${record.grade}`;
+        report.gradeChanges[move] = (report.gradeChanges[move] ?? 0) + 1;
+      }
+    }
+
+    if (dryRun) continue;
+
+    await saveScore(record);
+    if (await refreshLeaderboardEntry(record)) report.leaderboardUpdated++;
+  }
+
+  return report;
+}
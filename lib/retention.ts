@@ -0,0 +1,393 @@
+/**
+ * Data retention policy and purge job.
+ *
+ * The policy says how long each entity type is kept (in days; null keeps it
+ * forever). It replaces the old fixed index caps: indexes are no longer
+ * truncated on write, and runPurge removes expired records together with
+ * everything that hangs off them, then prunes the indexes.
+ *
+ * Cascades:
+ * - invite  → its session (snapshot, event log, session_invite lookup)
+ * - session → its event log and session_invite lookup
+ * Purged invite tokens and session IDs also lose their workspace owner records.
+ * - score   → its leaderboard entry
+ * Scores carry snapshot fields, so they outlive their invite and session and
+ * follow their own rule.
+ *
+ * Archived conferences, personas and trainees sit in the trash (lib/trash.ts)
+ * and are deleted once they have been archived for trash.purgeAfterDays.
+ */
+
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import type { InviteRecord } from "./invites";
+import { sessionEventKeys, type SessionState } from "./storage";
+import type { ScoreRecord } from "./scoring";
+import type { LeaderboardEntry } from "./leaderboardStore";
+import type { EnrichmentResult } from "./llm/enrichmentTypes";
+import type { Conference, Persona } from "./scenarioTypes";
+import type { Trainee } from "./traineeStore";
+import { determineStatus } from "./adminInvites";
+import { removeInvitesFromIndex } from "./inviteIndex";
+import { forgetWorkspaceOwner } from "./workspaces";
+import type { TrashItemType } from "./trash";
+
+export interface RetentionPolicy {
+  invites: {
+    /** Delete invites still NOT_STARTED after this many days */
+    notStartedDays: number | null;
+    /** Delete any invite (and its session) after this many days */
+    maxAgeDays: number | null;
+  };
+  sessions: {
+    /** Delete sessions (including builder sessions with no invite) by start time */
+    maxAgeDays: number | null;
+  };
+  scores: {
+    /** Delete scores and their leaderboard entries by completion time */
+    maxAgeDays: number | null;
+  };
+  enrichments: {
+    /** Drop cached enrichments by generation time (regenerated on next use) */
+    maxAgeDays: number | null;
+  };
+  trash: {
+    /** Delete archived conferences, personas and trainees after this many days */
+    purgeAfterDays: number | null;
+  };
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  invites: { notStartedDays: 14, maxAgeDays: null },
+  sessions: { maxAgeDays: null },
+  scores: { maxAgeDays: 365 },
+  enrichments: { maxAgeDays: 90 },
+  trash: { purgeAfterDays: 30 },
+};
+
+export type PurgeReason =
+  | "invite_not_started"
+  | "invite_expired"
+  | "session_expired"
+  | "invite_purged"
+  | "score_expired"
+  | "enrichment_expired"
+  | "trash_expired";
+
+export interface PurgedItem {
+  id: string;
+  reason: PurgeReason;
+}
+
+export interface PurgeReport {
+  dryRun: boolean;
+  ranAt: string;
+  policy: RetentionPolicy;
+  removed: {
+    invites: PurgedItem[];
+    sessions: PurgedItem[];
+    scores: PurgedItem[];
+    enrichments: PurgedItem[];
+    /** Archived conferences, personas and trainees (id: "{type}:{id}") */
+    trash: PurgedItem[];
+  };
+  /** Counts of index entries and side records removed with them */
+  pruned: {
+    sessionEventBatches: number;
+    inviteIndexEntries: number;
+    scoreIndexEntries: number;
+    leaderboardEntries: number;
+  };
+  /**
+   * Archived records without archivedAt (archived before the trash existed),
+   * stamped with this run's time; their purge clock starts now
+   */
+  stampedTrash: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * True when `timestamp` is older than `days` (null = never expires)
+ */
+function isExpired(timestamp: string | undefined, days: number | null, now: number): boolean {
+  if (days === null || !timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  return !Number.isNaN(time) && now - time > days * DAY_MS;
+}
+
+/**
+ * Validate a (partial) policy from an admin request and merge it over `base`
+ */
+export function mergeRetentionPolicy(
+  base: RetentionPolicy,
+  input: unknown
+): { policy: RetentionPolicy | null; error?: string } {
+  if (!input || typeof input !== "object") {
+    return { policy: null, error: "Policy must be a JSON object" };
+  }
+
+  const policy = structuredClone(base);
+  for (const [entity, rules] of Object.entries(input as Record<string, unknown>)) {
+    if (!(entity in policy)) {
+      return { policy: null, error: `Unknown entity type: ${entity}` };
+    }
+    if (!rules || typeof rules !== "object") {
+      return { policy: null, error: `${entity} must be an object` };
+    }
+
+    const target = policy[entity as keyof RetentionPolicy] as Record<string, number | null>;
+    for (const [rule, value] of Object.entries(rules as Record<string, unknown>)) {
+      if (!(rule in target)) {
+        return { policy: null, error: `Unknown rule: ${entity}.${rule}` };
+      }
+      if (value !== null && (typeof value !== "number" || !Number.isInteger(value) || value < 1)) {
+        return {
+          policy: null,
+          error: `${entity}.${rule} must be a whole number of days (>= 1) or null`,
+        };
+      }
+      target[rule] = value;
+    }
+  }
+
+  return { policy };
+}
+
+/**
+ * Read the stored policy (defaults fill any rule not set)
+ */
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  const stored = await getStorage().get<Partial<RetentionPolicy>>(keys.retentionPolicy());
+  if (!stored) return structuredClone(DEFAULT_RETENTION_POLICY);
+
+  return mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, stored).policy
+    ?? structuredClone(DEFAULT_RETENTION_POLICY);
+}
+
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+  await getStorage().set(keys.retentionPolicy(), policy);
+}
+
+async function loadAll<T>(prefix: string): Promise<Array<{ key: string; value: T }>> {
+  const storage = getStorage();
+  const found = await storage.keys(prefix);
+  const values = await storage.mget<T>(found);
+  return found
+    .map((key, i) => ({ key, value: values[i] }))
+    .filter((entry): entry is { key: string; value: T } => entry.value !== null);
+}
+
+/**
+ * Apply the retention policy. In dry-run mode nothing is deleted and the
+ * report lists what would be removed.
+ */
+export async function runPurge(options: {
+  dryRun: boolean;
+  policy?: RetentionPolicy;
+  now?: Date;
+}): Promise<PurgeReport> {
+  const storage = getStorage();
+  const policy = options.policy ?? (await getRetentionPolicy());
+  const now = (options.now ?? new Date()).getTime();
+
+  const report: PurgeReport = {
+    dryRun: options.dryRun,
+    ranAt: new Date(now).toISOString(),
+    policy,
+    removed: { invites: [], sessions: [], scores: [], enrichments: [], trash: [] },
+    pruned: {
+      sessionEventBatches: 0,
+      inviteIndexEntries: 0,
+      scoreIndexEntries: 0,
+      leaderboardEntries: 0,
+    },
+    stampedTrash: 0,
+  };
+
+  const [invites, sessions, scores, enrichments, conferences, personas, trainees] = await Promise.all([
+    loadAll<InviteRecord>(keys.invite("")),
+    loadAll<SessionState>(keys.session("")),
+    loadAll<ScoreRecord>(keys.score("")),
+    loadAll<EnrichmentResult>(keys.enrichment("", "").replace(/:+$/, ":")),
+    loadAll<Conference>(keys.conference("")),
+    loadAll<Persona>(keys.persona("")),
+    loadAll<Trainee>(keys.trainee("")),
+  ]);
+
+  const sessionsById = new Map(sessions.map(({ value }) => [value.id, value]));
+  const scoreTokens = new Set(scores.map(({ value }) => value.token));
+  const purgedSessions = new Map<string, PurgeReason>();
+  const purgedInvites = new Set<string>();
+  const purgedScores = new Set<string>();
+
+  // Invites (cascade to their session)
+  for (const { value: invite } of invites) {
+    const session = sessionsById.get(invite.sessionId) ?? null;
+    const status = determineStatus(session, scoreTokens.has(invite.token));
+
+    let reason: PurgeReason | null = null;
+    if (status === "NOT_STARTED" && isExpired(invite.createdAt, policy.invites.notStartedDays, now)) {
+      reason = "invite_not_started";
+    } else if (isExpired(invite.createdAt, policy.invites.maxAgeDays, now)) {
+      reason = "invite_expired";
+    }
+    if (!reason) continue;
+
+    purgedInvites.add(invite.token);
+    report.removed.invites.push({ id: invite.token, reason });
+    if (session) purgedSessions.set(session.id, "invite_purged");
+  }
+
+  // Sessions on their own clock
+  for (const session of sessionsById.values()) {
+    if (!purgedSessions.has(session.id) && isExpired(session.startTime, policy.sessions.maxAgeDays, now)) {
+      purgedSessions.set(session.id, "session_expired");
+    }
+  }
+  for (const [id, reason] of purgedSessions) {
+    report.removed.sessions.push({ id, reason });
+  }
+
+  // Scores (cascade to leaderboard)
+  for (const { value: score } of scores) {
+    if (isExpired(score.completedAt, policy.scores.maxAgeDays, now)) {
+      purgedScores.add(score.token);
+      report.removed.scores.push({ id: score.token, reason: "score_expired" });
+    }
+  }
+
+  // Enrichments
+  const purgedEnrichmentKeys: string[] = [];
+  for (const { key, value } of enrichments) {
+    if (isExpired(value.generatedAt, policy.enrichments.maxAgeDays, now)) {
+      purgedEnrichmentKeys.push(key);
+      report.removed.enrichments.push({
+        id: `${value.conferenceId}:${value.personaId}`,
+        reason: "enrichment_expired",
+      });
+    }
+  }
+
+  // Trash
+  const purgedTrash = new Map<TrashItemType, Set<string>>();
+  const trashed: Array<[TrashItemType, Array<{ key: string; value: Conference | Persona | Trainee }>]> = [
+    ["conference", conferences],
+    ["persona", personas],
+    ["trainee", trainees],
+  ];
+  const purgedTrashKeys: string[] = [];
+  const unstampedTrashKeys: string[] = [];
+  for (const [type, records] of trashed) {
+    const ids = new Set<string>();
+    for (const { key, value } of records) {
+      if (!value.isArchived) continue;
+      // Archived before archivedAt existed: when is unknown, so never purge on the first sighting
+      if (!value.archivedAt) {
+        unstampedTrashKeys.push(key);
+        continue;
+      }
+      if (isExpired(value.archivedAt, policy.trash.purgeAfterDays, now)) {
+        ids.add(value.id);
+        purgedTrashKeys.push(key);
+        report.removed.trash.push({ id: `${type}:${value.id}`, reason: "trash_expired" });
+      }
+    }
+    purgedTrash.set(type, ids);
+  }
+
+  // Side records of purged sessions: one event batch per revision at most
+  const candidateEventKeys = [...purgedSessions.keys()].flatMap((id) =>
+    sessionEventKeys(sessionsById.get(id)!)
+  );
+  const eventBatches = await storage.mget<unknown>(candidateEventKeys);
+  const eventKeys = candidateEventKeys.filter((_, i) => eventBatches[i] !== null);
+  report.pruned.sessionEventBatches = eventKeys.length;
+
+  // Index pruning: purged records plus entries whose record no longer exists
+  const inviteIndex =
+    (await storage.get<Array<{ token: string; createdAt: string }>>(keys.inviteIndex())) ?? [];
+  const inviteRecords = await storage.mget<InviteRecord>(
+    inviteIndex.map((entry) => keys.invite(entry.token))
+  );
+  const staleInviteTokens = new Set(
+    inviteIndex
+      .filter((entry, i) => !inviteRecords[i] || purgedInvites.has(entry.token))
+      .map((entry) => entry.token)
+  );
+  report.pruned.inviteIndexEntries = staleInviteTokens.size;
+
+  const liveScores = new Set([...scoreTokens].filter((token) => !purgedScores.has(token)));
+  const leaderboardEntries = await loadAll<LeaderboardEntry>(keys.leaderboardEntry(""));
+  const staleEntryKeys = leaderboardEntries
+    .filter(({ value }) => !liveScores.has(value.token))
+    .map(({ key }) => key);
+  const liveEntries = new Set(
+    leaderboardEntries
+      .map(({ value }) => value.token)
+      .filter((token) => liveScores.has(token))
+  );
+
+  // Sorted sets: the global index plus every facet set under it
+  const staleMembers = async (prefix: string, live: Set<string>) => {
+    const setKeys = await storage.keys(prefix);
+    const sets = await Promise.all(setKeys.map((key) => storage.zrange(key)));
+    return setKeys.map((key, i) => ({
+      key,
+      members: sets[i].map(({ member }) => member).filter((member) => !live.has(member)),
+    }));
+  };
+  const [staleScoreSets, staleRankSets] = await Promise.all([
+    staleMembers(keys.scoreIndex(), liveScores),
+    staleMembers(keys.leaderboardIndex(), liveEntries),
+  ]);
+  report.pruned.scoreIndexEntries =
+    staleScoreSets.find(({ key }) => key === keys.scoreIndex())?.members.length ?? 0;
+  report.pruned.leaderboardEntries = staleEntryKeys.length;
+  report.stampedTrash = unstampedTrashKeys.length;
+
+  if (options.dryRun) {
+    return report;
+  }
+
+  const deletions = [
+    ...[...purgedInvites].map((token) => keys.invite(token)),
+    ...[...purgedSessions.keys()].flatMap((id) => [keys.session(id), keys.sessionInvite(id), keys.sessionDraft(id)]),
+    ...eventKeys,
+    ...[...purgedScores].map((token) => keys.score(token)),
+    ...staleEntryKeys,
+    ...purgedEnrichmentKeys,
+    ...purgedTrashKeys,
+  ];
+  await Promise.all(deletions.map((key) => storage.del(key)));
+  await forgetWorkspaceOwner([...purgedInvites, ...purgedSessions.keys()]);
+
+  const trashIndexes: Array<[TrashItemType, string]> = [
+    ["conference", keys.conferenceIndex()],
+    ["persona", keys.personaIndex()],
+    ["trainee", keys.traineeIndex()],
+  ];
+  for (const [type, indexKey] of trashIndexes) {
+    const ids = purgedTrash.get(type)!;
+    if (ids.size === 0) continue;
+    const index = (await storage.get<string[]>(indexKey)) ?? [];
+    await storage.set(indexKey, index.filter((id) => !ids.has(id)));
+  }
+
+  // Re-read, so a record restored or stamped since the scan is left alone
+  for (const key of unstampedTrashKeys) {
+    const record = await storage.get<Conference | Persona | Trainee>(key);
+    if (record?.isArchived && !record.archivedAt) {
+      await storage.set(key, { ...record, archivedAt: report.ranAt });
+    }
+  }
+
+  await removeInvitesFromIndex(staleInviteTokens);
+  await Promise.all(
+    [...staleScoreSets, ...staleRankSets]
+      .filter(({ members }) => members.length > 0)
+      .map(({ key, members }) => storage.zrem(key, members))
+  );
+
+  return report;
+}
@@ -0,0 +1,324 @@
+/**
+ * Scenario rule overrides - per-conference and per-persona adjustments to the
+ * global simulator rules (turn limits, banned keywords, cue lists, outcome band,
+ * interruptions).
+ *
+ * Overrides are edited in /editor and stored on the conference/persona record.
+ * When a session is created, the conference's overrides are merged with the
+ * persona's (persona wins) and the result is snapshotted onto the session
+ * (SessionState.ruleOverrides), so later edits don't change running sessions.
+ * getSessionSimulatorConfig() applies the snapshot on top of the session's
+ * config version.
+ *
+ * Merging is deterministic: turn limits are replaced per difficulty, lists are
+ * appended in order without (case-insensitive) duplicates, and the outcome band
+ * and interruption settings come from the last layer that sets them.
+ */
+
+import type { Difficulty, ScenarioRuleOverrides } from "./scenarioTypes";
+import type { ConfigValidationError, SimulatorConfig } from "./simulatorConfig";
+
+/** persona_outcome_bands key a custom outcomeBand is installed under */
+export const SCENARIO_BAND_KEY = "scenario_override";
+
+/** persona_to_band_key entry that pins the band regardless of job title */
+export const PINNED_BAND_TITLE = "*";
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+const LIST_FIELDS = [
+  "extraBannedKeywords",
+  "extraSelfServiceCues",
+  "extraDeferredInterestCues",
+  "extraMqlCues",
+] as const;
+
+type ListField = (typeof LIST_FIELDS)[number];
+
+const OVERRIDE_KEYS = [
+  "turnLimits",
+  ...LIST_FIELDS,
+  "outcomeBandKey",
+  "outcomeBand",
+  "interruptionChance",
+  "interruptionEvents",
+];
+
+/** Band weights may drift this far from 1 (same slack as the config schema) */
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Append `extra` to `base`, skipping entries already present (case-insensitive)
+ */
+function union(base: string[], extra: string[] | undefined): string[] {
+  if (!extra?.length) return base;
+  const seen = new Set(base.map((item) => item.trim().toLowerCase()));
+  const result = [...base];
+  for (const item of extra) {
+    const normalized = item.trim().toLowerCase();
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+    result.push(item.trim());
+  }
+  return result;
+}
+
+/**
+ * Validate overrides from the editor against a simulator config (band keys and
+ * outcomes must exist in it). Returns the cleaned-up overrides (trimmed,
+ * deduplicated, empty fields dropped; undefined when nothing is set), or null
+ * and every error found. Paths are relative to `ruleOverrides`.
+ */
+export function validateRuleOverrides(
+  input: unknown,
+  config: SimulatorConfig
+): { overrides: ScenarioRuleOverrides | undefined | null; errors: ConfigValidationError[] } {
+  if (input === undefined || input === null) {
+    return { overrides: undefined, errors: [] };
+  }
+
+  const errors: ConfigValidationError[] = [];
+  const fail = (path: string, message: string) => errors.push({ path: `ruleOverrides${path}`, message });
+
+  if (!isObject(input)) {
+    fail("", "must be an object");
+    return { overrides: null, errors };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!OVERRIDE_KEYS.includes(key)) fail(`.${key}`, "unknown key");
+  }
+
+  const overrides: ScenarioRuleOverrides = {};
+
+  if (input.turnLimits !== undefined) {
+    if (!isObject(input.turnLimits)) {
+      fail(".turnLimits", "must be an object");
+    } else {
+      const turnLimits: Partial<Record<Difficulty, number>> = {};
+      for (const [difficulty, limit] of Object.entries(input.turnLimits)) {
+        if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+          fail(`.turnLimits.${difficulty}`, `unknown difficulty (expected ${DIFFICULTIES.join(", ")})`);
+        } else if (limit === null) {
+          continue;
+        } else if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+          fail(`.turnLimits.${difficulty}`, "must be a whole number between 1 and 100");
+        } else {
+          turnLimits[difficulty as Difficulty] = limit;
+        }
+      }
+      if (Object.keys(turnLimits).length > 0) overrides.turnLimits = turnLimits;
+    }
+  }
+
+  for (const field of LIST_FIELDS) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      fail(`.${field}`, "must be an array of strings");
+      continue;
+    }
+    const list = union([], value as string[]);
+    if (list.length > 0) overrides[field] = list;
+  }
+
+  const bands = config.persona_outcome_bands ?? {};
+  if (input.outcomeBandKey !== undefined && input.outcomeBandKey !== "") {
+    if (typeof input.outcomeBandKey !== "string" || !(input.outcomeBandKey in bands)) {
+      fail(
+        ".outcomeBandKey",
+        `must be one of persona_outcome_bands (${Object.keys(bands).join(", ")})`
+      );
+    } else {
+      overrides.outcomeBandKey = input.outcomeBandKey;
+    }
+  }
+
+  if (input.outcomeBand !== undefined) {
+    const band = input.outcomeBand;
+    const outcomes = config.states?.OUTCOME?.possible_outcomes ?? [];
+    if (!isObject(band)) {
+      fail(".outcomeBand", "must be an object");
+    } else if (
+      typeof band.tolerance !== "number" ||
+      !Number.isFinite(band.tolerance) ||
+      band.tolerance < 0 ||
+      band.tolerance > 1
+    ) {
+      fail(".outcomeBand.tolerance", "must be a number between 0 and 1");
+    } else if (!isObject(band.weights) || Object.keys(band.weights).length === 0) {
+      fail(".outcomeBand.weights", "must weight at least one outcome");
+    } else {
+      let sum = 0;
+      let valid = true;
+      for (const [outcome, weight] of Object.entries(band.weights)) {
+        if (!outcomes.includes(outcome)) {
+          valid = false;
+          fail(`.outcomeBand.weights.${outcome}`, "is not one of states.OUTCOME.possible_outcomes");
+        } else if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+          valid = false;
+          fail(`.outcomeBand.weights.${outcome}`, "must be a number between 0 and 1");
+        } else {
+          sum += weight;
+        }
+      }
+      if (valid && Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+        valid = false;
+        fail(".outcomeBand.weights", `weights must sum to 1 (got ${Number(sum.toFixed(4))})`);
+      }
+      if (valid) {
+        overrides.outcomeBand = {
+          tolerance: band.tolerance,
+          weights: { ...(band.weights as Record<string, number>) },
+        };
+      }
+    }
+  }
+
+  if (input.interruptionChance !== undefined && input.interruptionChance !== null) {
+    const chance = input.interruptionChance;
+    if (typeof chance !== "number" || !Number.isFinite(chance) || chance < 0 || chance > 1) {
+      fail(".interruptionChance", "must be a number between 0 and 1");
+    } else {
+      overrides.interruptionChance = chance;
+    }
+  }
+
+  if (input.interruptionEvents !== undefined) {
+    const kinds = Object.keys(config.interruptions?.events ?? {});
+    const value = input.interruptionEvents;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      fail(".interruptionEvents", "must be an array of strings");
+    } else {
+      value.forEach((kind: string, i) => {
+        if (!kinds.includes(kind)) {
+          fail(`.interruptionEvents[${i}]`, `must be one of interruptions.events (${kinds.join(", ")})`);
+        }
+      });
+      // An empty list is kept: it turns interruptions off
+      overrides.interruptionEvents = union([], value as string[]);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { overrides: null, errors };
+  }
+  return { overrides: Object.keys(overrides).length > 0 ? overrides : undefined, errors };
+}
+
+/**
+ * Merge override layers in order (conference, then persona). Returns undefined
+ * when no layer sets anything.
+ */
+export function mergeRuleOverrides(
+  ...layers: Array<ScenarioRuleOverrides | undefined>
+): ScenarioRuleOverrides | undefined {
+  const merged: ScenarioRuleOverrides = {};
+
+  for (const layer of layers) {
+    if (!layer) continue;
+
+    if (layer.turnLimits) {
+      merged.turnLimits = { ...merged.turnLimits, ...layer.turnLimits };
+    }
+    for (const field of LIST_FIELDS) {
+      const list = union(merged[field] ?? [], layer[field]);
+      if (list.length > 0) merged[field] = list;
+    }
+    // The band is all-or-nothing: a later layer's band replaces an earlier one
+    if (layer.outcomeBand || layer.outcomeBandKey) {
+      delete merged.outcomeBand;
+      delete merged.outcomeBandKey;
+      if (layer.outcomeBand) merged.outcomeBand = layer.outcomeBand;
+      else merged.outcomeBandKey = layer.outcomeBandKey;
+    }
+    // Interruption settings are replaced, not combined: a persona that only
+    // allows "paged" shouldn't also get the conference's events
+    if (layer.interruptionChance !== undefined) {
+      merged.interruptionChance = layer.interruptionChance;
+    }
+    if (layer.interruptionEvents) {
+      merged.interruptionEvents = layer.interruptionEvents;
+    }
+  }
+
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * The config with overrides applied. Returns `config` itself when there are
+ * none; never mutates it.
+ */
+export function applyRuleOverrides(
+  config: SimulatorConfig,
+  overrides: ScenarioRuleOverrides | undefined
+): SimulatorConfig {
+  if (!overrides) return config;
+
+  const extraList = (base: string[], field: ListField) => union(base, overrides[field]);
+
+  const result: SimulatorConfig = {
+    ...config,
+    conversation_rules: {
+      ...config.conversation_rules,
+      turn_limits: { ...config.conversation_rules.turn_limits, ...overrides.turnLimits },
+    },
+    self_service_cues: extraList(config.self_service_cues, "extraSelfServiceCues"),
+    deferred_interest_cues: extraList(config.deferred_interest_cues, "extraDeferredInterestCues"),
+    mql_cues: extraList(config.mql_cues, "extraMqlCues"),
+    keyword_restrictions: {
+      ...config.keyword_restrictions,
+      banned_product_keywords: extraList(
+        config.keyword_restrictions.banned_product_keywords,
+        "extraBannedKeywords"
+      ),
+    },
+  };
+
+  if (config.interruptions && (overrides.interruptionChance !== undefined || overrides.interruptionEvents)) {
+    const chance = overrides.interruptionChance;
+    const allowed = overrides.interruptionEvents;
+    result.interruptions = {
+      ...config.interruptions,
+      chance_per_turn:
+        chance === undefined
+          ? config.interruptions.chance_per_turn
+          : { easy: chance, medium: chance, hard: chance },
+      events: allowed
+        ? Object.fromEntries(
+            Object.entries(config.interruptions.events).filter(([kind]) => allowed.includes(kind))
+          )
+        : config.interruptions.events,
+    };
+  }
+
+  if (overrides.outcomeBand) {
+    result.persona_outcome_bands = {
+      ...config.persona_outcome_bands,
+      [SCENARIO_BAND_KEY]: overrides.outcomeBand,
+    };
+    result.persona_to_band_key = {
+      ...config.persona_to_band_key,
+      [PINNED_BAND_TITLE]: SCENARIO_BAND_KEY,
+    };
+  } else if (overrides.outcomeBandKey) {
+    // The key was checked against the config active when it was saved; an
+    // older session config may not have it, in which case title matching applies
+    if (overrides.outcomeBandKey in config.persona_outcome_bands) {
+      result.persona_to_band_key = {
+        ...config.persona_to_band_key,
+        [PINNED_BAND_TITLE]: overrides.outcomeBandKey,
+      };
+    } else {
+      console.warn(
+        `[ScenarioRules] Outcome band "${overrides.outcomeBandKey}" not in this config, using title match`
+      );
+    }
+  }
+
+  return result;
+}
@@ -1,5 +1,29 @@
 export type Difficulty = "easy" | "medium" | "hard";
 
+/**
+ * Per-scenario adjustments to the global simulator rules. Conferences and
+ * personas can each carry a set; at session creation the conference's are
+ * applied first and the persona's on top (see lib/scenarioRules.ts).
+ */
+export type ScenarioRuleOverrides = {
+  /** Replaces conversation_rules.turn_limits for the listed difficulties */
+  turnLimits?: Partial<Record<Difficulty, number>>;
+  /** Added to keyword_restrictions.banned_product_keywords */
+  extraBannedKeywords?: string[];
+  /** Added to the matching global cue lists */
+  extraSelfServiceCues?: string[];
+  extraDeferredInterestCues?: string[];
+  extraMqlCues?: string[];
+  /** persona_outcome_bands entry to use instead of matching the job title */
+  outcomeBandKey?: string;
+  /** Custom band; wins over outcomeBandKey */
+  outcomeBand?: { tolerance: number; weights: Record<string, number> };
+  /** Replaces interruptions.chance_per_turn for every difficulty (0 = none) */
+  interruptionChance?: number;
+  /** Only these interruptions.events kinds can happen */
+  interruptionEvents?: string[];
+};
+
 export type Conference = {
   id: string;
   name: string;
@@ -10,10 +34,13 @@ export type Conference = {
     urls?: string[];
     prospectus?: { filename: string; url?: string };
   };
+  ruleOverrides?: ScenarioRuleOverrides;
   createdAt: string;
   createdBy: "system" | "admin";
   updatedAt?: string;
   isArchived?: boolean; // soft delete
+  archivedAt?: string;
+  archivedBy?: string;
 };
 
 export type Persona = {
@@ -31,10 +58,13 @@ export type Persona = {
   };
   behaviorBrief?: string;
   displaySubtitle?: string; // Full caption for display in editor lists
+  ruleOverrides?: ScenarioRuleOverrides;
   createdAt: string;
   createdBy: "system" | "admin";
   updatedAt?: string;
   isArchived?: boolean;
+  archivedAt?: string;
+  archivedBy?: string;
 };
 
 export type ScenarioSelection = {
@@ -0,0 +1,447 @@
+/**
+ * Sorted-set indexes for scores and the leaderboard.
+ *
+ * Scores are indexed by completion time (scores:by_time) and the leaderboard
+ * by rank (leaderboard:rank). Each also has one set per filter value
+ * ({index}:{facet}:{value}), so a filtered query starts from the smallest
+ * matching set instead of scanning everything:
+ *
+ * - bounded date ranges read only the time window of the smallest set
+ * - score queries and "all time" leaderboards page through the smallest set
+ *   a chunk at a time, reading more only while filters leave the page short
+ *
+ * Coaching-mode runs (see lib/coaching.ts) stay out of the main rank set and
+ * only appear on the coached leaderboard (the coaching:coached facet set), so
+ * they never compete with unassisted runs.
+ *
+ * Writes are single ZADD/ZREM calls per set, never read-modify-write of a
+ * whole array. Functions take the storage adapter so migrations and the
+ * archive importer can reuse them; stores wrap them with getStorage().
+ */
+
+import type { StorageAdapter, SortedSetMember } from "./persistence/storageAdapter";
+import { keys } from "./persistence/keys";
+import {
+  byPosition,
+  decodeCursor,
+  encodeCursor,
+  isAfter,
+  pageOf,
+  type Page,
+  type PageOptions,
+} from "./persistence/cursor";
+import type { ScoreRecord } from "./scoring";
+import type { LeaderboardEntry } from "./leaderboardStore";
+
+export type { Page, PageOptions };
+
+export type ScoreFacet = "conference" | "persona" | "trainee" | "difficulty";
+export type LeaderboardFacet = ScoreFacet | "jobTitle" | "coaching";
+
+export interface ScoreFilters {
+  conferenceId?: string;
+  personaId?: string;
+  traineeId?: string;
+  difficulty?: string;
+  /** Leaderboard only (case-insensitive) */
+  jobTitle?: string;
+  /**
+   * Coaching-mode runs only (true) or unassisted runs only (false). The
+   * leaderboard treats a missing value as false; score queries include both.
+   */
+  coached?: boolean;
+  /** Only records completed at or after this time (ms) */
+  since?: number;
+}
+
+export type DateRange = "24h" | "7d" | "30d" | "all";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_MS: Record<Exclude<DateRange, "all">, number> = {
+  "24h": DAY_MS,
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+};
+
+// Rank = score × RANK_SCALE + createdAt ms: higher score first, newer first on ties
+const RANK_SCALE = 1e13;
+
+// Members fetched per round trip when paging through a sorted set
+const SCAN_CHUNK = 200;
+
+/**
+ * Start of a date range in ms (undefined for "all" or unknown ranges)
+ */
+export function rangeStart(range: string, now = Date.now()): number | undefined {
+  return range in RANGE_MS ? now - RANGE_MS[range as keyof typeof RANGE_MS] : undefined;
+}
+
+function timeOf(iso: string): number {
+  const time = new Date(iso).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+export function leaderboardRank(entry: Pick<LeaderboardEntry, "score" | "createdAt">): number {
+  return entry.score * RANK_SCALE + timeOf(entry.createdAt);
+}
+
+function scoreFacets(record: {
+  conferenceId?: string | null;
+  personaId?: string | null;
+  traineeId?: string | null;
+  difficulty?: string | null;
+}): Array<[ScoreFacet, string]> {
+  const facets: Array<[ScoreFacet, string | null | undefined]> = [
+    ["conference", record.conferenceId],
+    ["persona", record.personaId],
+    ["trainee", record.traineeId],
+    ["difficulty", record.difficulty],
+  ];
+  return facets.filter((facet): facet is [ScoreFacet, string] => Boolean(facet[1]));
+}
+
+function leaderboardFacets(entry: LeaderboardEntry): Array<[LeaderboardFacet, string]> {
+  const facets: Array<[LeaderboardFacet, string]> = scoreFacets(entry);
+  if (entry.jobTitle) facets.push(["jobTitle", entry.jobTitle.toLowerCase()]);
+  if (entry.coached) facets.push(["coaching", "coached"]);
+  return facets;
+}
+
+function filterFacets(filters: ScoreFilters): Array<[LeaderboardFacet, string]> {
+  const facets: Array<[LeaderboardFacet, string]> = scoreFacets(filters);
+  if (filters.jobTitle) facets.push(["jobTitle", filters.jobTitle.toLowerCase()]);
+  if (filters.coached) facets.push(["coaching", "coached"]);
+  return facets;
+}
+
+function matchesFilters(
+  record: {
+    conferenceId?: string | null;
+    personaId?: string | null;
+    traineeId?: string | null;
+    difficulty?: string | null;
+    jobTitle?: string | null;
+    coached?: boolean;
+  },
+  filters: ScoreFilters
+): boolean {
+  return (
+    (!filters.conferenceId || record.conferenceId === filters.conferenceId) &&
+    (!filters.personaId || record.personaId === filters.personaId) &&
+    (!filters.traineeId || record.traineeId === filters.traineeId) &&
+    (!filters.difficulty || record.difficulty === filters.difficulty) &&
+    (!filters.jobTitle || record.jobTitle?.toLowerCase() === filters.jobTitle.toLowerCase()) &&
+    (filters.coached === undefined || Boolean(record.coached) === filters.coached)
+  );
+}
+
+/**
+ * Pick the smallest of several candidate sets within a score range
+ */
+async function smallestSet(
+  storage: StorageAdapter,
+  setKeys: string[],
+  range: { min?: number; max?: number }
+): Promise<string> {
+  const counts = await Promise.all(setKeys.map((key) => storage.zcount(key, range)));
+  let best = 0;
+  counts.forEach((count, i) => {
+    if (count < counts[best]) best = i;
+  });
+  return setKeys[best];
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+/**
+ * Add a score to the time indexes (moving it out of facet sets it no longer
+ * belongs to when `previous` is given)
+ */
+export async function indexScore(
+  storage: StorageAdapter,
+  record: ScoreRecord,
+  previous?: ScoreRecord | null
+): Promise<void> {
+  const member = { member: record.token, score: timeOf(record.completedAt) };
+  const facetKeys = scoreFacets(record).map(([facet, value]) => keys.scoreFacetIndex(facet, value));
+
+  if (previous) {
+    const stale = scoreFacets(previous)
+      .map(([facet, value]) => keys.scoreFacetIndex(facet, value))
+      .filter((key) => !facetKeys.includes(key));
+    await Promise.all(stale.map((key) => storage.zrem(key, [record.token])));
+  }
+
+  await Promise.all(
+    [keys.scoreIndex(), ...facetKeys].map((key) => storage.zadd(key, [member]))
+  );
+}
+
+export async function unindexScore(storage: StorageAdapter, record: ScoreRecord): Promise<void> {
+  const setKeys = [
+    keys.scoreIndex(),
+    ...scoreFacets(record).map(([facet, value]) => keys.scoreFacetIndex(facet, value)),
+  ];
+  await Promise.all(setKeys.map((key) => storage.zrem(key, [record.token])));
+}
+
+/**
+ * Store a leaderboard entry and add it to the rank indexes (coached entries
+ * skip the main rank set)
+ */
+export async function indexLeaderboardEntry(
+  storage: StorageAdapter,
+  entry: LeaderboardEntry,
+  previous?: LeaderboardEntry | null
+): Promise<void> {
+  const member = { member: entry.token, score: leaderboardRank(entry) };
+  const facetKeys = leaderboardFacets(entry).map(([facet, value]) =>
+    keys.leaderboardFacetIndex(facet, value)
+  );
+
+  const rankKeys = entry.coached ? facetKeys : [keys.leaderboardIndex(), ...facetKeys];
+
+  if (previous) {
+    const stale = [
+      keys.leaderboardIndex(),
+      ...leaderboardFacets(previous).map(([facet, value]) => keys.leaderboardFacetIndex(facet, value)),
+    ].filter((key) => !rankKeys.includes(key));
+    await Promise.all(stale.map((key) => storage.zrem(key, [entry.token])));
+  }
+
+  await storage.set(keys.leaderboardEntry(entry.token), entry);
+  await Promise.all(rankKeys.map((key) => storage.zadd(key, [member])));
+}
+
+export async function unindexLeaderboardEntry(
+  storage: StorageAdapter,
+  entry: LeaderboardEntry
+): Promise<void> {
+  const setKeys = [
+    keys.leaderboardIndex(),
+    ...leaderboardFacets(entry).map(([facet, value]) => keys.leaderboardFacetIndex(facet, value)),
+  ];
+  await Promise.all(setKeys.map((key) => storage.zrem(key, [entry.token])));
+  await storage.del(keys.leaderboardEntry(entry.token));
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Scores matching the filters, newest first.
+ *
+ * Pages through the smallest matching set, so only one page's records (plus
+ * what the other filters drop) are read. totalMatched is exact when the scan
+ * reaches the end of the set or one set covers the filters; otherwise it is
+ * that set's size, an upper bound (totalEstimated).
+ */
+export async function queryScores(
+  storage: StorageAdapter,
+  filters: ScoreFilters,
+  options: PageOptions = {}
+): Promise<Page<ScoreRecord>> {
+  const window = { min: filters.since };
+  const facets = scoreFacets(filters);
+  const candidates = [
+    keys.scoreIndex(),
+    ...facets.map(([facet, value]) => keys.scoreFacetIndex(facet, value)),
+  ];
+  const driver =
+    candidates.length === 1 ? candidates[0] : await smallestSet(storage, candidates, window);
+  const cursor = decodeCursor(options.cursor);
+
+  const scan = await scanSet<ScoreRecord>(storage, driver, {
+    window,
+    cursor,
+    limit: options.limit ?? Infinity,
+    keyOf: keys.score,
+    keep: (record) => matchesFilters(record, filters),
+  });
+
+  // Facet sets are exact; the coached flag is only checked on the records
+  const covered = facets.length <= 1 && filters.coached === undefined;
+  return {
+    items: scan.items,
+    totalMatched: scan.totalMatched ?? (await storage.zcount(driver, window)),
+    ...(scan.totalMatched === null && !covered ? { totalEstimated: true } : {}),
+    nextCursor: scan.nextCursor,
+  };
+}
+
+/**
+ * Count scores within a date window (all facets)
+ */
+export async function countScores(storage: StorageAdapter, since?: number): Promise<number> {
+  return storage.zcount(keys.scoreIndex(), { min: since });
+}
+
+/**
+ * Leaderboard entries matching the filters, best score first (newest first
+ * on ties). totalMatched is exact for date ranges; for all-time filters it
+ * follows queryScores.
+ */
+export async function queryLeaderboard(
+  storage: StorageAdapter,
+  filters: ScoreFilters,
+  options: PageOptions = {}
+): Promise<Page<LeaderboardEntry>> {
+  const limit = options.limit ?? 20;
+  const cursor = decodeCursor(options.cursor);
+  filters = { ...filters, coached: filters.coached ?? false };
+  const facets = filterFacets(filters);
+
+  // All time, unfiltered: page straight through the rank set
+  if (filters.since === undefined && facets.length === 0) {
+    return pageRankSet(storage, cursor, limit);
+  }
+
+  // All time, filtered: page through the smallest rank set, checking the
+  // other filters on each entry
+  if (filters.since === undefined) {
+    const rankSets = facets.map(([facet, value]) => keys.leaderboardFacetIndex(facet, value));
+    const driver = await smallestSet(storage, rankSets, {});
+    const scan = await scanSet<LeaderboardEntry>(storage, driver, {
+      window: {},
+      cursor,
+      limit,
+      keyOf: keys.leaderboardEntry,
+      keep: (entry) => matchesFilters(entry, filters),
+    });
+
+    // Facet sets hold coached entries too, so only the coached set alone is exact
+    const covered = facets.length === 1 && filters.coached === true;
+    return {
+      items: scan.items,
+      totalMatched: scan.totalMatched ?? (await storage.zcount(driver)),
+      ...(scan.totalMatched === null && !covered ? { totalEstimated: true } : {}),
+      nextCursor: scan.nextCursor,
+    };
+  }
+
+  // Bounded window: time sets are small for recent ranges, but are ordered by
+  // time, so every entry in the window is ranked
+  const timeSets = [
+    keys.scoreIndex(),
+    ...scoreFacets(filters).map(([facet, value]) => keys.scoreFacetIndex(facet, value)),
+  ];
+  const driver = await smallestSet(storage, timeSets, { min: filters.since });
+  const candidates = (await storage.zrange(driver, { min: filters.since })).map(
+    ({ member }) => member
+  );
+
+  const entries = await storage.mget<LeaderboardEntry>(
+    candidates.map((token) => keys.leaderboardEntry(token))
+  );
+  const byToken = new Map<string, LeaderboardEntry>();
+  const matched: SortedSetMember[] = [];
+  for (const entry of entries) {
+    if (!entry || !matchesFilters(entry, filters)) continue;
+    if (timeOf(entry.createdAt) < filters.since) continue;
+    byToken.set(entry.token, entry);
+    matched.push({ member: entry.token, score: leaderboardRank(entry) });
+  }
+  matched.sort(byPosition);
+
+  const { page, nextCursor } = pageOf(matched, cursor, limit);
+  return {
+    items: page.map(({ member }) => byToken.get(member)!),
+    totalMatched: matched.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Page through a sorted set (highest score first) from the cursor, reading
+ * the records a chunk at a time and keeping those that pass `keep`, until
+ * the page is full or the set runs out. totalMatched is only known when a
+ * first page scan reaches the end of the set.
+ */
+async function scanSet<T>(
+  storage: StorageAdapter,
+  setKey: string,
+  options: {
+    window: { min?: number };
+    cursor: SortedSetMember | null;
+    limit: number;
+    keyOf: (member: string) => string;
+    keep: (record: T) => boolean;
+  }
+): Promise<{ items: T[]; nextCursor: string | null; totalMatched: number | null }> {
+  const { window, cursor, limit } = options;
+  const matched: Array<{ position: SortedSetMember; record: T }> = [];
+  let offset = 0;
+  // Start with one page's worth; grow while filters keep the page short
+  let count = Math.min(SCAN_CHUNK, limit + 1);
+  let exhausted = false;
+
+  while (matched.length <= limit) {
+    const chunk = await storage.zrange(setKey, {
+      min: window.min,
+      max: cursor?.score,
+      rev: true,
+      offset,
+      count,
+    });
+    const positions = chunk.filter((position) => isAfter(position, cursor));
+    const records = await storage.mget<T>(positions.map(({ member }) => options.keyOf(member)));
+    positions.forEach((position, i) => {
+      const record = records[i];
+      if (record && options.keep(record)) matched.push({ position, record });
+    });
+    if (chunk.length < count) {
+      exhausted = true;
+      break;
+    }
+    offset += count;
+    count = Math.min(SCAN_CHUNK, count * 2);
+  }
+
+  const page = matched.slice(0, limit);
+  return {
+    items: page.map(({ record }) => record),
+    nextCursor:
+      matched.length > limit && page.length > 0
+        ? encodeCursor(page[page.length - 1].position)
+        : null,
+    totalMatched: exhausted && !cursor ? matched.length : null,
+  };
+}
+
+async function pageRankSet(
+  storage: StorageAdapter,
+  cursor: SortedSetMember | null,
+  limit: number
+): Promise<Page<LeaderboardEntry>> {
+  const totalMatched = await storage.zcount(keys.leaderboardIndex());
+  const positions: SortedSetMember[] = [];
+  let offset = 0;
+
+  // Ties at the cursor score may need skipping, so fetch in chunks
+  while (positions.length <= limit) {
+    const chunk = await storage.zrange(keys.leaderboardIndex(), {
+      max: cursor?.score,
+      rev: true,
+      offset,
+      count: SCAN_CHUNK,
+    });
+    positions.push(...chunk.filter((position) => isAfter(position, cursor)));
+    if (chunk.length < SCAN_CHUNK) break;
+    offset += SCAN_CHUNK;
+  }
+
+  const page = positions.slice(0, limit);
+  const entries = await storage.mget<LeaderboardEntry>(
+    page.map(({ member }) => keys.leaderboardEntry(member))
+  );
+
+  return {
+    items: entries.filter((entry): entry is LeaderboardEntry => entry !== null),
+    totalMatched,
+    nextCursor:
+      positions.length > limit && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Trainer overrides of a score.
+ *
+ * A trainer who disagrees with the heuristic can override breakdown values
+ * and the final grade from the review page. Each override carries a
+ * mandatory justification. Overrides are stored next to the computed values
+ * (ScoreRecord.trainerOverrides); the computed score, grade and breakdown
+ * are never rewritten, so they stay available for calibrating the rubric.
+ *
+ * The leaderboard and insights use the effective values (effectiveScore in
+ * lib/scoring.ts). Overriding a dimension moves the effective score by the
+ * difference; the grade only changes when it is overridden itself.
+ */
+
+import type { ScoreRecord } from "./scoring";
+import { getScore, saveScore } from "./scoreStore";
+import { refreshLeaderboardEntry } from "./leaderboardStore";
+
+export const OVERRIDE_GRADES = ["A", "B", "C", "D", "F"] as const;
+
+/** Longest justification kept (characters) */
+const MAX_JUSTIFICATION_LENGTH = 1000;
+
+export interface ScoreOverride<T> {
+  value: T;
+  justification: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface TrainerOverrides {
+  grade?: ScoreOverride<ScoreRecord["grade"]>;
+  /** Per breakdown key */
+  breakdown?: Record<string, ScoreOverride<number>>;
+}
+
+/** Overrides as sent by the review page (the whole set, replacing the old one) */
+export interface TrainerOverridesInput {
+  grade?: { value: ScoreRecord["grade"]; justification: string };
+  breakdown?: Record<string, { value: number; justification: string }>;
+}
+
+export type ValidateOverridesResult =
+  | { ok: true; input: TrainerOverridesInput }
+  | { ok: false; errors: string[] };
+
+export type SaveOverridesResult =
+  | { ok: true; record: ScoreRecord; previous?: TrainerOverrides }
+  | { ok: false; status: 400 | 404; errors: string[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function justificationOf(value: unknown): string | null {
+  return typeof value === "string" && value.trim()
+    ? value.trim().slice(0, MAX_JUSTIFICATION_LENGTH)
+    : null;
+}
+
+/**
+ * Check overrides against the score: breakdown keys must exist and stay
+ * within their cap, and every override needs a justification
+ */
+export function validateOverridesInput(record: ScoreRecord, body: unknown): ValidateOverridesResult {
+  if (!isObject(body)) return { ok: false, errors: ["body must be an object"] };
+
+  const errors: string[] = [];
+  const input: TrainerOverridesInput = {};
+
+  if (body.grade !== undefined && body.grade !== null) {
+    const grade = body.grade;
+    const justification = isObject(grade) ? justificationOf(grade.justification) : null;
+    if (!isObject(grade) || !OVERRIDE_GRADES.includes(grade.value as ScoreRecord["grade"])) {
+      errors.push(`grade.value must be one of ${OVERRIDE_GRADES.join(", ")}`);
+    } else if (!justification) {
+      errors.push("grade.justification is required");
+    } else {
+      input.grade = { value: grade.value as ScoreRecord["grade"], justification };
+    }
+  }
+
+  if (body.breakdown !== undefined && body.breakdown !== null) {
+    if (!isObject(body.breakdown)) {
+      errors.push("breakdown must be an object keyed by breakdown dimension");
+    } else {
+      input.breakdown = {};
+      for (const [key, override] of Object.entries(body.breakdown)) {
+        const max = record.breakdownMax?.[key] ?? 20;
+        const value = isObject(override) ? override.value : undefined;
+        const justification = isObject(override) ? justificationOf(override.justification) : null;
+        if (!(key in record.breakdown)) {
+          errors.push(`breakdown.${key} is not a dimension of this score`);
+        } else if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > max) {
+          errors.push(`breakdown.${key}.value must be a whole number between 0 and ${max}`);
+        } else if (!justification) {
+          errors.push(`breakdown.${key}.justification is required`);
+        } else {
+          input.breakdown[key] = { value, justification };
+        }
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, input };
+}
+
+/**
+ * Stamp overrides for storage. Unchanged overrides keep their original time
+ * and author. Returns undefined when there's nothing to override.
+ */
+export function buildTrainerOverrides(
+  input: TrainerOverridesInput,
+  previous: TrainerOverrides | undefined,
+  updatedBy?: string,
+  now = new Date().toISOString()
+): TrainerOverrides | undefined {
+  const stamp = <T>(
+    next: { value: T; justification: string },
+    prior: ScoreOverride<T> | undefined
+  ): ScoreOverride<T> =>
+    prior && prior.value === next.value && prior.justification === next.justification
+      ? prior
+      : { ...next, updatedAt: now, ...(updatedBy ? { updatedBy } : {}) };
+
+  const overrides: TrainerOverrides = {};
+  if (input.grade) overrides.grade = stamp(input.grade, previous?.grade);
+  const keys = Object.keys(input.breakdown ?? {});
+  if (keys.length > 0) {
+    overrides.breakdown = Object.fromEntries(
+      keys.map((key) => [key, stamp(input.breakdown![key], previous?.breakdown?.[key])])
+    );
+  }
+
+  return overrides.grade || overrides.breakdown ? overrides : undefined;
+}
+
+/**
+ * Replace a score's overrides (an empty set clears them) and refresh its
+ * leaderboard entry with the effective score and grade
+ */
+export async function saveTrainerOverrides(
+  token: string,
+  body: unknown,
+  updatedBy?: string
+): Promise<SaveOverridesResult> {
+  const record = await getScore(token);
+  if (!record) return { ok: false, status: 404, errors: ["Score not found"] };
+
+  const validation = validateOverridesInput(record, body);
+  if (!validation.ok) return { ok: false, status: 400, errors: validation.errors };
+
+  const { trainerOverrides: previous, ...computed } = record;
+  const trainerOverrides = buildTrainerOverrides(validation.input, previous, updatedBy);
+  const updated: ScoreRecord = trainerOverrides ? { ...computed, trainerOverrides } : computed;
+
+  await saveScore(updated);
+  await refreshLeaderboardEntry(updated);
+  return { ok: true, record: updated, previous };
+}
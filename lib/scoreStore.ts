@@ -1,100 +1,89 @@
-import { kv } from "@vercel/kv";
 import { ScoreRecord } from "./scoring";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import {
+  countScores,
+  indexScore,
+  queryScores,
+  rangeStart,
+  unindexScore,
+  type DateRange,
+  type Page,
+  type PageOptions,
+  type ScoreFilters,
+} from "./scoreIndexes";
 
-const inMemoryScores = new Map<string, ScoreRecord>();
-const inMemoryScoreIndex: string[] = [];
-const MAX_SCORE_INDEX_SIZE = 5000;
+export async function saveScore(record: ScoreRecord): Promise<void> {
+  const storage = getStorage();
+  const previous = await storage.get<ScoreRecord>(keys.score(record.token));
+  await storage.set(keys.score(record.token), record);
 
-/**
- * KV is configured when Vercel/Upstash env vars are present.
- */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+  // Sorted by completion time, one set per filter value. Not capped: old
+  // scores leave through the retention policy (lib/retention.ts)
+  await indexScore(storage, record, previous);
 }
 
-export async function saveScore(record: ScoreRecord): Promise<void> {
-  if (useKv()) {
-    await kv.set(`score:${record.token}`, record);
+export async function getScore(token: string): Promise<ScoreRecord | null> {
+  return getStorage().get<ScoreRecord>(keys.score(token));
+}
+
+/**
+ * Delete a score record and its index entries (no-op if missing)
+ */
+export async function deleteScore(token: string): Promise<void> {
+  const storage = getStorage();
+  const record = await storage.get<ScoreRecord>(keys.score(token));
+  if (!record) return;
 
-    // Update index (newest first)
-    const index = (await kv.get<string[]>("scores:index")) ?? [];
-    const filtered = index.filter((token) => token !== record.token);
-    const updated = [record.token, ...filtered].slice(0, MAX_SCORE_INDEX_SIZE);
-    await kv.set("scores:index", updated);
+  await unindexScore(storage, record);
+  await storage.del(keys.score(token));
+}
 
-    return;
-  }
+/**
+ * Page through scores matching the filters (newest first)
+ */
+export async function queryScoreRecords(
+  filters: ScoreFilters = {},
+  options: PageOptions = {}
+): Promise<Page<ScoreRecord>> {
+  return queryScores(getStorage(), filters, options);
+}
 
-  // In-memory fallback
-  inMemoryScores.set(record.token, record);
+/**
+ * Walk every stored score (newest first), reading one page of the time index
+ * at a time. Scores completed after the walk starts are left out, so the
+ * offsets stay stable while new scores arrive.
+ */
+export async function* scanScoreRecords(pageSize: number): AsyncGenerator<ScoreRecord> {
+  const storage = getStorage();
+  const max = Date.now();
 
-  // Update in-memory index (newest first)
-  const filtered = inMemoryScoreIndex.filter((token) => token !== record.token);
-  inMemoryScoreIndex.length = 0;
-  inMemoryScoreIndex.push(record.token, ...filtered);
-  if (inMemoryScoreIndex.length > MAX_SCORE_INDEX_SIZE) {
-    inMemoryScoreIndex.length = MAX_SCORE_INDEX_SIZE;
+  for (let offset = 0; ; offset += pageSize) {
+    const positions = await storage.zrange(keys.scoreIndex(), { max, rev: true, offset, count: pageSize });
+    const records = await storage.mget<ScoreRecord>(positions.map(({ member }) => keys.score(member)));
+    for (const record of records) {
+      if (record) yield record;
+    }
+    if (positions.length < pageSize) return;
   }
 }
 
-export async function getScore(token: string): Promise<ScoreRecord | null> {
-  if (useKv()) {
-    const result = await kv.get<ScoreRecord>(`score:${token}`);
-    return result ?? null;
-  }
-  return inMemoryScores.get(token) ?? null;
+/**
+ * Number of stored scores, optionally within a date range
+ */
+export async function countScoreRecords(range: DateRange = "all"): Promise<number> {
+  return countScores(getStorage(), rangeStart(range));
 }
 
 /**
- * List scores from index (newest first)
+ * List scores (newest first)
  * Optionally filter by time range and limit results
  */
 export async function listScores(options?: {
-  range?: "7d" | "30d" | "all";
+  range?: DateRange;
   limit?: number;
 }): Promise<ScoreRecord[]> {
   const { range = "all", limit = 1000 } = options ?? {};
-
-  // Get score tokens from index
-  let tokens: string[];
-  if (useKv()) {
-    tokens = (await kv.get<string[]>("scores:index")) ?? [];
-  } else {
-    tokens = [...inMemoryScoreIndex];
-  }
-
-  // Fetch score records
-  const scores: ScoreRecord[] = [];
-  for (const token of tokens) {
-    const score = await getScore(token);
-    if (score) {
-      scores.push(score);
-    }
-  }
-
-  // Apply time range filter
-  let filtered = scores;
-  if (range !== "all") {
-    const now = new Date();
-    let cutoffTime: Date;
-
-    switch (range) {
-      case "7d":
-        cutoffTime = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case "30d":
-        cutoffTime = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        cutoffTime = new Date(0);
-    }
-
-    filtered = scores.filter((score) => {
-      const scoreTime = new Date(score.completedAt);
-      return scoreTime >= cutoffTime;
-    });
-  }
-
-  // Apply limit
-  return filtered.slice(0, limit);
+  const page = await queryScores(getStorage(), { since: rangeStart(range) }, { limit });
+  return page.items;
 }
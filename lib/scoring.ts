@@ -1,12 +1,30 @@
 import { SessionState } from "./storage";
+import { getStakeholderCoverage } from "./multiAttendee";
+import { evaluateInterruptionAdaptation } from "./interruptions";
+import { pausedMsBetween } from "./sessionPause";
+import {
+  countRubricSignal,
+  DEFAULT_SCORING_RUBRIC,
+  type RubricGradeRule,
+  type RubricSignal,
+  type ScoringRubric,
+} from "./scoringRubric";
+import type { SessionJudgment } from "./llm/judgeTypes";
+import type { TurnAnnotation } from "./turnAnnotations";
+import type { TrainerOverrides } from "./scoreOverrides";
 
 /**
- * Calculate active time for a session, excluding idle gaps > 2 minutes.
+ * Calculate active time for a session, excluding idle gaps > 2 minutes
+ * and time spent paused.
  *
  * @param transcript - Session transcript with timestamps
+ * @param pauses - Session pauses (see lib/sessionPause.ts)
  * @returns Active time in seconds
  */
-function calculateActiveTime(transcript: Array<{ timestamp: string; type: string }>): number {
+export function calculateActiveTime(
+  transcript: Array<{ timestamp: string; type: string }>,
+  pauses?: SessionState["pauses"]
+): number {
   if (transcript.length < 2) return 0;
 
   const IDLE_THRESHOLD_MS = 2 * 60 * 1000; // 2 minutes
@@ -15,7 +33,7 @@ function calculateActiveTime(transcript: Array<{ timestamp: string; type: string
   for (let i = 1; i < transcript.length; i++) {
     const prev = new Date(transcript[i - 1].timestamp).getTime();
     const curr = new Date(transcript[i].timestamp).getTime();
-    const gap = curr - prev;
+    const gap = curr - prev - pausedMsBetween(pauses, prev, curr);
 
     // Only count gaps under idle threshold
     if (gap < IDLE_THRESHOLD_MS) {
@@ -34,33 +52,132 @@ export interface ScoreRecord {
   conferenceContext?: string;
   score: number; // 0-100
   grade: "A" | "B" | "C" | "D" | "F";
-  breakdown: {
-    listening: number; // 0-20
-    discovery: number; // 0-20
-    empathy: number; // 0-20
-    otel_assumptions: number; // 0-20
-    guardrails: number; // 0-20
-  };
+  // Points per rubric dimension (default rubric: listening, discovery,
+  // empathy, otel_assumptions, guardrails, each 0-20), plus
+  // stakeholder_coverage (group sessions) and interruption_adaptation
+  // (interrupted sessions), both 0-20
+  breakdown: Record<string, number>;
+  // Cap per breakdown key (missing on scores from before rubrics: all 20)
+  breakdownMax?: Record<string, number>;
+  // LLM judge's evaluation against the prompt bundle's post-session rubric
+  // (see lib/llm/sessionJudge.ts); missing when the rubric turns it off
+  judge?: SessionJudgment;
+  // Heuristic total before the judge's score was blended in (rubric judge
+  // mode "blend" only)
+  heuristicScore?: number;
+  // One per trainee message (see lib/turnAnnotations.ts); added by
+  // scoreFinishedSession, missing on older scores
+  turnAnnotations?: TurnAnnotation[];
   highlights: string[];
   mistakes: string[];
   violations: string[];
   createdAt: string;
   completedAt: string;
+  // Rubric the score was computed with (see lib/scoringRubric.ts); missing
+  // on scores from before rubrics, which match DEFAULT_SCORING_RUBRIC
+  rubricVersion?: string;
+  // Rubric and engine version together (see getScoringVersion); scores on
+  // different versions aren't comparable. Missing on older scores
+  scoringVersion?: string;
+  // Set when a batch rescore replaced the score (see lib/rescore.ts)
+  rescoredAt?: string;
   // Snapshot fields (Phase H1)
   conferenceId?: string;
   conferenceName?: string;
   personaDisplayName?: string;
   traineeId?: string;
   traineeNameShort?: string;
+  // Coaching mode run: ranked apart from unassisted runs (see lib/coaching.ts)
+  coached?: boolean;
+  // Force-closed as abandoned (see lib/abandonedSessions.ts); kept off the leaderboard
+  incomplete?: boolean;
+  // Trainer corrections of the breakdown and grade (see lib/scoreOverrides.ts);
+  // score, grade and breakdown above stay the computed values
+  trainerOverrides?: TrainerOverrides;
+}
+
+/**
+ * Version of scoreSession's own logic (outcome detection, group and
+ * interruption adjustments, judge blending). Bump it whenever a change here
+ * moves scores; rubric changes are versioned by the rubric.
+ */
+export const SCORING_ENGINE_VERSION = 1;
+
+/** Reported for scores from before scoring versions */
+export const UNVERSIONED_SCORING = "unversioned";
+
+/**
+ * Scoring version stamped on new scores, e.g. "heuristic-v1/engine-1"
+ */
+export function getScoringVersion(rubric: ScoringRubric): string {
+  return `${rubric.version}/engine-${SCORING_ENGINE_VERSION}`;
+}
+
+/**
+ * A score's scoring version (UNVERSIONED_SCORING for older scores)
+ */
+export function scoringVersionOf(record: Pick<ScoreRecord, "scoringVersion">): string {
+  return record.scoringVersion ?? UNVERSIONED_SCORING;
+}
+
+/**
+ * Score, grade and breakdown after trainer overrides (the computed values
+ * when there are none). Overridden dimensions move the score by the
+ * difference, clamped to 0-100.
+ */
+export function effectiveScore(
+  record: Pick<ScoreRecord, "score" | "grade" | "breakdown" | "trainerOverrides">
+): { score: number; grade: ScoreRecord["grade"]; breakdown: Record<string, number>; overridden: boolean } {
+  const overrides = record.trainerOverrides;
+  if (!overrides) {
+    return { score: record.score, grade: record.grade, breakdown: record.breakdown, overridden: false };
+  }
+
+  const breakdown = { ...record.breakdown };
+  let score = record.score;
+  for (const [key, override] of Object.entries(overrides.breakdown ?? {})) {
+    if (!(key in breakdown)) continue;
+    score += override.value - breakdown[key];
+    breakdown[key] = override.value;
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    grade: overrides.grade?.value ?? record.grade,
+    breakdown,
+    overridden: true,
+  };
+}
+
+/**
+ * Whether a grade rule holds for this session
+ */
+function matchesGradeRule(
+  rule: RubricGradeRule,
+  context: { score: number; isEfficient: boolean; violations: number; breakdown: Record<string, number> }
+): boolean {
+  if (rule.minScore !== undefined && context.score < rule.minScore) return false;
+  if (rule.efficient && !context.isEfficient) return false;
+  if (rule.noViolations && context.violations > 0) return false;
+  return Object.entries(rule.minDimensions ?? {}).every(
+    ([id, min]) => (context.breakdown[id] ?? 0) >= min
+  );
 }
 
 /**
  * Heuristic-based scoring for a completed session.
- * V1: No LLM required.
+ * No LLM required: the judge's evaluation, if any, is passed in.
+ *
+ * @param rubric - What to reward and penalise (the active prompt bundle's
+ *   rubric, see lib/sessionScoring.ts)
+ * @param judgment - The LLM judge's evaluation; stored on the score and,
+ *   when the rubric says so, blended into it
  */
 export function scoreSession(
   session: SessionState,
-  token: string
+  token: string,
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC,
+  judgment?: SessionJudgment
 ): ScoreRecord {
   const now = new Date().toISOString();
 
@@ -69,96 +186,54 @@ export function scoreSession(
     .filter((m) => m.type === "trainee")
     .map((m) => m.text);
 
-  const allTraineeText = traineeMessages.join(" ").toLowerCase();
-
-  // --- LISTENING (0-20) ---
-  const listeningPhrases = [
-    "what i'm hearing",
-    "sounds like",
-    "so you're saying",
-    "if i understand",
-    "let me make sure",
-    "to clarify",
-    "help me understand",
-  ];
-  const listeningCount = listeningPhrases.filter((phrase) =>
-    allTraineeText.includes(phrase)
-  ).length;
-  const listening = Math.min(20, listeningCount * 5 + 5); // Base 5, +5 per phrase
-
-  // --- DISCOVERY (0-20) ---
-  const questionCount = traineeMessages.filter((msg) =>
-    msg.includes("?")
-  ).length;
-  const openEndedPhrases = [
-    "what",
-    "how",
-    "tell me",
-    "describe",
-    "walk me through",
-    "help me understand",
-  ];
-  const openEndedCount = traineeMessages.filter((msg) =>
-    openEndedPhrases.some((phrase) => msg.toLowerCase().includes(phrase))
-  ).length;
-
-  const discovery = Math.min(
-    20,
-    questionCount * 2 + openEndedCount * 3 // Questions + open-ended bonus
-  );
-
-  // --- EMPATHY (0-20) ---
-  const empathyPhrases = [
-    "that must be",
-    "frustrating",
-    "i can imagine",
-    "sorry",
-    "understand",
-    "hear you",
-    "that's tough",
-    "that sounds",
-    "rough",
-    "brutal",
-  ];
-  const empathyCount = empathyPhrases.filter((phrase) =>
-    allTraineeText.includes(phrase)
-  ).length;
-  const empathy = Math.min(20, empathyCount * 4 + 2); // Base 2, +4 per phrase
-
-  // --- OTEL ASSUMPTIONS (0-20) ---
-  // REDUCED WEIGHT: Asking about OTel is good discovery, not a violation
-  // Only penalize if trainee ASSERTS without asking
-  const otelAssertions = traineeMessages.filter((msg) => {
-    const lower = msg.toLowerCase();
-    const hasOtel = lower.includes("opentelemetry") || /\botel\b/.test(lower);
-    const isQuestion = msg.includes("?");
-    const asksAboutOtel = isQuestion && (
-      lower.includes("are you") ||
-      lower.includes("do you") ||
-      lower.includes("have you") ||
-      lower.includes("familiar with")
-    );
-    const assertsOtel = (
-      lower.includes("since you") ||
-      lower.includes("with your") ||
-      lower.includes("your otel") ||
-      lower.includes("you're using")
-    ) && hasOtel;
-
-    return assertsOtel && !asksAboutOtel; // Only flag assertions
-  });
-  const otelAssumptions = Math.max(0, 20 - otelAssertions.length * 10); // -10 per actual assertion
-
-  // --- GUARDRAILS (0-20) ---
-  const violationCount = session.violations.length;
-  const earlyPitchViolation = session.violations.some((v) =>
-    v.includes("Early pitch")
-  );
+  const signalPoints = (signal: RubricSignal) =>
+    countRubricSignal(signal, signal.source === "violations" ? session.violations : traineeMessages) *
+    signal.points;
+
+  // --- RUBRIC DIMENSIONS (each 0-max) ---
+  const breakdown: Record<string, number> = {};
+  const breakdownMax: Record<string, number> = {};
+  for (const dimension of rubric.dimensions) {
+    const points = dimension.signals.reduce((sum, signal) => sum + signalPoints(signal), dimension.base);
+    breakdown[dimension.id] = Math.min(dimension.max, Math.max(0, points));
+    breakdownMax[dimension.id] = dimension.max;
+  }
 
-  let guardrails = 20;
-  guardrails -= violationCount * 5; // -5 per violation
-  if (earlyPitchViolation) guardrails -= 5; // Extra penalty for early pitch
-  guardrails = Math.max(0, guardrails);
+  // --- STAKEHOLDER COVERAGE (0-20, group sessions only) ---
+  // Each attendee should be addressed (by title or their priorities) at least once
+  const coverage = getStakeholderCoverage(session);
+  const ignoredStakeholders = coverage?.filter((c) => c.turns === 0).map((c) => c.attendee.displayName) ?? [];
+  const stakeholderCoverage = coverage
+    ? Math.round((20 * (coverage.length - ignoredStakeholders.length)) / coverage.length)
+    : undefined;
+  // Bonus for bringing everyone along, penalty per stakeholder ignored
+  const coverageAdjustment = coverage
+    ? ignoredStakeholders.length === 0
+      ? rubric.stakeholderCoverage.allCoveredBonus
+      : -rubric.stakeholderCoverage.perIgnoredPenalty * ignoredStakeholders.length
+    : 0;
+
+  // --- INTERRUPTION ADAPTATION (0-20, interrupted sessions only) ---
+  // Acknowledge the time pressure, get shorter, and close before they leave
+  const adaptation = evaluateInterruptionAdaptation(session);
+  const interruptionKind = session.interruption?.kind.replace(/_/g, " ");
+  const adaptationRules = rubric.interruptionAdaptation;
+  const adaptationAdjustment = adaptation
+    ? adaptation.score >= adaptationRules.strongFrom
+      ? adaptationRules.strongBonus
+      : adaptation.score <= adaptationRules.weakUpTo
+        ? -adaptationRules.weakPenalty
+        : 0
+    : 0;
+
+  if (stakeholderCoverage !== undefined) {
+    breakdown.stakeholder_coverage = stakeholderCoverage;
+    breakdownMax.stakeholder_coverage = 20;
+  }
+  if (adaptation) {
+    breakdown.interruption_adaptation = adaptation.score;
+    breakdownMax.interruption_adaptation = 20;
+  }
 
   // --- DETECT OUTCOME FROM TRANSCRIPT ---
   const lastFewMessages = session.transcript.slice(-5).map(m => m.text.toLowerCase()).join(" ");
@@ -176,110 +251,59 @@ export function scoreSession(
 
   // Check turn count efficiency
   const traineeMessageCount = traineeMessages.length;
-  const turnLimits = { easy: 10, medium: 12, hard: 14 };
+  const turnLimits = rubric.efficiency.turnLimits;
   const limit = turnLimits[session.kickoff.difficulty as keyof typeof turnLimits] || turnLimits.medium;
   const isEfficient = traineeMessageCount <= limit;
 
-  // --- CUSTOMER IMPACT FOCUS (0-5 bonus) ---
-  // Reward framing around customer impact, not just developer pain
-  const customerImpactPhrases = [
-    "customer",
-    "end user",
-    "user experience",
-    "customer-facing",
-    "customer impact",
-    "affecting customers",
-    "customer problems",
-  ];
-  const hasCustomerFocus = customerImpactPhrases.some((phrase) =>
-    allTraineeText.includes(phrase)
-  );
-  const customerImpactBonus = hasCustomerFocus ? 5 : 0;
+  // --- BONUSES (total only) ---
+  const appliedBonuses = rubric.bonuses
+    .map((bonus) => ({ bonus, points: signalPoints(bonus) }))
+    .filter(({ points }) => points !== 0);
 
   // --- TOTAL SCORE ---
-  let totalScore = listening + discovery + empathy + otelAssumptions + guardrails + customerImpactBonus;
-
-  // Boost score for successful outcomes
-  if (detectedOutcome === "SELF_SERVICE_READY" || detectedOutcome === "MQL_READY" || detectedOutcome === "DEMO_READY") {
-    totalScore += 10; // Success bonus
-  } else if (detectedOutcome === "DEFERRED_INTEREST") {
-    totalScore += 5; // Smaller bonus for respectful close
-  }
+  const outcomeRules = rubric.outcomes[detectedOutcome] ?? rubric.outcomes.default;
+  let totalScore =
+    rubric.dimensions.reduce((sum, dimension) => sum + breakdown[dimension.id], 0) +
+    appliedBonuses.reduce((sum, { points }) => sum + points, 0) +
+    coverageAdjustment +
+    adaptationAdjustment +
+    outcomeRules.bonus; // Outcome bonus (success, respectful close)
 
   // Slight penalty for inefficiency (but don't penalize successful outcomes too much)
   if (!isEfficient && detectedOutcome === "UNKNOWN") {
-    totalScore -= 5;
+    totalScore -= rubric.efficiency.noOutcomePenalty;
   }
 
-  const score = Math.min(100, Math.max(0, totalScore));
+  const heuristicScore = Math.min(100, Math.max(0, totalScore));
+
+  // Blend in the judge's score (before grading, so the grade follows it)
+  const judgeWeight = judgment && rubric.judge?.mode === "blend" ? rubric.judge.weight : 0;
+  const score = judgment && judgeWeight > 0
+    ? Math.round(heuristicScore * (1 - judgeWeight) + judgment.score * judgeWeight)
+    : heuristicScore;
 
   // --- GRADE (OUTCOME-AWARE) ---
-  let grade: "A" | "B" | "C" | "D" | "F";
-
-  // Success outcomes have strict minimum grades
-  if (detectedOutcome === "DEMO_READY") {
-    // DEMO_READY: Earned explicit demo interest (high-value outcome)
-    if (score >= 90 || (isEfficient && score >= 85)) grade = "A";
-    else if (score >= 75) grade = "B";
-    else grade = "C"; // Minimum C for earning demo interest
-  } else if (detectedOutcome === "SELF_SERVICE_READY") {
-    // SELF_SERVICE_READY: Clean self-service close (success outcome)
-    // Tightened grading logic (Fix 3):
-    // - B- minimum if: no violations + clear pain discovered + respectful close
-    // - C only if: missed pain OR rushed close OR guardrail issues
-    const hasClearPain = discovery >= 12; // At least 12/20 in discovery
-    const hasRespectfulClose = guardrails >= 15; // At least 15/20 in guardrails
-    const noViolations = session.violations.length === 0;
-
-    if (score >= 90 || (isEfficient && score >= 85)) {
-      grade = "A";
-    } else if (noViolations && hasClearPain && hasRespectfulClose) {
-      // B- minimum for clean self-service success
-      grade = score >= 80 ? "B" : "B"; // B floor
-    } else {
-      // C if missed pain, rushed close, or guardrail issues
-      grade = "C";
-    }
-  } else if (detectedOutcome === "MQL_READY") {
-    // MQL_READY: Hot lead secured (highest-value outcome)
-    // MINIMUM GRADE: B (can never be below B)
-    if (score >= 90 || (isEfficient && score >= 85)) grade = "A";
-    else grade = "B"; // Floor is B for MQL success
-  } else if (detectedOutcome === "DEFERRED_INTEREST") {
-    // DEFERRED_INTEREST: Respectful close, timing not right
-    if (score >= 85 && isEfficient) grade = "B";
-    else if (score >= 75) grade = "C";
-    else if (score >= 65) grade = "D";
-    else grade = "F"; // Can still get F if many violations
-  } else {
-    // Standard grading for POLITE_EXIT and UNKNOWN
-    if (score >= 90) grade = "A";
-    else if (score >= 80) grade = "B";
-    else if (score >= 70) grade = "C";
-    else if (score >= 60) grade = "D";
-    else grade = "F";
-  }
+  // First matching rule for the outcome, otherwise its floor
+  const gradeContext = { score, isEfficient, violations: session.violations.length, breakdown };
+  const grade =
+    outcomeRules.grades.find((rule) => matchesGradeRule(rule, gradeContext))?.grade ?? outcomeRules.floor;
 
   // --- HIGHLIGHTS ---
   const highlights: string[] = [];
-  if (detectedOutcome === "SELF_SERVICE_READY")
-    highlights.push("Closed with appropriate self-service path (SUCCESS)");
-  if (detectedOutcome === "MQL_READY")
-    highlights.push("Secured MQL/follow-up opportunity (SUCCESS)");
-  if (detectedOutcome === "DEMO_READY")
-    highlights.push("Earned genuine demo interest (SUCCESS)");
-  if (detectedOutcome === "DEFERRED_INTEREST")
-    highlights.push("Respectful close with deferred interest (POSITIVE)");
-  if (listening >= 15)
-    highlights.push("Strong active listening with reflection phrases");
-  if (discovery >= 15)
-    highlights.push("Good use of open-ended discovery questions");
-  if (empathy >= 15) highlights.push("Showed empathy and validation");
-  if (otelAssumptions >= 18)
-    highlights.push("Avoided making OTel assumptions");
-  if (guardrails >= 18) highlights.push("Maintained keyword discipline");
-  if (hasCustomerFocus)
-    highlights.push("Framed conversation around customer impact");
+  if (outcomeRules.highlight) highlights.push(outcomeRules.highlight);
+  if (coverage && ignoredStakeholders.length === 0)
+    highlights.push(
+      `Addressed every stakeholder (${coverage.map((c) => c.attendee.displayName).join(", ")})`
+    );
+  if (adaptation && adaptation.score >= adaptationRules.strongFrom)
+    highlights.push(`Adapted to the interruption (${interruptionKind}) and closed quickly`);
+  for (const dimension of rubric.dimensions) {
+    if (dimension.highlight && breakdown[dimension.id] >= dimension.highlight.minScore)
+      highlights.push(dimension.highlight.text);
+  }
+  for (const { bonus, points } of appliedBonuses) {
+    if (bonus.highlight && points > 0) highlights.push(bonus.highlight);
+  }
   // Count unique states visited (including current state)
   const uniqueStates = new Set([
     ...session.stateHistory.map(h => h.from),
@@ -297,17 +321,21 @@ export function scoreSession(
 
   // --- MISTAKES ---
   const mistakes: string[] = [];
-  if (listening < 10) mistakes.push("Lacked active listening and reflection");
-  if (discovery < 10)
-    mistakes.push("Too few discovery questions - mostly statements");
-  if (empathy < 10)
-    mistakes.push("Missed opportunities to validate and show empathy");
-  if (otelAssumptions < 10)
-    mistakes.push("Made assumptions about OTel familiarity");
-  if (guardrails < 15)
-    mistakes.push("Used banned keywords or pitched too early");
+  for (const name of ignoredStakeholders) {
+    mistakes.push(`Never addressed the ${name}'s priorities`);
+  }
+  if (adaptation && !adaptation.closedInTime)
+    mistakes.push(`Didn't land a next step before the attendee left (${interruptionKind})`);
+  else if (adaptation && !adaptation.compressed)
+    mistakes.push(`Kept long discovery going after the interruption (${interruptionKind})`);
+  for (const dimension of rubric.dimensions) {
+    if (dimension.mistake && breakdown[dimension.id] < dimension.mistake.belowScore)
+      mistakes.push(dimension.mistake.text);
+  }
   if (session.currentState === "ICEBREAKER")
     mistakes.push("Conversation stalled in ICEBREAKER state");
+  if (session.abandonedAt)
+    mistakes.unshift("Left the conversation unfinished (closed as abandoned)");
   if (session.violations.length > 0) {
     mistakes.push(
       `${session.violations.length} guardrail violation(s) detected`
@@ -326,23 +354,24 @@ export function scoreSession(
     conferenceContext: session.kickoff.conferenceContext,
     score,
     grade,
-    breakdown: {
-      listening,
-      discovery,
-      empathy,
-      otel_assumptions: otelAssumptions,
-      guardrails,
-    },
+    breakdown,
+    breakdownMax,
     highlights: finalHighlights,
     mistakes: finalMistakes,
     violations: session.violations,
     createdAt: session.startTime,
     completedAt: now,
+    rubricVersion: rubric.version,
+    scoringVersion: getScoringVersion(rubric),
+    ...(judgment ? { judge: judgment } : {}),
+    ...(judgeWeight > 0 ? { heuristicScore } : {}),
     // Snapshot fields from session (Phase H1)
     conferenceId: session.kickoff.conferenceId,
     conferenceName: session.kickoff.conferenceName,
     personaDisplayName: session.kickoff.personaDisplayName,
     traineeId: session.kickoff.traineeId,
     traineeNameShort: session.kickoff.traineeNameShort,
+    ...(session.kickoff.coaching ? { coached: true } : {}),
+    ...(session.abandonedAt ? { incomplete: true } : {}),
   };
 }
@@ -0,0 +1,629 @@
+/**
+ * Scoring rubric: what scoreSession (lib/scoring.ts) rewards and penalises.
+ *
+ * A rubric lists the scored dimensions (each a base, a cap and the signals
+ * that add or take away points), total-only bonuses, the points adjustments
+ * for group and interrupted sessions, per-outcome grade rules and how the
+ * LLM judge's score is blended in. It is
+ * stored on the prompt bundle (PromptBundle.scoringRubric) and edited from
+ * the admin prompt bundle page; bundles without one use
+ * DEFAULT_SCORING_RUBRIC. Every score records the rubric version it was
+ * computed with (ScoreRecord.rubricVersion).
+ *
+ * Patterns are case-insensitive substrings, or regular expressions written
+ * as "/.../" (matched with the i and s flags).
+ *
+ * This module has no imports, so it is safe to use from client components.
+ */
+
+export type RubricGrade = "A" | "B" | "C" | "D" | "F";
+
+export const RUBRIC_GRADES: RubricGrade[] = ["A", "B", "C", "D", "F"];
+
+/**
+ * off: the judge doesn't run
+ * advisory: the judge's evaluation is stored with the score, which is unchanged
+ * blend: score = heuristic total * (1 - weight) + judge score * weight, graded after
+ */
+export type RubricJudgeMode = "off" | "advisory" | "blend";
+
+export const RUBRIC_JUDGE_MODES: RubricJudgeMode[] = ["off", "advisory", "blend"];
+
+export interface RubricSignal {
+  id: string;
+  /** What the patterns are matched against */
+  source: "trainee_messages" | "violations";
+  /**
+   * phrases: count each pattern found anywhere (all items joined)
+   * matches: count each item that matches any pattern (no patterns: every item)
+   */
+  count: "phrases" | "matches";
+  patterns: string[];
+  /** Only items that also match one of these count */
+  requires?: string[];
+  /** Items that match one of these don't count */
+  unless?: string[];
+  /** Points per count (negative for penalties) */
+  points: number;
+  /** Stop counting after this many */
+  maxCount?: number;
+}
+
+export interface RubricDimension {
+  /** Key in ScoreRecord.breakdown */
+  id: string;
+  label: string;
+  /** Points before any signal */
+  base: number;
+  /** The dimension scores between 0 and max */
+  max: number;
+  signals: RubricSignal[];
+  highlight?: { minScore: number; text: string };
+  mistake?: { belowScore: number; text: string };
+}
+
+/** Points added to the total only (not a breakdown dimension) */
+export interface RubricBonus extends RubricSignal {
+  /** Highlight shown when the bonus applies */
+  highlight?: string;
+}
+
+/** All conditions given must hold */
+export interface RubricGradeRule {
+  grade: RubricGrade;
+  minScore?: number;
+  /** Trainee stayed within the difficulty's turn limit */
+  efficient?: boolean;
+  noViolations?: boolean;
+  /** Minimum dimension scores, e.g. { "discovery": 12 } */
+  minDimensions?: Record<string, number>;
+}
+
+export interface RubricOutcome {
+  /** Added to the total when the conversation ended on this outcome */
+  bonus: number;
+  highlight?: string;
+  /** First matching rule wins */
+  grades: RubricGradeRule[];
+  /** Grade when no rule matches */
+  floor: RubricGrade;
+}
+
+export interface ScoringRubric {
+  /** Recorded on every score; bump it whenever the rubric changes */
+  version: string;
+  dimensions: RubricDimension[];
+  bonuses: RubricBonus[];
+  /** Keyed by detected outcome; "default" covers everything else (POLITE_EXIT, no outcome) */
+  outcomes: Record<string, RubricOutcome>;
+  efficiency: {
+    /** Trainee turns per difficulty that count as efficient */
+    turnLimits: Record<"easy" | "medium" | "hard", number>;
+    /** Taken off when the trainee ran over without reaching an outcome */
+    noOutcomePenalty: number;
+  };
+  /** Group sessions (see lib/multiAttendee.ts) */
+  stakeholderCoverage: {
+    allCoveredBonus: number;
+    perIgnoredPenalty: number;
+  };
+  /** Interrupted sessions (see lib/interruptions.ts); adaptation scores 0-20 */
+  interruptionAdaptation: {
+    strongFrom: number;
+    strongBonus: number;
+    weakUpTo: number;
+    weakPenalty: number;
+  };
+  /**
+   * How the LLM judge's score (see lib/llm/sessionJudge.ts) combines with
+   * the heuristic total. Rubrics without it run the judge as advisory.
+   */
+  judge?: {
+    mode: RubricJudgeMode;
+    /** blend only: the judge's share of the score (0-1) */
+    weight: number;
+  };
+}
+
+/** Breakdown keys scoreSession adds itself (group and interrupted sessions) */
+export const RESERVED_DIMENSION_IDS = ["stakeholder_coverage", "interruption_adaptation"];
+
+/**
+ * The heuristics scoreSession shipped with before rubrics were editable
+ */
+export const DEFAULT_SCORING_RUBRIC: ScoringRubric = {
+  version: "heuristic-v1",
+  dimensions: [
+    {
+      id: "listening",
+      label: "Listening",
+      base: 5,
+      max: 20,
+      signals: [
+        {
+          id: "reflection_phrase",
+          source: "trainee_messages",
+          count: "phrases",
+          patterns: [
+            "what i'm hearing",
+            "sounds like",
+            "so you're saying",
+            "if i understand",
+            "let me make sure",
+            "to clarify",
+            "help me understand",
+          ],
+          points: 5,
+        },
+      ],
+      highlight: { minScore: 15, text: "Strong active listening with reflection phrases" },
+      mistake: { belowScore: 10, text: "Lacked active listening and reflection" },
+    },
+    {
+      id: "discovery",
+      label: "Discovery",
+      base: 0,
+      max: 20,
+      signals: [
+        { id: "question", source: "trainee_messages", count: "matches", patterns: ["?"], points: 2 },
+        {
+          id: "open_ended",
+          source: "trainee_messages",
+          count: "matches",
+          patterns: ["what", "how", "tell me", "describe", "walk me through", "help me understand"],
+          points: 3,
+        },
+      ],
+      highlight: { minScore: 15, text: "Good use of open-ended discovery questions" },
+      mistake: { belowScore: 10, text: "Too few discovery questions - mostly statements" },
+    },
+    {
+      id: "empathy",
+      label: "Empathy",
+      base: 2,
+      max: 20,
+      signals: [
+        {
+          id: "empathy_phrase",
+          source: "trainee_messages",
+          count: "phrases",
+          patterns: [
+            "that must be",
+            "frustrating",
+            "i can imagine",
+            "sorry",
+            "understand",
+            "hear you",
+            "that's tough",
+            "that sounds",
+            "rough",
+            "brutal",
+          ],
+          points: 4,
+        },
+      ],
+      highlight: { minScore: 15, text: "Showed empathy and validation" },
+      mistake: { belowScore: 10, text: "Missed opportunities to validate and show empathy" },
+    },
+    {
+      // Asking about OTel is good discovery; only asserting it is penalised
+      id: "otel_assumptions",
+      label: "OTel assumptions",
+      base: 20,
+      max: 20,
+      signals: [
+        {
+          id: "otel_assertion",
+          source: "trainee_messages",
+          count: "matches",
+          patterns: ["since you", "with your", "your otel", "you're using"],
+          requires: ["opentelemetry", "/\\botel\\b/"],
+          unless: ["/^(?=.*\\?)(?=.*(are you|do you|have you|familiar with))/"],
+          points: -10,
+        },
+      ],
+      highlight: { minScore: 18, text: "Avoided making OTel assumptions" },
+      mistake: { belowScore: 10, text: "Made assumptions about OTel familiarity" },
+    },
+    {
+      id: "guardrails",
+      label: "Guardrails",
+      base: 20,
+      max: 20,
+      signals: [
+        { id: "violation", source: "violations", count: "matches", patterns: [], points: -5 },
+        {
+          id: "early_pitch",
+          source: "violations",
+          count: "matches",
+          patterns: ["Early pitch"],
+          points: -5,
+          maxCount: 1,
+        },
+      ],
+      highlight: { minScore: 18, text: "Maintained keyword discipline" },
+      mistake: { belowScore: 15, text: "Used banned keywords or pitched too early" },
+    },
+  ],
+  bonuses: [
+    {
+      // Customer impact framing, not just developer pain
+      id: "customer_impact",
+      source: "trainee_messages",
+      count: "phrases",
+      patterns: [
+        "customer",
+        "end user",
+        "user experience",
+        "customer-facing",
+        "customer impact",
+        "affecting customers",
+        "customer problems",
+      ],
+      points: 5,
+      maxCount: 1,
+      highlight: "Framed conversation around customer impact",
+    },
+  ],
+  outcomes: {
+    DEMO_READY: {
+      bonus: 10,
+      highlight: "Earned genuine demo interest (SUCCESS)",
+      grades: [
+        { grade: "A", minScore: 90 },
+        { grade: "A", minScore: 85, efficient: true },
+        { grade: "B", minScore: 75 },
+      ],
+      floor: "C",
+    },
+    SELF_SERVICE_READY: {
+      bonus: 10,
+      highlight: "Closed with appropriate self-service path (SUCCESS)",
+      grades: [
+        { grade: "A", minScore: 90 },
+        { grade: "A", minScore: 85, efficient: true },
+        // Clean close: pain discovered, no violations, respectful close
+        { grade: "B", noViolations: true, minDimensions: { discovery: 12, guardrails: 15 } },
+      ],
+      floor: "C",
+    },
+    MQL_READY: {
+      bonus: 10,
+      highlight: "Secured MQL/follow-up opportunity (SUCCESS)",
+      grades: [
+        { grade: "A", minScore: 90 },
+        { grade: "A", minScore: 85, efficient: true },
+      ],
+      floor: "B",
+    },
+    DEFERRED_INTEREST: {
+      bonus: 5,
+      highlight: "Respectful close with deferred interest (POSITIVE)",
+      grades: [
+        { grade: "B", minScore: 85, efficient: true },
+        { grade: "C", minScore: 75 },
+        { grade: "D", minScore: 65 },
+      ],
+      floor: "F",
+    },
+    default: {
+      bonus: 0,
+      grades: [
+        { grade: "A", minScore: 90 },
+        { grade: "B", minScore: 80 },
+        { grade: "C", minScore: 70 },
+        { grade: "D", minScore: 60 },
+      ],
+      floor: "F",
+    },
+  },
+  efficiency: {
+    turnLimits: { easy: 10, medium: 12, hard: 14 },
+    noOutcomePenalty: 5,
+  },
+  stakeholderCoverage: {
+    allCoveredBonus: 5,
+    perIgnoredPenalty: 10,
+  },
+  interruptionAdaptation: {
+    strongFrom: 14,
+    strongBonus: 5,
+    weakUpTo: 6,
+    weakPenalty: 5,
+  },
+  judge: {
+    mode: "advisory",
+    weight: 0.5,
+  },
+};
+
+/**
+ * Test a rubric pattern against text (see the module comment for syntax)
+ */
+export function matchesRubricPattern(pattern: string, text: string): boolean {
+  const regex = /^\/([\s\S]+)\/$/.exec(pattern);
+  if (regex) return new RegExp(regex[1], "is").test(text);
+  return text.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/**
+ * Times a signal fires for the given items (trainee messages or violations)
+ */
+export function countRubricSignal(signal: RubricSignal, items: string[]): number {
+  const matchesAny = (patterns: string[], text: string) =>
+    patterns.some((pattern) => matchesRubricPattern(pattern, text));
+
+  const counted = items.filter(
+    (item) =>
+      (!signal.requires || matchesAny(signal.requires, item)) &&
+      !(signal.unless && matchesAny(signal.unless, item))
+  );
+
+  let count: number;
+  if (signal.count === "phrases") {
+    const text = counted.join(" ");
+    count = signal.patterns.filter((pattern) => matchesRubricPattern(pattern, text)).length;
+  } else {
+    count = counted.filter(
+      (item) => signal.patterns.length === 0 || matchesAny(signal.patterns, item)
+    ).length;
+  }
+
+  return signal.maxCount === undefined ? count : Math.min(count, signal.maxCount);
+}
+
+// --- Validation ---
+
+export interface RubricValidationError {
+  /** Dotted path to the offending value ("" for the root) */
+  path: string;
+  message: string;
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Check a rubric's shape and references (empty when valid)
+ */
+export function validateScoringRubric(input: unknown): RubricValidationError[] {
+  const errors: RubricValidationError[] = [];
+  const fail = (path: string, message: string) => errors.push({ path, message });
+
+  const checkPatterns = (value: unknown, path: string, options: { allowEmpty: boolean }) => {
+    if (!Array.isArray(value) || (!options.allowEmpty && value.length === 0)) {
+      fail(path, options.allowEmpty ? "must be a list of patterns" : "must be a non-empty list of patterns");
+      return;
+    }
+    value.forEach((pattern, i) => {
+      if (typeof pattern !== "string" || !pattern) {
+        fail(`${path}.${i}`, "must be a non-empty string");
+        return;
+      }
+      const regex = /^\/([\s\S]+)\/$/.exec(pattern);
+      if (!regex) return;
+      try {
+        new RegExp(regex[1], "is");
+      } catch (e) {
+        fail(`${path}.${i}`, `invalid regular expression (${e instanceof Error ? e.message : e})`);
+      }
+    });
+  };
+
+  const checkSignal = (signal: unknown, path: string) => {
+    if (!isObject(signal)) {
+      fail(path, "must be an object");
+      return;
+    }
+    if (typeof signal.id !== "string" || !signal.id.trim()) fail(`${path}.id`, "must be a non-empty string");
+    if (signal.source !== "trainee_messages" && signal.source !== "violations") {
+      fail(`${path}.source`, "must be trainee_messages or violations");
+    }
+    if (signal.count !== "phrases" && signal.count !== "matches") {
+      fail(`${path}.count`, "must be phrases or matches");
+    }
+    checkPatterns(signal.patterns, `${path}.patterns`, { allowEmpty: signal.count === "matches" });
+    if (signal.requires !== undefined) checkPatterns(signal.requires, `${path}.requires`, { allowEmpty: false });
+    if (signal.unless !== undefined) checkPatterns(signal.unless, `${path}.unless`, { allowEmpty: false });
+    if (!isNumber(signal.points)) fail(`${path}.points`, "must be a number");
+    if (signal.maxCount !== undefined && !(Number.isInteger(signal.maxCount) && (signal.maxCount as number) > 0)) {
+      fail(`${path}.maxCount`, "must be a positive whole number");
+    }
+  };
+
+  if (!isObject(input)) {
+    fail("", "must be an object");
+    return errors;
+  }
+
+  if (typeof input.version !== "string" || !input.version.trim()) fail("version", "must be a non-empty string");
+
+  const dimensionIds = new Set<string>();
+  if (!Array.isArray(input.dimensions) || input.dimensions.length === 0) {
+    fail("dimensions", "must be a non-empty list");
+  } else {
+    input.dimensions.forEach((dimension, i) => {
+      const path = `dimensions.${i}`;
+      if (!isObject(dimension)) {
+        fail(path, "must be an object");
+        return;
+      }
+      if (typeof dimension.id !== "string" || !/^[a-z][a-z0-9_]*$/.test(dimension.id)) {
+        fail(`${path}.id`, "must be a lowercase identifier (letters, digits, _)");
+      } else if (RESERVED_DIMENSION_IDS.includes(dimension.id)) {
+        fail(`${path}.id`, `"${dimension.id}" is reserved`);
+      } else if (dimensionIds.has(dimension.id)) {
+        fail(`${path}.id`, `duplicate dimension "${dimension.id}"`);
+      } else {
+        dimensionIds.add(dimension.id);
+      }
+      if (typeof dimension.label !== "string" || !dimension.label.trim()) {
+        fail(`${path}.label`, "must be a non-empty string");
+      }
+      if (!isNumber(dimension.max) || dimension.max <= 0 || dimension.max > 100) {
+        fail(`${path}.max`, "must be a number between 1 and 100");
+      }
+      if (!isNumber(dimension.base) || dimension.base < 0 || (isNumber(dimension.max) && dimension.base > dimension.max)) {
+        fail(`${path}.base`, "must be a number between 0 and max");
+      }
+      if (!Array.isArray(dimension.signals)) {
+        fail(`${path}.signals`, "must be a list");
+      } else {
+        dimension.signals.forEach((signal, j) => checkSignal(signal, `${path}.signals.${j}`));
+      }
+      if (
+        dimension.highlight !== undefined &&
+        (!isObject(dimension.highlight) || !isNumber(dimension.highlight.minScore) || typeof dimension.highlight.text !== "string")
+      ) {
+        fail(`${path}.highlight`, "must be { minScore, text }");
+      }
+      if (
+        dimension.mistake !== undefined &&
+        (!isObject(dimension.mistake) || !isNumber(dimension.mistake.belowScore) || typeof dimension.mistake.text !== "string")
+      ) {
+        fail(`${path}.mistake`, "must be { belowScore, text }");
+      }
+    });
+  }
+
+  if (!Array.isArray(input.bonuses)) {
+    fail("bonuses", "must be a list");
+  } else {
+    input.bonuses.forEach((bonus, i) => {
+      checkSignal(bonus, `bonuses.${i}`);
+      if (isObject(bonus) && bonus.highlight !== undefined && typeof bonus.highlight !== "string") {
+        fail(`bonuses.${i}.highlight`, "must be a string");
+      }
+    });
+  }
+
+  if (!isObject(input.outcomes)) {
+    fail("outcomes", "must be an object");
+  } else {
+    if (!isObject(input.outcomes.default)) fail("outcomes.default", "is required");
+    for (const [name, outcome] of Object.entries(input.outcomes)) {
+      const path = `outcomes.${name}`;
+      if (!isObject(outcome)) {
+        fail(path, "must be an object");
+        continue;
+      }
+      if (!isNumber(outcome.bonus)) fail(`${path}.bonus`, "must be a number");
+      if (outcome.highlight !== undefined && typeof outcome.highlight !== "string") {
+        fail(`${path}.highlight`, "must be a string");
+      }
+      if (!RUBRIC_GRADES.includes(outcome.floor as RubricGrade)) {
+        fail(`${path}.floor`, `must be one of ${RUBRIC_GRADES.join(", ")}`);
+      }
+      if (!Array.isArray(outcome.grades)) {
+        fail(`${path}.grades`, "must be a list");
+        continue;
+      }
+      outcome.grades.forEach((rule, i) => {
+        const rulePath = `${path}.grades.${i}`;
+        if (!isObject(rule)) {
+          fail(rulePath, "must be an object");
+          return;
+        }
+        if (!RUBRIC_GRADES.includes(rule.grade as RubricGrade)) {
+          fail(`${rulePath}.grade`, `must be one of ${RUBRIC_GRADES.join(", ")}`);
+        }
+        if (rule.minScore !== undefined && !isNumber(rule.minScore)) fail(`${rulePath}.minScore`, "must be a number");
+        for (const flag of ["efficient", "noViolations"] as const) {
+          if (rule[flag] !== undefined && typeof rule[flag] !== "boolean") {
+            fail(`${rulePath}.${flag}`, "must be true or false");
+          }
+        }
+        if (rule.minDimensions !== undefined) {
+          if (!isObject(rule.minDimensions)) {
+            fail(`${rulePath}.minDimensions`, "must be an object");
+            return;
+          }
+          for (const [id, min] of Object.entries(rule.minDimensions)) {
+            if (!dimensionIds.has(id)) fail(`${rulePath}.minDimensions.${id}`, "unknown dimension");
+            else if (!isNumber(min)) fail(`${rulePath}.minDimensions.${id}`, "must be a number");
+          }
+        }
+      });
+    }
+  }
+
+  const checkNumbers = (value: unknown, path: string, names: string[]) => {
+    if (!isObject(value)) {
+      fail(path, "must be an object");
+      return;
+    }
+    for (const name of names) {
+      if (!isNumber(value[name])) fail(`${path}.${name}`, "must be a number");
+    }
+  };
+
+  if (!isObject(input.efficiency)) {
+    fail("efficiency", "must be an object");
+  } else {
+    checkNumbers(input.efficiency.turnLimits, "efficiency.turnLimits", ["easy", "medium", "hard"]);
+    if (!isNumber(input.efficiency.noOutcomePenalty)) fail("efficiency.noOutcomePenalty", "must be a number");
+  }
+  checkNumbers(input.stakeholderCoverage, "stakeholderCoverage", ["allCoveredBonus", "perIgnoredPenalty"]);
+  checkNumbers(input.interruptionAdaptation, "interruptionAdaptation", [
+    "strongFrom",
+    "strongBonus",
+    "weakUpTo",
+    "weakPenalty",
+  ]);
+
+  if (input.judge !== undefined) {
+    if (!isObject(input.judge)) {
+      fail("judge", "must be an object");
+    } else {
+      if (!RUBRIC_JUDGE_MODES.includes(input.judge.mode as RubricJudgeMode)) {
+        fail("judge.mode", `must be one of ${RUBRIC_JUDGE_MODES.join(", ")}`);
+      }
+      if (!isNumber(input.judge.weight) || input.judge.weight < 0 || input.judge.weight > 1) {
+        fail("judge.weight", "must be a number between 0 and 1");
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** JSON with object keys sorted, so rubrics compare by content */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Check that a rubric's version still names its content. Scores are stamped
+ * with the version (see getScoringVersion in lib/scoring.ts), so a changed
+ * rubric saved under a version already in use would make scores computed
+ * under different rules look comparable.
+ *
+ * @param known - Rubrics already in use (stored bundles and the default)
+ */
+export function validateRubricVersion(
+  rubric: ScoringRubric,
+  known: ScoringRubric[]
+): RubricValidationError[] {
+  const content = canonicalJson(rubric);
+  const conflict = known.find(
+    (other) => other.version === rubric.version && canonicalJson(other) !== content
+  );
+  return conflict
+    ? [{ path: "version", message: `a different rubric already uses version "${rubric.version}"; bump the version when changing the rubric` }]
+    : [];
+}
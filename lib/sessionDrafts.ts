@@ -0,0 +1,37 @@
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+
+/**
+ * Unsent trainee message, saved while they type so closing the tab doesn't
+ * lose it. Stored next to the session rather than in it: draft writes don't
+ * bump the session revision or add to the event log.
+ */
+export interface SessionDraft {
+  text: string;
+  updatedAt: string;
+}
+
+/** Longest draft we keep (characters) */
+export const MAX_DRAFT_LENGTH = 4000;
+
+export async function getSessionDraft(sessionId: string): Promise<SessionDraft | null> {
+  return getStorage().get<SessionDraft>(keys.sessionDraft(sessionId));
+}
+
+/**
+ * Save a draft (an empty one deletes it)
+ */
+export async function saveSessionDraft(sessionId: string, text: string): Promise<SessionDraft | null> {
+  if (!text.trim()) {
+    await deleteSessionDraft(sessionId);
+    return null;
+  }
+
+  const draft = { text: text.slice(0, MAX_DRAFT_LENGTH), updatedAt: new Date().toISOString() };
+  await getStorage().set(keys.sessionDraft(sessionId), draft);
+  return draft;
+}
+
+export async function deleteSessionDraft(sessionId: string): Promise<void> {
+  await getStorage().del(keys.sessionDraft(sessionId));
+}
@@ -0,0 +1,393 @@
+/**
+ * Event-sourced session log.
+ *
+ * Every session mutation appends typed events alongside the snapshot write
+ * (see saveSession). Events are stored per revision under
+ * session_events:{sessionId}:{revision}, so each batch is written exactly once
+ * and never read-modify-written. Replaying the batches in revision order
+ * rebuilds the snapshot, and stepping through them explains how a session
+ * reached its state (e.g. why determineBandedOutcome picked an outcome).
+ *
+ * This module is pure (no storage access) so the review UI can replay logs
+ * client-side; loading lives in lib/sessionLog.ts.
+ */
+
+import type { SessionState } from "./storage";
+import type { EnrichmentResult } from "./llm/enrichmentTypes";
+import type { EngagementChange, EngagementLevel } from "./engagement";
+import type { SessionPauseReason } from "./sessionPause";
+
+type TranscriptEntry = SessionState["transcript"][number];
+
+export type SessionEventInput =
+  | {
+      type: "session_created";
+      snapshot: SessionState;
+    }
+  | {
+      type: "enrichment_attached";
+      source: "cache" | "generated";
+      enrichment: EnrichmentResult;
+      // Group sessions: a non-lead attendee's enrichment
+      attendeeId?: string;
+    }
+  | {
+      type: "message_received";
+      message: TranscriptEntry;
+    }
+  | {
+      type: "analysis_result";
+      state: string;
+      issues: string[];
+      isQuestion: boolean;
+      isOpenEnded: boolean;
+      isEmpathetic: boolean;
+      mentionsOtel: boolean;
+      // State-graph signals that fired (see evaluateStateTransition)
+      stateSignals?: string[];
+      signals: {
+        turnLimitExceeded: boolean;
+        selfServiceDetected: boolean;
+        mql: { detected: boolean; matched: string[]; hasNearTermIntent: boolean };
+        deferredInterestDetected: boolean;
+        stakeholderType: string;
+      };
+    }
+  | {
+      type: "engagement_updated";
+      previous: number;
+      value: number;
+      delta: number;
+      level: EngagementLevel;
+      changes: EngagementChange[];
+    }
+  | {
+      type: "interruption_triggered";
+      kind: string;
+      atTurn: number;
+      turnsLeft: number;
+      attendeeContext: string;
+      // System message shown to the trainee
+      message: TranscriptEntry;
+    }
+  | {
+      type: "intent_classified";
+      intent: string;
+      confidence: number;
+      // True when the intent was added to expressedIntents
+      recorded: boolean;
+    }
+  | {
+      type: "reply_generated";
+      message: TranscriptEntry;
+      source: "template" | "llm";
+      provider?: string;
+      model?: string;
+      toolingContext?: SessionState["toolingContext"];
+    }
+  | {
+      type: "state_advanced";
+      from: string;
+      to: string;
+      timestamp: string;
+      // Also used for regressions and skips
+      kind?: "advance" | "skip" | "regress";
+      reason?: string;
+      signals?: string[];
+      // Group sessions: the attendee whose state moved, and the session state
+      // (least advanced attendee) afterwards
+      attendeeId?: string;
+      groupState?: string;
+    }
+  | {
+      type: "outcome_sampled";
+      resolver: "banded" | "basic";
+      outcome: string;
+      state: string;
+      inputs: {
+        mql: { detected: boolean; hasNearTermIntent: boolean };
+        selfServiceDetected: boolean;
+        deferredInterestDetected: boolean;
+        outcomeSeed?: string;
+      };
+      decisionTrace?: SessionState["decisionTrace"];
+    }
+  | {
+      type: "cta_shown";
+      outcome: string;
+      actionType: string;
+      actionLabel: string;
+      // Group sessions: the attendee who committed and to what (`outcome` is
+      // the combined outcome)
+      attendeeId?: string;
+      attendeeOutcome?: string;
+    }
+  | {
+      type: "cta_blocked";
+      outcome: string;
+      reason: string;
+    }
+  | {
+      type: "system_message";
+      message: TranscriptEntry;
+    }
+  | {
+      type: "session_paused";
+      timestamp: string;
+      reason: SessionPauseReason;
+    }
+  | {
+      type: "session_resumed";
+      timestamp: string;
+    }
+  | {
+      type: "session_ended";
+      // abandoned: force-closed by an admin (see lib/abandonedSessions.ts)
+      via: "end" | "complete" | "abandoned";
+      outcome: string;
+      abandonedAt?: string;
+    }
+  | {
+      type: "trainer_feedback_saved";
+      feedback: NonNullable<SessionState["trainerFeedback"]>;
+    }
+  | {
+      type: "trainer_feedback_cleared";
+    };
+
+export type SessionEventType = SessionEventInput["type"];
+
+export type SessionEvent = SessionEventInput & {
+  /** Session revision this event was written with */
+  revision: number;
+  /** Position within the revision's batch */
+  seq: number;
+  at: string;
+};
+
+export interface SessionReplayStep {
+  event: SessionEvent;
+  /** Session state after applying the event */
+  snapshot: SessionState;
+}
+
+/**
+ * Build the session_created event (snapshot is copied so later mutations of
+ * the live session don't leak into it)
+ */
+export function sessionCreatedEvent(session: SessionState): SessionEventInput {
+  return { type: "session_created", snapshot: structuredClone(session) };
+}
+
+/**
+ * Stamp a batch of events with the revision they're written under
+ */
+export function stampSessionEvents(
+  events: SessionEventInput[],
+  revision: number
+): SessionEvent[] {
+  const at = new Date().toISOString();
+  return events.map((event, seq) => ({ ...event, revision, seq, at }));
+}
+
+/**
+ * Apply one event to a session state (mutates and returns `state`).
+ * `state` is null until session_created has been applied.
+ */
+export function applySessionEvent(
+  state: SessionState | null,
+  event: SessionEvent
+): SessionState | null {
+  if (event.type === "session_created") {
+    return { ...structuredClone(event.snapshot), revision: event.revision };
+  }
+
+  if (!state) return null;
+
+  switch (event.type) {
+    case "enrichment_attached": {
+      const attendee = event.attendeeId
+        ? state.attendees?.find((a) => a.id === event.attendeeId)
+        : undefined;
+      if (attendee) attendee.enrichment = event.enrichment;
+      else state.kickoff.enrichment = event.enrichment;
+      break;
+    }
+    case "message_received":
+    case "system_message":
+      state.transcript.push(event.message);
+      break;
+    case "analysis_result":
+      state.violations.push(...event.issues);
+      break;
+    case "engagement_updated":
+      state.engagement = event.value;
+      break;
+    case "interruption_triggered":
+      state.transcript.push(event.message);
+      state.interruption = {
+        kind: event.kind,
+        atTurn: event.atTurn,
+        turnsLeft: event.turnsLeft,
+        attendeeContext: event.attendeeContext,
+      };
+      break;
+    case "intent_classified":
+      if (event.recorded) {
+        state.expressedIntents = state.expressedIntents ?? [];
+        if (!state.expressedIntents.includes(event.intent)) {
+          state.expressedIntents.push(event.intent);
+        }
+      }
+      break;
+    case "reply_generated":
+      state.transcript.push(event.message);
+      if (event.toolingContext) {
+        state.toolingContext = event.toolingContext;
+      }
+      break;
+    case "state_advanced":
+      state.stateHistory.push({
+        from: event.from,
+        to: event.to,
+        timestamp: event.timestamp,
+        ...(event.kind ? { kind: event.kind } : {}),
+        ...(event.reason ? { reason: event.reason } : {}),
+        ...(event.attendeeId ? { attendeeId: event.attendeeId } : {}),
+      });
+      if (event.attendeeId) {
+        const attendee = state.attendees?.find((a) => a.id === event.attendeeId);
+        if (attendee) attendee.currentState = event.to;
+        state.currentState = event.groupState ?? state.currentState;
+      } else {
+        state.currentState = event.to;
+      }
+      break;
+    case "outcome_sampled":
+      if (event.decisionTrace) {
+        // Copied: cta_blocked may rewrite the reason later
+        state.decisionTrace = { ...event.decisionTrace };
+      }
+      break;
+    case "cta_shown":
+      state.pendingOutcome = event.outcome;
+      state.pendingEndAction = {
+        actionType: event.actionType,
+        actionLabel: event.actionLabel,
+      };
+      if (event.attendeeId) {
+        const attendee = state.attendees?.find((a) => a.id === event.attendeeId);
+        if (attendee) attendee.outcome = event.attendeeOutcome;
+      }
+      break;
+    case "cta_blocked":
+      if (state.decisionTrace) {
+        state.decisionTrace.reason = event.reason;
+      }
+      break;
+    case "session_paused":
+      state.pauses = [...(state.pauses ?? []), { pausedAt: event.timestamp, reason: event.reason }];
+      break;
+    case "session_resumed": {
+      const pause = state.pauses?.[state.pauses.length - 1];
+      if (pause) pause.resumedAt = event.timestamp;
+      break;
+    }
+    case "session_ended":
+      state.active = false;
+      if (event.abandonedAt) state.abandonedAt = event.abandonedAt;
+      break;
+    case "trainer_feedback_saved":
+      state.trainerFeedback = event.feedback;
+      break;
+    case "trainer_feedback_cleared":
+      delete state.trainerFeedback;
+      break;
+  }
+
+  state.revision = event.revision;
+  return state;
+}
+
+/**
+ * Replay a log step by step, capturing the state after every event
+ */
+export function replaySessionEvents(events: SessionEvent[]): SessionReplayStep[] {
+  const steps: SessionReplayStep[] = [];
+  let state: SessionState | null = null;
+
+  for (const event of events) {
+    state = applySessionEvent(state, event);
+    if (state) {
+      steps.push({ event, snapshot: structuredClone(state) });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Rebuild the latest snapshot from a log (null if the log has no
+ * session_created event, e.g. sessions created before logging existed)
+ */
+export function rebuildSessionFromEvents(
+  events: SessionEvent[]
+): SessionState | null {
+  let state: SessionState | null = null;
+  for (const event of events) {
+    state = applySessionEvent(state, event);
+  }
+  return state;
+}
+
+const COMPARED_FIELDS = [
+  "currentState",
+  "active",
+  "transcript",
+  "stateHistory",
+  "violations",
+  "decisionTrace",
+  "expressedIntents",
+  "engagement",
+  "interruption",
+  "pauses",
+  "abandonedAt",
+  "attendees",
+  "pendingOutcome",
+  "trainerFeedback",
+] as const;
+
+/**
+ * List snapshot fields where a rebuilt session differs from the stored one
+ */
+export function diffRebuiltSession(
+  rebuilt: SessionState,
+  stored: SessionState
+): string[] {
+  return COMPARED_FIELDS.filter(
+    (field) => JSON.stringify(rebuilt[field]) !== JSON.stringify(stored[field])
+  );
+}
+
+/**
+ * Strip the hidden attendee profiles from an event before it leaves the server
+ */
+export function redactSessionEvent(event: SessionEvent): SessionEvent {
+  if (event.type !== "session_created") return event;
+
+  return {
+    ...event,
+    snapshot: {
+      ...event.snapshot,
+      kickoff: { ...event.snapshot.kickoff, attendeeProfile: "" },
+      ...(event.snapshot.attendees
+        ? {
+            attendees: event.snapshot.attendees.map((attendee) => ({
+              ...attendee,
+              attendeeProfile: "",
+            })),
+          }
+        : {}),
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { getSessionRevision, type SessionState } from "./storage";
+import {
+  diffRebuiltSession,
+  rebuildSessionFromEvents,
+  type SessionEvent,
+} from "./sessionEvents";
+
+export interface SessionLog {
+  events: SessionEvent[];
+  /** Revisions with no stored batch (writes made before logging, or without events) */
+  missingRevisions: number[];
+}
+
+export interface SessionLogCheck extends SessionLog {
+  rebuilt: SessionState | null;
+  /** Snapshot fields where the rebuilt state differs from the stored one */
+  mismatches: string[];
+}
+
+/**
+ * Load the event log for a session, in revision order
+ */
+export async function getSessionLog(session: SessionState): Promise<SessionLog> {
+  const latest = getSessionRevision(session);
+  const revisions = Array.from({ length: latest + 1 }, (_, i) => i);
+
+  const batches = await getStorage().mget<SessionEvent[]>(
+    revisions.map((revision) => keys.sessionEvents(session.id, revision))
+  );
+
+  const events: SessionEvent[] = [];
+  const missingRevisions: number[] = [];
+  batches.forEach((batch, i) => {
+    if (batch) {
+      events.push(...batch);
+    } else if (revisions[i] > 0) {
+      // Revision 0 only has a batch for invite-created sessions
+      missingRevisions.push(revisions[i]);
+    }
+  });
+
+  return { events, missingRevisions };
+}
+
+/**
+ * Load the log and verify it rebuilds the stored snapshot
+ */
+export async function checkSessionLog(
+  session: SessionState
+): Promise<SessionLogCheck> {
+  const log = await getSessionLog(session);
+  const rebuilt = rebuildSessionFromEvents(log.events);
+
+  return {
+    ...log,
+    rebuilt,
+    mismatches: rebuilt ? diffRebuiltSession(rebuilt, session) : ["session_created"],
+  };
+}
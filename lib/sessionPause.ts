@@ -0,0 +1,95 @@
+/**
+ * Session pause and resume.
+ *
+ * The trainee page pauses a session when the trainee clicks Pause or closes
+ * the tab (a beacon on pagehide) and resumes it when they come back. Paused
+ * time is left out of the session's active time (calculateActiveTime) and
+ * the tracker shows the session as PAUSED rather than IN_PROGRESS.
+ *
+ * Helpers mutate the session and return the events to log with saveSession
+ * (empty when nothing changed).
+ */
+
+import type { SessionState } from "./storage";
+import type { SessionEventInput } from "./sessionEvents";
+
+export type SessionPauseReason = "trainee" | "tab_closed";
+
+export const SESSION_PAUSE_REASONS: SessionPauseReason[] = ["trainee", "tab_closed"];
+
+type SessionPause = NonNullable<SessionState["pauses"]>[number];
+
+function openPause(session: Pick<SessionState, "pauses">): SessionPause | undefined {
+  const last = session.pauses?.[session.pauses.length - 1];
+  return last && !last.resumedAt ? last : undefined;
+}
+
+/**
+ * Whether the session is paused right now
+ */
+export function isSessionPaused(session: Pick<SessionState, "pauses">): boolean {
+  return openPause(session) !== undefined;
+}
+
+/**
+ * Pause an active session (no-op if it's already paused or has ended)
+ */
+export function pauseSession(
+  session: SessionState,
+  reason: SessionPauseReason,
+  now = new Date().toISOString()
+): SessionEventInput[] {
+  if (!session.active || isSessionPaused(session)) return [];
+
+  session.pauses = [...(session.pauses ?? []), { pausedAt: now, reason }];
+  return [{ type: "session_paused", timestamp: now, reason }];
+}
+
+/**
+ * Resume a paused session (no-op if it isn't paused)
+ */
+export function resumeSession(
+  session: SessionState,
+  now = new Date().toISOString()
+): SessionEventInput[] {
+  const pause = openPause(session);
+  if (!pause) return [];
+
+  pause.resumedAt = now;
+  return [{ type: "session_resumed", timestamp: now }];
+}
+
+/**
+ * Milliseconds between two times that the session spent paused (an open
+ * pause runs to `to`)
+ */
+export function pausedMsBetween(
+  pauses: SessionState["pauses"],
+  from: number,
+  to: number
+): number {
+  let paused = 0;
+  for (const pause of pauses ?? []) {
+    const start = Math.max(from, new Date(pause.pausedAt).getTime());
+    const end = Math.min(to, pause.resumedAt ? new Date(pause.resumedAt).getTime() : to);
+    if (end > start) paused += end - start;
+  }
+  return paused;
+}
+
+/**
+ * Latest trainee/attendee message or pause/resume, whichever is newest
+ * (null for sessions nobody has touched)
+ */
+export function lastSessionActivity(session: SessionState): string | null {
+  const times = session.transcript
+    .filter((m) => m.type === "trainee" || m.type === "attendee")
+    .map((m) => m.timestamp);
+  for (const pause of session.pauses ?? []) {
+    times.push(pause.resumedAt ?? pause.pausedAt);
+  }
+  if (times.length === 0) return null;
+  return times.reduce((latest, time) =>
+    new Date(time).getTime() > new Date(latest).getTime() ? time : latest
+  );
+}
@@ -0,0 +1,43 @@
+import type { SessionState } from "./storage";
+import { scoreSession, type ScoreRecord } from "./scoring";
+import { getSessionLog } from "./sessionLog";
+import { annotateTurns } from "./turnAnnotations";
+import type { PromptBundle } from "./llm/promptBundleTypes";
+import type { SessionJudgment } from "./llm/judgeTypes";
+import { getActivePromptBundle, getBundleScoringRubric } from "./llm/promptBundleStore";
+import { judgeSession } from "./llm/sessionJudge";
+
+/**
+ * Score a session with a prompt bundle: its rubric, the judge's evaluation
+ * against its post-session rubric, and an annotation per trainee turn from
+ * the session's event log
+ *
+ * @param judgment - Reuse this evaluation instead of judging again
+ *   (rescoring), or null to score without the judge; ignored when the rubric
+ *   turns the judge off
+ */
+export async function scoreSessionWithBundle(
+  session: SessionState,
+  token: string,
+  bundle: PromptBundle,
+  judgment?: SessionJudgment | null
+): Promise<ScoreRecord> {
+  const rubric = getBundleScoringRubric(bundle);
+  const judged =
+    rubric.judge?.mode === "off" || judgment === null
+      ? undefined
+      : judgment ?? judgeSession(session, bundle, rubric);
+  const [evaluation, { events }] = await Promise.all([judged, getSessionLog(session)]);
+
+  return {
+    ...scoreSession(session, token, rubric, evaluation),
+    turnAnnotations: annotateTurns(session, events),
+  };
+}
+
+/**
+ * Score a finished session with the active prompt bundle
+ */
+export async function scoreFinishedSession(session: SessionState, token: string): Promise<ScoreRecord> {
+  return scoreSessionWithBundle(session, token, await getActivePromptBundle());
+}
@@ -0,0 +1,96 @@
+import { getSessionRevision, type SessionState } from "./storage";
+import { getOutcomeAction } from "./outcomeActions";
+import { isSessionPaused } from "./sessionPause";
+import type { MessageTurnEndPrompt } from "./messageTurn";
+import type { CoachingHint } from "./coaching";
+
+/**
+ * Session as the trainee browser may see it.
+ * kickoff.attendeeProfile is intentionally omitted so the hidden profile
+ * never reaches the client.
+ */
+export interface TraineeSessionView {
+  sessionId: string;
+  revision: number;
+  transcript: SessionState["transcript"];
+  currentState: string;
+  violations: string[];
+  active: boolean;
+  kickoff: {
+    conferenceContext: string;
+    difficulty: string;
+    personaId?: string;
+    // Coaching mode: hints come with each message response
+    coaching?: boolean;
+  };
+  // Group sessions: who's at the booth (titles only, for speaker labels)
+  attendees?: Array<{ id: string; displayName: string }>;
+  startTime: string;
+  // Paused (see lib/sessionPause.ts): input stays disabled until resumed
+  paused?: boolean;
+  // Completion CTA the attendee already committed to, so a reload restores it
+  endPrompt?: MessageTurnEndPrompt;
+  // Set by the trainee endpoint only: unsent draft and the current coaching hint
+  draft?: string;
+  coachingHint?: CoachingHint;
+}
+
+export function toTraineeSessionView(session: SessionState): TraineeSessionView {
+  return {
+    sessionId: session.id,
+    revision: getSessionRevision(session),
+    transcript: session.transcript,
+    currentState: session.currentState,
+    violations: session.violations ?? [],
+    active: session.active,
+    kickoff: {
+      conferenceContext: session.kickoff.conferenceContext,
+      difficulty: session.kickoff.difficulty,
+      personaId: session.kickoff.personaId,
+      ...(session.kickoff.coaching ? { coaching: true } : {}),
+    },
+    ...(session.attendees
+      ? {
+          attendees: session.attendees.map(({ id, displayName }) => ({ id, displayName })),
+        }
+      : {}),
+    startTime: session.startTime,
+    ...(isSessionPaused(session) ? { paused: true } : {}),
+    ...(session.active && session.pendingOutcome && session.pendingEndAction
+      ? {
+          endPrompt: {
+            outcome: session.pendingOutcome,
+            ...session.pendingEndAction,
+            tooltip: getOutcomeAction(session.pendingOutcome).tooltip,
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Body for a 409 response when a session write loses a revision race.
+ * Clients replace their local state with `session` and retry if needed.
+ */
+export function sessionConflictBody(latest: SessionState) {
+  return {
+    error: "Session was updated by another request",
+    conflict: true,
+    revision: getSessionRevision(latest),
+    session: toTraineeSessionView(latest),
+  };
+}
+
+/**
+ * Check a client-supplied expectedRevision against the loaded session.
+ * Returns true when the client is up to date (or sent no revision).
+ */
+export function matchesExpectedRevision(
+  session: SessionState,
+  expectedRevision: unknown
+): boolean {
+  return (
+    typeof expectedRevision !== "number" ||
+    expectedRevision === getSessionRevision(session)
+  );
+}
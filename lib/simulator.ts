@@ -1,8 +1,16 @@
 // lib/simulator.ts
-import config from "./simulator.config.json";
 import type { EnrichmentResult } from "./llm/enrichmentTypes";
-
-export const SIMULATOR_CONFIG = config as any;
+import {
+  SIMULATOR_CONFIG,
+  type SimulatorConfig,
+  type StateTransitionRule,
+  type TransitionKind,
+} from "./simulatorConfig";
+import { getEngagementLevel } from "./engagement";
+import { PINNED_BAND_TITLE } from "./scenarioRules";
+
+export { SIMULATOR_CONFIG };
+export type { SimulatorConfig, StateTransitionRule, TransitionKind };
 
 // Prefer an explicit state order (do NOT rely on Object.keys order)
 export const STATE_ORDER: string[] =
@@ -112,16 +120,59 @@ export function sampleOutcome(
   return outcomes[outcomes.length - 1];
 }
 
+/**
+ * Signals analyzeTraineeMessage can fire (its stateSignals)
+ */
+export const ANALYZER_SIGNALS = [
+  "human_curiosity",
+  "role_based_question",
+  "reflective_listening",
+  "how_is_that_working_question",
+  "empathy_or_validation",
+  "reflection",
+  "impact_focused_question",
+  "outcome_alignment",
+  "respectful_demo_offer",
+  "early_pitch",
+  "feature_dump",
+  "feature_list",
+  "solution_pushing",
+  "immediate_solution_pitch",
+  "interrupt_venting",
+  "over_promise",
+  "assumption_about_otel",
+  "banned_keyword",
+  "any_issue",
+] as const;
+
+export type AnalyzerSignal = (typeof ANALYZER_SIGNALS)[number];
+
+/**
+ * Every name a state's advance_when / block_when or a transition guard may
+ * use: the analyzer's signals, attendee_committed (added by the message
+ * turn) and the advance_when / block_when list references
+ */
+export const STATE_GRAPH_SIGNALS: readonly string[] = [
+  ...ANALYZER_SIGNALS,
+  "attendee_committed",
+  "advance_when",
+  "block_when",
+];
+
 /**
  * Simple heuristic analysis of trainee message.
  * Keep this intentionally lightweight for v1.
  */
-export function analyzeTraineeMessage(text: string, currentState: string) {
+export function analyzeTraineeMessage(
+  text: string,
+  currentState: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
+) {
   const lower = text.toLowerCase();
   const issues: string[] = [];
 
   // 1) Check banned keywords (trainee used Honeycomb-specific/internal terms)
-  const banned = SIMULATOR_CONFIG.keyword_restrictions?.banned_product_keywords ?? [];
+  const banned = config.keyword_restrictions?.banned_product_keywords ?? [];
   for (const keyword of banned) {
     if (lower.includes(String(keyword).toLowerCase())) {
       issues.push(`Used banned keyword: "${keyword}"`);
@@ -170,58 +221,152 @@ export function analyzeTraineeMessage(text: string, currentState: string) {
   }
 
   const isOpenEnded = /\b(what|how|tell me|describe|walk me through|help me understand)\b/i.test(text);
+  const isReflection = /\b(so you're saying|sounds like|if i hear you|in other words)\b/i.test(text);
   const isEmpathetic = /\b(understand|hear you|sounds like|that must|that's tough|frustrat|brutal|rough)\b/i.test(text);
 
-  return { issues, isQuestion, isOpenEnded, isEmpathetic, mentionsOtel };
-}
-
-export function shouldAdvanceState(
-  currentState: string,
-  analysis: ReturnType<typeof analyzeTraineeMessage>
-): boolean {
-  // If the trainee violated major rules, block advancement
-  if (analysis.issues.length > 0) return false;
+  // 4) Named signals for the state graph (advance_when / block_when vocabulary)
+  const isPitch =
+    hasFeatureDump ||
+    /\b(honeycomb (can|will|would|does)|our (product|platform|tool)|we (can|could) (solve|fix))\b/i.test(text);
+  const signalChecks: Record<AnalyzerSignal, boolean> = {
+    human_curiosity: isQuestion && isOpenEnded,
+    role_based_question:
+      isQuestion && /\b(your (role|team|day)|what do you (do|work on)|responsible for|on.call)\b/i.test(text),
+    reflective_listening: isOpenEnded || isReflection,
+    how_is_that_working_question:
+      isQuestion && /\bhow('s| is| are| has| have)\b.*\b(working|going|holding up)\b/i.test(text),
+    empathy_or_validation: isEmpathetic,
+    reflection: isReflection,
+    impact_focused_question:
+      isQuestion &&
+      /\b(impact|affect|cost you|your (customers|users)|downtime|outage|mttr|paged|pager|wake you up|sleep)\b/i.test(text),
+    outcome_alignment: /\b(so that|which means|would that help|help you|outcome)\b/i.test(text),
+    respectful_demo_offer:
+      isQuestion && /\b(demo|show you|walk you through|take a look)\b/i.test(text),
+    // Any state: the graph decides where a pitch counts as early
+    early_pitch:
+      hasFeatureDump ||
+      (/\b(pricing|cost|budget|save money|roi)\b/i.test(lower) && !isQuestion) ||
+      (/\b(let me show|demo|walk you through)\b/i.test(lower) && !isQuestion),
+    feature_dump: hasFeatureDump,
+    feature_list: hasFeatureDump,
+    solution_pushing: isPitch && !isQuestion,
+    immediate_solution_pitch: isPitch,
+    interrupt_venting: /\b(anyway|moving on|let me stop you|let me jump in)\b/i.test(text),
+    over_promise: /\b(guarantee|never again|fix everything|100%|zero (downtime|incidents))\b/i.test(text),
+    assumption_about_otel: assertsOtel && !asksAboutOtel,
+    banned_keyword: issues.some((issue) => issue.startsWith("Used banned keyword")),
+    any_issue: issues.length > 0,
+  };
+  const stateSignals: string[] = ANALYZER_SIGNALS.filter((signal) => signalChecks[signal]);
 
-  switch (currentState) {
-    case "ICEBREAKER":
-      // Needs a human, open-ended question to move past guarded phase
-      return analysis.isQuestion && analysis.isOpenEnded;
+  return { issues, isQuestion, isOpenEnded, isEmpathetic, mentionsOtel, stateSignals };
+}
 
-    case "EXPLORATION":
-      // Open-ended exploration works
-      return analysis.isOpenEnded;
+/**
+ * Rule ID of an analyzeTraineeMessage issue (the matching state-graph signal)
+ */
+export function violationRuleId(issue: string): string {
+  if (issue.startsWith("Used banned keyword")) return "banned_keyword";
+  if (issue.startsWith("Early pitch")) return "early_pitch";
+  if (issue.startsWith("Assumed OTel")) return "assumption_about_otel";
+  return "unknown";
+}
 
-    case "PAIN_DISCOVERY":
-      // Empathy/validation is the gate to deeper candor/venting
-      return analysis.isEmpathetic;
+/**
+ * State graph.
+ *
+ * Each state in simulator.config.json declares `transitions`, checked in
+ * order after every trainee turn; the first whose guard passes is taken.
+ * - kind: advance (next state), skip (jumps ahead) or regress (goes back)
+ * - when: passes if ANY listed signal fired
+ * - when_all: passes only if ALL listed signals fired
+ * - unless: blocked if ANY listed signal fired
+ * Signal lists may include "advance_when" / "block_when", which expand to
+ * the state's own lists. Signals come from analyzeTraineeMessage plus
+ * attendee_committed (the attendee reply commits to a next step).
+ */
+/** The parts of simulator.config.json the state graph reads */
+export interface StateGraphConfig {
+  state_order?: string[];
+  states?: Record<
+    string,
+    { advance_when?: string[]; block_when?: string[]; transitions?: StateTransitionRule[] }
+  >;
+}
 
-    case "SOLUTION_FRAMING":
-      // Allow advancing to OUTCOME when they’re not violating rules
-      return true;
+export interface StateTransition {
+  from: string;
+  to: string;
+  kind: TransitionKind;
+  reason: string;
+  /** Signals that satisfied the guard */
+  signals: string[];
+}
 
-    default:
-      return false;
-  }
+function expandSignals(
+  signals: string[] | undefined,
+  stateConfig: NonNullable<StateGraphConfig["states"]>[string] | undefined
+): string[] {
+  return (signals ?? []).flatMap((signal) =>
+    signal === "advance_when" || signal === "block_when"
+      ? (stateConfig?.[signal] ?? [])
+      : [signal]
+  );
 }
 
-export function getNextState(currentState: string): string {
-  const currentIndex = STATE_ORDER.indexOf(currentState);
-  if (currentIndex === -1) return "ICEBREAKER";
-  if (currentIndex < STATE_ORDER.length - 1) return STATE_ORDER[currentIndex + 1];
-  return currentState;
+/**
+ * Declared transitions out of a state (none for unknown or terminal states)
+ */
+export function getStateTransitions(
+  state: string,
+  config: StateGraphConfig = SIMULATOR_CONFIG
+): StateTransitionRule[] {
+  return config.states?.[state]?.transitions ?? [];
 }
 
 /**
- * Gate OUTCOME state entry on explicit attendee commitment.
- * SOLUTION_FRAMING cannot advance to OUTCOME unless attendee commits to a next step.
- *
- * @param committedOutcome - Detected commitment outcome (or null)
- * @returns true if should enter OUTCOME state
+ * Pick the transition to take from `currentState` given the signals that
+ * fired this turn, or null to stay (always null for states without
+ * transitions, e.g. OUTCOME).
  */
-export function shouldEnterOutcomeState(params: {
-  committedOutcome: string | null;
-}): boolean {
-  return params.committedOutcome !== null;
+export function evaluateStateTransition(
+  currentState: string,
+  signals: string[],
+  config: StateGraphConfig = SIMULATOR_CONFIG
+): StateTransition | null {
+  const stateOrder: string[] = config.state_order ?? STATE_ORDER;
+  const stateConfig = config.states?.[currentState];
+  const fired = new Set(signals);
+
+  for (const rule of getStateTransitions(currentState, config)) {
+    if (!stateOrder.includes(rule.to) || rule.to === currentState) {
+      console.warn(`[Simulator] Ignoring transition ${currentState} → ${rule.to}: not a valid target`);
+      continue;
+    }
+
+    const anyOf = expandSignals(rule.when, stateConfig);
+    const allOf = expandSignals(rule.when_all, stateConfig);
+    const blockers = expandSignals(rule.unless, stateConfig).filter((signal) => fired.has(signal));
+
+    const matchedAny = anyOf.filter((signal) => fired.has(signal));
+    if (anyOf.length > 0 && matchedAny.length === 0) continue;
+    if (!allOf.every((signal) => fired.has(signal))) continue;
+    if (blockers.length > 0) continue;
+
+    const matched = Array.from(new Set([...matchedAny, ...allOf]));
+    return {
+      from: currentState,
+      to: rule.to,
+      kind: rule.kind,
+      reason:
+        rule.reason ??
+        `${rule.kind}: ${matched.length > 0 ? matched.join(", ") : "unconditional"}`,
+      signals: matched,
+    };
+  }
+
+  return null;
 }
 
 /**
@@ -232,8 +377,12 @@ export function shouldEnterOutcomeState(params: {
  * @param difficulty - easy, medium, or hard
  * @returns true if limit exceeded
  */
-export function hasExceededTurnLimit(turnCount: number, difficulty: string): boolean {
-  const limits = SIMULATOR_CONFIG.conversation_rules?.turn_limits || {
+export function hasExceededTurnLimit(
+  turnCount: number,
+  difficulty: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
+): boolean {
+  const limits = config.conversation_rules?.turn_limits || {
     easy: 10,
     medium: 12,
     hard: 14,
@@ -249,9 +398,12 @@ export function hasExceededTurnLimit(turnCount: number, difficulty: string): boo
  * @param text - Message text to analyze
  * @returns true if self-service cues detected
  */
-export function detectSelfServiceCues(text: string): boolean {
+export function detectSelfServiceCues(
+  text: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
+): boolean {
   const normalized = normalizeText(text);
-  const cues = SIMULATOR_CONFIG.self_service_cues || [];
+  const cues = config.self_service_cues || [];
 
   // Exact phrase matching on normalized text
   for (const cue of cues) {
@@ -284,9 +436,12 @@ export function detectSelfServiceCues(text: string): boolean {
  * @param text - Message text to analyze
  * @returns true if deferred interest cues detected
  */
-export function detectDeferredInterestCues(text: string): boolean {
+export function detectDeferredInterestCues(
+  text: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
+): boolean {
   const normalized = normalizeText(text);
-  const cues = SIMULATOR_CONFIG.deferred_interest_cues || [];
+  const cues = config.deferred_interest_cues || [];
 
   // Exact phrase matching on normalized text
   for (const cue of cues) {
@@ -336,10 +491,13 @@ function normalizeText(text: string): string {
  * @param text - Message text to analyze
  * @returns Object with detected flag, matched cues, and near-term intent
  */
-export function detectMQLCues(text: string): { detected: boolean; matched: string[]; hasNearTermIntent: boolean } {
+export function detectMQLCues(
+  text: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
+): { detected: boolean; matched: string[]; hasNearTermIntent: boolean } {
   const normalized = normalizeText(text);
-  const cues = SIMULATOR_CONFIG.mql_cues || [];
-  const nearTermSignals = SIMULATOR_CONFIG.mql_near_term_signals || [];
+  const cues = config.mql_cues || [];
+  const nearTermSignals = config.mql_near_term_signals || [];
   const matched: string[] = [];
 
   // Check for explicit MQL cues (badge scan)
@@ -384,10 +542,11 @@ export function detectMQLCues(text: string): { detected: boolean; matched: strin
  */
 export function detectStakeholderType(
   personaProfile: string,
-  transcript?: string
+  transcript?: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
 ): string {
   const normalized = normalizeText(personaProfile);
-  const stakeholders = SIMULATOR_CONFIG.stakeholder_types || {};
+  const stakeholders = config.stakeholder_types || {};
 
   // Check executive titles in persona profile
   const executiveTitles = stakeholders.executive?.titles || [];
@@ -513,17 +672,31 @@ export function calculateDemoEligibility(
 
 /**
  * Get persona outcome band configuration for a given persona.
+ * A PINNED_BAND_TITLE ("*") entry in persona_to_band_key (set by scenario
+ * rule overrides) pins the band regardless of the profile.
  *
  * @param personaProfile - Attendee profile string containing persona type
  * @returns Band configuration or null if no match
  */
-export function getPersonaBand(personaProfile: string): {
+export function getPersonaBand(
+  personaProfile: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG
+): {
   bandKey: string;
   tolerance: number;
   weights: Record<string, number>;
 } | null {
-  const personaToKey = SIMULATOR_CONFIG.persona_to_band_key || {};
-  const bands = SIMULATOR_CONFIG.persona_outcome_bands || {};
+  const personaToKey = config.persona_to_band_key || {};
+  const bands = config.persona_outcome_bands || {};
+
+  const pinnedKey = personaToKey[PINNED_BAND_TITLE];
+  if (pinnedKey && bands[pinnedKey]) {
+    return {
+      bandKey: pinnedKey,
+      tolerance: bands[pinnedKey].tolerance,
+      weights: bands[pinnedKey].weights
+    };
+  }
 
   // Try to find persona type in profile
   for (const [personaType, bandKey] of Object.entries(personaToKey)) {
@@ -554,6 +727,9 @@ export function getPersonaBand(personaProfile: string): {
  * @param recentTranscript - Last 5-10 messages for context
  * @param personaProfile - Persona profile string
  * @param outcomeSeed - Deterministic seed for variance
+ * @param config - The session's simulator config
+ * @param engagement - Attendee patience meter; at or below engagement.walk_away_at
+ *   the attendee walks away (POLITE_EXIT) in any state
  * @returns Outcome string and metadata
  */
 export function determineBandedOutcome(
@@ -564,7 +740,9 @@ export function determineBandedOutcome(
   lastAttendeeMessage: string | undefined,
   recentTranscript: string,
   personaProfile: string,
-  outcomeSeed: string
+  outcomeSeed: string,
+  config: SimulatorConfig = SIMULATOR_CONFIG,
+  engagement?: number
 ): {
   outcome: string;
   demoEligibilityScore?: number;
@@ -574,6 +752,15 @@ export function determineBandedOutcome(
   jitteredWeights?: Record<string, number>;
   reason?: string;
 } {
+  // Out of patience: the attendee leaves whatever the state
+  if (engagement !== undefined && getEngagementLevel(engagement, config) === "disengaged") {
+    return {
+      outcome: "POLITE_EXIT",
+      personaWeightsUsed: false,
+      reason: "engagement_exhausted"
+    };
+  }
+
   // Only determine outcome in SOLUTION_FRAMING or OUTCOME state
   if (currentState !== "OUTCOME" && currentState !== "SOLUTION_FRAMING") {
     return { outcome: "UNKNOWN", reason: "not_in_outcome_state" };
@@ -692,7 +879,7 @@ export function determineBandedOutcome(
   const demoEligibility = calculateDemoEligibility(recentTranscript, mqlResult);
 
   // Get persona band
-  const band = getPersonaBand(personaProfile);
+  const band = getPersonaBand(personaProfile, config);
 
   if (!band) {
     // No band match, use default heuristic (continue conversation)
@@ -1,13 +1,32 @@
 /**
  * Simulator configuration utilities.
  *
- * Provides functions to load and render the simulator.config.json file
- * into structured text suitable for inclusion in system prompts.
+ * Provides the typed simulator config and functions to render it into
+ * structured text suitable for inclusion in system prompts.
+ *
+ * SIMULATOR_CONFIG is the config bundled with the app (simulator.config.json,
+ * version 0). Admins can save newer versions at runtime; sessions read the
+ * version they started with through lib/simulatorConfigStore.ts.
  */
 
-import SIMULATOR_CONFIG from "./simulator.config.json";
-
-export { SIMULATOR_CONFIG };
+import bundledConfig from "./simulator.config.json";
+import type { SimulatorConfig } from "./simulatorConfigSchema";
+
+export type {
+  ConfigValidationError,
+  EngagementAdjustment,
+  EngagementConfig,
+  InterruptionEventConfig,
+  InterruptionsConfig,
+  SimulatorConfig,
+  SimulatorStateConfig,
+  StateTransitionRule,
+  TransitionKind,
+} from "./simulatorConfigSchema";
+export { formatConfigErrors, validateSimulatorConfig } from "./simulatorConfigSchema";
+
+// Checked against the schema by `npm run lint:json`
+export const SIMULATOR_CONFIG = bundledConfig as SimulatorConfig;
 
 /**
  * Renders simulator rules from config into concise, bullet-formatted text
@@ -20,7 +39,7 @@ export { SIMULATOR_CONFIG };
  * @returns Formatted rules text
  */
 export function renderSimulatorRules(
-  config: typeof SIMULATOR_CONFIG = SIMULATOR_CONFIG
+  config: SimulatorConfig = SIMULATOR_CONFIG
 ): string {
   const sections: string[] = [];
 
@@ -82,18 +101,18 @@ ${modes}`);
  */
 export function renderStateBehavior(
   state: string,
-  config: typeof SIMULATOR_CONFIG = SIMULATOR_CONFIG
+  config: SimulatorConfig = SIMULATOR_CONFIG
 ): string {
-  const stateConfig = config.states?.[state as keyof typeof config.states];
+  const stateConfig = config.states?.[state];
 
   if (!stateConfig) {
     return `CURRENT STATE: ${state}\n(No specific behavior guidelines defined)`;
   }
 
   const description = stateConfig.description || "No description available";
-  const behavior = "attendee_behavior" in stateConfig ? stateConfig.attendee_behavior : [];
-  const advanceWhen = "advance_when" in stateConfig ? stateConfig.advance_when : [];
-  const blockWhen = "block_when" in stateConfig ? stateConfig.block_when : [];
+  const behavior = stateConfig.attendee_behavior ?? [];
+  const advanceWhen = stateConfig.advance_when ?? [];
+  const blockWhen = stateConfig.block_when ?? [];
 
   const sections: string[] = [];
 
@@ -112,11 +131,11 @@ export function renderStateBehavior(
     sections.push(`State blocked by: ${blockWhen.join(", ")}`);
   }
 
-  if ("venting_enabled" in stateConfig && stateConfig.venting_enabled) {
+  if (stateConfig.venting_enabled) {
     sections.push(`Venting enabled: You may share war stories if trainee shows empathy`);
   }
 
-  if ("possible_outcomes" in stateConfig && stateConfig.possible_outcomes) {
+  if (stateConfig.possible_outcomes) {
     sections.push(`Possible outcomes: ${stateConfig.possible_outcomes.join(", ")}`);
   }
 
@@ -132,7 +151,7 @@ export function renderStateBehavior(
  * @returns Array of banned keywords
  */
 export function getBannedKeywords(
-  config: typeof SIMULATOR_CONFIG = SIMULATOR_CONFIG
+  config: SimulatorConfig = SIMULATOR_CONFIG
 ): string[] {
   return config.keyword_restrictions?.banned_product_keywords || [];
 }
@@ -0,0 +1,851 @@
+/**
+ * Simulator configuration schema.
+ *
+ * Typed model of simulator.config.json plus a validator that reports every
+ * problem with the path it was found at (e.g.
+ * "persona_outcome_bands.cto_startup.weights.DEMO_READY"). Objects with a
+ * fixed shape reject unknown keys, so a typo like "turn_limit" fails
+ * validation instead of silently falling back to defaults at runtime.
+ *
+ * This module has no imports: scripts/validate-config.js loads it directly.
+ */
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export type TransitionKind = "advance" | "skip" | "regress";
+
+export interface StateTransitionRule {
+  to: string;
+  kind: TransitionKind;
+  when?: string[];
+  when_all?: string[];
+  unless?: string[];
+  /** Human-readable reason recorded in stateHistory */
+  reason?: string;
+}
+
+export interface SimulatorStateConfig {
+  description: string;
+  attendee_behavior?: string[];
+  advance_when?: string[];
+  block_when?: string[];
+  venting_enabled?: boolean;
+  transitions?: StateTransitionRule[];
+  /** OUTCOME only */
+  possible_outcomes?: string[];
+  /** OUTCOME only */
+  outcome_descriptions?: Record<string, string>;
+}
+
+export interface PersonaPresetConfig {
+  id: string;
+  name: string;
+  difficulty: Difficulty;
+  conferenceContext: string;
+  attendeeProfile: string;
+}
+
+export interface ConversationRulesConfig {
+  single_state_only?: boolean;
+  state_controlled_by_app?: boolean;
+  reveal_information_only_when_earned?: boolean;
+  do_not_volunteer_pain_unprompted?: boolean;
+  do_not_disclose_persona_or_otel_level?: boolean;
+  /** Trainee turns allowed per difficulty before the attendee converges */
+  turn_limits: Record<Difficulty, number>;
+  turn_limit_behavior?: string;
+}
+
+export interface StakeholderTypeConfig {
+  titles: string[];
+  priorities?: string[];
+  anti_patterns?: string[];
+  signals?: string[];
+  preferred_outcomes?: string[];
+  guidance?: string;
+}
+
+export interface GradeCriterionConfig {
+  description: string;
+  indicators: string[];
+  mql_specific?: string;
+  exclusions?: string[];
+}
+
+export interface GradingCriteriaConfig {
+  A_B: GradeCriterionConfig;
+  C: GradeCriterionConfig;
+  D: GradeCriterionConfig;
+  F: GradeCriterionConfig & { exclusions: string[] };
+  mql_grading_rules: {
+    success_criteria: string;
+    grade_lowering: string[];
+    grade_boosting: string[];
+  };
+}
+
+export interface PersonaOutcomeBandConfig {
+  /** Jitter applied to each weight (0-1) */
+  tolerance: number;
+  /** Outcome → probability; outcomes must be OUTCOME.possible_outcomes, summing to 1 */
+  weights: Record<string, number>;
+}
+
+export type EngagementAdjustment =
+  | "violation"
+  | "monologue"
+  | "repeated_question"
+  | "empathy"
+  | "reflection"
+  | "relevant_question";
+
+/** Attendee patience meter (0-100), see lib/engagement.ts */
+export interface EngagementConfig {
+  /** Meter value at the start of a session */
+  initial: number;
+  /** Below this the attendee is wavering: shorter, cooler replies */
+  wavering_below: number;
+  /** At or below this the attendee walks away (POLITE_EXIT) */
+  walk_away_at: number;
+  /** Trainee messages longer than this many words count as a monologue */
+  monologue_words: number;
+  /** Word overlap (0-1) with an earlier trainee question that counts as a repeat */
+  repeat_similarity: number;
+  /** Meter change per trainee behavior (negative lowers patience) */
+  adjustments: Record<EngagementAdjustment, number>;
+}
+
+/** One kind of in-conversation interruption, see lib/interruptions.ts */
+export interface InterruptionEventConfig {
+  /** Shown to the trainee as a system message when it happens */
+  system_message: string;
+  /** Added to the attendee prompt from then on */
+  attendee_context: string;
+  /** Trainee turns the attendee stays for afterwards; they leave on the last */
+  turns_left: number;
+  /** Difficulties it can happen at (all when omitted) */
+  difficulties?: Difficulty[];
+}
+
+/** Seeded interruptions (talk starting, paged, ...), see lib/interruptions.ts */
+export interface InterruptionsConfig {
+  /** Chance (0-1) of an interruption on each eligible trainee turn */
+  chance_per_turn: Record<Difficulty, number>;
+  /** First trainee turn an interruption can happen on */
+  earliest_turn: number;
+  events: Record<string, InterruptionEventConfig>;
+}
+
+export interface SimulatorConfig {
+  simulator_name: string;
+  version: string;
+  state_order: string[];
+  personas?: PersonaPresetConfig[];
+  states: Record<string, SimulatorStateConfig>;
+  conversation_rules: ConversationRulesConfig;
+  self_service_cues: string[];
+  deferred_interest_cues: string[];
+  mql_cues: string[];
+  mql_near_term_signals: string[];
+  stakeholder_types: Record<string, StakeholderTypeConfig> & {
+    executive: StakeholderTypeConfig;
+    ic_without_authority: StakeholderTypeConfig;
+  };
+  keyword_restrictions: {
+    banned_product_keywords: string[];
+    behavior_if_used_by_attendee?: Record<string, boolean>;
+  };
+  otel_behavior?: {
+    never_assume_familiarity?: boolean;
+    correct_if_assumed_incorrectly?: boolean;
+    levels: string[];
+  };
+  frontend_observability_rules?: Record<string, boolean | string>;
+  scoring_signals?: string[];
+  /** Trainee misstep → attendee consequence */
+  failure_modes?: Record<string, string>;
+  grading_criteria: GradingCriteriaConfig;
+  persona_outcome_bands: Record<string, PersonaOutcomeBandConfig>;
+  /** Optional; configs without it use DEFAULT_ENGAGEMENT_CONFIG */
+  engagement?: EngagementConfig;
+  /** Optional; configs without it have no interruptions */
+  interruptions?: InterruptionsConfig;
+  /**
+   * Title substring found in the attendee profile → persona_outcome_bands key.
+   * "*" matches every profile (scenario rule overrides use it to pin a band).
+   */
+  persona_to_band_key: Record<string, string>;
+}
+
+export interface ConfigValidationError {
+  /** Dotted path to the offending value ("" for the root) */
+  path: string;
+  message: string;
+}
+
+export interface ConfigValidationOptions {
+  /**
+   * Names allowed in advance_when, block_when and transition guards
+   * (STATE_GRAPH_SIGNALS from lib/simulator.ts); unchecked when omitted
+   */
+  signals?: readonly string[];
+}
+
+export const REQUIRED_OUTCOMES = ["DEMO_READY", "SELF_SERVICE_READY", "MQL_READY", "POLITE_EXIT"];
+
+const TRANSITION_KINDS: TransitionKind[] = ["advance", "skip", "regress"];
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+/** Band weights may drift this far from 1 (rounding in hand-edited JSON) */
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Collects errors while walking the config. Each check returns whether the
+ * value had the expected type, so callers can skip dependent checks.
+ */
+class Checker {
+  errors: ConfigValidationError[] = [];
+
+  fail(path: string, message: string): false {
+    this.errors.push({ path, message });
+    return false;
+  }
+
+  object(value: unknown, path: string): value is Json {
+    return isObject(value) || this.fail(path, "must be an object");
+  }
+
+  string(value: unknown, path: string, options: { optional?: boolean } = {}): boolean {
+    if (value === undefined && options.optional) return true;
+    if (typeof value !== "string" || !value.trim()) {
+      return this.fail(path, "must be a non-empty string");
+    }
+    return true;
+  }
+
+  boolean(value: unknown, path: string): boolean {
+    return value === undefined || typeof value === "boolean" || this.fail(path, "must be true or false");
+  }
+
+  number(value: unknown, path: string, min: number, max: number): boolean {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return this.fail(path, "must be a number");
+    }
+    if (value < min || value > max) {
+      return this.fail(path, `must be between ${min} and ${max}`);
+    }
+    return true;
+  }
+
+  /**
+   * Array of non-empty strings without (case-insensitive) duplicates
+   */
+  stringList(
+    value: unknown,
+    path: string,
+    options: { optional?: boolean; nonEmpty?: boolean } = {}
+  ): value is string[] {
+    if (value === undefined && options.optional) return false;
+    if (!Array.isArray(value)) {
+      return this.fail(path, "must be an array of strings");
+    }
+    if (options.nonEmpty && value.length === 0) {
+      return this.fail(path, "must not be empty");
+    }
+
+    const seen = new Set<string>();
+    let valid = true;
+    value.forEach((item, i) => {
+      if (typeof item !== "string" || !item.trim()) {
+        valid = this.fail(join(path, i), "must be a non-empty string");
+        return;
+      }
+      const normalized = item.trim().toLowerCase();
+      if (seen.has(normalized)) {
+        valid = this.fail(join(path, i), `duplicate entry "${item}"`);
+      }
+      seen.add(normalized);
+    });
+    return valid;
+  }
+
+  /**
+   * Flag keys outside the allowed set (catches typos in fixed-shape objects)
+   */
+  knownKeys(value: Json, path: string, allowed: readonly string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        const hint = allowed.find(
+          (name) =>
+            name.toLowerCase() === key.toLowerCase() || name.startsWith(key) || key.startsWith(name)
+        );
+        this.fail(join(path, key), `unknown key${hint ? ` (did you mean "${hint}"?)` : ""}`);
+      }
+    }
+  }
+
+  required(value: Json, path: string, required: readonly string[]): void {
+    for (const key of required) {
+      if (!(key in value)) this.fail(join(path, key), "is required");
+    }
+  }
+}
+
+const TOP_LEVEL_KEYS = [
+  "simulator_name",
+  "version",
+  "state_order",
+  "personas",
+  "states",
+  "conversation_rules",
+  "self_service_cues",
+  "deferred_interest_cues",
+  "mql_cues",
+  "mql_near_term_signals",
+  "stakeholder_types",
+  "keyword_restrictions",
+  "otel_behavior",
+  "frontend_observability_rules",
+  "scoring_signals",
+  "failure_modes",
+  "grading_criteria",
+  "persona_outcome_bands",
+  "persona_to_band_key",
+  "engagement",
+  "interruptions",
+] as const;
+
+const REQUIRED_TOP_LEVEL_KEYS = [
+  "simulator_name",
+  "version",
+  "state_order",
+  "states",
+  "conversation_rules",
+  "self_service_cues",
+  "deferred_interest_cues",
+  "mql_cues",
+  "mql_near_term_signals",
+  "stakeholder_types",
+  "keyword_restrictions",
+  "grading_criteria",
+  "persona_outcome_bands",
+  "persona_to_band_key",
+];
+
+const STATE_KEYS = [
+  "description",
+  "attendee_behavior",
+  "advance_when",
+  "block_when",
+  "venting_enabled",
+  "transitions",
+  "possible_outcomes",
+  "outcome_descriptions",
+];
+
+const TRANSITION_KEYS = ["to", "kind", "when", "when_all", "unless", "reason"];
+
+const CONVERSATION_RULE_KEYS = [
+  "single_state_only",
+  "state_controlled_by_app",
+  "reveal_information_only_when_earned",
+  "do_not_volunteer_pain_unprompted",
+  "do_not_disclose_persona_or_otel_level",
+  "turn_limits",
+  "turn_limit_behavior",
+];
+
+const STAKEHOLDER_KEYS = [
+  "titles",
+  "priorities",
+  "anti_patterns",
+  "signals",
+  "preferred_outcomes",
+  "guidance",
+];
+
+const GRADE_KEYS = ["description", "indicators", "mql_specific", "exclusions"];
+
+const ENGAGEMENT_KEYS = [
+  "initial",
+  "wavering_below",
+  "walk_away_at",
+  "monologue_words",
+  "repeat_similarity",
+  "adjustments",
+];
+
+export const ENGAGEMENT_ADJUSTMENTS: EngagementAdjustment[] = [
+  "violation",
+  "monologue",
+  "repeated_question",
+  "empathy",
+  "reflection",
+  "relevant_question",
+];
+
+const INTERRUPTIONS_KEYS = ["chance_per_turn", "earliest_turn", "events"];
+
+const INTERRUPTION_EVENT_KEYS = ["system_message", "attendee_context", "turns_left", "difficulties"];
+
+function checkStates(check: Checker, config: Json, signals?: readonly string[]): void {
+  // A misspelled signal never fires, so its guard would silently never pass
+  const signalList = (value: unknown, path: string) => {
+    if (!check.stringList(value, path, { optional: true }) || !signals) return;
+    value.forEach((signal, i) => {
+      if (!signals.includes(signal)) check.fail(join(path, i), `unknown signal "${signal}"`);
+    });
+  };
+
+  const stateOrder = config.state_order;
+  const states = config.states;
+  const orderValid = check.stringList(stateOrder, "state_order", { nonEmpty: true });
+  if (!check.object(states, "states")) return;
+
+  if (orderValid) {
+    stateOrder.forEach((name, i) => {
+      if (!(name in states)) {
+        check.fail(join("state_order", i), `state "${name}" is not defined in states`);
+      }
+    });
+    for (const name of Object.keys(states)) {
+      if (!stateOrder.includes(name)) {
+        check.fail(join("states", name), "is not listed in state_order");
+      }
+    }
+    if (stateOrder[stateOrder.length - 1] !== "OUTCOME") {
+      check.fail("state_order", 'must end with "OUTCOME"');
+    }
+  }
+  const knownStates: string[] = orderValid ? stateOrder : Object.keys(states);
+
+  for (const [name, state] of Object.entries(states)) {
+    const path = join("states", name);
+    if (!check.object(state, path)) continue;
+
+    check.knownKeys(state, path, STATE_KEYS);
+    check.string(state.description, join(path, "description"));
+    check.stringList(state.attendee_behavior, join(path, "attendee_behavior"), { optional: true });
+    signalList(state.advance_when, join(path, "advance_when"));
+    signalList(state.block_when, join(path, "block_when"));
+    check.boolean(state.venting_enabled, join(path, "venting_enabled"));
+
+    if (state.transitions !== undefined) {
+      const transitionsPath = join(path, "transitions");
+      if (!Array.isArray(state.transitions)) {
+        check.fail(transitionsPath, "must be an array");
+      } else {
+        state.transitions.forEach((rule, i) => {
+          const rulePath = join(transitionsPath, i);
+          if (!check.object(rule, rulePath)) return;
+
+          check.knownKeys(rule, rulePath, TRANSITION_KEYS);
+          if (check.string(rule.to, join(rulePath, "to"))) {
+            if (!knownStates.includes(rule.to as string)) {
+              check.fail(join(rulePath, "to"), `unknown state "${rule.to}"`);
+            } else if (rule.to === name) {
+              check.fail(join(rulePath, "to"), "must not point back at its own state");
+            }
+          }
+          if (!TRANSITION_KINDS.includes(rule.kind as TransitionKind)) {
+            check.fail(join(rulePath, "kind"), `must be one of ${TRANSITION_KINDS.join(", ")}`);
+          }
+          signalList(rule.when, join(rulePath, "when"));
+          signalList(rule.when_all, join(rulePath, "when_all"));
+          signalList(rule.unless, join(rulePath, "unless"));
+          check.string(rule.reason, join(rulePath, "reason"), { optional: true });
+        });
+      }
+    }
+  }
+
+  const outcome = states.OUTCOME;
+  if (!isObject(outcome)) {
+    check.fail("states.OUTCOME", "is required");
+    return;
+  }
+  if (check.stringList(outcome.possible_outcomes, "states.OUTCOME.possible_outcomes", { nonEmpty: true })) {
+    for (const required of REQUIRED_OUTCOMES) {
+      if (!outcome.possible_outcomes.includes(required)) {
+        check.fail("states.OUTCOME.possible_outcomes", `must include ${required}`);
+      }
+    }
+  }
+  const descriptions = outcome.outcome_descriptions;
+  const descriptionsPath = "states.OUTCOME.outcome_descriptions";
+  if (descriptions !== undefined && check.object(descriptions, descriptionsPath)) {
+    for (const [key, description] of Object.entries(descriptions)) {
+      check.string(description, join(descriptionsPath, key));
+    }
+  }
+}
+
+function checkConversationRules(check: Checker, config: Json): void {
+  const rules = config.conversation_rules;
+  if (!check.object(rules, "conversation_rules")) return;
+
+  check.knownKeys(rules, "conversation_rules", CONVERSATION_RULE_KEYS);
+  for (const key of CONVERSATION_RULE_KEYS.slice(0, 5)) {
+    check.boolean(rules[key], join("conversation_rules", key));
+  }
+  check.string(rules.turn_limit_behavior, "conversation_rules.turn_limit_behavior", { optional: true });
+
+  const limits = rules.turn_limits;
+  if (limits === undefined) {
+    check.fail("conversation_rules.turn_limits", "is required");
+    return;
+  }
+  if (!check.object(limits, "conversation_rules.turn_limits")) return;
+  check.knownKeys(limits, "conversation_rules.turn_limits", DIFFICULTIES);
+  check.required(limits, "conversation_rules.turn_limits", DIFFICULTIES);
+  for (const difficulty of DIFFICULTIES) {
+    const path = join("conversation_rules.turn_limits", difficulty);
+    if (limits[difficulty] === undefined) continue;
+    if (check.number(limits[difficulty], path, 1, 100) && !Number.isInteger(limits[difficulty])) {
+      check.fail(path, "must be a whole number of turns");
+    }
+  }
+}
+
+function checkCues(check: Checker, config: Json): void {
+  check.stringList(config.self_service_cues, "self_service_cues", { nonEmpty: true });
+  check.stringList(config.deferred_interest_cues, "deferred_interest_cues", { nonEmpty: true });
+  check.stringList(config.mql_cues, "mql_cues", { nonEmpty: true });
+  check.stringList(config.mql_near_term_signals, "mql_near_term_signals", { nonEmpty: true });
+  check.stringList(config.scoring_signals, "scoring_signals", { optional: true });
+
+  const restrictions = config.keyword_restrictions;
+  if (check.object(restrictions, "keyword_restrictions")) {
+    check.knownKeys(restrictions, "keyword_restrictions", [
+      "banned_product_keywords",
+      "behavior_if_used_by_attendee",
+    ]);
+    check.stringList(
+      restrictions.banned_product_keywords,
+      "keyword_restrictions.banned_product_keywords"
+    );
+    const behavior = restrictions.behavior_if_used_by_attendee;
+    if (behavior !== undefined && check.object(behavior, "keyword_restrictions.behavior_if_used_by_attendee")) {
+      for (const [key, value] of Object.entries(behavior)) {
+        check.boolean(value, join("keyword_restrictions.behavior_if_used_by_attendee", key));
+      }
+    }
+  }
+
+  const otel = config.otel_behavior;
+  if (otel !== undefined && check.object(otel, "otel_behavior")) {
+    check.knownKeys(otel, "otel_behavior", [
+      "never_assume_familiarity",
+      "correct_if_assumed_incorrectly",
+      "levels",
+    ]);
+    check.boolean(otel.never_assume_familiarity, "otel_behavior.never_assume_familiarity");
+    check.boolean(otel.correct_if_assumed_incorrectly, "otel_behavior.correct_if_assumed_incorrectly");
+    check.stringList(otel.levels, "otel_behavior.levels", { nonEmpty: true });
+  }
+
+  const frontend = config.frontend_observability_rules;
+  if (frontend !== undefined && check.object(frontend, "frontend_observability_rules")) {
+    for (const [key, value] of Object.entries(frontend)) {
+      if (typeof value !== "boolean" && typeof value !== "string") {
+        check.fail(join("frontend_observability_rules", key), "must be true, false or a string");
+      }
+    }
+  }
+
+  const failureModes = config.failure_modes;
+  if (failureModes !== undefined && check.object(failureModes, "failure_modes")) {
+    for (const [key, value] of Object.entries(failureModes)) {
+      check.string(value, join("failure_modes", key));
+    }
+  }
+}
+
+function checkPersonas(check: Checker, config: Json): void {
+  if (config.personas === undefined) return;
+  if (!Array.isArray(config.personas)) {
+    check.fail("personas", "must be an array");
+    return;
+  }
+
+  const ids = new Set<string>();
+  config.personas.forEach((persona, i) => {
+    const path = join("personas", i);
+    if (!check.object(persona, path)) return;
+
+    check.knownKeys(persona, path, ["id", "name", "difficulty", "conferenceContext", "attendeeProfile"]);
+    if (check.string(persona.id, join(path, "id"))) {
+      if (ids.has(persona.id as string)) check.fail(join(path, "id"), `duplicate persona id "${persona.id}"`);
+      ids.add(persona.id as string);
+    }
+    check.string(persona.name, join(path, "name"));
+    if (!DIFFICULTIES.includes(persona.difficulty as Difficulty)) {
+      check.fail(join(path, "difficulty"), `must be one of ${DIFFICULTIES.join(", ")}`);
+    }
+    check.string(persona.conferenceContext, join(path, "conferenceContext"));
+    check.string(persona.attendeeProfile, join(path, "attendeeProfile"));
+  });
+}
+
+function checkStakeholders(check: Checker, config: Json): void {
+  const stakeholders = config.stakeholder_types;
+  if (!check.object(stakeholders, "stakeholder_types")) return;
+  check.required(stakeholders, "stakeholder_types", ["executive", "ic_without_authority"]);
+
+  for (const [name, stakeholder] of Object.entries(stakeholders)) {
+    const path = join("stakeholder_types", name);
+    if (!check.object(stakeholder, path)) continue;
+
+    check.knownKeys(stakeholder, path, STAKEHOLDER_KEYS);
+    check.stringList(stakeholder.titles, join(path, "titles"), { nonEmpty: true });
+    for (const key of ["priorities", "anti_patterns", "signals", "preferred_outcomes"]) {
+      check.stringList(stakeholder[key], join(path, key), { optional: true });
+    }
+    check.string(stakeholder.guidance, join(path, "guidance"), { optional: true });
+  }
+}
+
+function checkGrading(check: Checker, config: Json): void {
+  const grading = config.grading_criteria;
+  if (!check.object(grading, "grading_criteria")) return;
+
+  check.knownKeys(grading, "grading_criteria", ["A_B", "C", "D", "F", "mql_grading_rules"]);
+  check.required(grading, "grading_criteria", ["A_B", "C", "D", "F", "mql_grading_rules"]);
+
+  for (const grade of ["A_B", "C", "D", "F"]) {
+    const path = join("grading_criteria", grade);
+    const criterion = grading[grade];
+    if (criterion === undefined || !check.object(criterion, path)) continue;
+
+    check.knownKeys(criterion, path, GRADE_KEYS);
+    check.string(criterion.description, join(path, "description"));
+    check.stringList(criterion.indicators, join(path, "indicators"), { nonEmpty: true });
+    check.string(criterion.mql_specific, join(path, "mql_specific"), { optional: true });
+    check.stringList(criterion.exclusions, join(path, "exclusions"), {
+      optional: grade !== "F",
+      nonEmpty: grade === "F",
+    });
+  }
+
+  // SELF_SERVICE_READY and MQL_READY are success outcomes and must never grade F
+  const exclusions =
+    isObject(grading.F) && Array.isArray(grading.F.exclusions) ? grading.F.exclusions : null;
+  if (exclusions) {
+    for (const outcome of ["SELF_SERVICE_READY", "MQL_READY"]) {
+      const excluded = exclusions.some(
+        (exclusion) =>
+          typeof exclusion === "string" && exclusion.includes(outcome) && exclusion.includes("never")
+      );
+      if (!excluded) {
+        check.fail("grading_criteria.F.exclusions", `must state that ${outcome} can never receive F`);
+      }
+    }
+  }
+
+  const rules = grading.mql_grading_rules;
+  if (rules !== undefined && check.object(rules, "grading_criteria.mql_grading_rules")) {
+    check.knownKeys(rules, "grading_criteria.mql_grading_rules", [
+      "success_criteria",
+      "grade_lowering",
+      "grade_boosting",
+    ]);
+    check.string(rules.success_criteria, "grading_criteria.mql_grading_rules.success_criteria");
+    check.stringList(rules.grade_lowering, "grading_criteria.mql_grading_rules.grade_lowering");
+    check.stringList(rules.grade_boosting, "grading_criteria.mql_grading_rules.grade_boosting");
+  }
+}
+
+function checkOutcomeBands(check: Checker, config: Json): void {
+  const bands = config.persona_outcome_bands;
+  const outcomeState = isObject(config.states) ? config.states.OUTCOME : undefined;
+  const outcomes =
+    isObject(outcomeState) && Array.isArray(outcomeState.possible_outcomes)
+      ? (outcomeState.possible_outcomes as unknown[])
+      : null;
+
+  if (check.object(bands, "persona_outcome_bands")) {
+    for (const [key, band] of Object.entries(bands)) {
+      const path = join("persona_outcome_bands", key);
+      if (!check.object(band, path)) continue;
+
+      check.knownKeys(band, path, ["tolerance", "weights"]);
+      check.number(band.tolerance, join(path, "tolerance"), 0, 1);
+
+      const weightsPath = join(path, "weights");
+      if (!check.object(band.weights, weightsPath)) continue;
+      if (Object.keys(band.weights).length === 0) {
+        check.fail(weightsPath, "must weight at least one outcome");
+        continue;
+      }
+
+      let sum = 0;
+      let numeric = true;
+      for (const [outcome, weight] of Object.entries(band.weights)) {
+        if (outcomes && !outcomes.includes(outcome)) {
+          check.fail(join(weightsPath, outcome), "is not one of states.OUTCOME.possible_outcomes");
+        }
+        if (check.number(weight, join(weightsPath, outcome), 0, 1)) {
+          sum += weight as number;
+        } else {
+          numeric = false;
+        }
+      }
+      if (numeric && Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+        check.fail(weightsPath, `weights must sum to 1 (got ${Number(sum.toFixed(4))})`);
+      }
+    }
+  }
+
+  const mapping = config.persona_to_band_key;
+  if (check.object(mapping, "persona_to_band_key")) {
+    for (const [title, bandKey] of Object.entries(mapping)) {
+      const path = join("persona_to_band_key", title);
+      if (!check.string(bandKey, path)) continue;
+      if (isObject(bands) && !(String(bandKey) in bands)) {
+        check.fail(path, `unknown band "${bandKey}" (not in persona_outcome_bands)`);
+      }
+    }
+  }
+}
+
+function checkEngagement(check: Checker, config: Json): void {
+  const engagement = config.engagement;
+  if (engagement === undefined || !check.object(engagement, "engagement")) return;
+
+  check.knownKeys(engagement, "engagement", ENGAGEMENT_KEYS);
+  check.required(engagement, "engagement", ENGAGEMENT_KEYS);
+  check.number(engagement.initial, "engagement.initial", 0, 100);
+  const waveringValid = check.number(engagement.wavering_below, "engagement.wavering_below", 0, 100);
+  const walkAwayValid = check.number(engagement.walk_away_at, "engagement.walk_away_at", 0, 100);
+  if (waveringValid && walkAwayValid && (engagement.walk_away_at as number) >= (engagement.wavering_below as number)) {
+    check.fail("engagement.walk_away_at", "must be below engagement.wavering_below");
+  }
+  if (
+    check.number(engagement.monologue_words, "engagement.monologue_words", 10, 1000) &&
+    !Number.isInteger(engagement.monologue_words)
+  ) {
+    check.fail("engagement.monologue_words", "must be a whole number of words");
+  }
+  check.number(engagement.repeat_similarity, "engagement.repeat_similarity", 0, 1);
+
+  const adjustments = engagement.adjustments;
+  if (adjustments === undefined || !check.object(adjustments, "engagement.adjustments")) return;
+  check.knownKeys(adjustments, "engagement.adjustments", ENGAGEMENT_ADJUSTMENTS);
+  check.required(adjustments, "engagement.adjustments", ENGAGEMENT_ADJUSTMENTS);
+  for (const key of ENGAGEMENT_ADJUSTMENTS) {
+    if (adjustments[key] === undefined) continue;
+    check.number(adjustments[key], join("engagement.adjustments", key), -100, 100);
+  }
+}
+
+function checkInterruptions(check: Checker, config: Json): void {
+  const interruptions = config.interruptions;
+  if (interruptions === undefined || !check.object(interruptions, "interruptions")) return;
+
+  check.knownKeys(interruptions, "interruptions", INTERRUPTIONS_KEYS);
+  check.required(interruptions, "interruptions", INTERRUPTIONS_KEYS);
+
+  const chances = interruptions.chance_per_turn;
+  if (chances !== undefined && check.object(chances, "interruptions.chance_per_turn")) {
+    check.knownKeys(chances, "interruptions.chance_per_turn", DIFFICULTIES);
+    check.required(chances, "interruptions.chance_per_turn", DIFFICULTIES);
+    for (const difficulty of DIFFICULTIES) {
+      if (chances[difficulty] === undefined) continue;
+      check.number(chances[difficulty], join("interruptions.chance_per_turn", difficulty), 0, 1);
+    }
+  }
+
+  if (
+    check.number(interruptions.earliest_turn, "interruptions.earliest_turn", 1, 100) &&
+    !Number.isInteger(interruptions.earliest_turn)
+  ) {
+    check.fail("interruptions.earliest_turn", "must be a whole number of turns");
+  }
+
+  const events = interruptions.events;
+  if (events === undefined || !check.object(events, "interruptions.events")) return;
+  for (const [kind, event] of Object.entries(events)) {
+    const path = join("interruptions.events", kind);
+    if (!check.object(event, path)) continue;
+
+    check.knownKeys(event, path, INTERRUPTION_EVENT_KEYS);
+    check.required(event, path, INTERRUPTION_EVENT_KEYS.slice(0, 3));
+    check.string(event.system_message, join(path, "system_message"));
+    check.string(event.attendee_context, join(path, "attendee_context"));
+    if (
+      check.number(event.turns_left, join(path, "turns_left"), 1, 20) &&
+      !Number.isInteger(event.turns_left)
+    ) {
+      check.fail(join(path, "turns_left"), "must be a whole number of turns");
+    }
+    if (check.stringList(event.difficulties, join(path, "difficulties"), { optional: true })) {
+      event.difficulties.forEach((difficulty, i) => {
+        if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+          check.fail(join(join(path, "difficulties"), i), `must be one of ${DIFFICULTIES.join(", ")}`);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Validate a simulator config. Returns the config (typed) when there are no
+ * errors; otherwise null and every error found.
+ */
+export function validateSimulatorConfig(
+  input: unknown,
+  options: ConfigValidationOptions = {}
+): {
+  config: SimulatorConfig | null;
+  errors: ConfigValidationError[];
+} {
+  const check = new Checker();
+  if (!check.object(input, "")) {
+    return { config: null, errors: check.errors };
+  }
+
+  check.knownKeys(input, "", TOP_LEVEL_KEYS);
+  check.required(input, "", REQUIRED_TOP_LEVEL_KEYS);
+  check.string(input.simulator_name, "simulator_name");
+  check.string(input.version, "version");
+
+  checkStates(check, input, options.signals);
+  checkConversationRules(check, input);
+  checkCues(check, input);
+  checkPersonas(check, input);
+  checkStakeholders(check, input);
+  checkGrading(check, input);
+  checkOutcomeBands(check, input);
+  checkEngagement(check, input);
+  checkInterruptions(check, input);
+
+  // Missing required keys are reported once, not again by each section
+  const missing = new Set(
+    check.errors.filter((error) => error.message === "is required").map((error) => error.path)
+  );
+  const errors = check.errors.filter(
+    (error) => error.message === "is required" || !missing.has(error.path)
+  );
+
+  return errors.length === 0
+    ? { config: input as unknown as SimulatorConfig, errors }
+    : { config: null, errors };
+}
+
+/**
+ * One line per error ("path: message"), for logs and the CLI
+ */
+export function formatConfigErrors(errors: ConfigValidationError[]): string[] {
+  return errors.map((error) => `${error.path || "(root)"}: ${error.message}`);
+}
@@ -0,0 +1,172 @@
+/**
+ * Simulator config store - versioned configs edited from /admin/config.
+ *
+ * Version 0 is the config bundled with the app (simulator.config.json).
+ * Every save validates the config, writes it as a new immutable version and
+ * (by default) activates it. Nothing is cached in-process, so every instance
+ * starts new sessions on it right away, without a redeploy. Sessions record the version they started on
+ * (SessionState.configVersion) and keep using it until they end; sessions
+ * from before versioning use the bundled config.
+ *
+ * Versions are per workspace, like everything else getStorage() returns.
+ */
+
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { applyRuleOverrides } from "./scenarioRules";
+import type { ScenarioRuleOverrides } from "./scenarioTypes";
+import {
+  SIMULATOR_CONFIG,
+  validateSimulatorConfig,
+  type ConfigValidationError,
+  type SimulatorConfig,
+} from "./simulatorConfig";
+import { STATE_GRAPH_SIGNALS } from "./simulator";
+
+export interface SimulatorConfigVersion {
+  version: number;
+  config: SimulatorConfig;
+  createdAt: string;
+  /** Actor name from the audit log ("bundled" for version 0) */
+  createdBy: string;
+  note?: string;
+}
+
+export type SimulatorConfigVersionSummary = Omit<SimulatorConfigVersion, "config">;
+
+export const BUNDLED_CONFIG_VERSION = 0;
+
+const BUNDLED: SimulatorConfigVersion = {
+  version: BUNDLED_CONFIG_VERSION,
+  config: SIMULATOR_CONFIG,
+  createdAt: new Date(0).toISOString(),
+  createdBy: "bundled",
+  note: "lib/simulator.config.json",
+};
+
+function summarize(record: SimulatorConfigVersion): SimulatorConfigVersionSummary {
+  const { version, createdAt, createdBy, note } = record;
+  return { version, createdAt, createdBy, note };
+}
+
+/**
+ * Get a config version (0 = bundled), or null if it was never saved
+ */
+export async function getSimulatorConfigVersion(
+  version: number
+): Promise<SimulatorConfigVersion | null> {
+  if (version === BUNDLED_CONFIG_VERSION) return BUNDLED;
+  return getStorage().get<SimulatorConfigVersion>(keys.simulatorConfigVersion(version));
+}
+
+/**
+ * Version new sessions start on
+ */
+export async function getActiveSimulatorConfigVersion(): Promise<number> {
+  return (await getStorage().get<number>(keys.activeSimulatorConfig())) ?? BUNDLED_CONFIG_VERSION;
+}
+
+/**
+ * The active config (falls back to the bundled config if the active version
+ * is missing, e.g. after a partial restore)
+ */
+export async function getActiveSimulatorConfig(): Promise<SimulatorConfigVersion> {
+  const version = await getActiveSimulatorConfigVersion();
+  const record = await getSimulatorConfigVersion(version);
+  if (record) return record;
+
+  console.warn(`[SimulatorConfigStore] Active version ${version} not found, using bundled config`);
+  return BUNDLED;
+}
+
+/**
+ * The config a session runs on: the version it started with, plus the
+ * scenario rule overrides snapshotted at creation (see lib/scenarioRules.ts)
+ */
+export async function getSessionSimulatorConfig(session: {
+  id: string;
+  configVersion?: number;
+  ruleOverrides?: ScenarioRuleOverrides;
+}): Promise<SimulatorConfig> {
+  const version = session.configVersion ?? BUNDLED_CONFIG_VERSION;
+  const record = await getSimulatorConfigVersion(version);
+  if (record) return applyRuleOverrides(record.config, session.ruleOverrides);
+
+  console.warn(
+    `[SimulatorConfigStore] Session ${session.id} started on missing config version ${version}, using bundled config`
+  );
+  return applyRuleOverrides(SIMULATOR_CONFIG, session.ruleOverrides);
+}
+
+/**
+ * All versions (bundled first, then oldest to newest), without their configs
+ */
+export async function listSimulatorConfigVersions(): Promise<SimulatorConfigVersionSummary[]> {
+  const storage = getStorage();
+  const index = (await storage.get<number[]>(keys.simulatorConfigIndex())) ?? [];
+  const records = await storage.mget<SimulatorConfigVersion>(
+    index.map((version) => keys.simulatorConfigVersion(version))
+  );
+
+  return [
+    summarize(BUNDLED),
+    ...records
+      .filter((record): record is SimulatorConfigVersion => record !== null)
+      .map(summarize),
+  ];
+}
+
+/**
+ * Validate and save a config as a new version. Nothing is written when the
+ * config has errors.
+ */
+export async function saveSimulatorConfig(
+  input: unknown,
+  options: { createdBy: string; note?: string; activate?: boolean }
+): Promise<{ version: SimulatorConfigVersion | null; errors: ConfigValidationError[] }> {
+  const { config, errors } = validateSimulatorConfig(input, { signals: STATE_GRAPH_SIGNALS });
+  if (!config) {
+    return { version: null, errors };
+  }
+
+  const storage = getStorage();
+  const index = (await storage.get<number[]>(keys.simulatorConfigIndex())) ?? [];
+  const record: SimulatorConfigVersion = {
+    version: Math.max(BUNDLED_CONFIG_VERSION, ...index) + 1,
+    config,
+    createdAt: new Date().toISOString(),
+    createdBy: options.createdBy,
+    note: options.note?.trim() || undefined,
+  };
+
+  await storage.setMany([
+    { key: keys.simulatorConfigVersion(record.version), value: record },
+    { key: keys.simulatorConfigIndex(), value: [...index, record.version] },
+    ...(options.activate === false
+      ? []
+      : [{ key: keys.activeSimulatorConfig(), value: record.version }]),
+  ]);
+
+  const activeNote = options.activate === false ? "" : " (active)";
+  console.log(
+    `[SimulatorConfigStore] Saved config version ${record.version}${activeNote} (${storage.backend})`
+  );
+
+  return { version: record, errors: [] };
+}
+
+/**
+ * Make an existing version the one new sessions start on (e.g. roll back)
+ */
+export async function activateSimulatorConfigVersion(
+  version: number
+): Promise<{ error?: string }> {
+  if (!(await getSimulatorConfigVersion(version))) {
+    return { error: `Simulator config version ${version} not found` };
+  }
+
+  const storage = getStorage();
+  await storage.set(keys.activeSimulatorConfig(), version);
+  console.log(`[SimulatorConfigStore] Activated config version ${version} (${storage.backend})`);
+  return {};
+}
@@ -1,15 +1,54 @@
-import { kv } from "@vercel/kv";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
 import type { EnrichmentResult } from "./llm/enrichmentTypes";
+import type { ScenarioRuleOverrides } from "./scenarioTypes";
+import type { SessionInterruption } from "./interruptions";
+import type { SessionPauseReason } from "./sessionPause";
+import { stampSessionEvents, type SessionEventInput } from "./sessionEvents";
+import { forgetWorkspaceOwner } from "./workspaces";
+
+export interface SessionAttendee {
+  id: string;
+  personaId?: string;
+  // Job title shown to the trainee (what the badge says, not the hidden profile)
+  displayName: string;
+  attendeeProfile: string;
+  // The lead attendee's enrichment lives in kickoff.enrichment
+  enrichment?: EnrichmentResult;
+  // detectStakeholderType() of the profile at session creation
+  stakeholderType: string;
+  // Topics this stakeholder cares about (stakeholder_types priorities)
+  priorities: string[];
+  currentState: string;
+  // Outcome this attendee committed to, if any
+  outcome?: string;
+}
 
 export interface SessionState {
   id: string;
+  // Incremented by every saveSession; missing on sessions saved before
+  // revisions were tracked (treated as 0)
+  revision?: number;
   currentState: string;
-  stateHistory: Array<{ from: string; to: string; timestamp: string }>;
+  // kind/reason: which state-graph edge was taken and why (missing on older sessions)
+  stateHistory: Array<{
+    from: string;
+    to: string;
+    timestamp: string;
+    kind?: "advance" | "skip" | "regress";
+    reason?: string;
+    // Group sessions: the attendee whose state moved
+    attendeeId?: string;
+  }>;
   transcript: Array<{
     id: string;
     type: "system" | "trainee" | "attendee";
     text: string;
     timestamp: string;
+    // Group sessions: which attendee said it (attendee entries) and which
+    // attendees the trainee addressed (trainee entries)
+    speakerId?: string;
+    addressedTo?: string[];
   }>;
   violations: string[];
   kickoff: {
@@ -24,6 +63,9 @@ export interface SessionState {
     personaDisplayName?: string;
     traineeId?: string;
     traineeNameShort?: string;
+    // Coaching mode: the trainee sees a hint after each attendee reply and
+    // the score stays off the main leaderboard (see lib/coaching.ts)
+    coaching?: boolean;
   };
   startTime: string;
   active: boolean;
@@ -41,6 +83,28 @@ export interface SessionState {
   };
   // Deterministic seed for outcome sampling (persona-aware variance)
   outcomeSeed?: string;
+  // Simulator config version the session started on (see
+  // lib/simulatorConfigStore.ts); missing means the bundled config
+  configVersion?: number;
+  // Conference + persona rule overrides, merged at session creation and
+  // applied on top of the config version (see lib/scenarioRules.ts)
+  ruleOverrides?: ScenarioRuleOverrides;
+  // Group (multi-attendee) sessions: one entry per attendee, the first
+  // mirroring kickoff; missing on single-attendee sessions (see
+  // lib/multiAttendee.ts)
+  attendees?: SessionAttendee[];
+  // Attendee patience meter (0-100, see lib/engagement.ts); missing on
+  // sessions from before the meter (treated as the config's initial value)
+  engagement?: number;
+  // Seeded interruption ("my talk starts in five minutes"), set once it
+  // happens (see lib/interruptions.ts)
+  interruption?: SessionInterruption;
+  // Pause/resume (see lib/sessionPause.ts): one entry per pause, the last
+  // one open (no resumedAt) while the session is paused
+  pauses?: Array<{ pausedAt: string; resumedAt?: string; reason: SessionPauseReason }>;
+  // Set when an admin force-closed the session as abandoned (scored as
+  // incomplete, see lib/abandonedSessions.ts)
+  abandonedAt?: string;
   // Decision trace for outcome transparency (debugging/export)
   decisionTrace?: {
     personaBandKey?: string;
@@ -62,36 +126,87 @@ export interface SessionState {
   expressedIntents?: string[];
 }
 
-const inMemoryStorage = new Map<string, SessionState>();
+export type SaveSessionResult =
+  | { ok: true; revision: number }
+  | { ok: false; latest: SessionState };
+
+/**
+ * Current revision of a session (0 for sessions that predate revisions)
+ */
+export function getSessionRevision(session: SessionState): number {
+  return session.revision ?? 0;
+}
 
 /**
- * KV is configured when Vercel/Upstash env vars are present.
- * (Locally, these appear after `vercel env pull .env.local`.)
+ * Keys of a session's event batches, one per revision up to the current one
+ * (revisions saved without events have no batch)
  */
-function useKv(): boolean {
-  return Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+export function sessionEventKeys(session: SessionState): string[] {
+  return Array.from({ length: getSessionRevision(session) + 1 }, (_, revision) =>
+    keys.sessionEvents(session.id, revision)
+  );
 }
 
-export async function saveSession(session: SessionState): Promise<void> {
-  if (useKv()) {
-    await kv.set(`session:${session.id}`, session);
-    return;
+/**
+ * Save a session if nobody else has written it since it was loaded.
+ *
+ * The write only goes through when the stored revision still matches
+ * `session.revision`; on success the revision is bumped (on the passed object
+ * too). On conflict nothing is written and the stored state is returned so the
+ * caller can surface it (routes respond 409).
+ *
+ * `events` describe what changed; they are written to the session log under
+ * the new revision in the same batch as the snapshot (see lib/sessionEvents).
+ *
+ * Note: on KV the check and the write are separate round trips, so two writes
+ * landing within the same few milliseconds can still race. The window is far
+ * smaller than the LLM call most mutations wait on.
+ */
+export async function saveSession(
+  session: SessionState,
+  events: SessionEventInput[] = []
+): Promise<SaveSessionResult> {
+  const storage = getStorage();
+  const key = keys.session(session.id);
+  const expected = getSessionRevision(session);
+
+  const stored = await storage.get<SessionState>(key);
+  if (stored && getSessionRevision(stored) !== expected) {
+    return { ok: false, latest: stored };
   }
-  inMemoryStorage.set(session.id, session);
+
+  const revision = expected + 1;
+  const writes: Array<{ key: string; value: unknown }> = [
+    { key, value: { ...session, revision } },
+  ];
+  if (events.length > 0) {
+    writes.push({
+      key: keys.sessionEvents(session.id, revision),
+      value: stampSessionEvents(events, revision),
+    });
+  }
+  await storage.setMany(writes);
+  // Only once written: a failed save leaves the caller's revision alone
+  session.revision = revision;
+
+  return { ok: true, revision };
 }
 
 export async function getSession(id: string): Promise<SessionState | null> {
-  if (useKv()) {
-    const result = await kv.get<SessionState>(`session:${id}`);
-    return result ?? null;
-  }
-  return inMemoryStorage.get(id) ?? null;
+  return getStorage().get<SessionState>(keys.session(id));
 }
 
+/**
+ * Delete a session snapshot, its event log and its workspace owner record
+ */
 export async function deleteSession(id: string): Promise<void> {
-  if (useKv()) {
-    await kv.del(`session:${id}`);
-    return;
-  }
-  inMemoryStorage.delete(id);
-}
\ No newline at end of file
+  const storage = getStorage();
+  const session = await storage.get<SessionState>(keys.session(id));
+  const logKeys = session ? sessionEventKeys(session) : [];
+  await Promise.all([
+    storage.del(keys.session(id)),
+    storage.del(keys.sessionDraft(id)),
+    ...logKeys.map((key) => storage.del(key)),
+    forgetWorkspaceOwner([id]),
+  ]);
+}
@@ -1,29 +1,20 @@
-import { kv } from "@vercel/kv";
-import { useKv } from "./kvConfig";
-import { getMemStore } from "./memoryStore";
+import { getStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import { currentWorkspaceId } from "./persistence/workspaceScope";
 
 export interface Trainee {
   id: string;
   firstName: string;
   lastName: string;
   isArchived?: boolean;
+  archivedAt?: string;
+  archivedBy?: string;
   createdAt: string;
   updatedAt?: string;
 }
 
-const MAX_INDEX_SIZE = 500;
-
-// Seed-once guard to prevent repeated seeding
-let seedingPromise: Promise<void> | null = null;
-
-// Helper to get in-memory store (now uses global shared store)
-function getInMemoryStore() {
-  const mem = getMemStore();
-  return {
-    trainees: mem.trainees,
-    index: mem.traineeIndex,
-  };
-}
+// Seed-once guard (per workspace) to prevent repeated seeding
+const seedingPromises = new Map<string, Promise<void>>();
 
 // Seed-once guard to prevent repeated seeding
 
@@ -41,28 +32,14 @@ function generateTraineeId(firstName: string, lastName: string): string {
 }
 
 /**
- * Format trainee name as "First L."
- */
-export function formatTraineeShort(trainee: Trainee): string {
-  const lastInitial = trainee.lastName.charAt(0).toUpperCase();
-  return `${trainee.firstName} ${lastInitial}.`;
-}
-
-/**
- * Format trainee name as "First Last"
- */
-export function formatTraineeFull(trainee: Trainee): string {
-  return `${trainee.firstName} ${trainee.lastName}`;
-}
-
-/**
- * Ensure trainees are seeded (once per process)
+ * Ensure trainees are seeded (once per workspace per process)
  */
 export async function ensureTraineesSeeded(): Promise<void> {
-  if (!seedingPromise) {
-    seedingPromise = seedTraineesInternal();
+  const workspaceId = currentWorkspaceId();
+  if (!seedingPromises.has(workspaceId)) {
+    seedingPromises.set(workspaceId, seedTraineesInternal());
   }
-  return seedingPromise;
+  return seedingPromises.get(workspaceId)!;
 }
 
 /**
@@ -103,39 +80,25 @@ async function seedTraineesInternal(): Promise<void> {
 export async function listTrainees(
   includeArchived = false
 ): Promise<Trainee[]> {
-  if (useKv()) {
-    const index = (await kv.get<string[]>("trainees:index")) ?? [];
-    const trainees: Trainee[] = [];
-
-    for (const id of index) {
-      const trainee = await kv.get<Trainee>(`trainee:${id}`);
-      if (trainee && (includeArchived || !trainee.isArchived)) {
-        trainees.push(trainee);
-      }
-    }
-
-    return trainees;
-  } else {
-    // In-memory fallback
-    const trainees: Trainee[] = [];
-    for (const id of getInMemoryStore().index) {
-      const trainee = getInMemoryStore().trainees.get(id);
-      if (trainee && (includeArchived || !trainee.isArchived)) {
-        trainees.push(trainee);
-      }
+  const storage = getStorage();
+  const index = (await storage.get<string[]>(keys.traineeIndex())) ?? [];
+  const records = await storage.mget<Trainee>(index.map((id) => keys.trainee(id)));
+
+  const trainees: Trainee[] = [];
+  for (const trainee of records) {
+    if (trainee && (includeArchived || !trainee.isArchived)) {
+      trainees.push(trainee);
     }
-    return trainees;
   }
+
+  return trainees;
 }
 
 /**
  * Get a single trainee by ID
  */
 export async function getTrainee(id: string): Promise<Trainee | null> {
-  if (useKv()) {
-    return (await kv.get<Trainee>(`trainee:${id}`)) ?? null;
-  }
-  return getInMemoryStore().trainees.get(id) ?? null;
+  return getStorage().get<Trainee>(keys.trainee(id));
 }
 
 /**
@@ -160,53 +123,60 @@ export async function upsertTrainee(
     isArchived: trainee.isArchived ?? false,
   };
 
-  if (useKv()) {
-    // Save trainee
-    await kv.set(`trainee:${id}`, fullTrainee);
+  const storage = getStorage();
 
-    // Update index if new (prepend to keep newest first)
-    if (!isUpdate) {
-      const index = (await kv.get<string[]>("trainees:index")) ?? [];
-      const filtered = index.filter((i) => i !== id);
-      const updated = [id, ...filtered].slice(0, MAX_INDEX_SIZE);
-      await kv.set("trainees:index", updated);
-    }
-  } else {
-    // In-memory fallback
-    getInMemoryStore().trainees.set(id, fullTrainee);
-
-    if (!isUpdate) {
-      const { index } = getInMemoryStore();
-      const filtered = index.filter((i) => i !== id);
-      index.length = 0;
-      index.push(id, ...filtered);
-      if (index.length > MAX_INDEX_SIZE) {
-        index.length = MAX_INDEX_SIZE;
-      }
-    }
+  // Save trainee
+  await storage.set(keys.trainee(id), fullTrainee);
+
+  // Update index if new (prepend to keep newest first)
+  if (!isUpdate) {
+    const index = (await storage.get<string[]>(keys.traineeIndex())) ?? [];
+    const filtered = index.filter((i) => i !== id);
+    const updated = [id, ...filtered];
+    await storage.set(keys.traineeIndex(), updated);
   }
 
   return fullTrainee;
 }
 
 /**
- * Soft delete a trainee (set isArchived = true)
+ * Soft delete a trainee (set isArchived = true). It stays in the trash until
+ * restored or purged (see lib/trash.ts).
  */
-export async function archiveTrainee(id: string): Promise<boolean> {
+export async function archiveTrainee(id: string, archivedBy = "system"): Promise<boolean> {
   const existing = await getTrainee(id);
   if (!existing) return false;
 
+  const now = new Date().toISOString();
   const archived: Trainee = {
     ...existing,
     isArchived: true,
-    updatedAt: new Date().toISOString(),
+    archivedAt: now,
+    archivedBy,
+    updatedAt: now,
   };
 
-  if (useKv()) {
-    await kv.set(`trainee:${id}`, archived);
-  } else {
-    getInMemoryStore().trainees.set(id, archived);
-  }
+  await getStorage().set(keys.trainee(id), archived);
 
   return true;
 }
+
+/**
+ * Undo archiveTrainee
+ */
+export async function restoreTrainee(id: string): Promise<Trainee | null> {
+  const existing = await getTrainee(id);
+  if (!existing) return null;
+
+  const restored: Trainee = {
+    ...existing,
+    isArchived: false,
+    archivedAt: undefined,
+    archivedBy: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await getStorage().set(keys.trainee(id), restored);
+
+  return restored;
+}
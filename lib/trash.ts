@@ -0,0 +1,112 @@
+/**
+ * Trash: archived conferences, personas and trainees.
+ *
+ * Archiving only sets isArchived (plus archivedAt / archivedBy), so anything
+ * archived by the editor, the admin cleanup endpoints or a content migration
+ * can be listed here and restored with one click. The purge job deletes
+ * trashed records for good once they are older than the retention policy's
+ * trash.purgeAfterDays (see lib/retention.ts).
+ */
+
+import { getConference, listConferences, restoreConference } from "./conferenceStore";
+import { getPersona, listPersonas, restorePersona } from "./personaStore";
+import { getTrainee, listTrainees, restoreTrainee } from "./traineeStore";
+import { formatTraineeFull } from "./formatUtils";
+
+export type TrashItemType = "conference" | "persona" | "trainee";
+
+export const TRASH_ITEM_TYPES: TrashItemType[] = ["conference", "persona", "trainee"];
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  name: string;
+  /** Records archived before archivedAt existed fall back to updatedAt */
+  archivedAt: string;
+  /** "system" for cleanup jobs and migrations; null when unknown */
+  archivedBy: string | null;
+  /**
+   * When the purge job will delete it (null: kept until restored, or
+   * archivedAt not stamped by the purge job yet)
+   */
+  purgeAfter: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When an archived record was archived (falls back to its last update)
+ */
+export function archivedSince(record: {
+  archivedAt?: string;
+  updatedAt?: string;
+  createdAt: string;
+}): string {
+  return record.archivedAt ?? record.updatedAt ?? record.createdAt;
+}
+
+/**
+ * Everything in the trash, most recently archived first.
+ * purgeAfterDays is the retention policy's trash.purgeAfterDays.
+ */
+export async function listTrash(purgeAfterDays: number | null): Promise<TrashItem[]> {
+  const [conferences, personas, trainees] = await Promise.all([
+    listConferences(true),
+    listPersonas(true),
+    listTrainees(true),
+  ]);
+
+  const toItem = (
+    type: TrashItemType,
+    record: { id: string; archivedAt?: string; archivedBy?: string; updatedAt?: string; createdAt: string },
+    name: string
+  ): TrashItem => {
+    const since = archivedSince(record);
+    return {
+      type,
+      id: record.id,
+      name,
+      archivedAt: since,
+      archivedBy: record.archivedBy ?? null,
+      purgeAfter:
+        purgeAfterDays === null || !record.archivedAt
+          ? null
+          : new Date(new Date(record.archivedAt).getTime() + purgeAfterDays * DAY_MS).toISOString(),
+    };
+  };
+
+  const items = [
+    ...conferences.filter((c) => c.isArchived).map((c) => toItem("conference", c, c.name)),
+    ...personas.filter((p) => p.isArchived).map((p) => toItem("persona", p, p.name)),
+    ...trainees.filter((t) => t.isArchived).map((t) => toItem("trainee", t, formatTraineeFull(t))),
+  ];
+  items.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+
+  return items;
+}
+
+/**
+ * Restore an item from the trash. Returns the record before and after, or an
+ * error when it does not exist or is not archived.
+ */
+export async function restoreFromTrash(
+  type: TrashItemType,
+  id: string
+): Promise<{ before: unknown; after: unknown; error?: string }> {
+  const store = {
+    conference: { get: getConference, restore: restoreConference },
+    persona: { get: getPersona, restore: restorePersona },
+    trainee: { get: getTrainee, restore: restoreTrainee },
+  }[type];
+
+  const before = await store.get(id);
+  if (!before) {
+    return { before: null, after: null, error: `${type} ${id} not found` };
+  }
+  if (!before.isArchived) {
+    return { before: null, after: null, error: `${type} ${id} is not in the trash` };
+  }
+
+  const after = await store.restore(id);
+  return { before, after };
+}
@@ -0,0 +1,83 @@
+/**
+ * Per-turn annotations: what each trainee message was (open or closed
+ * question, reflection, empathy, guardrail violations) and what it did
+ * (state before and after, the attendee intent it triggered).
+ *
+ * Built from the session event log, so they record what the analyzer saw
+ * at the time. Stored on the score (ScoreRecord.turnAnnotations) and
+ * rendered inline on the review and share pages.
+ */
+
+import type { SessionState } from "./storage";
+import type { SessionEvent } from "./sessionEvents";
+import { violationRuleId } from "./simulator";
+
+export interface TurnViolation {
+  /** Rule that fired, e.g. "early_pitch" (see violationRuleId) */
+  ruleId: string;
+  message: string;
+}
+
+export interface TurnAnnotation {
+  /** Transcript id of the trainee message */
+  messageId: string;
+  /** Trainee turn, from 1 */
+  turn: number;
+  text: string;
+  /** Missing when the message wasn't a question */
+  questionType?: "open" | "closed";
+  reflection: boolean;
+  empathy: boolean;
+  violations: TurnViolation[];
+  /** The answering attendee's state (group sessions) */
+  stateBefore: string;
+  stateAfter: string;
+  /** Intent the message triggered in the attendee (template replies) */
+  attendeeIntent?: string;
+}
+
+/**
+ * One annotation per trainee message in the log, in transcript order.
+ * Messages from before the log existed aren't annotated.
+ */
+export function annotateTurns(session: SessionState, events: SessionEvent[]): TurnAnnotation[] {
+  const annotations: TurnAnnotation[] = [];
+  let current: TurnAnnotation | null = null;
+
+  for (const event of events) {
+    if (event.type === "message_received") {
+      current = {
+        messageId: event.message.id,
+        turn: annotations.length + 1,
+        text: event.message.text,
+        reflection: false,
+        empathy: false,
+        violations: [],
+        stateBefore: session.currentState,
+        stateAfter: session.currentState,
+      };
+      annotations.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    switch (event.type) {
+      case "analysis_result":
+        current.stateBefore = event.state;
+        current.stateAfter = event.state;
+        if (event.isQuestion) current.questionType = event.isOpenEnded ? "open" : "closed";
+        current.reflection = event.stateSignals?.includes("reflection") ?? false;
+        current.empathy = event.isEmpathetic;
+        current.violations = event.issues.map((issue) => ({ ruleId: violationRuleId(issue), message: issue }));
+        break;
+      case "state_advanced":
+        current.stateAfter = event.to;
+        break;
+      case "intent_classified":
+        current.attendeeIntent = event.intent;
+        break;
+    }
+  }
+
+  return annotations;
+}
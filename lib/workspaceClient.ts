@@ -0,0 +1,51 @@
+/**
+ * Browser-side workspace helpers (safe to import from client components).
+ *
+ * The selected workspace lives in a cookie, so every same-origin fetch
+ * carries it without extra code. Public share pages have no cookie; their
+ * links carry ?workspace= instead and forward it with withWorkspaceParam.
+ */
+
+export const WORKSPACE_COOKIE = "hc_workspace";
+export const WORKSPACE_QUERY_PARAM = "workspace";
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * Workspace selected in this browser (null = default)
+ */
+export function readWorkspaceCookie(): string | null {
+  if (typeof document === "undefined") return null;
+
+  for (const part of document.cookie.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === WORKSPACE_COOKIE) return decodeURIComponent(rest.join("=")) || null;
+  }
+  return null;
+}
+
+export function setWorkspaceCookie(workspaceId: string): void {
+  document.cookie = `${WORKSPACE_COOKIE}=${encodeURIComponent(workspaceId)}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+}
+
+/**
+ * Append the page's ?workspace= (if any) to an API URL
+ */
+export function withWorkspaceParam(url: string): string {
+  if (typeof window === "undefined") return url;
+
+  const workspaceId = new URLSearchParams(window.location.search).get(WORKSPACE_QUERY_PARAM);
+  if (!workspaceId) return url;
+
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${WORKSPACE_QUERY_PARAM}=${encodeURIComponent(workspaceId)}`;
+}
+
+/**
+ * Share link for a public page, pinned to the selected workspace
+ */
+export function workspaceShareUrl(path: string): string {
+  const workspaceId = readWorkspaceCookie();
+  const url = `${window.location.origin}${path}`;
+  return workspaceId ? `${url}?${WORKSPACE_QUERY_PARAM}=${encodeURIComponent(workspaceId)}` : url;
+}
@@ -0,0 +1,301 @@
+/**
+ * Workspaces: separate rosters, scenario libraries and leaderboards on one
+ * deployment.
+ *
+ * Every API route runs inside a workspace (withWorkspace). The workspace comes
+ * from, in order:
+ * 1. the owner record of the invite token / session ID in the URL, so trainee,
+ *    share and review links work without any workspace selected
+ * 2. the x-workspace-id header
+ * 3. the ?workspace= query param (public leaderboard/insights links)
+ * 4. the hc_workspace cookie set by the TabsNav switcher
+ * 5. the default workspace
+ *
+ * Stores need no changes: getStorage() prefixes keys for the current
+ * workspace (see lib/persistence/workspaceScope.ts). The workspace registry
+ * and owner records are global.
+ */
+
+import { getGlobalStorage, getWorkspaceStorage } from "./persistence";
+import { keys } from "./persistence/keys";
+import {
+  DEFAULT_WORKSPACE_ID,
+  currentWorkspaceId,
+  runInWorkspace,
+} from "./persistence/workspaceScope";
+import { WORKSPACE_COOKIE, WORKSPACE_QUERY_PARAM } from "./workspaceClient";
+import {
+  exportArchive,
+  importArchive,
+  type ConflictPolicy,
+  type ImportReport,
+} from "./persistence/archive";
+
+export { DEFAULT_WORKSPACE_ID, currentWorkspaceId, runInWorkspace };
+export { WORKSPACE_COOKIE, WORKSPACE_QUERY_PARAM };
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export const WORKSPACE_HEADER = "x-workspace-id";
+
+const DEFAULT_WORKSPACE: Workspace = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: "Default",
+  createdAt: new Date(0).toISOString(),
+};
+
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * Check a workspace ID (lowercase slug, max 40 chars)
+ */
+export function isValidWorkspaceId(id: string): boolean {
+  return WORKSPACE_ID_PATTERN.test(id);
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .substring(0, 40);
+}
+
+/**
+ * List workspaces (default first, then creation order)
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const storage = getGlobalStorage();
+  const index = (await storage.get<string[]>(keys.workspaceIndex())) ?? [];
+  const records = await storage.mget<Workspace>(index.map((id) => keys.workspace(id)));
+
+  return [
+    DEFAULT_WORKSPACE,
+    ...records.filter((workspace): workspace is Workspace => workspace !== null),
+  ];
+}
+
+/**
+ * Get a single workspace by ID
+ */
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  if (id === DEFAULT_WORKSPACE_ID) return DEFAULT_WORKSPACE;
+  return getGlobalStorage().get<Workspace>(keys.workspace(id));
+}
+
+/**
+ * Create a workspace. The ID defaults to a slug of the name.
+ */
+export async function createWorkspace(input: {
+  name: string;
+  id?: string;
+  createdBy?: string;
+}): Promise<{ workspace: Workspace | null; error?: string }> {
+  const name = input.name.trim();
+  if (!name) {
+    return { workspace: null, error: "Workspace name is required" };
+  }
+
+  const id = input.id?.trim() || slugify(name);
+  if (!isValidWorkspaceId(id)) {
+    return {
+      workspace: null,
+      error: "Workspace ID must be lowercase letters, digits and dashes (max 40 chars)",
+    };
+  }
+  if (await getWorkspace(id)) {
+    return { workspace: null, error: `Workspace ${id} already exists` };
+  }
+
+  const workspace: Workspace = {
+    id,
+    name,
+    createdAt: new Date().toISOString(),
+    createdBy: input.createdBy,
+  };
+
+  const storage = getGlobalStorage();
+  const index = (await storage.get<string[]>(keys.workspaceIndex())) ?? [];
+  await storage.setMany([
+    { key: keys.workspace(id), value: workspace },
+    { key: keys.workspaceIndex(), value: [...index.filter((existing) => existing !== id), id] },
+  ]);
+
+  return { workspace };
+}
+
+/**
+ * Record that invite tokens / session IDs belong to the current workspace,
+ * so links that carry only the token resolve to it. No-op in the default
+ * workspace (unowned IDs resolve there anyway).
+ */
+export async function recordWorkspaceOwner(ids: string[]): Promise<void> {
+  const workspaceId = currentWorkspaceId();
+  if (workspaceId === DEFAULT_WORKSPACE_ID) return;
+
+  await getGlobalStorage().setMany(
+    ids.map((id) => ({ key: keys.workspaceOwner(id), value: { workspaceId } }))
+  );
+}
+
+/**
+ * Drop the owner records of deleted invite tokens / session IDs. Records that
+ * point at another workspace (the same ID imported there) are kept.
+ */
+export async function forgetWorkspaceOwner(ids: string[]): Promise<void> {
+  const workspaceId = currentWorkspaceId();
+  if (workspaceId === DEFAULT_WORKSPACE_ID || ids.length === 0) return;
+
+  const storage = getGlobalStorage();
+  const owners = await storage.mget<{ workspaceId: string }>(ids.map(keys.workspaceOwner));
+  await Promise.all(
+    ids
+      .filter((_, i) => owners[i]?.workspaceId === workspaceId)
+      .map((id) => storage.del(keys.workspaceOwner(id)))
+  );
+}
+
+/**
+ * Read a cookie from a request's Cookie header
+ */
+export function readRequestCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+/**
+ * Resolve the workspace for a request. Unknown workspaces fall back to the
+ * default so a stale cookie never locks anyone out.
+ */
+export async function resolveRequestWorkspace(
+  request: Request,
+  ownedId?: string
+): Promise<string> {
+  if (ownedId) {
+    const owner = await getGlobalStorage().get<{ workspaceId: string }>(
+      keys.workspaceOwner(ownedId)
+    );
+    if (owner) return owner.workspaceId;
+  }
+
+  const requested =
+    request.headers.get(WORKSPACE_HEADER) ||
+    new URL(request.url).searchParams.get(WORKSPACE_QUERY_PARAM) ||
+    readRequestCookie(request, WORKSPACE_COOKIE);
+
+  if (!requested || requested === DEFAULT_WORKSPACE_ID) {
+    return DEFAULT_WORKSPACE_ID;
+  }
+
+  if (!isValidWorkspaceId(requested) || !(await getWorkspace(requested))) {
+    console.warn(`[Workspaces] Unknown workspace "${requested}", using default`);
+    return DEFAULT_WORKSPACE_ID;
+  }
+
+  return requested;
+}
+
+/**
+ * Wrap a route handler so it (and every store it calls) runs in the
+ * request's workspace.
+ *
+ * ownerParam names the route param holding an invite token or session ID
+ * whose owner record decides the workspace (trainee, share and review links).
+ */
+export function withWorkspace<Req extends Request, Ctx, Res>(
+  handler: (request: Req, context: Ctx) => Promise<Res>,
+  options: { ownerParam?: string } = {}
+): (request: Req, context: Ctx) => Promise<Res> {
+  return async (request, context) => {
+    let ownedId: string | undefined;
+    if (options.ownerParam) {
+      const params = (await Promise.resolve(
+        (context as { params?: unknown } | undefined)?.params
+      )) as Record<string, string> | undefined;
+      ownedId = params?.[options.ownerParam];
+    }
+
+    const workspaceId = await resolveRequestWorkspace(request, ownedId);
+    return runInWorkspace(workspaceId, () => handler(request, context));
+  };
+}
+
+/**
+ * Copy scenario content (conferences, personas, prompt bundles and the
+ * enrichments cached for the copied conference/persona pairs) from one
+ * workspace to another. Runs through the archive importer in merge mode, so
+ * conflicts follow the same skip / overwrite / rename rules as a restore.
+ */
+export async function shareScenarioContent(options: {
+  from: string;
+  to: string;
+  conferenceIds: string[];
+  personaIds: string[];
+  promptBundleIds: string[];
+  onConflict: ConflictPolicy;
+  dryRun: boolean;
+}): Promise<{ report: ImportReport | null; error?: string }> {
+  const { from, to } = options;
+  if (from === to) {
+    return { report: null, error: "Source and target workspace are the same" };
+  }
+
+  const [source, target] = await Promise.all([getWorkspace(from), getWorkspace(to)]);
+  if (!source) return { report: null, error: `Workspace ${from} not found` };
+  if (!target) return { report: null, error: `Workspace ${to} not found` };
+
+  const archive = await exportArchive(getWorkspaceStorage(from));
+  const conferenceIds = new Set(options.conferenceIds);
+  const personaIds = new Set(options.personaIds);
+  const bundleIds = new Set(options.promptBundleIds);
+
+  const conferences = archive.data.conferences.filter((c) => conferenceIds.has(c.id));
+  const personas = archive.data.personas.filter((p) => personaIds.has(p.id));
+  const promptBundles = archive.data.promptBundles.filter((b) => bundleIds.has(b.id));
+
+  const found = conferences.length + personas.length + promptBundles.length;
+  const requested = conferenceIds.size + personaIds.size + bundleIds.size;
+  if (requested === 0) {
+    return { report: null, error: "Nothing selected to share" };
+  }
+  if (found < requested) {
+    return { report: null, error: `Some selected items do not exist in workspace ${from}` };
+  }
+
+  const report = await importArchive(
+    getWorkspaceStorage(to),
+    {
+      ...archive,
+      data: {
+        conferences,
+        personas,
+        trainees: [],
+        promptBundles,
+        activePromptBundleId: null,
+        enrichments: archive.data.enrichments.filter(
+          (e) => conferenceIds.has(e.conferenceId) && personaIds.has(e.personaId)
+        ),
+        invites: [],
+        sessions: [],
+        sessionEvents: {},
+        scores: [],
+        leaderboard: [],
+      },
+    },
+    { mode: "merge", onConflict: options.onConflict, dryRun: options.dryRun }
+  );
+
+  return { report };
+}
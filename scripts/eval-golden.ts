@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Run the golden conversation corpus (scripts/golden/*.json) through the real
+ * simulator, attendee and scoring logic and report pass/fail with per-turn
+ * diffs (see lib/goldenCorpus.ts).
+ *
+ * Usage:
+ *   npm run test:golden
+ *   npm run test:golden -- premature-exit   # only entries whose name contains this
+ *   npm run test:golden -- --verbose        # print every turn, not just failures
+ *
+ * Runs in-process on the in-memory store; no server or API keys needed.
+ * Exits 1 when any entry fails.
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  evaluateGoldenConversation,
+  validateGoldenConversation,
+  type GoldenConversation,
+  type GoldenResult,
+} from "../lib/goldenCorpus";
+
+const CORPUS_DIR = path.join(__dirname, "golden");
+
+function printResult(result: GoldenResult, verbose: boolean) {
+  console.log(`${result.passed ? "✅" : "❌"} ${result.name}`);
+  if (result.error) {
+    console.log(`    error: ${result.error}`);
+    return;
+  }
+
+  const failedTurns = new Set(result.mismatches.map((m) => m.turn));
+  for (const turn of result.replay?.turns ?? []) {
+    if (!verbose && !failedTurns.has(turn.turn)) continue;
+    const { replayed } = turn;
+    console.log(
+      `    Turn ${turn.turn}: ${replayed.state}, ${replayed.source}` +
+        `${replayed.intent ? ` ${replayed.intent}` : ""}${replayed.endPromptOutcome ? `, end prompt ${replayed.endPromptOutcome}` : ""}`
+    );
+    console.log(`      Trainee:  ${turn.trainee}`);
+    console.log(`      Attendee: ${replayed.reply}`);
+    for (const mismatch of result.mismatches.filter((m) => m.turn === turn.turn)) {
+      console.log(`      ✗ ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`);
+    }
+  }
+
+  for (const mismatch of result.mismatches.filter((m) => m.turn === undefined)) {
+    console.log(`    ✗ ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`);
+  }
+  if (verbose && result.replay) {
+    const { replayed } = result.replay;
+    console.log(`    Final: ${replayed.finalState}, outcome ${replayed.outcome ?? "none"}, score ${replayed.score} (${replayed.grade})`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes("--verbose");
+  const filter = args.find((arg) => !arg.startsWith("--"));
+
+  // Keep the run self-contained (and lib logging out of the report)
+  process.env.STORAGE_BACKEND = "memory";
+  const { log, warn } = console;
+  const quiet = () => {
+    if (!verbose) console.log = console.warn = () => {};
+  };
+  const loud = () => {
+    console.log = log;
+    console.warn = warn;
+  };
+
+  const files = fs.readdirSync(CORPUS_DIR).filter((file) => file.endsWith(".json")).sort();
+  let failed = 0;
+  let ran = 0;
+
+  for (const file of files) {
+    const entry = JSON.parse(fs.readFileSync(path.join(CORPUS_DIR, file), "utf8"));
+    if (filter && !String(entry.name).includes(filter)) continue;
+    ran++;
+
+    const errors = validateGoldenConversation(entry);
+    if (errors.length > 0) {
+      failed++;
+      console.log(`❌ ${file}: invalid entry`);
+      for (const error of errors) console.log(`    ${error.path || "(root)"}: ${error.message}`);
+      continue;
+    }
+
+    quiet();
+    const result = await evaluateGoldenConversation(entry as GoldenConversation);
+    loud();
+    if (!result.passed) failed++;
+    printResult(result, verbose);
+  }
+
+  console.log(`\n${ran - failed}/${ran} golden conversations passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("❌", error);
+  process.exit(1);
+});
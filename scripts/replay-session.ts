@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Replay a session offline against the current templates, detectors, config
+ * and prompt bundle, and print what changed (see lib/offlineReplay.ts).
+ *
+ * Usage:
+ *   npm run replay -- <sessionId> [options]
+ *   npm run replay -- --input replay.json [options]
+ *
+ * Options:
+ *   --provider recorded|mock   Where LLM replies come from (default: recorded)
+ *   --bundle <id>              Prompt bundle (default: active)
+ *   --config-version <n>       Simulator config version (default: the session's)
+ *   --workspace <id>           Workspace (default: default)
+ *   --json                     Print the full replay result
+ *
+ * --input reads { messages, outcomeSeed, kickoff } from a JSON file.
+ * Runs in-process: no server needed. Stored sessions are read from the
+ * configured storage backend (STORAGE_BACKEND, or KV when its environment is
+ * set). Exits 1 when the replay differs from the original, 2 on errors.
+ */
+
+import fs from "fs";
+import { getSession } from "../lib/storage";
+import { DEFAULT_WORKSPACE_ID, runInWorkspace } from "../lib/workspaces";
+import {
+  replaySessionOffline,
+  type AdHocReplayInput,
+  type OfflineReplayResult,
+  type ReplayOptions,
+  type ReplayProvider,
+  type ReplaySummary,
+} from "../lib/offlineReplay";
+
+interface Args extends ReplayOptions {
+  sessionId?: string;
+  input?: string;
+  workspace?: string;
+  json?: boolean;
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    if (arg === "--provider") args.provider = next() as ReplayProvider;
+    else if (arg === "--bundle") args.promptBundleId = next();
+    else if (arg === "--config-version") args.configVersion = Number(next());
+    else if (arg === "--workspace") args.workspace = next();
+    else if (arg === "--input") args.input = next();
+    else if (arg === "--json") args.json = true;
+    else if (!arg.startsWith("--")) args.sessionId = arg;
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+  return args;
+}
+
+function printTurns(result: OfflineReplayResult) {
+  for (const turn of result.turns) {
+    const marker = turn.changed.length > 0 ? "~" : " ";
+    console.log(`${marker} Turn ${turn.turn} [${turn.replayed.source}, ${turn.replayed.state}]`);
+    console.log(`    Trainee:  ${turn.trainee}`);
+    for (const message of turn.replayed.systemMessages) {
+      console.log(`    System:   ${message}`);
+    }
+    if (turn.changed.length > 0 && turn.original) {
+      console.log(`    Original: ${turn.original.reply}`);
+      console.log(`    Replayed: ${turn.replayed.reply}`);
+      console.log(`    Changed:  ${turn.changed.join(", ")}`);
+    } else {
+      console.log(`    Attendee: ${turn.replayed.reply}`);
+    }
+  }
+}
+
+function printSummary(label: string, summary: ReplaySummary) {
+  console.log(`${label}: ${summary.finalState}, outcome ${summary.outcome || "none"}, score ${summary.score} (${summary.grade})`);
+  console.log(`  ${summary.stateHistory.join(" | ") || "no transitions"}`);
+}
+
+async function replay(args: Args): Promise<OfflineReplayResult> {
+  const options: ReplayOptions = {
+    provider: args.provider,
+    promptBundleId: args.promptBundleId,
+    configVersion: args.configVersion,
+  };
+
+  if (args.input) {
+    const input = JSON.parse(fs.readFileSync(args.input, "utf8")) as AdHocReplayInput;
+    if (
+      !Array.isArray(input.messages) ||
+      !input.messages.every((m) => typeof m === "string") ||
+      typeof input.outcomeSeed !== "string" ||
+      !input.kickoff ||
+      typeof input.kickoff !== "object"
+    ) {
+      throw new Error("--input needs messages (strings), an outcomeSeed string and a kickoff object");
+    }
+    const { result, error } = await replaySessionOffline(input, options);
+    if (!result) throw new Error(error);
+    return result;
+  }
+
+  const session = await getSession(args.sessionId!);
+  if (!session) throw new Error(`Session ${args.sessionId} not found`);
+  const { result, error } = await replaySessionOffline(session, options);
+  if (!result) throw new Error(error);
+  return result;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.sessionId && !args.input) throw new Error("Pass a session ID or --input <file>");
+  if (args.configVersion !== undefined && (!Number.isInteger(args.configVersion) || args.configVersion < 0)) {
+    throw new Error("--config-version must be a whole number (0 = bundled config)");
+  }
+
+  // Keep lib logging out of the report
+  const { log, warn } = console;
+  console.log = console.warn = () => {};
+  let result: OfflineReplayResult;
+  try {
+    result = await runInWorkspace(args.workspace ?? DEFAULT_WORKSPACE_ID, () => replay(args));
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`Replay of ${result.sessionId || "ad-hoc input"} (provider ${result.provider}, bundle ${result.promptBundle.id} ${result.promptBundle.version}, config v${result.configVersion})\n`);
+    printTurns(result);
+    console.log("");
+    if (result.original) printSummary("Original", result.original);
+    printSummary("Replayed", result.replayed);
+    console.log("");
+    if (result.original) {
+      console.log(result.identical ? "✅ Identical to the original" : `⚠️  Changed: ${result.changes.join(", ")}`);
+    }
+  }
+
+  process.exit(result.original && !result.identical ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+});
@@ -2,6 +2,9 @@
 /**
  * Validates simulator.config.json structure and schema.
  *
+ * Uses the same validator as the admin config editor, so every error is
+ * reported with its path (e.g. conversation_rules.turn_limits.easy).
+ *
  * Usage: node scripts/validate-config.js
  * Exit code: 0 on success, 1 on failure
  */
@@ -10,8 +13,38 @@ const fs = require('fs');
 const path = require('path');
 
 const CONFIG_PATH = path.join(__dirname, '../lib/simulator.config.json');
+const SCHEMA_PATH = path.join(__dirname, '../lib/simulatorConfigSchema.ts');
+const SIMULATOR_PATH = path.join(__dirname, '../lib/simulator.ts');
+
+/**
+ * Load the TypeScript schema module (it has no imports, so transpiling it
+ * on its own is enough)
+ */
+async function loadSchema() {
+  const { default: ts } = await import('typescript');
+  const { Module } = await import('module');
+
+  const source = fs.readFileSync(SCHEMA_PATH, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+
+  const schema = new Module(SCHEMA_PATH, module);
+  schema._compile(outputText, SCHEMA_PATH);
+  return schema.exports;
+}
 
-function validateConfig() {
+/**
+ * The state-graph signal names the simulator knows (lib/simulator.ts has
+ * imports, so it goes through jiti)
+ */
+async function loadStateGraphSignals() {
+  const { createJiti } = await import('jiti');
+  const { STATE_GRAPH_SIGNALS } = await createJiti(__filename).import(SIMULATOR_PATH);
+  return STATE_GRAPH_SIGNALS;
+}
+
+async function validateConfig() {
   console.log('🔍 Validating simulator.config.json...\n');
 
   // 1. Check file exists
@@ -32,136 +65,22 @@ function validateConfig() {
     process.exit(1);
   }
 
-  // 3. Validate top-level structure
-  const requiredKeys = [
-    'simulator_name',
-    'version',
-    'state_order',
-    'states',
-    'conversation_rules',
-    'mql_cues',
-    'stakeholder_types',
-    'grading_criteria'
-  ];
-
-  const missing = requiredKeys.filter(key => !(key in config));
-  if (missing.length > 0) {
-    console.error('❌ ERROR: Missing required top-level keys:', missing.join(', '));
-    process.exit(1);
-  }
-  console.log('✅ All required top-level keys present');
-
-  // 4. Validate states structure
-  const states = config.states;
-  const stateOrder = config.state_order;
-
-  if (!Array.isArray(stateOrder) || stateOrder.length === 0) {
-    console.error('❌ ERROR: state_order must be a non-empty array');
-    process.exit(1);
-  }
-
-  for (const stateName of stateOrder) {
-    if (!(stateName in states)) {
-      console.error(`❌ ERROR: State "${stateName}" in state_order not found in states object`);
-      process.exit(1);
-    }
-
-    const state = states[stateName];
-    if (!state.description) {
-      console.error(`❌ ERROR: State "${stateName}" missing description`);
-      process.exit(1);
+  // 3. Validate against the schema the app uses (lib/simulatorConfigSchema.ts)
+  const { validateSimulatorConfig, formatConfigErrors } = await loadSchema();
+  const { errors } = validateSimulatorConfig(config, { signals: await loadStateGraphSignals() });
+  if (errors.length > 0) {
+    console.error(`❌ ERROR: ${errors.length} schema error(s):`);
+    for (const line of formatConfigErrors(errors)) {
+      console.error(`   - ${line}`);
     }
-  }
-  console.log('✅ State structure valid');
-
-  // 5. Validate OUTCOME state
-  const outcome = states.OUTCOME;
-  if (!outcome) {
-    console.error('❌ ERROR: OUTCOME state not found');
-    process.exit(1);
-  }
-
-  if (!Array.isArray(outcome.possible_outcomes) || outcome.possible_outcomes.length === 0) {
-    console.error('❌ ERROR: OUTCOME.possible_outcomes must be a non-empty array');
-    process.exit(1);
-  }
-
-  const requiredOutcomes = ['DEMO_READY', 'SELF_SERVICE_READY', 'MQL_READY', 'POLITE_EXIT'];
-  for (const required of requiredOutcomes) {
-    if (!outcome.possible_outcomes.includes(required)) {
-      console.error(`❌ ERROR: Missing required outcome: ${required}`);
-      process.exit(1);
-    }
-  }
-  console.log('✅ OUTCOME state valid with all required outcomes');
-
-  // 6. Validate MQL configuration
-  if (!Array.isArray(config.mql_cues) || config.mql_cues.length === 0) {
-    console.error('❌ ERROR: mql_cues must be a non-empty array');
     process.exit(1);
   }
-  console.log(`✅ MQL cues configured (${config.mql_cues.length} cues)`);
+  console.log('✅ Config matches the simulator config schema');
 
-  // 7. Validate stakeholder types
+  const stateOrder = config.state_order;
+  const outcome = config.states.OUTCOME;
   const stakeholders = config.stakeholder_types;
-  if (!stakeholders.executive || !stakeholders.ic_without_authority) {
-    console.error('❌ ERROR: stakeholder_types must include executive and ic_without_authority');
-    process.exit(1);
-  }
-
-  if (!Array.isArray(stakeholders.executive.titles) || stakeholders.executive.titles.length === 0) {
-    console.error('❌ ERROR: stakeholder_types.executive.titles must be a non-empty array');
-    process.exit(1);
-  }
-
-  if (!Array.isArray(stakeholders.ic_without_authority.titles) || stakeholders.ic_without_authority.titles.length === 0) {
-    console.error('❌ ERROR: stakeholder_types.ic_without_authority.titles must be a non-empty array');
-    process.exit(1);
-  }
-  console.log('✅ Stakeholder types configured');
-
-  // 8. Validate grading criteria
-  const grading = config.grading_criteria;
-  if (!grading.A_B || !grading.C || !grading.D || !grading.F) {
-    console.error('❌ ERROR: grading_criteria must include A_B, C, D, and F');
-    process.exit(1);
-  }
-
-  if (!grading.mql_grading_rules) {
-    console.error('❌ ERROR: grading_criteria missing mql_grading_rules');
-    process.exit(1);
-  }
-
-  if (!Array.isArray(grading.F.exclusions) || grading.F.exclusions.length === 0) {
-    console.error('❌ ERROR: grading_criteria.F.exclusions must be a non-empty array');
-    process.exit(1);
-  }
-
-  const hasMLQExclusion = grading.F.exclusions.some(ex =>
-    ex.includes('MQL_READY') && ex.includes('never')
-  );
-  const hasSelfServiceExclusion = grading.F.exclusions.some(ex =>
-    ex.includes('SELF_SERVICE_READY') && ex.includes('never')
-  );
-
-  if (!hasMLQExclusion) {
-    console.error('❌ ERROR: MQL_READY must be excluded from F grade');
-    process.exit(1);
-  }
-
-  if (!hasSelfServiceExclusion) {
-    console.error('❌ ERROR: SELF_SERVICE_READY must be excluded from F grade');
-    process.exit(1);
-  }
-  console.log('✅ Grading criteria valid with proper exclusions');
-
-  // 9. Validate turn limits
-  const turnLimits = config.conversation_rules?.turn_limits;
-  if (!turnLimits || !turnLimits.easy || !turnLimits.medium || !turnLimits.hard) {
-    console.error('❌ ERROR: conversation_rules.turn_limits must include easy, medium, and hard');
-    process.exit(1);
-  }
-  console.log('✅ Turn limits configured');
+  const turnLimits = config.conversation_rules.turn_limits;
 
   console.log('\n🎉 All validation checks passed!\n');
   console.log('Summary:');
@@ -174,10 +93,8 @@ function validateConfig() {
   console.log(`  - Turn limits: easy=${turnLimits.easy}, medium=${turnLimits.medium}, hard=${turnLimits.hard}`);
 }
 
-try {
-  validateConfig();
-} catch (err) {
+validateConfig().catch((err) => {
   console.error('❌ UNEXPECTED ERROR:', err.message);
   console.error(err.stack);
   process.exit(1);
-}
+});